@@ -1,8 +1,31 @@
-import { exec } from 'child_process';
+import { exec, execFile, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { promisify } from 'util';
 import * as vscode from 'vscode';
+import { AdbDirEntry, AdbFileStat, AdbServerClient, AdbServerUnavailableError, AdbStream, DEFAULT_ADB_SERVER_PORT } from './adbProtocol';
+import { DeviceSpec, InstallOptions, installFlags, parseDeviceSpec } from './apkInstall';
+import { toInputSteps } from './inputEvents';
+import {
+    ActivityLaunchResult,
+    buildAmCommand,
+    DeviceActivity,
+    IntentSpec,
+    parseActivityResolverTable,
+    parseStartResult,
+    StartOptions
+} from './intents';
+import { parseForwardList, parseReverseList, PortRule } from './portForwards';
+import { MdnsService, parseMdnsServices, parseWifiAddress } from './wirelessPairing';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+/**
+ * Printed after a shell command with its exit status; see executeShellCommandWithStatus.
+ */
+const EXIT_STATUS_MARKER = '__adb_pro_exit=';
 
 /**
  * Represents a connected Android device.
@@ -16,19 +39,127 @@ export interface ConnectedDevice {
     connectionType: 'wired' | 'wireless';
 }
 
+/**
+ * Options for `screenrecord`. Unset values use the device defaults.
+ */
+export interface ScreenRecordOptions {
+    /**
+     * Video bit rate in bits per second.
+     */
+    bitRate?: number;
+    /**
+     * Video size as WIDTHxHEIGHT.
+     */
+    size?: string;
+    /**
+     * Recording length in seconds (screenrecord allows at most 180).
+     */
+    timeLimit?: number;
+}
+
 /**
  * Client for interacting with the Android Debug Bridge (ADB).
+ * Talks to the ADB server's smart-socket protocol directly and falls back
+ * to spawning the adb CLI when the server cannot be reached.
  */
 export class AdbClient {
     private adbPath: string;
+    private server: AdbServerClient;
 
     constructor(private outputChannel: vscode.OutputChannel) {
         const config = vscode.workspace.getConfiguration('adb');
         this.adbPath = config.get<string>('path') || 'adb';
+        // The contributed default must not hide ANDROID_ADB_SERVER_PORT, so only a port the user set wins over it
+        const serverPort = config.inspect<number>('serverPort');
+        const port = serverPort?.workspaceFolderValue ?? serverPort?.workspaceValue ?? serverPort?.globalValue
+            ?? (Number(process.env.ANDROID_ADB_SERVER_PORT) || DEFAULT_ADB_SERVER_PORT);
+        this.server = new AdbServerClient('127.0.0.1', port, line => this.debugLog(line));
+    }
+
+    private isDebug(): boolean {
+        return vscode.workspace.getConfiguration('adb').get<boolean>('debug') || false;
+    }
+
+    private debugLog(line: string) {
+        if (this.isDebug()) {
+            this.outputChannel.appendLine(line);
+        }
+    }
+
+    /**
+     * Runs an operation against the ADB server, falling back to the CLI when the server is unreachable.
+     * @param operation The operation using the smart-socket protocol.
+     * @param fallback The equivalent operation using the adb CLI.
+     */
+    private async withServer<T>(operation: (server: AdbServerClient) => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+        try {
+            return await operation(this.server);
+        } catch (error: any) {
+            if (error instanceof AdbServerUnavailableError) {
+                this.debugLog(`${error.message}. Falling back to adb CLI.`);
+                return fallback();
+            }
+            this.debugLog(`Error: ${error.message}`);
+            throw new Error(`ADB Error: ${error.message}`);
+        }
+    }
+
+    /**
+     * Runs a shell command on the device and returns its trimmed output.
+     */
+    private async shell(deviceId: string, command: string): Promise<string> {
+        return this.withServer(
+            async server => {
+                const output = await server.shell(deviceId, command);
+                this.debugLog(output);
+                return output.trim();
+            },
+            () => this.execute(['-s', deviceId, 'shell', command])
+        );
+    }
+
+    /**
+     * Opens a long-running shell command as a stream (e.g. logcat).
+     */
+    private async shellStream(deviceId: string, command: string): Promise<AdbStream> {
+        return this.withServer(
+            server => server.openService(deviceId, `shell:${command}`),
+            async () => spawnStream(this.adbPath, ['-s', deviceId, 'shell', command])
+        );
+    }
+
+    /**
+     * Runs a command and returns its raw binary output (`adb exec-out`).
+     */
+    private async execOut(deviceId: string, command: string): Promise<Buffer> {
+        return this.withServer(
+            server => server.exec(deviceId, command),
+            async () => {
+                const { stdout } = await execFileAsync(this.adbPath, ['-s', deviceId, 'exec-out', command], {
+                    encoding: 'buffer',
+                    maxBuffer: 512 * 1024 * 1024
+                });
+                return stdout;
+            }
+        );
+    }
+
+    /**
+     * Runs a shell command as a debuggable app (`run-as`), starting in the app's data directory.
+     * @throws Error explaining why, if run-as refuses (not debuggable, not installed, ...).
+     */
+    private async runAs(deviceId: string, packageName: string, command: string): Promise<string> {
+        const output = await this.shell(deviceId, `run-as ${packageName} sh -c ${shellQuote(command)} 2>&1`);
+        checkRunAsOutput(output, packageName);
+        return output;
     }
 
-    private async execute(command: string): Promise<string> {
-        const fullCommand = `"${this.adbPath}" ${command}`;
+    /**
+     * Runs the adb CLI. Arguments given as an array are passed to adb without a host shell,
+     * so device shell commands and paths arrive unchanged on every platform.
+     */
+    private async execute(command: string | string[]): Promise<string> {
+        const fullCommand = Array.isArray(command) ? [this.adbPath, ...command].join(' ') : `"${this.adbPath}" ${command}`;
         const config = vscode.workspace.getConfiguration('adb');
         const debug = config.get<boolean>('debug') || false;
 
@@ -36,7 +167,7 @@ export class AdbClient {
             this.outputChannel.appendLine(`> ${fullCommand}`);
         }
         try {
-            const { stdout, stderr } = await execAsync(fullCommand);
+            const { stdout, stderr } = Array.isArray(command) ? await execFileAsync(this.adbPath, command) : await execAsync(fullCommand);
             if (debug && stdout) {
                 this.outputChannel.appendLine(stdout);
             }
@@ -63,11 +194,15 @@ export class AdbClient {
      * @returns A promise that resolves to an array of ConnectedDevice objects.
      */
     async getConnectedDevices(): Promise<ConnectedDevice[]> {
-        const output = await this.execute('devices -l');
-        const lines = output.split('\n').slice(1); // Skip first line "List of devices attached"
-        return lines
+        const output = await this.withServer(
+            server => server.hostQuery('host:devices-l'),
+            () => this.execute('devices -l')
+        );
+        return output
+            .split('\n')
             .map(line => line.trim())
-            .filter(line => line.length > 0)
+            // The CLI prints a "List of devices attached" header and "* daemon ..." notices; the server does not
+            .filter(line => line.length > 0 && !line.startsWith('List of devices') && !line.startsWith('*'))
             .map(line => {
                 // Parse line: "emulator-5554 device product:sdk_gphone64_arm64 model:sdk_gphone64_arm64 device:emulator64_arm64 transport_id:1"
                 // or "192.168.1.5:5555 device product:bramble model:Pixel_4a__5G_ device:bramble transport_id:2"
@@ -93,7 +228,9 @@ export class AdbClient {
                 // Determine connection type
                 // IP address pattern: digits.digits.digits.digits:digits
                 const isIpAddress = /^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}:\d+$/.test(id);
-                const connectionType = isIpAddress ? 'wireless' : 'wired';
+                // Devices the server connected to through mDNS (wireless debugging) are named after the service
+                const isMdnsService = id.endsWith('._adb-tls-connect._tcp');
+                const connectionType = isIpAddress || isMdnsService ? 'wireless' : 'wired';
 
                 return {
                     id,
@@ -106,72 +243,625 @@ export class AdbClient {
             });
     }
 
+    /**
+     * Opens a stream that emits whenever the set of devices or their state changes.
+     * The stream ends when the ADB server goes away.
+     */
+    async trackDevices(): Promise<AdbStream> {
+        return this.withServer(
+            server => server.openHostService('host:track-devices'),
+            async () => spawnStream(this.adbPath, ['track-devices'])
+        );
+    }
+
     async connectToDevice(ip: string): Promise<string> {
-        return this.execute(`connect ${ip}`);
+        return this.withServer(
+            server => server.hostQuery(`host:connect:${ip}`),
+            () => this.execute(`connect ${ip}`)
+        );
+    }
+
+    /**
+     * Pairs with a device for wireless debugging (Android 11+), like `adb pair`.
+     * @param address ip:port of the device's pairing service (not its connect port).
+     * @param code The pairing code shown on the device, or the QR code's password.
+     * @returns adb's reply, e.g. "Successfully paired to ... [guid=...]" or "Failed: ...".
+     */
+    async pairDevice(address: string, code: string): Promise<string> {
+        return this.withServer(
+            server => server.hostQuery(`host:pair:${code}:${address}`),
+            () => this.execute(`pair ${address} ${code}`)
+        );
+    }
+
+    /**
+     * Lists the ADB services the server has discovered over mDNS, like `adb mdns services`.
+     * @param startServer Whether to fall back to the adb CLI, which starts the server if it is not
+     * running. Without it, a stopped server lists no services.
+     */
+    async getMdnsServices(startServer: boolean = true): Promise<MdnsService[]> {
+        const output = await this.withServer(
+            server => server.hostQuery('host:mdns:services'),
+            async () => startServer ? this.execute('mdns services') : ''
+        );
+        return parseMdnsServices(output);
+    }
+
+    /**
+     * Restarts adbd on the device listening on a TCP port, like `adb tcpip <port>`.
+     * The device's current connection drops while adbd restarts.
+     */
+    async restartInTcpMode(deviceId: string, port: number): Promise<string> {
+        return this.withServer(
+            async server => (await server.deviceQuery(deviceId, `tcpip:${port}`)).trim(),
+            () => this.execute(`-s ${deviceId} tcpip ${port}`)
+        );
+    }
+
+    /**
+     * Restarts adbd on the device in USB mode, like `adb usb`. Wireless connections to it drop.
+     */
+    async restartInUsbMode(deviceId: string): Promise<string> {
+        return this.withServer(
+            async server => (await server.deviceQuery(deviceId, 'usb:')).trim(),
+            () => this.execute(`-s ${deviceId} usb`)
+        );
+    }
+
+    /**
+     * Returns the device's IPv4 address on Wi-Fi, or undefined if it is not on a Wi-Fi network.
+     */
+    async getWifiAddress(deviceId: string): Promise<string | undefined> {
+        const output = await this.shell(deviceId, 'ip route 2>/dev/null; ip addr show wlan0 2>/dev/null');
+        return parseWifiAddress(output);
+    }
+
+    /**
+     * Returns the device's hardware serial number, which is its id when connected over USB.
+     */
+    async getSerialNumber(deviceId: string): Promise<string | undefined> {
+        return (await this.shell(deviceId, 'getprop ro.serialno')).trim() || undefined;
     }
 
     async disconnectDevice(deviceId: string): Promise<string> {
-        return this.execute(`disconnect ${deviceId}`);
+        return this.withServer(
+            server => server.hostQuery(`host:disconnect:${deviceId}`),
+            () => this.execute(`disconnect ${deviceId}`)
+        );
     }
 
-    async installApk(deviceId: string, apkPath: string): Promise<string> {
-        return this.execute(`-s ${deviceId} install -r "${apkPath}"`);
+    async installApk(deviceId: string, apkPath: string, options: InstallOptions = {}): Promise<string> {
+        const flags = installFlags(options).join(' ');
+        return this.withServer(
+            async server => {
+                // Same approach as `adb install`: stage the APK in the device temp dir and hand it to the package manager
+                const remotePath = `/data/local/tmp/${path.basename(apkPath)}`;
+                await server.push(deviceId, apkPath, remotePath);
+                try {
+                    const output = (await server.shell(deviceId, `pm install ${flags} ${shellQuote(remotePath)}`)).trim();
+                    this.debugLog(output);
+                    if (output.includes('Failure')) {
+                        throw new Error(output);
+                    }
+                    return output;
+                } finally {
+                    await server.shell(deviceId, `rm -f ${shellQuote(remotePath)}`).catch(() => undefined);
+                }
+            },
+            () => this.execute(`-s ${deviceId} install ${flags} "${apkPath}"`)
+        );
+    }
+
+    /**
+     * Installs split APKs of one app together, like `adb install-multiple`.
+     */
+    async installMultiple(deviceId: string, apkPaths: string[], options: InstallOptions = {}): Promise<string> {
+        const flags = installFlags(options).join(' ');
+        return this.withServer(
+            async server => {
+                // Stage the splits, then write them into one package installer session
+                const remotePaths = apkPaths.map((apkPath, index) => `/data/local/tmp/adb-pro-split-${index}-${path.basename(apkPath)}`);
+                let session: string | undefined;
+                const check = (output: string) => {
+                    this.debugLog(output.trim());
+                    if (/Failure|Error/.test(output)) {
+                        throw new Error(output.trim());
+                    }
+                    return output.trim();
+                };
+                try {
+                    let totalSize = 0;
+                    for (let i = 0; i < apkPaths.length; i++) {
+                        totalSize += (await fs.promises.stat(apkPaths[i])).size;
+                        await server.push(deviceId, apkPaths[i], remotePaths[i]);
+                    }
+                    const created = check(await server.shell(deviceId, `pm install-create ${flags} -S ${totalSize}`));
+                    session = /\[(\d+)\]/.exec(created)?.[1];
+                    if (!session) {
+                        throw new Error(`Could not create an install session: ${created}`);
+                    }
+                    for (let i = 0; i < apkPaths.length; i++) {
+                        const size = (await fs.promises.stat(apkPaths[i])).size;
+                        const splitName = `${i}_${path.basename(apkPaths[i], '.apk').replace(/[^\w.-]/g, '_')}`;
+                        check(await server.shell(deviceId, `pm install-write -S ${size} ${session} ${splitName} ${shellQuote(remotePaths[i])}`));
+                    }
+                    const output = check(await server.shell(deviceId, `pm install-commit ${session}`));
+                    session = undefined;
+                    return output;
+                } finally {
+                    if (session) {
+                        await server.shell(deviceId, `pm install-abandon ${session}`).catch(() => undefined);
+                    }
+                    await server.shell(deviceId, `rm -f ${remotePaths.map(shellQuote).join(' ')}`).catch(() => undefined);
+                }
+            },
+            () => this.execute(`-s ${deviceId} install-multiple ${flags} ${apkPaths.map(apkPath => `"${apkPath}"`).join(' ')}`)
+        );
+    }
+
+    /**
+     * Reads the ABIs, density and locales that decide which configuration splits the device needs.
+     */
+    async getDeviceSpec(deviceId: string): Promise<DeviceSpec> {
+        return parseDeviceSpec(await this.shell(deviceId, [
+            'ro.product.cpu.abilist', 'ro.product.cpu.abi', 'ro.sf.lcd_density', 'persist.sys.locale', 'ro.product.locale'
+        ].map(property => `getprop ${property}`).join('; ')));
     }
 
     async uninstallApp(deviceId: string, packageName: string): Promise<string> {
-        return this.execute(`-s ${deviceId} uninstall ${packageName}`);
+        return this.withServer(
+            async server => {
+                const output = (await server.shell(deviceId, `pm uninstall ${packageName}`)).trim();
+                if (output.includes('Failure')) {
+                    throw new Error(output);
+                }
+                return output;
+            },
+            () => this.execute(`-s ${deviceId} uninstall ${packageName}`)
+        );
     }
 
     async clearAppData(deviceId: string, packageName: string): Promise<string> {
-        return this.execute(`-s ${deviceId} shell pm clear ${packageName}`);
+        return this.shell(deviceId, `pm clear ${packageName}`);
     }
 
     async killApp(deviceId: string, packageName: string): Promise<string> {
-        return this.execute(`-s ${deviceId} shell am force-stop ${packageName}`);
+        return this.shell(deviceId, `am force-stop ${packageName}`);
     }
 
     async restartServer(): Promise<string> {
-        await this.execute('kill-server');
+        await this.withServer(
+            server => server.hostCommand('host:kill'),
+            async () => {
+                await this.execute('kill-server');
+            }
+        );
+        // There is no protocol request to start the server; the CLI spawns it
         return this.execute('start-server');
     }
 
     async executeShellCommand(deviceId: string, command: string): Promise<string> {
-        return this.execute(`-s ${deviceId} shell ${command}`);
+        return this.shell(deviceId, command);
+    }
+
+    /**
+     * Runs a shell command and returns its output and exit status. The shell service without the
+     * v2 protocol does not report exit codes, so the command prints its own after a marker.
+     */
+    async executeShellCommandWithStatus(deviceId: string, command: string): Promise<{ output: string; exitCode: number }> {
+        // A subshell keeps `exit` from skipping the echo; the newline ends a trailing comment
+        const script = `(\n${command}\n); echo "${EXIT_STATUS_MARKER}$?"`;
+        const output = await this.withServer(
+            server => server.shell(deviceId, script),
+            () => this.execute(['-s', deviceId, 'shell', script])
+        );
+        const match = new RegExp(`${EXIT_STATUS_MARKER}(\\d+)\\s*$`).exec(output);
+        if (!match) {
+            throw new Error(`Could not read the exit status of: ${command}`);
+        }
+        return { output: output.substring(0, match.index).replace(/\r?\n$/, ''), exitCode: parseInt(match[1], 10) };
+    }
+
+    /**
+     * Makes connections to a socket on the device reach a socket on this machine, like
+     * `adb reverse <remote> <local>`.
+     * @param remote Device socket, e.g. tcp:8081.
+     * @param local Host socket, e.g. tcp:8081.
+     * @throws Error if a socket is not valid or the device refuses.
+     */
+    async reverse(deviceId: string, remote: string, local: string): Promise<void> {
+        checkSocketSpec(remote);
+        checkSocketSpec(local);
+        await this.withServer(
+            server => server.deviceCommand(deviceId, `reverse:forward:${remote};${local}`),
+            async () => {
+                await this.execute(`-s ${deviceId} reverse ${remote} ${local}`);
+            }
+        );
+    }
+
+    /**
+     * Stops a reverse rule, like `adb reverse --remove <remote>`.
+     */
+    async removeReverse(deviceId: string, remote: string): Promise<void> {
+        checkSocketSpec(remote);
+        await this.withServer(
+            server => server.deviceCommand(deviceId, `reverse:killforward:${remote}`),
+            async () => {
+                await this.execute(`-s ${deviceId} reverse --remove ${remote}`);
+            }
+        );
+    }
+
+    /**
+     * Lists the device's reverse rules, like `adb reverse --list`.
+     */
+    async listReverses(deviceId: string): Promise<PortRule[]> {
+        const output = await this.withServer(
+            server => server.deviceHexQuery(deviceId, 'reverse:list-forward'),
+            () => this.execute(`-s ${deviceId} reverse --list`)
+        );
+        return parseReverseList(output);
+    }
+
+    /**
+     * Makes connections to a socket on this machine reach a socket on the device, like
+     * `adb forward <local> <remote>`.
+     * @param local Host socket, e.g. tcp:8080.
+     * @param remote Device socket, e.g. tcp:8080, localabstract:chrome_devtools_remote or jdwp:<pid>.
+     * @throws Error if a socket is not valid or the port is taken.
+     */
+    async forward(deviceId: string, local: string, remote: string): Promise<void> {
+        checkSocketSpec(local);
+        checkSocketSpec(remote);
+        await this.withServer(
+            server => server.hostSerialCommand(deviceId, `forward:${local};${remote}`),
+            async () => {
+                await this.execute(`-s ${deviceId} forward ${local} ${remote}`);
+            }
+        );
+    }
+
+    /**
+     * Stops a forward rule, like `adb forward --remove <local>`.
+     */
+    async removeForward(deviceId: string, local: string): Promise<void> {
+        checkSocketSpec(local);
+        await this.withServer(
+            server => server.hostSerialCommand(deviceId, `killforward:${local}`),
+            async () => {
+                await this.execute(`-s ${deviceId} forward --remove ${local}`);
+            }
+        );
+    }
+
+    /**
+     * Lists the device's forward rules, like `adb forward --list`.
+     */
+    async listForwards(deviceId: string): Promise<PortRule[]> {
+        const output = await this.withServer(
+            server => server.hostQuery('host:list-forward'),
+            () => this.execute('forward --list')
+        );
+        return parseForwardList(output, deviceId);
     }
 
     async toggleWifi(deviceId: string, enable: boolean): Promise<string> {
         const state = enable ? 'enable' : 'disable';
-        return this.execute(`-s ${deviceId} shell svc wifi ${state}`);
+        return this.shell(deviceId, `svc wifi ${state}`);
     }
 
     async toggleMobileData(deviceId: string, enable: boolean): Promise<string> {
         const state = enable ? 'enable' : 'disable';
-        return this.execute(`-s ${deviceId} shell svc data ${state}`);
+        return this.shell(deviceId, `svc data ${state}`);
     }
 
     async toggleAirplaneMode(deviceId: string, enable: boolean): Promise<string> {
         const state = enable ? '1' : '0';
         // Try to set global setting and broadcast intent
-        await this.execute(`-s ${deviceId} shell settings put global airplane_mode_on ${state}`);
-        return this.execute(`-s ${deviceId} shell am broadcast -a android.intent.action.AIRPLANE_MODE --ez state ${enable}`);
+        await this.shell(deviceId, `settings put global airplane_mode_on ${state}`);
+        return this.shell(deviceId, `am broadcast -a android.intent.action.AIRPLANE_MODE --ez state ${enable}`);
     }
 
     async setAppPermission(deviceId: string, packageName: string, permission: string, grant: boolean): Promise<string> {
         const action = grant ? 'grant' : 'revoke';
-        return this.execute(`-s ${deviceId} shell pm ${action} ${packageName} ${permission}`);
+        return this.shell(deviceId, `pm ${action} ${packageName} ${permission}`);
     }
 
     async takeScreenshot(deviceId: string, localPath: string): Promise<string> {
         // Capture to device temp file
         const remotePath = '/sdcard/screenshot.png';
-        await this.execute(`-s ${deviceId} shell screencap -p ${remotePath}`);
+        await this.shell(deviceId, `screencap -p ${remotePath}`);
         // Pull to local path
-        await this.execute(`-s ${deviceId} pull ${remotePath} "${localPath}"`);
+        await this.pullFile(deviceId, remotePath, localPath);
         // Clean up remote file
-        await this.execute(`-s ${deviceId} shell rm ${remotePath}`);
+        await this.shell(deviceId, `rm ${remotePath}`);
         return localPath;
     }
 
+    /**
+     * Captures the current screen as a PNG (`screencap -p`) without writing it to the device.
+     */
+    async captureScreen(deviceId: string): Promise<Buffer> {
+        return this.execOut(deviceId, 'screencap -p');
+    }
+
+    /**
+     * Taps the screen at a position in screen pixels (`input tap`).
+     */
+    async inputTap(deviceId: string, x: number, y: number): Promise<void> {
+        await this.inputCommand(deviceId, `tap ${Math.round(x)} ${Math.round(y)}`);
+    }
+
+    /**
+     * Drags from one screen position to another (`input swipe`). Swiping in place acts as a long press.
+     */
+    async inputSwipe(deviceId: string, x1: number, y1: number, x2: number, y2: number, durationMs: number): Promise<void> {
+        const points = [x1, y1, x2, y2].map(Math.round).join(' ');
+        await this.inputCommand(deviceId, `swipe ${points} ${Math.round(durationMs)}`);
+    }
+
+    /**
+     * Types text into the focused view (`input text`). The input tool only supports ASCII.
+     */
+    async inputText(deviceId: string, text: string): Promise<void> {
+        // input text reads %s as a space
+        await this.inputCommand(deviceId, `text ${shellQuote(text.replace(/ /g, '%s'))}`);
+    }
+
+    /**
+     * Sends a key press (`input keyevent`).
+     * @param key A key code (e.g. 4) or name (e.g. KEYCODE_BACK).
+     */
+    async inputKeyEvent(deviceId: string, key: number | string, longPress: boolean = false): Promise<void> {
+        await this.inputCommand(deviceId, `keyevent ${longPress ? '--longpress ' : ''}${key}`);
+    }
+
+    /**
+     * Types text into the focused view. Line breaks and tabs are sent as ENTER and TAB key presses.
+     * @throws Error if the text contains characters the input tool cannot type.
+     */
+    async typeText(deviceId: string, text: string): Promise<void> {
+        for (const step of toInputSteps(text)) {
+            if ('keyCode' in step) {
+                await this.inputKeyEvent(deviceId, step.keyCode);
+            } else {
+                await this.inputText(deviceId, step.text);
+            }
+        }
+    }
+
+    /**
+     * Wakes the device and dismisses the keyguard, entering a PIN or password if one is given.
+     */
+    async unlockScreen(deviceId: string, pin?: string): Promise<void> {
+        await this.inputKeyEvent(deviceId, 'KEYCODE_WAKEUP');
+        const output = await this.shell(deviceId, 'wm dismiss-keyguard 2>&1');
+        if (output) {
+            // Before Android 8, MENU dismisses a keyguard without a PIN
+            await this.inputKeyEvent(deviceId, 'KEYCODE_MENU');
+        }
+        if (pin) {
+            // Give the bouncer time to appear
+            await new Promise(resolve => setTimeout(resolve, 500));
+            await this.inputText(deviceId, pin);
+            await this.inputKeyEvent(deviceId, 'KEYCODE_ENTER');
+        }
+    }
+
+    /**
+     * Runs an `input` command, which prints nothing unless it fails.
+     */
+    private async inputCommand(deviceId: string, args: string) {
+        const output = await this.shell(deviceId, `input ${args} 2>&1`);
+        if (output) {
+            throw new Error(output.split('\n')[0]);
+        }
+    }
+
+    /**
+     * Starts `screenrecord` writing an MP4 file on the device.
+     * The returned stream carries screenrecord's output and closes when the recording ends.
+     * @param remotePath Where to write the video on the device.
+     */
+    async startScreenRecord(deviceId: string, remotePath: string, options: ScreenRecordOptions = {}): Promise<AdbStream> {
+        const args = ['screenrecord'];
+        if (options.bitRate) {
+            args.push('--bit-rate', String(options.bitRate));
+        }
+        if (options.size) {
+            args.push('--size', options.size);
+        }
+        if (options.timeLimit) {
+            args.push('--time-limit', String(options.timeLimit));
+        }
+        args.push(shellQuote(remotePath));
+        return this.shellStream(deviceId, args.join(' '));
+    }
+
+    /**
+     * Stops a recording started with startScreenRecord().
+     * screenrecord only finalizes the MP4 when it is interrupted, so it gets SIGINT instead of closing the stream.
+     */
+    async stopScreenRecord(deviceId: string, remotePath: string): Promise<void> {
+        await this.shell(deviceId, `pkill -INT -f ${shellQuote(remotePath)}`);
+    }
+
+    /**
+     * Copies a file from the device to the local file system.
+     */
+    async pullFile(deviceId: string, remotePath: string, localPath: string): Promise<void> {
+        await this.withServer(
+            server => server.pull(deviceId, remotePath, localPath),
+            async () => {
+                await this.execute(['-s', deviceId, 'pull', remotePath, localPath]);
+            }
+        );
+    }
+
+    /**
+     * Copies a local file to the device.
+     */
+    async pushFile(deviceId: string, localPath: string, remotePath: string): Promise<void> {
+        await this.withServer(
+            server => server.push(deviceId, localPath, remotePath),
+            async () => {
+                await this.execute(['-s', deviceId, 'push', localPath, remotePath]);
+            }
+        );
+    }
+
+    /**
+     * Reads the metadata of a path on the device without following symbolic links.
+     * @returns The stat, with a mode of 0 if the path does not exist.
+     */
+    async statFile(deviceId: string, remotePath: string): Promise<AdbFileStat> {
+        return this.withServer(
+            server => server.stat(deviceId, remotePath),
+            async () => {
+                const output = await this.execute(['-s', deviceId, 'shell', `stat -c '%f %s %Y' ${shellQuote(remotePath)} 2>/dev/null; true`]);
+                return parseStatLine(output) || { mode: 0, size: 0, mtime: 0 };
+            }
+        );
+    }
+
+    /**
+     * Lists a directory on the device, without following symbolic links.
+     */
+    async listDirectory(deviceId: string, remotePath: string): Promise<AdbDirEntry[]> {
+        return this.withServer(
+            server => server.list(deviceId, remotePath),
+            async () => {
+                const dir = shellQuote(remotePath);
+                return parseStatListing(await this.execute(['-s', deviceId, 'shell', `cd ${dir} && ${statListingCommand(false)} 2>/dev/null; true`]));
+            }
+        );
+    }
+
+    /**
+     * Reads a file from the device into memory.
+     */
+    async readFile(deviceId: string, remotePath: string): Promise<Buffer> {
+        return this.withServer(
+            server => server.pullData(deviceId, remotePath),
+            async () => {
+                const localPath = path.join(os.tmpdir(), `adb-pro-${Date.now()}-${path.posix.basename(remotePath)}`);
+                try {
+                    await this.execute(['-s', deviceId, 'pull', remotePath, localPath]);
+                    return await fs.promises.readFile(localPath);
+                } finally {
+                    await fs.promises.rm(localPath, { force: true });
+                }
+            }
+        );
+    }
+
+    /**
+     * Writes a file on the device, replacing it if it exists.
+     * @param mode Unix permissions for the file.
+     */
+    async writeFile(deviceId: string, remotePath: string, data: Uint8Array, mode: number = 0o644): Promise<void> {
+        await this.withServer(
+            server => server.pushData(deviceId, data, remotePath, mode),
+            async () => {
+                const localPath = path.join(os.tmpdir(), `adb-pro-${Date.now()}-${path.posix.basename(remotePath)}`);
+                try {
+                    await fs.promises.writeFile(localPath, data);
+                    await this.execute(['-s', deviceId, 'push', localPath, remotePath]);
+                } finally {
+                    await fs.promises.rm(localPath, { force: true });
+                }
+            }
+        );
+    }
+
+    /**
+     * Deletes a file, or a directory with everything in it, on the device.
+     * @throws Error with the message printed by `rm` if deletion failed.
+     */
+    async deleteFile(deviceId: string, remotePath: string, recursive: boolean): Promise<void> {
+        await this.fileCommand(deviceId, `rm ${recursive ? '-rf' : '-f'} ${shellQuote(remotePath)}`);
+    }
+
+    /**
+     * Moves or renames a file or directory on the device.
+     */
+    async renameFile(deviceId: string, oldPath: string, newPath: string): Promise<void> {
+        await this.fileCommand(deviceId, `mv ${shellQuote(oldPath)} ${shellQuote(newPath)}`);
+    }
+
+    /**
+     * Creates a directory on the device.
+     */
+    async createDirectory(deviceId: string, remotePath: string): Promise<void> {
+        await this.fileCommand(deviceId, `mkdir ${shellQuote(remotePath)}`);
+    }
+
+    /**
+     * Lists a directory in an app's private data directory using `run-as`.
+     * @param remotePath Path relative to the app's data directory ('' for the directory itself).
+     * @throws Error if the app is not debuggable or not installed.
+     */
+    async listAppFiles(deviceId: string, packageName: string, remotePath: string): Promise<AdbDirEntry[]> {
+        const output = await this.runAs(deviceId, packageName, `cd ${shellQuote(remotePath || '.')} && ${statListingCommand(true)} 2>/dev/null; true`);
+        return parseStatListing(output);
+    }
+
+    /**
+     * Reads a file from an app's private data directory using `run-as`.
+     * @param remotePath Path relative to the app's data directory.
+     */
+    async readAppFile(deviceId: string, packageName: string, remotePath: string): Promise<Buffer> {
+        const data = await this.execOut(deviceId, `run-as ${packageName} cat ${shellQuote(remotePath)} 2>&1`);
+        // Errors come back in place of the contents
+        const head = data.subarray(0, 256).toString('utf-8');
+        checkRunAsOutput(head, packageName);
+        if (/^cat: .*(No such file|Permission denied|Is a directory)/.test(head)) {
+            throw new Error(head.split('\n')[0]);
+        }
+        return data;
+    }
+
+    /**
+     * Replaces a file in an app's private data directory, keeping its permissions.
+     * The data is staged in /data/local/tmp because run-as cannot receive it directly.
+     * @param remotePath Path relative to the app's data directory.
+     */
+    async writeAppFile(deviceId: string, packageName: string, remotePath: string, data: Uint8Array): Promise<void> {
+        const stagingPath = `/data/local/tmp/adb-pro-${Date.now()}`;
+        await this.writeFile(deviceId, stagingPath, data, 0o644);
+        try {
+            const output = await this.runAs(deviceId, packageName, `cat ${stagingPath} > ${shellQuote(remotePath)}`);
+            if (output) {
+                throw new Error(output);
+            }
+        } finally {
+            await this.shell(deviceId, `rm -f ${stagingPath}`);
+        }
+    }
+
+    /**
+     * Deletes a file or directory in an app's private data directory.
+     * @param remotePath Path relative to the app's data directory.
+     */
+    async deleteAppFile(deviceId: string, packageName: string, remotePath: string): Promise<void> {
+        const output = await this.runAs(deviceId, packageName, `rm -rf ${shellQuote(remotePath)}`);
+        if (output) {
+            throw new Error(output);
+        }
+    }
+
+    /**
+     * Runs a file command that prints nothing on success (rm, mv, mkdir).
+     * The shell service doesn't report exit codes, so any output is treated as the error message.
+     */
+    private async fileCommand(deviceId: string, command: string) {
+        const output = await this.shell(deviceId, `${command} 2>&1`);
+        if (output) {
+            throw new Error(output);
+        }
+    }
+
     /**
      * Gets the Process ID (PID) for a given package name.
      * @param deviceId The ID of the target device.
@@ -179,51 +869,70 @@ export class AdbClient {
      * @returns The PID as a string, or undefined if not found.
      */
     public async getPidForPackage(deviceId: string, packageName: string): Promise<string | undefined> {
-        try {
-            // pidof might return multiple PIDs, we take the first one
-            const output = await this.execute(`-s ${deviceId} shell pidof ${packageName}`);
-            return output.trim().split(/\s+/)[0];
-        } catch (e) {
-            return undefined;
-        }
+        // pidof might return multiple PIDs, we take the first one
+        const [pid] = await this.getPidsForPackage(deviceId, packageName);
+        return pid?.toString();
     }
 
     /**
-     * Starts a Logcat session for the device.
+     * Opens a Logcat stream for the device (`-v time` format).
+     * The caller owns the returned stream and must close it.
      * @param deviceId The ID of the target device.
      * @param pid Optional PID to filter logs by process.
      * @param level Optional log level to filter by (V, D, I, W, E, F).
      */
-    public async getLogcat(deviceId: string, pid?: string, level?: string): Promise<void> {
-        this.outputChannel.show();
-        this.outputChannel.appendLine(`Starting Logcat for device ${deviceId}...`);
-
-        const args = ['-s', deviceId, 'logcat', '-v', 'time'];
+    public async getLogcat(deviceId: string, pid?: string, level?: string): Promise<AdbStream> {
+        const args = ['logcat', '-v', 'time'];
         if (pid) {
             args.push(`--pid=${pid}`);
         }
         if (level) {
             args.push(`*:${level}`);
         }
+        return this.shellStream(deviceId, args.join(' '));
+    }
 
-        // We need to use spawn directly to handle streaming output
-        const child = require('child_process').spawn(this.adbPath, args);
-
-        child.stdout.on('data', (data: any) => {
-            this.outputChannel.append(data.toString());
-        });
+    /**
+     * Opens a structured logcat stream (threadtime format) for the logcat viewer.
+     * @param deviceId The ID of the target device.
+     * @param buffers Optional log buffers (main, system, crash, events). Defaults to logcat's own default buffers.
+     * @param onlyNew Skip what is already in the buffer and only stream new lines.
+     */
+    public async openLogcat(deviceId: string, buffers: string[] = [], onlyNew: boolean = false): Promise<AdbStream> {
+        const args = ['logcat', '-v', 'threadtime'];
+        buffers.forEach(buffer => args.push('-b', buffer));
+        if (onlyNew) {
+            args.push('-T', '1');
+        }
+        return this.shellStream(deviceId, args.join(' '));
+    }
 
-        child.stderr.on('data', (data: any) => {
-            this.outputChannel.append(data.toString());
-        });
+    /**
+     * Clears the device log buffer (`logcat -c`).
+     * @param deviceId The ID of the target device.
+     * @param buffer Optional log buffer to clear. Defaults to logcat's own default buffers.
+     */
+    public async clearLogcat(deviceId: string, buffer?: string): Promise<string> {
+        return this.shell(deviceId, buffer ? `logcat -c -b ${buffer}` : 'logcat -c');
+    }
 
-        child.on('close', (code: any) => {
-            this.outputChannel.appendLine(`Logcat process exited with code ${code}`);
-        });
+    /**
+     * Gets all Process IDs for a package (an app may run several processes).
+     * @param deviceId The ID of the target device.
+     * @param packageName The package name to look up.
+     * @returns The PIDs, empty if the app is not running.
+     */
+    public async getPidsForPackage(deviceId: string, packageName: string): Promise<number[]> {
+        try {
+            const output = await this.shell(deviceId, `pidof ${packageName}`);
+            return output.split(/\s+/).map(pid => parseInt(pid, 10)).filter(pid => !isNaN(pid));
+        } catch (e) {
+            return [];
+        }
     }
 
     public async getInstalledPackages(deviceId: string): Promise<string[]> {
-        const output = await this.execute(`-s ${deviceId} shell pm list packages -3`);
+        const output = await this.shell(deviceId, 'pm list packages -3');
         return output
             .split('\n')
             .map(line => line.trim())
@@ -240,7 +949,7 @@ export class AdbClient {
      */
     public async getAppPermissions(deviceId: string, packageName: string): Promise<{ name: string; granted: boolean }[]> {
         try {
-            const output = await this.execute(`-s ${deviceId} shell dumpsys package ${packageName}`);
+            const output = await this.shell(deviceId, `dumpsys package ${packageName}`);
             const lines = output.split('\n');
             const permissions: { name: string; granted: boolean }[] = [];
             let inPermissionsSection = false;
@@ -286,6 +995,168 @@ export class AdbClient {
 
     async startApp(deviceId: string, packageName: string): Promise<string> {
         // Using monkey to start the app is a common trick to avoid needing the main activity name
-        return this.execute(`-s ${deviceId} shell monkey -p ${packageName} -c android.intent.category.LAUNCHER 1`);
+        return this.shell(deviceId, `monkey -p ${packageName} -c android.intent.category.LAUNCHER 1`);
+    }
+
+    /**
+     * Sends an intent with `am start`, `am broadcast` or `am startservice`.
+     * @param options Launch options for `am start` (-S, -D, -W, --user).
+     * @returns What am printed (e.g. the broadcast result).
+     * @throws Error if the intent is invalid or am reports an error, such as no matching activity.
+     */
+    async sendIntent(deviceId: string, intent: IntentSpec, options?: StartOptions): Promise<string> {
+        const output = await this.shell(deviceId, `${buildAmCommand(intent, options)} 2>&1`);
+        if (/^(Error|Exception|java\.\S+(Exception|Error))\b/m.test(output)) {
+            throw new Error(output.trim());
+        }
+        return output.trim();
+    }
+
+    /**
+     * Starts an activity by component name with `am start -n`.
+     * @returns The launch timing when options.wait is set; otherwise an empty result.
+     */
+    async startActivity(deviceId: string, component: string, options: StartOptions = {}): Promise<ActivityLaunchResult> {
+        const output = await this.sendIntent(deviceId, { command: 'start', component }, options);
+        return parseStartResult(output);
+    }
+
+    /**
+     * Lists the activities of a package that have intent filters, from `dumpsys package`.
+     */
+    async getActivities(deviceId: string, packageName: string): Promise<DeviceActivity[]> {
+        const output = await this.shell(deviceId, `dumpsys package ${shellQuote(packageName)}`);
+        return parseActivityResolverTable(output, packageName);
     }
+
+    /**
+     * Lists the users on the device (e.g. the owner and a work profile) with `pm list users`.
+     */
+    async getUsers(deviceId: string): Promise<{ id: number; name: string; running: boolean }[]> {
+        const output = await this.shell(deviceId, 'pm list users');
+        const users: { id: number; name: string; running: boolean }[] = [];
+        const regex = /UserInfo\{(\d+):([^:}]*):[0-9a-fA-F]+\}(\s+running)?/g;
+        let match;
+        while ((match = regex.exec(output)) !== null) {
+            users.push({ id: parseInt(match[1], 10), name: match[2], running: !!match[3] });
+        }
+        return users;
+    }
+}
+
+/**
+ * Quotes an argument for the device shell.
+ */
+export function shellQuote(arg: string): string {
+    return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Checks a socket spec such as tcp:8081 or localabstract:chrome_devtools_remote.
+ */
+function checkSocketSpec(spec: string) {
+    if (!/^[a-z]+:[^\s;'"]+$/.test(spec)) {
+        throw new Error(`Invalid socket: ${spec} (expected e.g. tcp:8081)`);
+    }
+}
+
+/**
+ * Builds a command that prints one `stat` line per entry of the current directory; parsed by parseStatListing.
+ * @param followLinks Report what symbolic links point to instead of the links themselves.
+ */
+function statListingCommand(followLinks: boolean): string {
+    return `stat ${followLinks ? '-L ' : ''}-c '%f %s %Y %n' .* *`;
+}
+
+/**
+ * Turns run-as refusals into errors that say what is wrong.
+ */
+function checkRunAsOutput(output: string, packageName: string) {
+    const match = /^run-as: (.*)$/m.exec(output);
+    if (!match) {
+        return;
+    }
+    if (/not debuggable/i.test(match[1])) {
+        throw new Error(`${packageName} is not debuggable. App files can only be accessed for debug builds.`);
+    }
+    if (/unknown package|is unknown/i.test(match[1])) {
+        throw new Error(`${packageName} is not installed on this device`);
+    }
+    throw new Error(`run-as failed: ${match[1]}`);
+}
+
+/**
+ * Parses statListingCommand output into directory entries, skipping "." and "..".
+ */
+function parseStatListing(output: string): AdbDirEntry[] {
+    const entries: AdbDirEntry[] = [];
+    for (const line of output.split('\n')) {
+        const match = /^(\S+ \S+ \S+) (.+)$/.exec(line.trim());
+        const stat = match && parseStatLine(match[1]);
+        // An empty directory leaves the globs unexpanded
+        if (match && stat && !['.', '..', '.*', '*'].includes(match[2])) {
+            entries.push({ name: match[2], ...stat });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Parses `stat -c '%f %s %Y'` output (hex mode, size, mtime) into an AdbFileStat.
+ */
+function parseStatLine(line: string): AdbFileStat | undefined {
+    const match = /^([0-9a-f]+) (\d+) (\d+)$/.exec(line.trim());
+    if (!match) {
+        return undefined;
+    }
+    return {
+        mode: parseInt(match[1], 16),
+        size: parseInt(match[2], 10),
+        mtime: parseInt(match[3], 10)
+    };
+}
+
+/**
+ * Spawns an adb CLI process and exposes its output as an AdbStream. If adb cannot be started
+ * (e.g. a wrong adb path), the error is reported as output and the stream closes.
+ */
+function spawnStream(adbPath: string, args: string[]): AdbStream {
+    const child = spawn(adbPath, args);
+    const dataListeners: ((chunk: Buffer) => void)[] = [];
+    const closeListeners: (() => void)[] = [];
+    // The error comes on the next tick, before callers of an async open can add their listeners
+    let error: Buffer | undefined;
+    let closed = false;
+    const fireClose = () => {
+        if (!closed) {
+            closed = true;
+            closeListeners.forEach(listener => listener());
+        }
+    };
+    child.on('close', fireClose);
+    child.on('error', (err: Error) => {
+        error = Buffer.from(`${err.message}\n`);
+        dataListeners.forEach(listener => listener(error!));
+        fireClose();
+    });
+    return {
+        onData: listener => {
+            dataListeners.push(listener);
+            child.stdout.on('data', listener);
+            child.stderr.on('data', listener);
+            if (error) {
+                listener(error);
+            }
+        },
+        onClose: listener => {
+            if (closed) {
+                listener();
+            } else {
+                closeListeners.push(listener);
+            }
+        },
+        close: () => {
+            child.kill();
+        }
+    };
 }
@@ -0,0 +1,179 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AdbClient } from './adbClient';
+import { AdbFileStat } from './adbProtocol';
+
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFREG = 0o100000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Maps Unix mode bits to a VS Code file type.
+ */
+export function toFileType(mode: number): vscode.FileType {
+    switch (mode & S_IFMT) {
+        case S_IFDIR:
+            return vscode.FileType.Directory;
+        case S_IFREG:
+            return vscode.FileType.File;
+        case S_IFLNK:
+            return vscode.FileType.SymbolicLink;
+        default:
+            // Sockets, pipes and device nodes
+            return vscode.FileType.Unknown;
+    }
+}
+
+/**
+ * Builds the `adb://<serial>/path` URI of a file on a device.
+ */
+export function toDeviceUri(deviceId: string, remotePath: string): vscode.Uri {
+    return vscode.Uri.from({ scheme: AdbFileSystemProvider.scheme, authority: deviceId, path: remotePath });
+}
+
+/**
+ * Exposes device file systems as `adb://<serial>/path`, so device folders can be
+ * opened in the Explorer and files edited in place.
+ * Metadata and transfers use the sync protocol; delete, rename and mkdir run shell commands.
+ */
+export class AdbFileSystemProvider implements vscode.FileSystemProvider {
+    public static readonly scheme = 'adb';
+
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+
+    constructor(private readonly adbClient: AdbClient) { }
+
+    watch(): vscode.Disposable {
+        // Devices don't report file changes; the Explorer refreshes after our own writes via onDidChangeFile
+        return new vscode.Disposable(() => { });
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const stat = await this.statPath(uri);
+        if (stat.mode === 0) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return {
+            type: await this.resolveType(uri.authority, uri.path, stat),
+            size: stat.size,
+            ctime: stat.mtime * 1000,
+            mtime: stat.mtime * 1000
+        };
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const entries = await this.run(uri, () => this.adbClient.listDirectory(uri.authority, uri.path));
+        if (entries.length === 0) {
+            // LIST returns nothing for missing and unreadable directories; tell them apart from empty ones
+            const stat = await this.stat(uri);
+            if (!(stat.type & vscode.FileType.Directory)) {
+                throw vscode.FileSystemError.FileNotADirectory(uri);
+            }
+        }
+        return Promise.all(entries.map(async entry => {
+            const type = await this.resolveType(uri.authority, path.posix.join(uri.path, entry.name), entry);
+            return [entry.name, type] as [string, vscode.FileType];
+        }));
+    }
+
+    async createDirectory(uri: vscode.Uri): Promise<void> {
+        await this.run(uri, () => this.adbClient.createDirectory(uri.authority, uri.path));
+        this.fireChanged(uri, vscode.FileChangeType.Created);
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        return this.run(uri, () => this.adbClient.readFile(uri.authority, uri.path));
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+        const existing = await this.statPath(uri);
+        if (existing.mode === 0 && !options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (existing.mode !== 0 && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+        if ((existing.mode & S_IFMT) === S_IFDIR) {
+            throw vscode.FileSystemError.FileIsADirectory(uri);
+        }
+        // Keep the permissions of the file being replaced
+        const mode = existing.mode !== 0 ? existing.mode & 0o777 : 0o644;
+        await this.run(uri, () => this.adbClient.writeFile(uri.authority, uri.path, content, mode));
+        this.fireChanged(uri, existing.mode !== 0 ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created);
+    }
+
+    async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        await this.run(uri, () => this.adbClient.deleteFile(uri.authority, uri.path, options.recursive));
+        this.fireChanged(uri, vscode.FileChangeType.Deleted);
+    }
+
+    async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        if (oldUri.authority !== newUri.authority) {
+            throw vscode.FileSystemError.NoPermissions('Files can only be moved within the same device');
+        }
+        if (!options.overwrite && (await this.statPath(newUri)).mode !== 0) {
+            throw vscode.FileSystemError.FileExists(newUri);
+        }
+        await this.run(oldUri, () => this.adbClient.renameFile(oldUri.authority, oldUri.path, newUri.path));
+        this._onDidChangeFile.fire([
+            { type: vscode.FileChangeType.Deleted, uri: oldUri },
+            { type: vscode.FileChangeType.Created, uri: newUri }
+        ]);
+    }
+
+    private statPath(uri: vscode.Uri): Promise<AdbFileStat> {
+        return this.run(uri, () => this.adbClient.statFile(uri.authority, uri.path));
+    }
+
+    /**
+     * Symbolic links (e.g. /sdcard) are reported as links; stat "link/" to learn whether
+     * they point at a directory, since the sync protocol doesn't follow them.
+     */
+    private async resolveType(deviceId: string, remotePath: string, stat: AdbFileStat): Promise<vscode.FileType> {
+        const type = toFileType(stat.mode);
+        if (type !== vscode.FileType.SymbolicLink) {
+            return type;
+        }
+        try {
+            const target = await this.adbClient.statFile(deviceId, remotePath.replace(/\/*$/, '/'));
+            return vscode.FileType.SymbolicLink | (toFileType(target.mode) === vscode.FileType.Directory ? vscode.FileType.Directory : vscode.FileType.File);
+        } catch (e) {
+            return vscode.FileType.SymbolicLink | vscode.FileType.File;
+        }
+    }
+
+    /**
+     * Runs a device operation and converts its errors to FileSystemErrors the Explorer understands.
+     */
+    private async run<T>(uri: vscode.Uri, operation: () => Promise<T>): Promise<T> {
+        try {
+            return await operation();
+        } catch (e: any) {
+            const message: string = e.message || String(e);
+            if (/No such file/i.test(message)) {
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }
+            if (/Permission denied|Read-only file system|Operation not permitted/i.test(message)) {
+                throw vscode.FileSystemError.NoPermissions(uri);
+            }
+            if (/device .* not found|device offline/i.test(message)) {
+                throw vscode.FileSystemError.Unavailable(uri);
+            }
+            throw new vscode.FileSystemError(message);
+        }
+    }
+
+    private fireChanged(uri: vscode.Uri, type: vscode.FileChangeType) {
+        const parent = uri.with({ path: path.posix.dirname(uri.path) });
+        this._onDidChangeFile.fire([
+            { type, uri },
+            { type: vscode.FileChangeType.Changed, uri: parent }
+        ]);
+    }
+
+    public dispose() {
+        this._onDidChangeFile.dispose();
+    }
+}
@@ -0,0 +1,581 @@
+import * as fs from 'fs';
+import * as net from 'net';
+
+/**
+ * Default port the ADB server listens on.
+ */
+export const DEFAULT_ADB_SERVER_PORT = 5037;
+
+/**
+ * Maximum payload size of a single sync DATA packet.
+ */
+const SYNC_DATA_MAX = 64 * 1024;
+
+/**
+ * Raised when the ADB server cannot be reached (not running, wrong port, ...).
+ * Callers use this to decide whether to fall back to the adb CLI.
+ */
+export class AdbServerUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AdbServerUnavailableError';
+    }
+}
+
+/**
+ * Raised when the ADB server answers a request with FAIL or breaks the protocol.
+ */
+export class AdbProtocolError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AdbProtocolError';
+    }
+}
+
+/**
+ * A long-running stream of output from the device (e.g. logcat).
+ * Implemented both by server sockets and by spawned adb processes.
+ */
+export interface AdbStream {
+    onData(listener: (chunk: Buffer) => void): void;
+    onClose(listener: () => void): void;
+    close(): void;
+}
+
+/**
+ * File metadata returned by the sync STAT and LIST requests.
+ * Like lstat(2), symbolic links are reported as links and not followed.
+ */
+export interface AdbFileStat {
+    /**
+     * Unix mode bits (file type and permissions). 0 means the path does not exist.
+     */
+    mode: number;
+    size: number;
+    /**
+     * Modification time in seconds since the epoch.
+     */
+    mtime: number;
+}
+
+/**
+ * An entry of a device directory listing.
+ */
+export interface AdbDirEntry extends AdbFileStat {
+    name: string;
+}
+
+/**
+ * Encodes a smart-socket request: 4 hex digits of length followed by the payload.
+ */
+export function encodeRequest(payload: string): Buffer {
+    const body = Buffer.from(payload, 'utf-8');
+    const length = body.length.toString(16).padStart(4, '0');
+    return Buffer.concat([Buffer.from(length, 'ascii'), body]);
+}
+
+/**
+ * Builds a sync sub-protocol packet: 4-byte id, 4-byte little-endian length/value, optional payload.
+ */
+function encodeSyncPacket(id: string, payload: Buffer | number): Buffer {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, 4, 'ascii');
+    if (typeof payload === 'number') {
+        header.writeUInt32LE(payload, 4);
+        return header;
+    }
+    header.writeUInt32LE(payload.length, 4);
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * Buffered wrapper around a TCP connection to the ADB server.
+ * Supports exact-length reads for the request/response phase and switching
+ * to a push-based stream once a service has been opened.
+ */
+export class AdbSocket implements AdbStream {
+    private buffer: Buffer = Buffer.alloc(0);
+    private ended = false;
+    private error: Error | undefined;
+    private wake: (() => void) | undefined;
+    private dataListener: ((chunk: Buffer) => void) | undefined;
+    private closeListeners: (() => void)[] = [];
+
+    private constructor(private readonly socket: net.Socket) {
+        socket.on('data', (chunk: Buffer) => {
+            if (this.dataListener) {
+                this.dataListener(chunk);
+            } else {
+                this.buffer = Buffer.concat([this.buffer, chunk]);
+                this.notify();
+            }
+        });
+        socket.on('error', (err: Error) => {
+            this.error = err;
+            this.notify();
+        });
+        socket.on('close', () => {
+            this.ended = true;
+            this.notify();
+            this.closeListeners.forEach(listener => listener());
+        });
+    }
+
+    /**
+     * Opens a connection to the ADB server.
+     * @throws AdbServerUnavailableError if the server does not accept the connection.
+     */
+    static connect(host: string, port: number, timeoutMs: number): Promise<AdbSocket> {
+        return new Promise((resolve, reject) => {
+            const socket = net.createConnection({ host, port });
+            const fail = (message: string) => {
+                socket.destroy();
+                reject(new AdbServerUnavailableError(`Cannot reach ADB server at ${host}:${port}: ${message}`));
+            };
+            socket.setTimeout(timeoutMs, () => fail('connection timed out'));
+            socket.once('error', (err: Error) => fail(err.message));
+            socket.once('connect', () => {
+                socket.setTimeout(0);
+                socket.removeAllListeners('error');
+                socket.removeAllListeners('timeout');
+                resolve(new AdbSocket(socket));
+            });
+        });
+    }
+
+    write(data: Buffer): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.socket.write(data, err => err ? reject(err) : resolve());
+        });
+    }
+
+    /**
+     * Reads exactly `length` bytes.
+     */
+    async read(length: number): Promise<Buffer> {
+        while (this.buffer.length < length) {
+            this.throwIfClosed();
+            await new Promise<void>(resolve => this.wake = resolve);
+        }
+        const chunk = this.buffer.subarray(0, length);
+        this.buffer = this.buffer.subarray(length);
+        return chunk;
+    }
+
+    /**
+     * Reads until the server closes the connection.
+     */
+    async readAll(): Promise<Buffer> {
+        while (!this.ended) {
+            if (this.error) {
+                throw this.error;
+            }
+            await new Promise<void>(resolve => this.wake = resolve);
+        }
+        const rest = this.buffer;
+        this.buffer = Buffer.alloc(0);
+        return rest;
+    }
+
+    /**
+     * Reads an OKAY/FAIL status. FAIL is turned into an AdbProtocolError carrying the server message.
+     */
+    async readStatus(): Promise<void> {
+        const status = (await this.read(4)).toString('ascii');
+        if (status === 'OKAY') {
+            return;
+        }
+        if (status === 'FAIL') {
+            throw new AdbProtocolError(await this.readHexString());
+        }
+        throw new AdbProtocolError(`Unexpected response from ADB server: ${status}`);
+    }
+
+    /**
+     * Reads a payload prefixed with its length as 4 hex digits.
+     */
+    async readHexString(): Promise<string> {
+        const length = parseInt((await this.read(4)).toString('ascii'), 16);
+        if (isNaN(length)) {
+            throw new AdbProtocolError('Invalid length prefix from ADB server');
+        }
+        return (await this.read(length)).toString('utf-8');
+    }
+
+    /**
+     * Sends a smart-socket request and waits for OKAY.
+     */
+    async request(payload: string): Promise<void> {
+        await this.write(encodeRequest(payload));
+        await this.readStatus();
+    }
+
+    onData(listener: (chunk: Buffer) => void): void {
+        this.dataListener = listener;
+        if (this.buffer.length > 0) {
+            const pending = this.buffer;
+            this.buffer = Buffer.alloc(0);
+            listener(pending);
+        }
+    }
+
+    onClose(listener: () => void): void {
+        if (this.ended) {
+            listener();
+        } else {
+            this.closeListeners.push(listener);
+        }
+    }
+
+    close(): void {
+        this.socket.destroy();
+    }
+
+    private throwIfClosed() {
+        if (this.error) {
+            throw this.error;
+        }
+        if (this.ended) {
+            throw new AdbProtocolError('Connection closed by ADB server');
+        }
+    }
+
+    private notify() {
+        const wake = this.wake;
+        this.wake = undefined;
+        if (wake) {
+            wake();
+        }
+    }
+}
+
+/**
+ * Client for the ADB server's smart-socket protocol.
+ * Each request uses a fresh connection, mirroring how the adb CLI talks to the server.
+ */
+export class AdbServerClient {
+    constructor(
+        private readonly host: string = '127.0.0.1',
+        private readonly port: number = DEFAULT_ADB_SERVER_PORT,
+        private readonly log?: (line: string) => void,
+        private readonly connectTimeoutMs: number = 2000
+    ) { }
+
+    /**
+     * Runs a host service that replies with a length-prefixed payload (e.g. host:devices-l).
+     */
+    async hostQuery(service: string): Promise<string> {
+        const socket = await this.open(service);
+        try {
+            await socket.request(service);
+            return await socket.readHexString();
+        } finally {
+            socket.close();
+        }
+    }
+
+    /**
+     * Runs a host service that only replies with a status (e.g. host:kill).
+     */
+    async hostCommand(service: string): Promise<void> {
+        const socket = await this.open(service);
+        try {
+            await socket.request(service);
+        } finally {
+            socket.close();
+        }
+    }
+
+    /**
+     * Runs a host service for one device that replies with a second status after OKAY
+     * (e.g. forward:tcp:8080;tcp:8080, sent as host-serial:<serial>:forward:...).
+     */
+    async hostSerialCommand(serial: string, service: string): Promise<void> {
+        const request = `host-serial:${serial}:${service}`;
+        const socket = await this.open(request);
+        try {
+            await socket.request(request);
+            await socket.readStatus();
+        } finally {
+            socket.close();
+        }
+    }
+
+    /**
+     * Opens a host service that keeps streaming after OKAY (e.g. host:track-devices).
+     */
+    async openHostService(service: string): Promise<AdbSocket> {
+        const socket = await this.open(service);
+        try {
+            await socket.request(service);
+            return socket;
+        } catch (e) {
+            socket.close();
+            throw e;
+        }
+    }
+
+    /**
+     * Opens a connection bound to the given device via host:transport.
+     */
+    async transport(serial: string): Promise<AdbSocket> {
+        const socket = await this.open(`host:transport:${serial}`);
+        try {
+            await socket.request(`host:transport:${serial}`);
+            return socket;
+        } catch (e) {
+            socket.close();
+            throw e;
+        }
+    }
+
+    /**
+     * Runs a shell command on the device and returns its complete output.
+     */
+    async shell(serial: string, command: string): Promise<string> {
+        const socket = await this.openService(serial, `shell:${command}`);
+        try {
+            return (await socket.readAll()).toString('utf-8');
+        } finally {
+            socket.close();
+        }
+    }
+
+    /**
+     * Runs a device service that replies with a message and closes (e.g. tcpip:5555, usb:).
+     */
+    async deviceQuery(serial: string, service: string): Promise<string> {
+        const socket = await this.openService(serial, service);
+        try {
+            return (await socket.readAll()).toString('utf-8');
+        } finally {
+            socket.close();
+        }
+    }
+
+    /**
+     * Runs a device service that replies with a second status after OKAY (e.g. reverse:forward:...).
+     */
+    async deviceCommand(serial: string, service: string): Promise<void> {
+        const socket = await this.openService(serial, service);
+        try {
+            await socket.readStatus();
+        } finally {
+            socket.close();
+        }
+    }
+
+    /**
+     * Runs a device service that replies with a status and a length-prefixed payload (e.g. reverse:list-forward).
+     */
+    async deviceHexQuery(serial: string, service: string): Promise<string> {
+        const socket = await this.openService(serial, service);
+        try {
+            await socket.readStatus();
+            return await socket.readHexString();
+        } finally {
+            socket.close();
+        }
+    }
+
+    /**
+     * Runs a command through the raw `exec:` service and returns its output unchanged.
+     * Unlike `shell:`, no PTY is involved, so binary output is not mangled.
+     */
+    async exec(serial: string, command: string): Promise<Buffer> {
+        const socket = await this.openService(serial, `exec:${command}`);
+        try {
+            return Buffer.from(await socket.readAll());
+        } finally {
+            socket.close();
+        }
+    }
+
+    /**
+     * Opens a device service (e.g. shell:logcat) and leaves the connection open for streaming.
+     */
+    async openService(serial: string, service: string): Promise<AdbSocket> {
+        const socket = await this.transport(serial);
+        try {
+            this.log?.(`> ${serial} ${service}`);
+            await socket.request(service);
+            return socket;
+        } catch (e) {
+            socket.close();
+            throw e;
+        }
+    }
+
+    /**
+     * Pushes a local file to the device using the sync protocol.
+     */
+    async push(serial: string, localPath: string, remotePath: string, mode: number = 0o644): Promise<void> {
+        await this.send(serial, remotePath, mode, fs.createReadStream(localPath, { highWaterMark: SYNC_DATA_MAX }));
+    }
+
+    /**
+     * Writes a buffer to a file on the device using the sync protocol.
+     */
+    async pushData(serial: string, data: Uint8Array, remotePath: string, mode: number = 0o644): Promise<void> {
+        const chunks: Buffer[] = [];
+        for (let offset = 0; offset < data.length; offset += SYNC_DATA_MAX) {
+            chunks.push(Buffer.from(data.subarray(offset, offset + SYNC_DATA_MAX)));
+        }
+        await this.send(serial, remotePath, mode, chunks);
+    }
+
+    /**
+     * Pulls a file from the device to a local path using the sync protocol.
+     */
+    async pull(serial: string, remotePath: string, localPath: string): Promise<void> {
+        // Receive into a temporary file so a failed pull leaves an existing local file untouched
+        const partialPath = `${localPath}.${process.pid}.part`;
+        const out = fs.createWriteStream(partialPath);
+        // Opening or writing the file fails asynchronously, e.g. when the folder does not exist
+        const failed = new Promise<never>((_resolve, reject) => out.on('error', reject));
+        failed.catch(() => { /* Raised by the next write or by end */ });
+        try {
+            await this.receive(serial, remotePath, async data => {
+                if (!out.write(data)) {
+                    await Promise.race([new Promise<void>(resolve => out.once('drain', () => resolve())), failed]);
+                }
+            });
+            await Promise.race([new Promise<void>(resolve => out.end(() => resolve())), failed]);
+            await fs.promises.rename(partialPath, localPath);
+        } catch (e) {
+            out.destroy();
+            await new Promise<void>(resolve => out.closed ? resolve() : out.once('close', () => resolve()));
+            await fs.promises.rm(partialPath, { force: true });
+            throw e;
+        }
+    }
+
+    /**
+     * Reads a file from the device into memory using the sync protocol.
+     */
+    async pullData(serial: string, remotePath: string): Promise<Buffer> {
+        const chunks: Buffer[] = [];
+        await this.receive(serial, remotePath, async data => {
+            chunks.push(Buffer.from(data));
+        });
+        return Buffer.concat(chunks);
+    }
+
+    /**
+     * Reads the metadata of a path on the device (sync STAT). Symbolic links are not followed.
+     * A mode of 0 means the path does not exist or cannot be accessed.
+     */
+    async stat(serial: string, remotePath: string): Promise<AdbFileStat> {
+        const socket = await this.openService(serial, 'sync:');
+        try {
+            await socket.write(encodeSyncPacket('STAT', Buffer.from(remotePath, 'utf-8')));
+            const response = await socket.read(16);
+            const id = response.toString('ascii', 0, 4);
+            if (id !== 'STAT') {
+                throw new AdbProtocolError(`Unexpected sync response: ${id}`);
+            }
+            return {
+                mode: response.readUInt32LE(4),
+                size: response.readUInt32LE(8),
+                mtime: response.readUInt32LE(12)
+            };
+        } finally {
+            socket.close();
+        }
+    }
+
+    /**
+     * Lists a directory on the device (sync LIST), without the "." and ".." entries.
+     * Unreadable directories list as empty.
+     */
+    async list(serial: string, remotePath: string): Promise<AdbDirEntry[]> {
+        const socket = await this.openService(serial, 'sync:');
+        try {
+            await socket.write(encodeSyncPacket('LIST', Buffer.from(remotePath, 'utf-8')));
+            const entries: AdbDirEntry[] = [];
+            while (true) {
+                const id = (await socket.read(4)).toString('ascii');
+                if (id === 'FAIL') {
+                    const length = (await socket.read(4)).readUInt32LE(0);
+                    throw new AdbProtocolError((await socket.read(length)).toString('utf-8'));
+                }
+                // DENT and DONE share the layout: mode, size, mtime, name length (all 0 for DONE)
+                const header = await socket.read(16);
+                if (id === 'DONE') {
+                    break;
+                }
+                if (id !== 'DENT') {
+                    throw new AdbProtocolError(`Unexpected sync response: ${id}`);
+                }
+                const name = (await socket.read(header.readUInt32LE(12))).toString('utf-8');
+                if (name !== '.' && name !== '..') {
+                    entries.push({
+                        name,
+                        mode: header.readUInt32LE(0),
+                        size: header.readUInt32LE(4),
+                        mtime: header.readUInt32LE(8)
+                    });
+                }
+            }
+            return entries;
+        } finally {
+            socket.close();
+        }
+    }
+
+    private async send(serial: string, remotePath: string, mode: number, chunks: AsyncIterable<Buffer> | Iterable<Buffer>): Promise<void> {
+        const socket = await this.openService(serial, 'sync:');
+        try {
+            await socket.write(encodeSyncPacket('SEND', Buffer.from(`${remotePath},${mode}`, 'utf-8')));
+            for await (const chunk of chunks) {
+                await socket.write(encodeSyncPacket('DATA', chunk));
+            }
+            await socket.write(encodeSyncPacket('DONE', Math.floor(Date.now() / 1000)));
+            await this.readSyncStatus(socket);
+        } finally {
+            socket.close();
+        }
+    }
+
+    private async receive(serial: string, remotePath: string, onData: (data: Buffer) => Promise<void>): Promise<void> {
+        const socket = await this.openService(serial, 'sync:');
+        try {
+            await socket.write(encodeSyncPacket('RECV', Buffer.from(remotePath, 'utf-8')));
+            while (true) {
+                const header = await socket.read(8);
+                const id = header.toString('ascii', 0, 4);
+                const length = header.readUInt32LE(4);
+                if (id === 'DONE') {
+                    break;
+                }
+                if (id === 'FAIL') {
+                    throw new AdbProtocolError((await socket.read(length)).toString('utf-8'));
+                }
+                if (id !== 'DATA') {
+                    throw new AdbProtocolError(`Unexpected sync response: ${id}`);
+                }
+                await onData(await socket.read(length));
+            }
+        } finally {
+            socket.close();
+        }
+    }
+
+    private async readSyncStatus(socket: AdbSocket): Promise<void> {
+        const header = await socket.read(8);
+        const id = header.toString('ascii', 0, 4);
+        const length = header.readUInt32LE(4);
+        if (id === 'OKAY') {
+            return;
+        }
+        if (id === 'FAIL') {
+            throw new AdbProtocolError((await socket.read(length)).toString('utf-8'));
+        }
+        throw new AdbProtocolError(`Unexpected sync response: ${id}`);
+    }
+
+    private async open(service: string): Promise<AdbSocket> {
+        this.log?.(`> ${service}`);
+        return AdbSocket.connect(this.host, this.port, this.connectTimeoutMs);
+    }
+}
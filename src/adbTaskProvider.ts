@@ -0,0 +1,246 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AdbClient } from './adbClient';
+import { InstallOptions } from './apkInstall';
+import { TargetAppManager } from './appManager';
+
+/**
+ * Task type of ADB steps in tasks.json.
+ */
+export const ADB_TASK_TYPE = 'adb';
+
+const ADB_TASK_ACTIONS = ['install', 'uninstall', 'clearData', 'start', 'forceStop', 'shell', 'grant', 'reverse'] as const;
+
+export type AdbTaskAction = typeof ADB_TASK_ACTIONS[number];
+
+/**
+ * An `adb` task in tasks.json, e.g. `{ "type": "adb", "action": "install", "apk": "app/build/outputs/apk/debug/app-debug.apk" }`.
+ */
+export interface AdbTaskDefinition extends vscode.TaskDefinition {
+    action: AdbTaskAction;
+    /**
+     * Serial of the device. Can be left out while only one device is connected.
+     */
+    device?: string;
+    /**
+     * install: the APK, absolute or relative to the workspace folder.
+     */
+    apk?: string;
+    /**
+     * install: -g, -d, -t and --user.
+     */
+    installOptions?: InstallOptions;
+    /**
+     * The app; the target app if left out.
+     */
+    package?: string;
+    /**
+     * shell: the command to run.
+     */
+    command?: string;
+    /**
+     * grant: the runtime permission, e.g. android.permission.CAMERA.
+     */
+    permission?: string;
+    /**
+     * reverse: the device socket, e.g. tcp:8081.
+     */
+    remote?: string;
+    /**
+     * reverse: the socket on this machine; the same as `remote` if left out.
+     */
+    local?: string;
+}
+
+/**
+ * Exit code of a task whose ADB action failed. Shell tasks exit with the command's status instead.
+ */
+const EXIT_FAILED = 1;
+
+/**
+ * Exit code of a task that could not run: an invalid definition, or no device to run on.
+ */
+const EXIT_INVALID = 2;
+
+const requiredProperties: Record<AdbTaskAction, (keyof AdbTaskDefinition)[]> = {
+    install: ['apk'],
+    uninstall: ['package'],
+    clearData: ['package'],
+    start: ['package'],
+    forceStop: ['package'],
+    shell: ['command'],
+    grant: ['package', 'permission'],
+    reverse: ['remote']
+};
+
+/**
+ * Returns what is wrong with a task definition, or undefined if it can run.
+ * @param targetApp The target app, used when the definition has no package.
+ */
+export function validateAdbTask(definition: AdbTaskDefinition, targetApp?: string): string | undefined {
+    if (!ADB_TASK_ACTIONS.includes(definition.action)) {
+        return `Unknown action "${definition.action}". Use one of: ${ADB_TASK_ACTIONS.join(', ')}`;
+    }
+    const missing = requiredProperties[definition.action].filter(key => !definition[key] && !(key === 'package' && targetApp));
+    if (missing.length > 0) {
+        const names = missing.map(key => `"${key}"`).join(' and ');
+        return `The ${definition.action} action needs ${names}${missing.includes('package') ? ' or a target app' : ''}`;
+    }
+    return undefined;
+}
+
+/**
+ * Provides and runs `adb` tasks, so ADB steps can follow a Gradle task with `dependsOn` or run as
+ * a preLaunchTask. Each task runs in its own terminal and exits with 0 on success,
+ * 1 if the action failed and 2 if it could not run.
+ */
+export class AdbTaskProvider implements vscode.TaskProvider {
+    constructor(
+        private readonly adbClient: AdbClient,
+        private readonly targetAppManager: TargetAppManager
+    ) { }
+
+    /**
+     * Offers the app actions for the target app.
+     */
+    public provideTasks(): vscode.Task[] {
+        const app = this.targetAppManager.getSelectedApp();
+        if (!app) {
+            return [];
+        }
+        return (['start', 'forceStop', 'clearData', 'uninstall'] as AdbTaskAction[]).map(action =>
+            this.createTask({ type: ADB_TASK_TYPE, action, package: app }, vscode.TaskScope.Workspace, `${action} ${app}`));
+    }
+
+    public resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as AdbTaskDefinition;
+        if (!definition.action) {
+            return undefined;
+        }
+        return this.createTask(definition, task.scope ?? vscode.TaskScope.Workspace, task.name);
+    }
+
+    private createTask(definition: AdbTaskDefinition, scope: vscode.WorkspaceFolder | vscode.TaskScope, name: string): vscode.Task {
+        const folder = typeof scope === 'object' ? scope.uri.fsPath : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        // The resolved definition has ${workspaceFolder} and other variables substituted
+        const execution = new vscode.CustomExecution(async resolved =>
+            new AdbTaskTerminal(write => this.run(resolved as AdbTaskDefinition, folder, write)));
+        return new vscode.Task(definition, scope, name, ADB_TASK_TYPE, execution);
+    }
+
+    /**
+     * Runs a task's action.
+     * @returns The task's exit code.
+     */
+    private async run(definition: AdbTaskDefinition, folder: string | undefined, write: (text: string) => void): Promise<number> {
+        const targetApp = this.targetAppManager.getSelectedApp();
+        const problem = validateAdbTask(definition, targetApp);
+        if (problem) {
+            write(`Error: ${problem}`);
+            return EXIT_INVALID;
+        }
+
+        const packageName = definition.package || targetApp!;
+
+        try {
+            let deviceId = definition.device;
+            if (!deviceId) {
+                const devices = (await this.adbClient.getConnectedDevices()).filter(d => d.type === 'device');
+                if (devices.length !== 1) {
+                    write(devices.length === 0
+                        ? 'Error: No devices connected'
+                        : `Error: ${devices.length} devices are connected. Set "device" to one of: ${devices.map(d => d.id).join(', ')}`);
+                    return EXIT_INVALID;
+                }
+                deviceId = devices[0].id;
+            }
+
+            switch (definition.action) {
+                case 'install': {
+                    const apk = path.resolve(folder ?? '', definition.apk!);
+                    write(`Installing ${apk} on ${deviceId}`);
+                    write(await this.adbClient.installApk(deviceId, apk, definition.installOptions));
+                    break;
+                }
+                case 'uninstall':
+                    write(`Uninstalling ${packageName} from ${deviceId}`);
+                    write(await this.adbClient.uninstallApp(deviceId, packageName));
+                    break;
+                case 'clearData': {
+                    write(`Clearing the data of ${packageName} on ${deviceId}`);
+                    const output = await this.adbClient.clearAppData(deviceId, packageName);
+                    if (!output.includes('Success')) {
+                        throw new Error(output || 'pm clear failed');
+                    }
+                    write(output);
+                    break;
+                }
+                case 'start': {
+                    write(`Starting ${packageName} on ${deviceId}`);
+                    const output = await this.adbClient.startApp(deviceId, packageName);
+                    if (/monkey aborted|No activities found/i.test(output)) {
+                        throw new Error(`${packageName} has no launcher activity or is not installed`);
+                    }
+                    break;
+                }
+                case 'forceStop':
+                    write(`Stopping ${packageName} on ${deviceId}`);
+                    await this.adbClient.killApp(deviceId, packageName);
+                    break;
+                case 'shell': {
+                    write(`$ ${definition.command}`);
+                    const { output, exitCode } = await this.adbClient.executeShellCommandWithStatus(deviceId, definition.command!);
+                    if (output) {
+                        write(output);
+                    }
+                    return exitCode;
+                }
+                case 'grant': {
+                    write(`Granting ${definition.permission} to ${packageName} on ${deviceId}`);
+                    // pm grant prints nothing on success
+                    const output = await this.adbClient.setAppPermission(deviceId, packageName, definition.permission!, true);
+                    if (/exception|error/i.test(output)) {
+                        throw new Error(output);
+                    }
+                    break;
+                }
+                case 'reverse': {
+                    const local = definition.local || definition.remote!;
+                    write(`Reversing ${definition.remote} on ${deviceId} to ${local}`);
+                    await this.adbClient.reverse(deviceId, definition.remote!, local);
+                    break;
+                }
+            }
+            return 0;
+        } catch (e: any) {
+            write(`Error: ${e.message}`);
+            return EXIT_FAILED;
+        }
+    }
+}
+
+/**
+ * The terminal of a running adb task: shows what the task writes and closes with its exit code.
+ */
+class AdbTaskTerminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    readonly onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+    private closeEmitter = new vscode.EventEmitter<number>();
+    readonly onDidClose: vscode.Event<number> = this.closeEmitter.event;
+
+    constructor(private readonly task: (write: (text: string) => void) => Promise<number>) { }
+
+    public open() {
+        const write = (text: string) => this.writeEmitter.fire(`${text.replace(/\r?\n/g, '\r\n')}\r\n`);
+        this.task(write)
+            .then(exitCode => this.closeEmitter.fire(exitCode))
+            .catch(e => {
+                write(`Error: ${e.message}`);
+                this.closeEmitter.fire(EXIT_FAILED);
+            });
+    }
+
+    public close() {
+        // ADB actions are short and cannot be interrupted
+    }
+}
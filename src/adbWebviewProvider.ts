@@ -41,6 +41,9 @@ export class AdbWebviewProvider implements vscode.WebviewViewProvider {
                         vscode.window.showErrorMessage(e.message);
                     }
                     break;
+                case 'pairDevice':
+                    vscode.commands.executeCommand('adb-pro.pairDevice');
+                    break;
                 case 'refresh':
                     this.refresh();
                     break;
@@ -53,6 +56,12 @@ export class AdbWebviewProvider implements vscode.WebviewViewProvider {
                         vscode.window.showErrorMessage(e.message);
                     }
                     break;
+                case 'switchToWireless':
+                    vscode.commands.executeCommand('adb-pro.switchToWireless', data.deviceId);
+                    break;
+                case 'switchToUsb':
+                    vscode.commands.executeCommand('adb-pro.switchToUsb', data.deviceId);
+                    break;
                 case 'installApk':
                     vscode.commands.executeCommand('adb-pro.installApk', data.deviceId);
                     break;
@@ -68,9 +77,43 @@ export class AdbWebviewProvider implements vscode.WebviewViewProvider {
                 case 'logcat':
                     vscode.commands.executeCommand('adb-pro.logcat', data.deviceId);
                     break;
+                case 'logcatViewer':
+                    vscode.commands.executeCommand('adb-pro.logcatViewer', data.deviceId);
+                    break;
                 case 'screenshot':
                     vscode.commands.executeCommand('adb-pro.screenshot', data.deviceId);
                     break;
+                case 'screenRecord':
+                    vscode.commands.executeCommand('adb-pro.screenRecord', data.deviceId);
+                    break;
+                case 'mirrorScreen':
+                    vscode.commands.executeCommand('adb-pro.mirrorScreen', data.deviceId);
+                    break;
+                case 'buildInstallRun':
+                    vscode.commands.executeCommand('adb-pro.buildInstallRun', data.deviceId);
+                    break;
+                case 'launchActivity':
+                    vscode.commands.executeCommand('adb-pro.launchActivity', data.deviceId);
+                    break;
+                case 'launchIntent':
+                    vscode.commands.executeCommand('adb-pro.launchIntent', data.deviceId);
+                    break;
+                case 'inputText':
+                    // Without text, the command offers the editor selection and clipboard
+                    vscode.commands.executeCommand('adb-pro.inputText', data.deviceId, data.text || undefined);
+                    break;
+                case 'inputKeyEvent':
+                    vscode.commands.executeCommand('adb-pro.inputKeyEvent', data.deviceId);
+                    break;
+                case 'inputTap':
+                    vscode.commands.executeCommand('adb-pro.inputTap', data.deviceId);
+                    break;
+                case 'inputSwipe':
+                    vscode.commands.executeCommand('adb-pro.inputSwipe', data.deviceId);
+                    break;
+                case 'unlockScreen':
+                    vscode.commands.executeCommand('adb-pro.unlockScreen', data.deviceId);
+                    break;
                 case 'toggleWifi':
                     vscode.commands.executeCommand('adb-pro.toggleWifi', data.deviceId, data.enabled);
                     break;
@@ -98,13 +141,21 @@ export class AdbWebviewProvider implements vscode.WebviewViewProvider {
         if (this._view) {
             try {
                 const devices = await this.adbClient.getConnectedDevices();
-                this._view.webview.postMessage({ type: 'updateDevices', devices });
+                this.updateDevices(devices);
             } catch (e) {
                 // console.error('Failed to get devices', e);
             }
         }
     }
 
+    /**
+     * Pushes an already known device list to the Webview (e.g. from the DeviceWatcher).
+     * @param devices The current list of connected devices.
+     */
+    public updateDevices(devices: ConnectedDevice[]) {
+        this._view?.webview.postMessage({ type: 'updateDevices', devices });
+    }
+
     /**
      * Generates the HTML content for the Webview.
      * Includes the CSS styles and JavaScript logic for the UI.
@@ -340,6 +391,7 @@ export class AdbWebviewProvider implements vscode.WebviewViewProvider {
                 <div class="input-group">
                     <input type="text" id="ipInput" placeholder="IP Address (e.g. 192.168.1.5:5555)">
                     <button id="connectBtn" class="primary" style="width: auto;">Connect</button>
+                    <button id="pairBtn" class="secondary" style="width: auto;" title="Pair an Android 11+ device for wireless debugging with a QR code or pairing code">Pair…</button>
                 </div>
 
                 <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px;">
@@ -364,6 +416,10 @@ export class AdbWebviewProvider implements vscode.WebviewViewProvider {
                     }
                 });
 
+                document.getElementById('pairBtn').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'pairDevice' });
+                });
+
                 document.getElementById('refreshBtn').addEventListener('click', () => {
                     vscode.postMessage({ type: 'refresh' });
                 });
@@ -399,7 +455,7 @@ export class AdbWebviewProvider implements vscode.WebviewViewProvider {
                                     \${icon}
                                     <span>\${displayName}</span>
                                 </div>
-                                <span class="connection-badge">\${device.connectionType}</span>
+                                <span class="connection-badge">\${device.type === 'device' ? device.connectionType : device.type}</span>
                             </div>
                             <div style="font-size: 11px; color: var(--vscode-descriptionForeground); margin-bottom: 12px; margin-left: 22px;">
                                 ID: \${device.id}
@@ -449,6 +505,8 @@ export class AdbWebviewProvider implements vscode.WebviewViewProvider {
                                     <button class="secondary" onclick="sendCommand('uninstallApp', '\${device.id}')">Uninstall</button>
                                     <button class="secondary" onclick="sendCommand('clearAppData', '\${device.id}')">Clear Data</button>
                                     <button class="secondary" onclick="sendCommand('killApp', '\${device.id}')">Kill App</button>
+                                    <button class="secondary full-width" title="Start a specific activity with -S, -D, -W or --user" onclick="sendCommand('launchActivity', '\${device.id}')">Launch Activity</button>
+                                    <button class="full-width" title="Assemble a variant with the Gradle wrapper, install it and launch it" onclick="sendCommand('buildInstallRun', '\${device.id}')">Build, Install &amp; Run</button>
                                 </div>
                             </div>
 
@@ -456,13 +514,34 @@ export class AdbWebviewProvider implements vscode.WebviewViewProvider {
                                 <div class="section-title">Tools</div>
                                 <div class="actions-grid">
                                     <button class="secondary" onclick="sendCommand('logcat', '\${device.id}')">Logcat</button>
+                                    <button class="secondary" onclick="sendCommand('logcatViewer', '\${device.id}')">Logcat Viewer</button>
                                     <button class="secondary" onclick="sendCommand('screenshot', '\${device.id}')">Screenshot</button>
+                                    <button class="secondary" title="Start or stop a screen recording" onclick="sendCommand('screenRecord', '\${device.id}')">Record Screen</button>
+                                    <button class="secondary" onclick="sendCommand('mirrorScreen', '\${device.id}')">Mirror Screen</button>
+                                    <button class="secondary" title="Send an activity, broadcast or service intent, or open a deep link" onclick="sendCommand('launchIntent', '\${device.id}')">Launch Intent</button>
                                     <button class="secondary full-width" onclick="sendCommand('setPermission', '\${device.id}')">Manage Permissions</button>
                                 </div>
                             </div>
 
-                            <div style="margin-top: 12px;">
-                                <button class="secondary" style="color: var(--vscode-errorForeground); width: 100%;" onclick="sendCommand('disconnect', '\${device.id}')">Disconnect</button>
+                            <div class="action-section">
+                                <div class="section-title">Input</div>
+                                <div class="input-group" style="margin-bottom: 6px;">
+                                    <input type="text" id="text-\${device.id}" placeholder="Text to type (empty: selection or clipboard)">
+                                    <button class="secondary" style="width: auto;" onclick="sendText('\${device.id}')">Type</button>
+                                </div>
+                                <div class="actions-grid">
+                                    <button class="secondary" onclick="sendCommand('inputKeyEvent', '\${device.id}')">Key Event</button>
+                                    <button class="secondary" title="Wake, dismiss the keyguard and enter a PIN" onclick="sendCommand('unlockScreen', '\${device.id}')">Unlock</button>
+                                    <button class="secondary" onclick="sendCommand('inputTap', '\${device.id}')">Tap</button>
+                                    <button class="secondary" onclick="sendCommand('inputSwipe', '\${device.id}')">Swipe</button>
+                                </div>
+                            </div>
+
+                            <div style="margin-top: 12px; display: flex; gap: 6px;">
+                                \${device.type !== 'device' ? '' : device.connectionType === 'wireless'
+                                    ? \`<button class="secondary" style="flex: 1;" title="Restart adbd in USB mode and drop the Wi-Fi connection" onclick="sendCommand('switchToUsb', '\${device.id}')">Back to USB</button>\`
+                                    : \`<button class="secondary" style="flex: 1;" title="Restart adbd on port 5555 and connect over Wi-Fi" onclick="sendCommand('switchToWireless', '\${device.id}')">Switch to Wireless</button>\`}
+                                <button class="secondary" style="color: var(--vscode-errorForeground); flex: 1;" onclick="sendCommand('disconnect', '\${device.id}')">Disconnect</button>
                             </div>
                         \`;
                         deviceList.appendChild(item);
@@ -473,6 +552,12 @@ export class AdbWebviewProvider implements vscode.WebviewViewProvider {
                     vscode.postMessage({ type, deviceId });
                 };
 
+                window.sendText = (deviceId) => {
+                    const input = document.getElementById('text-' + deviceId);
+                    vscode.postMessage({ type: 'inputText', deviceId, text: input.value });
+                    input.value = '';
+                };
+
                 window.toggleFeature = (type, deviceId, enabled) => {
                     vscode.postMessage({ type, deviceId, enabled });
                 };
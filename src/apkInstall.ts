@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip = require('jszip');
+
+/**
+ * Options for `pm install` / `adb install`.
+ */
+export interface InstallOptions {
+    /**
+     * -g: grant all runtime permissions.
+     */
+    grantPermissions?: boolean;
+    /**
+     * -d: allow a lower version code than the installed one.
+     */
+    allowDowngrade?: boolean;
+    /**
+     * -t: allow packages with android:testOnly (e.g. debug builds from Android Studio).
+     */
+    allowTestPackages?: boolean;
+    /**
+     * --user: a user id, "current" or "all".
+     */
+    user?: string;
+}
+
+/**
+ * Returns the install flags for the options. -r (replace the installed app) is always set.
+ * @throws Error if the user is not a number, "current" or "all".
+ */
+export function installFlags(options: InstallOptions = {}): string[] {
+    const flags = ['-r'];
+    if (options.grantPermissions) {
+        flags.push('-g');
+    }
+    if (options.allowDowngrade) {
+        flags.push('-d');
+    }
+    if (options.allowTestPackages) {
+        flags.push('-t');
+    }
+    if (options.user !== undefined) {
+        if (!/^(\d+|current|all)$/.test(options.user)) {
+            throw new Error(`Invalid user: ${options.user}`);
+        }
+        flags.push('--user', options.user);
+    }
+    return flags;
+}
+
+/**
+ * What decides which configuration splits a device needs.
+ */
+export interface DeviceSpec {
+    /**
+     * Supported ABIs, most preferred first (ro.product.cpu.abilist).
+     */
+    abis: string[];
+    /**
+     * Screen density in dpi.
+     */
+    density?: number;
+    /**
+     * Locales such as en-US, most preferred first.
+     */
+    locales: string[];
+}
+
+/**
+ * Parses the output of
+ * `getprop ro.product.cpu.abilist; getprop ro.product.cpu.abi; getprop ro.sf.lcd_density; getprop persist.sys.locale; getprop ro.product.locale`,
+ * one value per line (empty if the property is not set).
+ */
+export function parseDeviceSpec(output: string): DeviceSpec {
+    const [abiList = '', abi = '', density = '', locale = '', productLocale = ''] = output.split('\n').map(line => line.trim());
+    const abis = (abiList || abi).split(',').map(value => value.trim()).filter(value => value);
+    const locales = [locale, productLocale].filter(value => value);
+    return { abis, density: parseInt(density, 10) || undefined, locales };
+}
+
+const densityBuckets = new Map<string, number>([
+    ['ldpi', 120], ['mdpi', 160], ['tvdpi', 213], ['hdpi', 240], ['xhdpi', 320], ['xxhdpi', 480], ['xxxhdpi', 640]
+]);
+const knownAbis = new Set(['armeabi', 'armeabi_v7a', 'arm64_v8a', 'x86', 'x86_64', 'mips', 'mips64', 'riscv64']);
+
+/**
+ * A configuration split, recognized by its file name: `base-arm64_v8a.apk` (bundletool),
+ * `split_config.xxhdpi.apk` (pulled from a device) or `config.en.apk` (.xapk).
+ */
+interface ConfigSplit {
+    /**
+     * The module (feature) the split belongs to; config splits of .xapk files and device pulls share one.
+     */
+    module: string;
+    kind: 'abi' | 'density' | 'language';
+    qualifier: string;
+}
+
+function splitName(fileName: string): string {
+    return path.basename(fileName).replace(/\.apk$/i, '');
+}
+
+/**
+ * Recognizes a config split by its file name.
+ * @param bundletoolModules Modules with a `<module>-master.apk`: only their `<module>-<qualifier>`
+ * files are bundletool config splits, so an APK that happens to be named e.g. `my-app.apk` is not.
+ */
+function classifySplit(fileName: string, bundletoolModules: Set<string>): ConfigSplit | undefined {
+    const name = splitName(fileName);
+    let module = '';
+    let qualifier: string;
+    const config = /^(?:(\w+)\.)?(?:split_)?config\.(\w+)$/.exec(name);
+    const bundletool = /^(\w+)-(\w+)$/.exec(name);
+    if (config) {
+        module = config[1] || '';
+        qualifier = config[2];
+    } else if (bundletool && bundletool[2] !== 'master' && bundletoolModules.has(bundletool[1])) {
+        module = bundletool[1];
+        qualifier = bundletool[2];
+    } else {
+        return undefined;
+    }
+    if (knownAbis.has(qualifier)) {
+        return { module, kind: 'abi', qualifier };
+    }
+    if (densityBuckets.has(qualifier)) {
+        return { module, kind: 'density', qualifier };
+    }
+    if (/^[a-z]{2,3}$/.test(qualifier)) {
+        return { module, kind: 'language', qualifier };
+    }
+    return undefined;
+}
+
+/**
+ * Picks the APKs a device needs from a set of splits: every base, master and feature split,
+ * and of the configuration splits the best ABI, the closest density and the device's languages.
+ * @returns The selected files and the skipped ones, in their original order.
+ */
+export function selectSplits(files: string[], spec: DeviceSpec): { selected: string[]; skipped: string[] } {
+    const bundletoolModules = new Set(files.map(splitName).filter(name => name.endsWith('-master')).map(name => name.slice(0, -'-master'.length)));
+    const splits = new Map(files.map(file => [file, classifySplit(file, bundletoolModules)]));
+    const keep = new Set<string>();
+    const modules = new Set(Array.from(splits.values()).filter(split => split).map(split => split!.module));
+
+    for (const file of files) {
+        if (!splits.get(file)) {
+            keep.add(file);
+        }
+    }
+    for (const module of modules) {
+        const ofKind = (kind: ConfigSplit['kind']) => files.filter(file => splits.get(file)?.module === module && splits.get(file)?.kind === kind);
+
+        // The most preferred ABI that has a split; none if the device supports none of them
+        const abiSplits = ofKind('abi');
+        const abi = spec.abis.map(value => value.replace(/-/g, '_')).find(value => abiSplits.some(file => splits.get(file)!.qualifier === value));
+        abiSplits.filter(file => splits.get(file)!.qualifier === abi).forEach(file => keep.add(file));
+
+        // The smallest density at or above the device's, otherwise the largest
+        const densitySplits = ofKind('density')
+            .sort((a, b) => densityBuckets.get(splits.get(a)!.qualifier)! - densityBuckets.get(splits.get(b)!.qualifier)!);
+        if (densitySplits.length > 0) {
+            const density = spec.density ?? densityBuckets.get('xxhdpi')!;
+            keep.add(densitySplits.find(file => densityBuckets.get(splits.get(file)!.qualifier)! >= density) || densitySplits[densitySplits.length - 1]);
+        }
+
+        // Without known locales, install every language rather than none
+        const languages = new Set(spec.locales.map(locale => locale.split(/[-_]/)[0].toLowerCase()));
+        ofKind('language')
+            .filter(file => languages.size === 0 || languages.has(splits.get(file)!.qualifier))
+            .forEach(file => keep.add(file));
+    }
+    return {
+        selected: files.filter(file => keep.has(file)),
+        skipped: files.filter(file => !keep.has(file))
+    };
+}
+
+/**
+ * Returns the APK entries of a .apks or .xapk archive to choose splits from. bundletool archives
+ * keep splits in splits/ and may also contain standalone or universal APKs for other devices.
+ */
+export function listArchiveApks(entryNames: string[]): string[] {
+    const apks = entryNames.filter(name => /\.apk$/i.test(name) && !name.endsWith('/'));
+    const splits = apks.filter(name => name.startsWith('splits/'));
+    if (splits.length > 0) {
+        return splits;
+    }
+    const universal = apks.filter(name => name === 'universal.apk');
+    if (universal.length > 0) {
+        return universal;
+    }
+    // .xapk: the base and its config splits sit at the top level
+    return apks.filter(name => !name.includes('/'));
+}
+
+/**
+ * The APK files to install on one device.
+ */
+export interface InstallPackage {
+    apkPaths: string[];
+    /**
+     * Splits left out because the device does not need them.
+     */
+    skipped: string[];
+}
+
+/**
+ * The user's selection, read once and shared by every device it is installed on.
+ * Files extracted from an archive are deleted by `dispose()`.
+ */
+export interface InstallSource {
+    /**
+     * Picks the APK files for one device. Splits from folders and archives are matched to the device.
+     */
+    prepare(spec: DeviceSpec): Promise<InstallPackage>;
+    dispose(): Promise<void>;
+}
+
+/**
+ * Opens the user's selection: one or more APK files, a folder of split APKs, or a .apks / .xapk
+ * archive. An archive is loaded once; each split is extracted the first time a device needs it.
+ * @throws Error if nothing installable was found.
+ */
+export async function openInstallSource(sources: string[]): Promise<InstallSource> {
+    const noCleanup = async () => undefined;
+    if (sources.length === 1 && (await fs.promises.stat(sources[0])).isDirectory()) {
+        const files = (await fs.promises.readdir(sources[0])).filter(name => /\.apk$/i.test(name)).sort();
+        if (files.length === 0) {
+            throw new Error(`No APK files in ${sources[0]}`);
+        }
+        return {
+            prepare: async spec => {
+                const { selected, skipped } = selectSplits(files, spec);
+                return { apkPaths: selected.map(name => path.join(sources[0], name)), skipped };
+            },
+            dispose: noCleanup
+        };
+    }
+
+    const archives = sources.filter(source => /\.(apks|xapk)$/i.test(source));
+    if (archives.length === 0) {
+        return { prepare: async () => ({ apkPaths: sources, skipped: [] }), dispose: noCleanup };
+    }
+    if (sources.length > 1) {
+        throw new Error('Select one .apks or .xapk archive at a time');
+    }
+
+    const zip = await JSZip.loadAsync(await fs.promises.readFile(archives[0]));
+    const entries = listArchiveApks(Object.keys(zip.files));
+    if (entries.length === 0) {
+        throw new Error(`No APK files in ${path.basename(archives[0])}`);
+    }
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'adb-pro-install-'));
+    // Devices installing in parallel share the extracted files
+    const extracted = new Map<string, Promise<string>>();
+    const extract = (entry: string) => {
+        let apkPath = extracted.get(entry);
+        if (!apkPath) {
+            apkPath = zip.file(entry)!.async('nodebuffer').then(async data => {
+                const file = path.join(dir, path.basename(entry));
+                await fs.promises.writeFile(file, data);
+                return file;
+            });
+            extracted.set(entry, apkPath);
+        }
+        return apkPath;
+    };
+    return {
+        prepare: async spec => {
+            const { selected, skipped } = selectSplits(entries, spec);
+            return { apkPaths: await Promise.all(selected.map(extract)), skipped };
+        },
+        dispose: async () => {
+            // Let extractions still running finish, so none writes into the removed directory
+            await Promise.all(Array.from(extracted.values()).map(apkPath => apkPath.catch(() => undefined)));
+            await fs.promises.rm(dir, { recursive: true, force: true });
+        }
+    };
+}
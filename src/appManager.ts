@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { GradleProject, isAndroidAppBuildFile, listVariants, parseAndroidAppConfig, parseIncludedModules } from './gradleProject';
 
 /**
  * Service to discover Android package names from the workspace.
@@ -25,6 +26,67 @@ export class AppDiscoveryService {
         return Array.from(packageNames).sort();
     }
 
+    /**
+     * Reads the AndroidManifest.xml files in the workspace, skipping build outputs.
+     */
+    public async readManifests(): Promise<string[]> {
+        const manifests: string[] = [];
+        const uris = await vscode.workspace.findFiles('**/AndroidManifest.xml', '**/{build,node_modules,.gradle}/**');
+        for (const uri of uris) {
+            try {
+                manifests.push(await fs.promises.readFile(uri.fsPath, 'utf-8'));
+            } catch (e) {
+                // Ignore read errors
+            }
+        }
+        return manifests;
+    }
+
+    /**
+     * Finds the Gradle builds in the workspace with their app modules and build variants.
+     */
+    public async findGradleProjects(): Promise<GradleProject[]> {
+        const projects: GradleProject[] = [];
+        const uris = await vscode.workspace.findFiles('**/settings.gradle{,.kts}', '**/{build,node_modules,.gradle}/**');
+        for (const uri of uris) {
+            const rootDir = path.dirname(uri.fsPath);
+            if (projects.some(project => project.rootDir === rootDir)) {
+                continue;
+            }
+            let includes: string[] = [];
+            try {
+                includes = parseIncludedModules(await fs.promises.readFile(uri.fsPath, 'utf-8'));
+            } catch (e) {
+                // Ignore read errors
+            }
+            const modules = [];
+            // A single-module build keeps the app in the root project
+            for (const modulePath of includes.length > 0 ? includes : [':']) {
+                const dir = path.join(rootDir, ...modulePath.split(':').filter(part => part));
+                const buildFile = await this.readFirst([path.join(dir, 'build.gradle.kts'), path.join(dir, 'build.gradle')]);
+                if (buildFile && isAndroidAppBuildFile(buildFile)) {
+                    modules.push({ path: modulePath, dir, variants: listVariants(parseAndroidAppConfig(buildFile)) });
+                }
+            }
+            if (modules.length > 0) {
+                const gradlew = path.join(rootDir, process.platform === 'win32' ? 'gradlew.bat' : 'gradlew');
+                projects.push({ rootDir, gradlew: fs.existsSync(gradlew) ? gradlew : undefined, modules });
+            }
+        }
+        return projects;
+    }
+
+    private async readFirst(filePaths: string[]): Promise<string | undefined> {
+        for (const filePath of filePaths) {
+            try {
+                return await fs.promises.readFile(filePath, 'utf-8');
+            } catch (e) {
+                // Try the next one
+            }
+        }
+        return undefined;
+    }
+
     private async scanFolder(folderPath: string, packageNames: Set<string>) {
         // Limit recursion depth and ignore common folders
         const ignoreDirs = new Set(['node_modules', '.git', 'build', '.gradle', '.idea', '.vscode']);
@@ -101,6 +163,9 @@ export class TargetAppManager {
     private static readonly STORAGE_KEY = 'adb-pro.targetApp';
     private static readonly HISTORY_KEY = 'adb-pro.appHistory';
 
+    private _onDidChangeSelectedApp = new vscode.EventEmitter<string | undefined>();
+    readonly onDidChangeSelectedApp: vscode.Event<string | undefined> = this._onDidChangeSelectedApp.event;
+
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
         this.discoveryService = new AppDiscoveryService();
@@ -120,6 +185,7 @@ export class TargetAppManager {
             await this.addToHistory(packageName);
         }
         this.updateStatusBar();
+        this._onDidChangeSelectedApp.fire(packageName);
     }
 
     private updateStatusBar() {
@@ -229,5 +295,6 @@ export class TargetAppManager {
 
     public dispose() {
         this.statusBarItem.dispose();
+        this._onDidChangeSelectedApp.dispose();
     }
 }
@@ -0,0 +1,186 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AdbClient } from './adbClient';
+import { InstallOptions } from './apkInstall';
+import { TargetAppManager } from './appManager';
+import { findOutputApks } from './gradleBuild';
+import { pickOutputApk } from './gradleProject';
+import { DeviceResult, runOnDevices } from './multiDevice';
+
+/**
+ * The outcome of deploying one build output directory.
+ */
+export interface AutoDeployResult {
+    outputDir: string;
+    /**
+     * The app that was restarted, if it is known.
+     */
+    packageName?: string;
+    results: DeviceResult<string>[];
+}
+
+/**
+ * Watch mode: whenever Gradle writes a new APK under build/outputs/apk, reinstalls it on the
+ * chosen devices and restarts the app, whatever started the build (a terminal, Android Studio,
+ * a task). A status bar item shows whether it is on and turns it on or off.
+ */
+export class AutoDeployer implements vscode.Disposable {
+    /**
+     * Gradle writes the APK and output-metadata.json one after the other; wait until it is done.
+     */
+    private static readonly settleDelayMs = 1500;
+
+    private _onDidDeploy = new vscode.EventEmitter<AutoDeployResult>();
+    readonly onDidDeploy: vscode.Event<AutoDeployResult> = this._onDidDeploy.event;
+
+    private deviceIds: string[] = [];
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private timers = new Map<string, NodeJS.Timeout>();
+    /**
+     * Modification time of every APK that was deployed, so a file is not deployed twice.
+     */
+    private deployed = new Map<string, number>();
+    private queue: Promise<void> = Promise.resolve();
+    private deploying = false;
+    private lastDeploy: string | undefined;
+    private statusBarItem: vscode.StatusBarItem;
+
+    constructor(
+        private readonly adbClient: AdbClient,
+        private readonly targetAppManager: TargetAppManager,
+        private readonly context: vscode.ExtensionContext
+    ) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98);
+        this.statusBarItem.command = 'adb-pro.toggleAutoDeploy';
+        this.updateStatusBar();
+        this.statusBarItem.show();
+    }
+
+    public isActive(): boolean {
+        return this.watcher !== undefined;
+    }
+
+    public getDeviceIds(): string[] {
+        return this.deviceIds;
+    }
+
+    /**
+     * Starts watching the workspace's build outputs, deploying to the given devices. APKs that
+     * already exist are not deployed until they are rebuilt.
+     */
+    public start(deviceIds: string[]) {
+        this.stop();
+        this.deviceIds = deviceIds;
+        this.watcher = vscode.workspace.createFileSystemWatcher('**/build/outputs/apk/**/{*.apk,output-metadata.json}');
+        this.watcher.onDidCreate(uri => this.schedule(uri));
+        this.watcher.onDidChange(uri => this.schedule(uri));
+        this.updateStatusBar();
+    }
+
+    public stop() {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.deviceIds = [];
+        this.updateStatusBar();
+    }
+
+    /**
+     * Records APKs as deployed, e.g. by Build, Install & Run, so watch mode does not install them again.
+     */
+    public async markDeployed(files: string[]): Promise<void> {
+        for (const file of files) {
+            try {
+                this.deployed.set(file, (await fs.promises.stat(file)).mtimeMs);
+            } catch (e) {
+                // Deleted since
+            }
+        }
+    }
+
+    private schedule(uri: vscode.Uri) {
+        // One deploy per output directory, after the build has stopped writing to it
+        const outputDir = path.dirname(uri.fsPath);
+        clearTimeout(this.timers.get(outputDir));
+        this.timers.set(outputDir, setTimeout(() => {
+            this.timers.delete(outputDir);
+            this.queue = this.queue.then(async () => {
+                if (!this.isActive()) {
+                    return;
+                }
+                try {
+                    const result = await this.deploy(outputDir);
+                    if (result) {
+                        this._onDidDeploy.fire(result);
+                    }
+                } catch (e) {
+                    // No complete APK yet (e.g. a clean build); the next write schedules another try
+                }
+            });
+        }, AutoDeployer.settleDelayMs));
+    }
+
+    /**
+     * Installs the APKs of an output directory on the watched devices and restarts the app with
+     * force-stop and start. The app is the application id from output-metadata.json, or the
+     * target app.
+     * @returns The results, or undefined if the APKs were deployed before.
+     * @throws Error if the directory has no APK.
+     */
+    public async deploy(outputDir: string): Promise<AutoDeployResult | undefined> {
+        const outputs = await findOutputApks(outputDir);
+        const mtimes = await Promise.all(outputs.apks.map(async apk => (await fs.promises.stat(apk.file)).mtimeMs));
+        if (outputs.apks.every((apk, index) => this.deployed.get(apk.file) === mtimes[index])) {
+            return undefined;
+        }
+        outputs.apks.forEach((apk, index) => this.deployed.set(apk.file, mtimes[index]));
+
+        const packageName = outputs.applicationId || this.targetAppManager.getSelectedApp();
+        const installOptions = this.context.workspaceState.get<InstallOptions>('adb-pro.installOptions') || {};
+        this.deploying = true;
+        this.updateStatusBar();
+        try {
+            const results = await runOnDevices(this.deviceIds, async deviceId => {
+                const apk = pickOutputApk(outputs.apks, (await this.adbClient.getDeviceSpec(deviceId)).abis);
+                if (!apk) {
+                    throw new Error(`None of the APKs in ${outputDir} supports the device's ABIs`);
+                }
+                await this.adbClient.installApk(deviceId, apk.file, installOptions);
+                if (!packageName) {
+                    return `Installed ${path.basename(apk.file)}`;
+                }
+                await this.adbClient.killApp(deviceId, packageName);
+                await this.adbClient.startApp(deviceId, packageName);
+                return `Installed ${path.basename(apk.file)} and restarted ${packageName}`;
+            });
+            this.lastDeploy = `${path.basename(outputs.apks[0].file)} at ${new Date().toLocaleTimeString()}`;
+            return { outputDir, packageName, results };
+        } finally {
+            this.deploying = false;
+            this.updateStatusBar();
+        }
+    }
+
+    private updateStatusBar() {
+        if (!this.isActive()) {
+            this.statusBarItem.text = '$(eye-closed) Auto-Deploy';
+            this.statusBarItem.tooltip = 'Watch mode is off. Click to reinstall and restart the app whenever a new APK is built.';
+            return;
+        }
+        const devices = this.deviceIds.length === 1 ? this.deviceIds[0] : `${this.deviceIds.length} devices`;
+        this.statusBarItem.text = this.deploying ? `$(sync~spin) Deploying to ${devices}` : `$(eye) Auto-Deploy: ${devices}`;
+        this.statusBarItem.tooltip = [
+            `Watch mode: new APKs in build/outputs/apk are installed on ${this.deviceIds.join(', ')} and the app is restarted.`,
+            this.lastDeploy ? `Last deploy: ${this.lastDeploy}` : undefined,
+            'Click to turn off.'
+        ].filter(line => line).join('\n');
+    }
+
+    public dispose() {
+        this.stop();
+        this.statusBarItem.dispose();
+        this._onDidDeploy.dispose();
+    }
+}
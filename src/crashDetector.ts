@@ -0,0 +1,293 @@
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { AdbClient, ConnectedDevice } from './adbClient';
+import { AdbStream } from './adbProtocol';
+import { TargetAppManager } from './appManager';
+import { CrashLogParser, ParsedCrash, traceMatchesProcess } from './crashParser';
+import { LineSplitter, parseLogcatLine } from './logcatParser';
+
+/**
+ * A crash of the target app collected during this session.
+ */
+export interface CrashReport extends ParsedCrash {
+    id: number;
+    deviceId: string;
+    time: Date;
+    /**
+     * Contents of the ANR trace or tombstone, when the device lets us read it.
+     */
+    trace?: string;
+    tracePath?: string;
+    /**
+     * Why no trace is attached (e.g. /data/anr is not readable on user builds).
+     */
+    traceNote?: string;
+}
+
+interface DeviceMonitor {
+    stream?: AdbStream;
+    parser: CrashLogParser;
+    flushTimer?: NodeJS.Timeout;
+    reconnectTimer?: NodeJS.Timeout;
+    reconnectDelay: number;
+}
+
+const ACCESS_DENIED_REGEX = /Permission denied|No such file|not permitted/i;
+const MAX_TRACE_LENGTH = 1024 * 1024;
+/**
+ * How many of the newest trace files are checked for the one of the crashed process.
+ */
+const MAX_TRACE_CANDIDATES = 5;
+
+/**
+ * Watches the logs of every online device for crashes, native crashes and ANRs
+ * of the package selected in TargetAppManager, and keeps a per-session list of them.
+ */
+export class CrashDetector implements vscode.Disposable {
+    private static readonly flushDelayMs = 2500;
+    private static readonly minReconnectDelayMs = 1000;
+    private static readonly maxReconnectDelayMs = 15000;
+
+    private monitors = new Map<string, DeviceMonitor>();
+    private devices: ConnectedDevice[] = [];
+    private crashes: CrashReport[] = [];
+    private nextId = 1;
+    private disposables: vscode.Disposable[] = [];
+
+    private _onDidDetectCrash = new vscode.EventEmitter<CrashReport>();
+    readonly onDidDetectCrash: vscode.Event<CrashReport> = this._onDidDetectCrash.event;
+    private _onDidChangeCrashes = new vscode.EventEmitter<void>();
+    readonly onDidChangeCrashes: vscode.Event<void> = this._onDidChangeCrashes.event;
+
+    constructor(
+        private readonly adbClient: AdbClient,
+        private readonly targetAppManager: TargetAppManager
+    ) {
+        this.disposables.push(targetAppManager.onDidChangeSelectedApp(() => this.updateMonitors()));
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('adb.detectCrashes')) {
+                this.updateMonitors();
+            }
+        }));
+    }
+
+    /**
+     * Updates the set of monitored devices (called whenever the device list changes).
+     */
+    public updateDevices(devices: ConnectedDevice[]) {
+        this.devices = devices;
+        this.updateMonitors();
+    }
+
+    public getCrashes(): CrashReport[] {
+        return this.crashes;
+    }
+
+    public getCrash(id: number): CrashReport | undefined {
+        return this.crashes.find(c => c.id === id);
+    }
+
+    public clear() {
+        this.crashes = [];
+        this._onDidChangeCrashes.fire();
+    }
+
+    private isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('adb').get<boolean>('detectCrashes', true)
+            && this.targetAppManager.getSelectedApp() !== undefined;
+    }
+
+    private updateMonitors() {
+        const wanted = new Set(this.isEnabled()
+            ? this.devices.filter(d => d.type === 'device').map(d => d.id)
+            : []);
+
+        this.monitors.forEach((_monitor, deviceId) => {
+            if (!wanted.has(deviceId)) {
+                this.stopMonitor(deviceId);
+            }
+        });
+        wanted.forEach(deviceId => {
+            if (!this.monitors.has(deviceId)) {
+                this.startMonitor(deviceId);
+            }
+        });
+    }
+
+    private startMonitor(deviceId: string) {
+        const monitor: DeviceMonitor = {
+            parser: new CrashLogParser(crash => this.handleCrash(deviceId, crash)),
+            reconnectDelay: CrashDetector.minReconnectDelayMs
+        };
+        this.monitors.set(deviceId, monitor);
+        this.connectMonitor(deviceId, monitor);
+    }
+
+    private async connectMonitor(deviceId: string, monitor: DeviceMonitor) {
+        try {
+            // Only new lines: crashes already in the buffer were either seen before or are stale
+            const stream = await this.adbClient.openLogcat(deviceId, [], true);
+            if (this.monitors.get(deviceId) !== monitor) {
+                stream.close();
+                return;
+            }
+            monitor.stream = stream;
+            monitor.reconnectDelay = CrashDetector.minReconnectDelayMs;
+            const splitter = new LineSplitter();
+            // Chunks can end in the middle of a multi-byte character
+            const decoder = new StringDecoder('utf8');
+            const pushLines = (text: string) => {
+                for (const line of splitter.push(text)) {
+                    const entry = parseLogcatLine(line);
+                    if (entry) {
+                        monitor.parser.push(entry);
+                    }
+                }
+            };
+            stream.onData(chunk => {
+                pushLines(decoder.write(chunk));
+                this.scheduleFlush(monitor);
+            });
+            stream.onClose(() => {
+                if (monitor.stream === stream) {
+                    pushLines(decoder.end());
+                    monitor.parser.flush();
+                    monitor.stream = undefined;
+                    // logcat restarted or the connection dropped while the device is still listed
+                    this.scheduleReconnect(deviceId, monitor);
+                }
+            });
+        } catch (e) {
+            // Device going away or the server restarting; stopMonitor ends the retries once the device is gone
+            this.scheduleReconnect(deviceId, monitor);
+        }
+    }
+
+    private scheduleReconnect(deviceId: string, monitor: DeviceMonitor) {
+        if (this.monitors.get(deviceId) !== monitor || monitor.reconnectTimer) {
+            return;
+        }
+        monitor.reconnectTimer = setTimeout(() => {
+            monitor.reconnectTimer = undefined;
+            if (this.monitors.get(deviceId) === monitor) {
+                this.connectMonitor(deviceId, monitor);
+            }
+        }, monitor.reconnectDelay);
+        monitor.reconnectDelay = Math.min(monitor.reconnectDelay * 2, CrashDetector.maxReconnectDelayMs);
+    }
+
+    /**
+     * Makes sure a report is emitted even if no further log lines arrive after it.
+     */
+    private scheduleFlush(monitor: DeviceMonitor) {
+        if (monitor.parser.hasPending() && !monitor.flushTimer) {
+            monitor.flushTimer = setTimeout(() => {
+                monitor.flushTimer = undefined;
+                monitor.parser.flush();
+            }, CrashDetector.flushDelayMs);
+        }
+    }
+
+    private stopMonitor(deviceId: string) {
+        const monitor = this.monitors.get(deviceId);
+        this.monitors.delete(deviceId);
+        if (monitor) {
+            if (monitor.flushTimer) {
+                clearTimeout(monitor.flushTimer);
+            }
+            if (monitor.reconnectTimer) {
+                clearTimeout(monitor.reconnectTimer);
+            }
+            monitor.stream?.close();
+        }
+    }
+
+    private async handleCrash(deviceId: string, crash: ParsedCrash) {
+        if (crash.packageName !== this.targetAppManager.getSelectedApp()) {
+            return;
+        }
+        const report: CrashReport = {
+            ...crash,
+            id: this.nextId++,
+            deviceId,
+            time: new Date()
+        };
+        if (report.type !== 'crash') {
+            await this.pullTrace(report);
+        }
+        this.crashes.unshift(report);
+        this._onDidChangeCrashes.fire();
+        this._onDidDetectCrash.fire(report);
+    }
+
+    /**
+     * Attaches the newest ANR trace or tombstone written for the crashed process, where the device
+     * allows reading it.
+     */
+    private async pullTrace(report: CrashReport) {
+        const dir = report.type === 'anr' ? '/data/anr' : '/data/tombstones';
+        try {
+            const listing = await this.adbClient.executeShellCommand(report.deviceId, `ls -t ${dir}`);
+            const candidates = listing.split(/\s+/).filter(f => f && !f.endsWith('.pb')).slice(0, MAX_TRACE_CANDIDATES);
+            if (ACCESS_DENIED_REGEX.test(listing) || candidates.length === 0) {
+                report.traceNote = `${dir} is not accessible on this device`;
+                return;
+            }
+            for (const candidate of candidates) {
+                const tracePath = `${dir}/${candidate}`;
+                // The process is named in the first lines of both formats
+                const head = await this.adbClient.executeShellCommand(report.deviceId, `head -n 20 ${tracePath}`);
+                if (ACCESS_DENIED_REGEX.test(head.split('\n')[0])) {
+                    report.traceNote = `${tracePath} is not readable on this device`;
+                    return;
+                }
+                if (!traceMatchesProcess(head, report.packageName, report.pid)) {
+                    continue;
+                }
+                const trace = await this.adbClient.executeShellCommand(report.deviceId, `cat ${tracePath}`);
+                report.tracePath = tracePath;
+                report.trace = trace.length > MAX_TRACE_LENGTH ? trace.substring(0, MAX_TRACE_LENGTH) + '\n[truncated]' : trace;
+                return;
+            }
+            report.traceNote = `No file in ${dir} belongs to ${report.packageName}${report.pid ? ` (PID ${report.pid})` : ''}`;
+        } catch (e: any) {
+            report.traceNote = `Could not read ${dir}: ${e.message}`;
+        }
+    }
+
+    public dispose() {
+        Array.from(this.monitors.keys()).forEach(deviceId => this.stopMonitor(deviceId));
+        this.disposables.forEach(d => d.dispose());
+        this._onDidDetectCrash.dispose();
+        this._onDidChangeCrashes.dispose();
+    }
+}
+
+/**
+ * Formats a crash report as plain text (used for the editor view and the clipboard).
+ */
+export function formatCrashReport(report: CrashReport): string {
+    const kind = report.type === 'anr' ? 'ANR' : report.type === 'native' ? 'Native crash' : 'Crash';
+    const lines = [
+        `${kind}: ${report.title}`,
+        `Package: ${report.packageName}${report.pid ? ` (PID ${report.pid})` : ''}`,
+        `Device: ${report.deviceId}`,
+        `Time: ${report.timestamp}`,
+        '',
+        ...report.lines
+    ];
+    if (report.trace) {
+        lines.push('', `--- ${report.tracePath} ---`, report.trace);
+    } else if (report.traceNote) {
+        lines.push('', `--- ${report.traceNote} ---`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Opens a crash report in an editor. The 'log' language enables clickable stack frames.
+ */
+export async function showCrashReport(report: CrashReport): Promise<void> {
+    const document = await vscode.workspace.openTextDocument({ language: 'log', content: formatCrashReport(report) });
+    await vscode.window.showTextDocument(document, { preview: true });
+}
@@ -0,0 +1,192 @@
+import { LogcatEntry } from './logcatParser';
+
+/**
+ * Kind of failure detected in the device logs.
+ */
+export type CrashType = 'crash' | 'native' | 'anr';
+
+/**
+ * A crash, native crash or ANR assembled from consecutive logcat entries.
+ */
+export interface ParsedCrash {
+    type: CrashType;
+    packageName: string;
+    pid?: number;
+    title: string;
+    timestamp: string;
+    lines: string[];
+}
+
+interface PendingCrash {
+    type: CrashType;
+    tag: string;
+    pid: number;
+    startMs: number;
+    timestamp: string;
+    packageName?: string;
+    crashedPid?: number;
+    title?: string;
+    lines: string[];
+}
+
+/**
+ * How long (in log time) after the first line a report may still receive lines.
+ */
+const REPORT_WINDOW_MS = 2000;
+const MAX_REPORT_LINES = 500;
+
+/**
+ * Converts a threadtime timestamp ("10-27 12:34:56.789") to milliseconds.
+ * Only used to compare nearby timestamps, so month lengths don't matter.
+ */
+function timestampToMs(timestamp: string): number {
+    const match = /^(\d{2})-(\d{2})\s+(\d{2}):(\d{2}):(\d{2})\.(\d+)/.exec(timestamp);
+    if (!match) {
+        return 0;
+    }
+    const [, month, day, hours, minutes, seconds, millis] = match.map(Number);
+    return ((((month * 31 + day) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000 + millis;
+}
+
+/**
+ * Recognizes Java crashes (`FATAL EXCEPTION`), native crashes (debuggerd `*** *** ***` dumps)
+ * and ANRs (`ANR in ...`) in a stream of logcat entries.
+ * Lines of a report are collected while they come from the same tag and process, within a short window.
+ * Secondary processes ("package:process") are attributed to their package.
+ */
+export class CrashLogParser {
+    private current: PendingCrash | undefined;
+
+    constructor(private readonly onCrash: (crash: ParsedCrash) => void) { }
+
+    /**
+     * Feeds one logcat entry to the parser.
+     */
+    public push(entry: LogcatEntry) {
+        const startType = this.detectStart(entry);
+        const current = this.current;
+        if (current && !startType) {
+            if (timestampToMs(entry.timestamp) - current.startMs > REPORT_WINDOW_MS) {
+                this.flush();
+            } else if (entry.tag === current.tag && entry.pid === current.pid) {
+                this.append(current, entry.message);
+                return;
+            } else {
+                // Unrelated line interleaved with the report
+                return;
+            }
+        }
+
+        if (startType) {
+            this.flush();
+            this.current = {
+                type: startType,
+                tag: entry.tag,
+                pid: entry.pid,
+                startMs: timestampToMs(entry.timestamp),
+                timestamp: entry.timestamp,
+                lines: []
+            };
+            if (startType === 'crash') {
+                // A Java crash is logged by the crashing process itself
+                this.current.crashedPid = entry.pid;
+            }
+            this.append(this.current, entry.message);
+        }
+    }
+
+    /**
+     * Returns true while a report is still being assembled.
+     */
+    public hasPending(): boolean {
+        return this.current !== undefined;
+    }
+
+    /**
+     * Finishes the report being assembled, if any.
+     */
+    public flush() {
+        const current = this.current;
+        this.current = undefined;
+        if (current && current.packageName) {
+            this.onCrash({
+                type: current.type,
+                packageName: current.packageName,
+                pid: current.crashedPid,
+                title: current.title || (current.type === 'anr' ? 'Application Not Responding' : current.lines[0]),
+                timestamp: current.timestamp,
+                lines: current.lines
+            });
+        }
+    }
+
+    private detectStart(entry: LogcatEntry): CrashType | undefined {
+        if (entry.tag === 'AndroidRuntime' && entry.message.startsWith('FATAL EXCEPTION')) {
+            return 'crash';
+        }
+        if (entry.tag === 'DEBUG' && entry.message.includes('*** *** ***')) {
+            return 'native';
+        }
+        if (entry.tag === 'ActivityManager' && entry.message.startsWith('ANR in ')) {
+            return 'anr';
+        }
+        return undefined;
+    }
+
+    private append(crash: PendingCrash, message: string) {
+        if (crash.lines.length >= MAX_REPORT_LINES) {
+            return;
+        }
+        crash.lines.push(message);
+
+        let match;
+        switch (crash.type) {
+            case 'crash':
+                // Process: com.example.app, PID: 1234
+                if ((match = /^Process: ([^,\s]+), PID: (\d+)/.exec(message))) {
+                    crash.packageName = match[1].split(':')[0];
+                    crash.crashedPid = parseInt(match[2], 10);
+                } else if (!crash.title && crash.packageName && !message.startsWith('\tat ') && message.trim()) {
+                    crash.title = message.trim();
+                }
+                break;
+            case 'native':
+                // pid: 1234, tid: 1234, name: main  >>> com.example.app <<<
+                if ((match = /pid: (\d+), tid: \d+, name: .*>>> ([^\s<]+) <<</.exec(message))) {
+                    crash.crashedPid = parseInt(match[1], 10);
+                    crash.packageName = match[2].split(':')[0];
+                } else if (!crash.title && /^signal \d+/.test(message)) {
+                    crash.title = message.trim();
+                }
+                break;
+            case 'anr':
+                // ANR in com.example.app (com.example.app/.MainActivity)
+                if ((match = /^ANR in ([^\s(]+)/.exec(message))) {
+                    crash.packageName = match[1].split(':')[0];
+                } else if ((match = /^PID: (\d+)/.exec(message))) {
+                    crash.crashedPid = parseInt(match[1], 10);
+                } else if (!crash.title && message.startsWith('Reason: ')) {
+                    crash.title = message.trim();
+                }
+                break;
+        }
+    }
+}
+
+/**
+ * Checks that a tombstone or ANR trace file was written for the given process.
+ * Tombstones name it as "pid: 1234, tid: 1234, name: main  >>> com.example.app <<<",
+ * ANR traces as "----- pid 1234 at <time> -----" followed by "Cmd line: com.example.app".
+ * Compares the PID when known, the package otherwise.
+ */
+export function traceMatchesProcess(trace: string, packageName: string, pid?: number): boolean {
+    const tombstone = /^pid: (\d+), tid: \d+, name: .*>>> ([^\s<]+) <<</m.exec(trace);
+    const anrPid = /^----- pid (\d+) at /m.exec(trace);
+    const anrProcess = /^Cmd line: (\S+)/m.exec(trace);
+    const tracePid = tombstone?.[1] ?? anrPid?.[1];
+    const processName = tombstone?.[2] ?? anrProcess?.[1];
+    if (pid !== undefined && tracePid !== undefined) {
+        return parseInt(tracePid, 10) === pid;
+    }
+    return processName !== undefined && processName.split(':')[0] === packageName;
+}
@@ -0,0 +1,237 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import initSqlJs = require('sql.js');
+import { AdbClient } from './adbClient';
+import { applyWal, isWalMode, setWalMode } from './sqliteWal';
+
+/**
+ * A database copied from the target app's sandbox and opened in memory.
+ */
+export interface InspectedDatabase {
+    id: number;
+    deviceId: string;
+    packageName: string;
+    /**
+     * Path relative to the app's data directory (e.g. databases/app.db).
+     */
+    remotePath: string;
+    db: initSqlJs.Database;
+    /**
+     * Whether the app uses WAL mode, so the header can be restored before pushing.
+     */
+    walMode: boolean;
+    /**
+     * Whether statements changed the local copy since it was pulled or pushed.
+     */
+    modified: boolean;
+}
+
+/**
+ * Result of running SQL against an inspected database.
+ */
+export interface QueryOutcome {
+    results: initSqlJs.QueryExecResult[];
+    changes: number;
+}
+
+export type DatabaseTreeElement = DatabaseTreeItem | TableTreeItem | ColumnTreeItem;
+
+/**
+ * Quotes an SQLite identifier (table or column name).
+ */
+export function quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Pulls app databases through run-as, opens them with sql.js and lists their
+ * tables and columns in the "Database Inspector" view.
+ * Edits only touch the local copy until they are pushed back with push().
+ */
+export class DatabaseInspector implements vscode.TreeDataProvider<DatabaseTreeElement>, vscode.Disposable {
+    public static readonly viewId = 'adb-database-inspector';
+    private static sqlJs: Promise<initSqlJs.SqlJsStatic> | undefined;
+
+    private databases: InspectedDatabase[] = [];
+    private nextId = 1;
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<DatabaseTreeElement | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<DatabaseTreeElement | undefined | null | void> = this._onDidChangeTreeData.event;
+    private _onDidChangeDatabase = new vscode.EventEmitter<InspectedDatabase>();
+    /**
+     * Fires when a database was reloaded, modified, pushed or closed.
+     */
+    readonly onDidChangeDatabase: vscode.Event<InspectedDatabase> = this._onDidChangeDatabase.event;
+
+    constructor(private readonly adbClient: AdbClient) { }
+
+    private static loadSqlJs(): Promise<initSqlJs.SqlJsStatic> {
+        if (!DatabaseInspector.sqlJs) {
+            DatabaseInspector.sqlJs = initSqlJs();
+        }
+        return DatabaseInspector.sqlJs;
+    }
+
+    public getDatabases(): InspectedDatabase[] {
+        return this.databases;
+    }
+
+    public getDatabase(id: number): InspectedDatabase | undefined {
+        return this.databases.find(d => d.id === id);
+    }
+
+    /**
+     * Pulls a database from the app's sandbox and opens it, or returns it if it is already open.
+     * @param remotePath Path relative to the app's data directory.
+     */
+    public async open(deviceId: string, packageName: string, remotePath: string): Promise<InspectedDatabase> {
+        const existing = this.databases.find(d => d.deviceId === deviceId && d.packageName === packageName && d.remotePath === remotePath);
+        if (existing) {
+            return existing;
+        }
+        const { db, walMode } = await this.pull(deviceId, packageName, remotePath);
+        const database: InspectedDatabase = { id: this.nextId++, deviceId, packageName, remotePath, db, walMode, modified: false };
+        this.databases.push(database);
+        this.changed(database);
+        return database;
+    }
+
+    /**
+     * Replaces the local copy with the current contents on the device, discarding local edits.
+     */
+    public async reload(database: InspectedDatabase): Promise<void> {
+        const { db, walMode } = await this.pull(database.deviceId, database.packageName, database.remotePath);
+        database.db.close();
+        database.db = db;
+        database.walMode = walMode;
+        database.modified = false;
+        this.changed(database);
+    }
+
+    public close(database: InspectedDatabase) {
+        this.databases = this.databases.filter(d => d !== database);
+        database.db.close();
+        this.changed(database);
+    }
+
+    /**
+     * Runs one or more SQL statements against the local copy.
+     */
+    public execute(database: InspectedDatabase, sql: string): QueryOutcome {
+        const totalChanges = () => database.db.exec('SELECT total_changes()')[0].values[0][0] as number;
+        const before = totalChanges();
+        const results = database.db.exec(sql);
+        const changes = totalChanges() - before;
+        // Schema changes don't count as row changes, so treat anything but a plain query as a modification
+        if (changes > 0 || !/^\s*(SELECT|PRAGMA|EXPLAIN|WITH)\b/i.test(sql)) {
+            database.modified = true;
+        }
+        this.changed(database);
+        return { results, changes };
+    }
+
+    /**
+     * Force-stops the app and replaces the database on the device with the local copy.
+     * The WAL and shared-memory files are removed so SQLite doesn't replay stale transactions over it.
+     */
+    public async push(database: InspectedDatabase): Promise<void> {
+        const data = setWalMode(database.db.export(), database.walMode);
+        await this.adbClient.killApp(database.deviceId, database.packageName);
+        await this.adbClient.writeAppFile(database.deviceId, database.packageName, database.remotePath, data);
+        await this.adbClient.deleteAppFile(database.deviceId, database.packageName, `${database.remotePath}-wal`);
+        await this.adbClient.deleteAppFile(database.deviceId, database.packageName, `${database.remotePath}-shm`);
+        database.modified = false;
+        this.changed(database);
+    }
+
+    private async pull(deviceId: string, packageName: string, remotePath: string): Promise<{ db: initSqlJs.Database; walMode: boolean }> {
+        const [SQL, data, wal] = await Promise.all([
+            DatabaseInspector.loadSqlJs(),
+            this.adbClient.readAppFile(deviceId, packageName, remotePath),
+            // Recent commits of an open WAL-mode database are only in the -wal file; the -shm index is rebuilt
+            this.adbClient.readAppFile(deviceId, packageName, `${remotePath}-wal`).catch(() => undefined)
+        ]);
+        const walMode = isWalMode(data);
+        let contents: Uint8Array = new Uint8Array(data);
+        if (wal) {
+            contents = applyWal(contents, new Uint8Array(wal));
+        }
+        return { db: new SQL.Database(setWalMode(contents, false)), walMode };
+    }
+
+    private changed(database: InspectedDatabase) {
+        vscode.commands.executeCommand('setContext', 'adb-pro.hasInspectedDatabases', this.databases.length > 0);
+        this._onDidChangeTreeData.fire();
+        this._onDidChangeDatabase.fire(database);
+    }
+
+    getTreeItem(element: DatabaseTreeElement): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: DatabaseTreeElement): DatabaseTreeElement[] {
+        if (!element) {
+            return this.databases.map(database => new DatabaseTreeItem(database));
+        }
+        if (element instanceof DatabaseTreeItem) {
+            const result = element.database.db.exec(
+                "SELECT name, type, sql FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY type, name"
+            );
+            return (result[0]?.values || []).map(([name, type, sql]) =>
+                new TableTreeItem(element.database, name as string, type as string, sql as string));
+        }
+        if (element instanceof TableTreeItem) {
+            const result = element.database.db.exec(`PRAGMA table_info(${quoteIdentifier(element.name)})`);
+            // cid, name, type, notnull, dflt_value, pk
+            return (result[0]?.values || []).map(([, name, type, notNull, , pk]) =>
+                new ColumnTreeItem(name as string, type as string, notNull === 1, (pk as number) > 0));
+        }
+        return [];
+    }
+
+    public dispose() {
+        this.databases.forEach(database => database.db.close());
+        this.databases = [];
+        this._onDidChangeTreeData.dispose();
+        this._onDidChangeDatabase.dispose();
+    }
+}
+
+export class DatabaseTreeItem extends vscode.TreeItem {
+    constructor(public readonly database: InspectedDatabase) {
+        super(path.posix.basename(database.remotePath), vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `${database.packageName} · ${database.deviceId}${database.modified ? ' · modified' : ''}`;
+        this.tooltip = `${database.remotePath}\n${database.modified ? 'Local copy has changes that are not on the device' : 'Same as on the device when pulled'}`;
+        this.contextValue = 'inspectedDatabase';
+        this.iconPath = new vscode.ThemeIcon('database');
+    }
+}
+
+export class TableTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly database: InspectedDatabase,
+        public readonly name: string,
+        type: string,
+        sql: string
+    ) {
+        super(name, vscode.TreeItemCollapsibleState.Collapsed);
+        this.description = type === 'view' ? 'view' : undefined;
+        this.tooltip = new vscode.MarkdownString().appendCodeblock(sql || '', 'sql');
+        this.contextValue = 'databaseTable';
+        this.iconPath = new vscode.ThemeIcon(type === 'view' ? 'eye' : 'table');
+        this.command = {
+            command: 'adb-pro.queryDatabase',
+            title: 'Query Table',
+            arguments: [database.id, `SELECT * FROM ${quoteIdentifier(name)} LIMIT 100;`]
+        };
+    }
+}
+
+export class ColumnTreeItem extends vscode.TreeItem {
+    constructor(name: string, type: string, notNull: boolean, primaryKey: boolean) {
+        super(name, vscode.TreeItemCollapsibleState.None);
+        this.description = [type, primaryKey ? 'PRIMARY KEY' : '', notNull ? 'NOT NULL' : ''].filter(s => s).join(' ');
+        this.contextValue = 'databaseColumn';
+        this.iconPath = new vscode.ThemeIcon(primaryKey ? 'key' : 'symbol-field');
+    }
+}
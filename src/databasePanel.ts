@@ -0,0 +1,366 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DatabaseInspector, InspectedDatabase } from './databaseInspector';
+
+/**
+ * Webview panel to run SQL against an inspected database and browse the results in a grid.
+ * One panel is kept per database.
+ */
+export class DatabasePanel {
+    public static readonly viewType = 'adbDatabase';
+    private static readonly maxRows = 1000;
+    private static panels = new Map<number, DatabasePanel>();
+
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private ready = false;
+    private pendingSql: string | undefined;
+
+    /**
+     * Shows the query panel for a database, creating it if needed.
+     * @param inspector The DatabaseInspector owning the database.
+     * @param database The database to query.
+     * @param sql Optional SQL to put in the editor and run.
+     */
+    public static createOrShow(inspector: DatabaseInspector, database: InspectedDatabase, sql?: string): DatabasePanel {
+        let databasePanel = DatabasePanel.panels.get(database.id);
+        if (databasePanel) {
+            databasePanel._panel.reveal();
+        } else {
+            const panel = vscode.window.createWebviewPanel(
+                DatabasePanel.viewType,
+                `${path.posix.basename(database.remotePath)} (${database.deviceId})`,
+                vscode.ViewColumn.Active,
+                { enableScripts: true, retainContextWhenHidden: true }
+            );
+            databasePanel = new DatabasePanel(panel, inspector, database);
+            DatabasePanel.panels.set(database.id, databasePanel);
+        }
+        if (sql) {
+            databasePanel.setSql(sql);
+        }
+        return databasePanel;
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly inspector: DatabaseInspector,
+        private readonly database: InspectedDatabase
+    ) {
+        this._panel = panel;
+        this._panel.webview.html = this._getHtmlForWebview();
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this.inspector.onDidChangeDatabase(changed => {
+            if (changed !== this.database) {
+                return;
+            }
+            if (!this.inspector.getDatabase(this.database.id)) {
+                // Closed in the Database Inspector view
+                this.dispose();
+            } else {
+                this.postState();
+            }
+        }, null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(async data => {
+            switch (data.type) {
+                case 'ready':
+                    this.ready = true;
+                    this.postState();
+                    if (this.pendingSql) {
+                        this.setSql(this.pendingSql);
+                        this.pendingSql = undefined;
+                    }
+                    break;
+                case 'run':
+                    this.run(data.sql);
+                    break;
+                case 'push':
+                    vscode.commands.executeCommand('adb-pro.pushDatabase', this.database.id);
+                    break;
+                case 'reload':
+                    vscode.commands.executeCommand('adb-pro.reloadDatabase', this.database.id);
+                    break;
+            }
+        }, null, this._disposables);
+    }
+
+    /**
+     * Puts SQL in the editor and runs it, once the Webview can receive messages.
+     */
+    private setSql(sql: string) {
+        if (!this.ready) {
+            this.pendingSql = sql;
+            return;
+        }
+        this._panel.webview.postMessage({ type: 'setSql', sql });
+        this.run(sql);
+    }
+
+    private run(sql: string) {
+        try {
+            const { results, changes } = this.inspector.execute(this.database, sql);
+            this._panel.webview.postMessage({
+                type: 'results',
+                results: results.map(result => ({
+                    columns: result.columns,
+                    // Blobs are shown as their size; the full contents would bloat the message
+                    values: result.values.slice(0, DatabasePanel.maxRows).map(row =>
+                        row.map(value => value instanceof Uint8Array ? `<BLOB ${value.length} bytes>` : value)),
+                    total: result.values.length
+                })),
+                changes
+            });
+        } catch (e: any) {
+            this._panel.webview.postMessage({ type: 'error', message: e.message });
+        }
+    }
+
+    private postState() {
+        this._panel.webview.postMessage({
+            type: 'state',
+            remotePath: this.database.remotePath,
+            packageName: this.database.packageName,
+            modified: this.database.modified
+        });
+    }
+
+    public dispose() {
+        DatabasePanel.panels.delete(this.database.id);
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    /**
+     * Disposes all open database panels (used on deactivation).
+     */
+    public static disposeAll() {
+        DatabasePanel.panels.forEach(panel => panel.dispose());
+    }
+
+    /**
+     * Generates the HTML content for the query panel.
+     * @returns The complete HTML string.
+     */
+    private _getHtmlForWebview() {
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Database</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    padding: 0;
+                    margin: 0;
+                    display: flex;
+                    flex-direction: column;
+                    height: 100vh;
+                }
+
+                .editor {
+                    padding: 8px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+
+                textarea {
+                    width: 100%;
+                    height: 90px;
+                    box-sizing: border-box;
+                    resize: vertical;
+                    background: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, transparent);
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                    padding: 6px;
+                    outline: none;
+                }
+
+                textarea:focus {
+                    border-color: var(--vscode-focusBorder);
+                }
+
+                .toolbar {
+                    display: flex;
+                    gap: 6px;
+                    align-items: center;
+                    margin-top: 6px;
+                }
+
+                button {
+                    border: 1px solid var(--vscode-widget-border, transparent);
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    height: 24px;
+                    padding: 2px 10px;
+                    cursor: pointer;
+                    border-radius: 4px;
+                    font-family: var(--vscode-font-family);
+                }
+
+                button:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+
+                button.primary {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                }
+
+                button.primary:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+
+                .status {
+                    margin-left: auto;
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                .modified {
+                    color: var(--vscode-editorWarning-foreground);
+                }
+
+                #results {
+                    flex: 1;
+                    overflow: auto;
+                    padding: 0 8px 8px;
+                }
+
+                .error {
+                    color: var(--vscode-errorForeground);
+                    padding: 8px 0;
+                    white-space: pre-wrap;
+                }
+
+                .summary {
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                    margin: 8px 0 4px;
+                }
+
+                table {
+                    border-collapse: collapse;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                }
+
+                th, td {
+                    border: 1px solid var(--vscode-panel-border);
+                    padding: 2px 6px;
+                    text-align: left;
+                    max-width: 400px;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                }
+
+                th {
+                    position: sticky;
+                    top: 0;
+                    background: var(--vscode-editorWidget-background);
+                }
+
+                tr:hover td {
+                    background: var(--vscode-list-hoverBackground);
+                }
+
+                .null {
+                    color: var(--vscode-descriptionForeground);
+                    font-style: italic;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="editor">
+                <textarea id="sql" spellcheck="false" placeholder="SELECT * FROM sqlite_master;"></textarea>
+                <div class="toolbar">
+                    <button id="runBtn" class="primary" title="Run (Ctrl+Enter)">Run</button>
+                    <button id="pushBtn" title="Force-stop the app and replace the database on the device">Push to Device</button>
+                    <button id="reloadBtn" title="Pull the database again, discarding local changes">Reload from Device</button>
+                    <span class="status" id="status"></span>
+                </div>
+            </div>
+            <div id="results"></div>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const sqlInput = document.getElementById('sql');
+                const resultsEl = document.getElementById('results');
+                const statusEl = document.getElementById('status');
+
+                function escapeHtml(text) {
+                    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+                }
+
+                function run() {
+                    if (sqlInput.value.trim()) {
+                        vscode.postMessage({ type: 'run', sql: sqlInput.value });
+                    }
+                }
+
+                function renderResults(results, changes) {
+                    let html = '';
+                    results.forEach(result => {
+                        const shown = result.values.length < result.total ? 'first ' + result.values.length + ' of ' : '';
+                        html += '<div class="summary">' + shown + result.total + ' row(s)</div><table><tr>'
+                            + result.columns.map(c => '<th>' + escapeHtml(c) + '</th>').join('') + '</tr>';
+                        result.values.forEach(row => {
+                            html += '<tr>' + row.map(v => v === null
+                                ? '<td class="null">NULL</td>'
+                                : '<td title="' + escapeHtml(v).replace(/"/g, '&quot;') + '">' + escapeHtml(v) + '</td>').join('') + '</tr>';
+                        });
+                        html += '</table>';
+                    });
+                    if (results.length === 0) {
+                        html = '<div class="summary">Done. ' + changes + ' row(s) changed.</div>';
+                    }
+                    resultsEl.innerHTML = html;
+                }
+
+                document.getElementById('runBtn').addEventListener('click', run);
+                document.getElementById('pushBtn').addEventListener('click', () => vscode.postMessage({ type: 'push' }));
+                document.getElementById('reloadBtn').addEventListener('click', () => vscode.postMessage({ type: 'reload' }));
+                sqlInput.addEventListener('keydown', event => {
+                    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+                        event.preventDefault();
+                        run();
+                    }
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.type) {
+                        case 'setSql':
+                            sqlInput.value = message.sql;
+                            break;
+                        case 'results':
+                            renderResults(message.results, message.changes);
+                            break;
+                        case 'error':
+                            resultsEl.innerHTML = '<div class="error">' + escapeHtml(message.message) + '</div>';
+                            break;
+                        case 'state':
+                            statusEl.textContent = message.packageName + ' · ' + message.remotePath
+                                + (message.modified ? ' · modified locally, not pushed' : '');
+                            statusEl.classList.toggle('modified', message.modified);
+                            break;
+                    }
+                });
+
+                vscode.postMessage({ type: 'ready' });
+            </script>
+        </body>
+        </html>`;
+    }
+}
@@ -1,52 +1,137 @@
 import * as vscode from 'vscode';
 import { AdbClient, ConnectedDevice } from './adbClient';
+import { AdbDirEntry } from './adbProtocol';
 import { TargetAppManager } from './appManager';
+import { CrashDetector, CrashReport } from './crashDetector';
+import { MdnsDiscovery } from './mdnsDiscovery';
+import { PortForwardManager, PortRuleStatus } from './portForwardManager';
+import { formatPortRule } from './portForwards';
+import { SavedIntent, SavedIntentStore } from './savedIntents';
+import { MdnsService, PAIRING_SERVICE_TYPE, selectDiscoveredServices } from './wirelessPairing';
 import * as path from 'path';
 
-export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeItem | ActionTreeItem | TargetAppTreeItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<DeviceTreeItem | ActionTreeItem | TargetAppTreeItem | undefined | null | void> = new vscode.EventEmitter<DeviceTreeItem | ActionTreeItem | TargetAppTreeItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<DeviceTreeItem | ActionTreeItem | TargetAppTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+export type DeviceTreeElement = DeviceTreeItem | ActionTreeItem | TargetAppTreeItem | CrashListTreeItem | CrashTreeItem
+    | AppFilesTreeItem | AppFileTreeItem | SavedIntentListTreeItem | SavedIntentTreeItem | DiscoveredListTreeItem
+    | DiscoveredDeviceTreeItem | PortForwardListTreeItem | PortForwardTreeItem | MessageTreeItem;
 
-    constructor(private adbClient: AdbClient, private targetAppManager: TargetAppManager) { }
+export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeElement> {
+    private _onDidChangeTreeData: vscode.EventEmitter<DeviceTreeElement | undefined | null | void> = new vscode.EventEmitter<DeviceTreeElement | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<DeviceTreeElement | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    constructor(
+        private adbClient: AdbClient,
+        private targetAppManager: TargetAppManager,
+        private crashDetector: CrashDetector,
+        private savedIntents: SavedIntentStore,
+        private mdnsDiscovery: MdnsDiscovery,
+        private portForwards: PortForwardManager
+    ) { }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: DeviceTreeItem | ActionTreeItem | TargetAppTreeItem): vscode.TreeItem {
+    getTreeItem(element: DeviceTreeElement): vscode.TreeItem {
         return element;
     }
 
-    async getChildren(element?: DeviceTreeItem | ActionTreeItem | TargetAppTreeItem): Promise<(DeviceTreeItem | ActionTreeItem | TargetAppTreeItem)[]> {
+    async getChildren(element?: DeviceTreeElement): Promise<DeviceTreeElement[]> {
         if (!element) {
-            const items: (DeviceTreeItem | TargetAppTreeItem)[] = [];
+            const items: DeviceTreeElement[] = [];
 
             // Add Target App Item
             const selectedApp = this.targetAppManager.getSelectedApp();
             items.push(new TargetAppTreeItem(selectedApp));
 
+            // Crashes collected during this session
+            const crashes = this.crashDetector.getCrashes();
+            if (crashes.length > 0) {
+                items.push(new CrashListTreeItem(crashes.length));
+            }
+
+            const savedIntents = this.savedIntents.getAll();
+            if (savedIntents.length > 0) {
+                items.push(new SavedIntentListTreeItem(savedIntents.length));
+            }
+
             try {
                 const devices = await this.adbClient.getConnectedDevices();
                 devices.forEach(device => items.push(new DeviceTreeItem(device)));
+
+                // Wireless debugging devices on the network that are not connected yet
+                const discovered = selectDiscoveredServices(this.mdnsDiscovery.getServices(), devices.map(device => device.id));
+                if (discovered.length > 0) {
+                    items.push(new DiscoveredListTreeItem(discovered));
+                }
             } catch (error: any) {
                 vscode.window.showErrorMessage(`Failed to get devices: ${error.message}`);
             }
             return items;
         } else if (element instanceof DeviceTreeItem) {
             return [
+                ...(element.device.type === 'device' ? [new PortForwardListTreeItem(element.device.id)] : []),
+                new ActionTreeItem('Build, Install & Run', element.device.id, 'adb-pro.buildInstallRun', new vscode.ThemeIcon('run-all')),
                 new ActionTreeItem('Restart App', element.device.id, 'adb-pro.restartApp', new vscode.ThemeIcon('debug-restart')),
+                new ActionTreeItem('Launch Activity', element.device.id, 'adb-pro.launchActivity', new vscode.ThemeIcon('debug-start')),
                 new ActionTreeItem('Kill App', element.device.id, 'adb-pro.killApp', new vscode.ThemeIcon('debug-stop')),
                 new ActionTreeItem('Clear App Data', element.device.id, 'adb-pro.clearAppData', new vscode.ThemeIcon('clear-all')),
                 new ActionTreeItem('Uninstall App', element.device.id, 'adb-pro.uninstallApp', new vscode.ThemeIcon('trash')),
                 new ActionTreeItem('Install APK', element.device.id, 'adb-pro.installApk', new vscode.ThemeIcon('cloud-upload')),
                 new ActionTreeItem('Logcat', element.device.id, 'adb-pro.logcat', new vscode.ThemeIcon('output')),
+                new ActionTreeItem('Stop Logcat', element.device.id, 'adb-pro.logcatStop', new vscode.ThemeIcon('debug-stop')),
+                new ActionTreeItem('Logcat Viewer', element.device.id, 'adb-pro.logcatViewer', new vscode.ThemeIcon('list-filter')),
                 new ActionTreeItem('Shell', element.device.id, 'adb-pro.shell', new vscode.ThemeIcon('terminal')),
                 new ActionTreeItem('Manage Permissions', element.device.id, 'adb-pro.setAppPermission', new vscode.ThemeIcon('key')),
+                new ActionTreeItem('Browse Files', element.device.id, 'adb-pro.browseFiles', new vscode.ThemeIcon('folder-opened')),
                 new ActionTreeItem('Take Screenshot', element.device.id, 'adb-pro.screenshot', new vscode.ThemeIcon('device-camera')),
+                new ActionTreeItem('Record Screen', element.device.id, 'adb-pro.screenRecord', new vscode.ThemeIcon('record')),
+                new ActionTreeItem('Mirror Screen', element.device.id, 'adb-pro.mirrorScreen', new vscode.ThemeIcon('mirror')),
+                new ActionTreeItem('Launch Intent', element.device.id, 'adb-pro.launchIntent', new vscode.ThemeIcon('link-external')),
                 new ActionTreeItem('Toggle Wi-Fi', element.device.id, 'adb-pro.toggleWifi', new vscode.ThemeIcon('radio-tower')),
                 new ActionTreeItem('Toggle Mobile Data', element.device.id, 'adb-pro.toggleMobileData', new vscode.ThemeIcon('radio-tower')),
                 new ActionTreeItem('Toggle Airplane Mode', element.device.id, 'adb-pro.toggleAirplaneMode', new vscode.ThemeIcon('rocket'))
             ];
+        } else if (element instanceof PortForwardListTreeItem) {
+            try {
+                const statuses = await this.portForwards.list(element.deviceId);
+                if (statuses.length === 0) {
+                    return [new MessageTreeItem('No forwards or reverses')];
+                }
+                return statuses.map(status => new PortForwardTreeItem(element.deviceId, status));
+            } catch (error: any) {
+                return [new MessageTreeItem(error.message, 'error')];
+            }
+        } else if (element instanceof CrashListTreeItem) {
+            return this.crashDetector.getCrashes().map(crash => new CrashTreeItem(crash));
+        } else if (element instanceof SavedIntentListTreeItem) {
+            return this.savedIntents.getAll().map(saved => new SavedIntentTreeItem(saved));
+        } else if (element instanceof DiscoveredListTreeItem) {
+            return element.services.map(service => new DiscoveredDeviceTreeItem(service));
+        } else if (element instanceof TargetAppTreeItem && element.packageName) {
+            const packageName = element.packageName;
+            try {
+                const devices = (await this.adbClient.getConnectedDevices()).filter(d => d.type === 'device');
+                if (devices.length === 0) {
+                    return [new MessageTreeItem('No device connected')];
+                }
+                return devices.map(device => new AppFilesTreeItem(device, packageName));
+            } catch (error: any) {
+                return [new MessageTreeItem(error.message, 'error')];
+            }
+        } else if (element instanceof AppFilesTreeItem || element instanceof AppFileTreeItem) {
+            const remotePath = element instanceof AppFileTreeItem ? element.remotePath : '';
+            try {
+                const entries = await this.adbClient.listAppFiles(element.deviceId, element.packageName, remotePath);
+                if (entries.length === 0) {
+                    return [new MessageTreeItem('Empty')];
+                }
+                return entries
+                    .map(entry => new AppFileTreeItem(element.deviceId, element.packageName, path.posix.join(remotePath, entry.name), entry))
+                    .sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.remotePath.localeCompare(b.remotePath));
+            } catch (error: any) {
+                // Typically "not debuggable": show it in place of the files
+                return [new MessageTreeItem(error.message, 'warning')];
+            }
         }
         return [];
     }
@@ -58,9 +143,11 @@ export class DeviceTreeItem extends vscode.TreeItem {
         const label = device.model ? device.model.replace(/_/g, ' ') : device.id;
         super(label, vscode.TreeItemCollapsibleState.Collapsed);
 
-        this.description = device.id;
+        // Surface non-ready states (offline, unauthorized, ...) so they are visible at a glance
+        this.description = device.type === 'device' ? device.id : `${device.id} (${device.type})`;
         this.tooltip = `Model: ${device.model || 'Unknown'}\nID: ${device.id}\nType: ${device.type}\nConnection: ${device.connectionType}`;
-        this.contextValue = 'device';
+        // Online devices can be handed over between USB and Wi-Fi
+        this.contextValue = device.type === 'device' ? `${device.connectionType}Device` : 'device';
 
         // Set icon based on connection type
         if (device.connectionType === 'wireless') {
@@ -92,14 +179,237 @@ export class ActionTreeItem extends vscode.TreeItem {
 }
 
 export class TargetAppTreeItem extends vscode.TreeItem {
-    constructor(selectedApp: string | undefined) {
-        super(selectedApp ? `Target App: ${selectedApp}` : 'Select Target App', vscode.TreeItemCollapsibleState.None);
+    constructor(public readonly packageName: string | undefined) {
+        super(
+            packageName ? `Target App: ${packageName}` : 'Select Target App',
+            packageName ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
         this.contextValue = 'targetApp';
         this.iconPath = new vscode.ThemeIcon('android');
         this.command = {
             command: 'adb-pro.selectTargetApp',
             title: 'Select Target App'
         };
-        this.tooltip = selectedApp ? `Target App: ${selectedApp}` : 'Click to select a target app';
+        this.tooltip = packageName ? `Target App: ${packageName}` : 'Click to select a target app';
+    }
+}
+
+export class CrashListTreeItem extends vscode.TreeItem {
+    constructor(count: number) {
+        super('Crashes', vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `${count}`;
+        this.contextValue = 'crashList';
+        this.iconPath = new vscode.ThemeIcon('bug', new vscode.ThemeColor('errorForeground'));
+    }
+}
+
+export class CrashTreeItem extends vscode.TreeItem {
+    constructor(public readonly crash: CrashReport) {
+        super(crash.title, vscode.TreeItemCollapsibleState.None);
+        const kind = crash.type === 'anr' ? 'ANR' : crash.type === 'native' ? 'Native' : 'Crash';
+        this.description = `${kind} · ${crash.time.toLocaleTimeString()} · ${crash.deviceId}`;
+        this.tooltip = `${crash.title}\nPackage: ${crash.packageName}\nDevice: ${crash.deviceId}\nTime: ${crash.timestamp}`;
+        this.contextValue = 'crash';
+        this.iconPath = new vscode.ThemeIcon(crash.type === 'anr' ? 'watch' : crash.type === 'native' ? 'flame' : 'error');
+        this.command = {
+            command: 'adb-pro.showCrash',
+            title: 'Show Stack Trace',
+            arguments: [crash.id]
+        };
+    }
+}
+
+export class SavedIntentListTreeItem extends vscode.TreeItem {
+    constructor(count: number) {
+        super('Saved Intents', vscode.TreeItemCollapsibleState.Collapsed);
+        this.description = `${count}`;
+        this.contextValue = 'savedIntentList';
+        this.iconPath = new vscode.ThemeIcon('send');
+    }
+}
+
+/**
+ * A named intent saved in the workspace; clicking it sends the intent again.
+ */
+export class SavedIntentTreeItem extends vscode.TreeItem {
+    constructor(public readonly saved: SavedIntent) {
+        super(saved.name, vscode.TreeItemCollapsibleState.None);
+        const { intent } = saved;
+        this.description = `am ${intent.command} · ${intent.data || intent.action || intent.component || intent.packageName || ''}`;
+        this.tooltip = [
+            `${saved.name} (am ${intent.command})`,
+            intent.action && `Action: ${intent.action}`,
+            intent.data && `Data: ${intent.data}`,
+            intent.component && `Component: ${intent.component}`,
+            intent.packageName && `Package: ${intent.packageName}`,
+            intent.extras?.length && `Extras: ${intent.extras.map(extra => extra.key).join(', ')}`
+        ].filter(line => line).join('\n');
+        this.contextValue = 'savedIntent';
+        this.iconPath = new vscode.ThemeIcon(intent.command === 'broadcast' ? 'broadcast' : intent.command === 'startservice' ? 'gear' : 'link-external');
+        this.command = {
+            command: 'adb-pro.runSavedIntent',
+            title: 'Send Intent',
+            arguments: [this]
+        };
+    }
+}
+
+export class DiscoveredListTreeItem extends vscode.TreeItem {
+    constructor(public readonly services: MdnsService[]) {
+        super('Discovered', vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `${services.length}`;
+        this.tooltip = 'Devices on the network with wireless debugging turned on';
+        this.contextValue = 'discoveredList';
+        this.iconPath = new vscode.ThemeIcon('search');
+    }
+}
+
+/**
+ * A device advertising wireless debugging over mDNS: either ready to connect to (if paired),
+ * or showing its "Pair device with pairing code" dialog. Clicking it connects or pairs.
+ */
+export class DiscoveredDeviceTreeItem extends vscode.TreeItem {
+    public readonly isPairing: boolean;
+
+    constructor(public readonly service: MdnsService) {
+        super(service.name, vscode.TreeItemCollapsibleState.None);
+        this.isPairing = service.type === PAIRING_SERVICE_TYPE;
+        this.description = this.isPairing ? `${service.address} · pairing` : service.address;
+        this.tooltip = `${service.name}\n${service.type} at ${service.address}`;
+        this.contextValue = this.isPairing ? 'discoveredPairing' : 'discoveredDevice';
+        this.iconPath = new vscode.ThemeIcon(this.isPairing ? 'key' : 'radio-tower');
+        this.command = this.isPairing
+            ? { command: 'adb-pro.pairDiscoveredDevice', title: 'Pair', arguments: [this] }
+            : { command: 'adb-pro.connectDiscoveredDevice', title: 'Connect', arguments: [this] };
+    }
+}
+
+/**
+ * The forward and reverse rules of one device, including saved rules that are not set up.
+ */
+export class PortForwardListTreeItem extends vscode.TreeItem {
+    constructor(public readonly deviceId: string) {
+        super('Port Forwards', vscode.TreeItemCollapsibleState.Collapsed);
+        this.tooltip = `adb forward and adb reverse rules of ${deviceId}`;
+        this.contextValue = 'portForwardList';
+        this.iconPath = new vscode.ThemeIcon('plug');
+    }
+}
+
+/**
+ * A forward (this machine → device) or reverse (device → this machine) rule.
+ */
+export class PortForwardTreeItem extends vscode.TreeItem {
+    constructor(public readonly deviceId: string, public readonly status: PortRuleStatus) {
+        super(formatPortRule(status.rule), vscode.TreeItemCollapsibleState.None);
+        const { rule, active, saved } = status;
+        const savedFor = saved ? (saved.device ? 'saved' : 'saved for all devices') : undefined;
+        this.description = [rule.kind, active ? undefined : 'not active', savedFor].filter(part => part).join(' · ');
+        this.tooltip = [
+            rule.kind === 'forward'
+                ? `Connections to ${rule.local} on this machine reach ${rule.remote} on ${deviceId}`
+                : `Connections to ${rule.remote} on ${deviceId} reach ${rule.local} on this machine`,
+            active ? undefined : 'Saved, but not set up on the device. Click to set it up.',
+            saved ? 'Set up again whenever the device reconnects' : undefined
+        ].filter(line => line).join('\n');
+        this.contextValue = 'portForward';
+        this.iconPath = new vscode.ThemeIcon(rule.kind === 'forward' ? 'arrow-right' : 'arrow-left',
+            active ? undefined : new vscode.ThemeColor('disabledForeground'));
+        if (!active) {
+            this.command = { command: 'adb-pro.applyPortForwards', title: 'Set Up Saved Rules', arguments: [deviceId] };
+        }
+    }
+}
+
+/**
+ * Root of the target app's private data directory on one device, listed with run-as.
+ */
+export class AppFilesTreeItem extends vscode.TreeItem {
+    public readonly deviceId: string;
+
+    constructor(device: ConnectedDevice, public readonly packageName: string) {
+        super('App Files', vscode.TreeItemCollapsibleState.Collapsed);
+        this.deviceId = device.id;
+        this.description = device.model ? device.model.replace(/_/g, ' ') : device.id;
+        this.tooltip = `/data/data/${packageName} on ${device.id} (debuggable apps only)`;
+        this.contextValue = 'appFiles';
+        this.iconPath = new vscode.ThemeIcon('folder-library');
+    }
+}
+
+/**
+ * A file or folder in the target app's private data directory.
+ */
+export class AppFileTreeItem extends vscode.TreeItem {
+    public readonly isDirectory: boolean;
+
+    constructor(
+        public readonly deviceId: string,
+        public readonly packageName: string,
+        public readonly remotePath: string, // relative to the app's data directory
+        entry: AdbDirEntry
+    ) {
+        const isDirectory = (entry.mode & 0o170000) === 0o040000;
+        super(entry.name, isDirectory ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        this.isDirectory = isDirectory;
+        // Lets the file icon theme pick an icon by extension
+        this.resourceUri = vscode.Uri.from({ scheme: 'adb-app', authority: deviceId, path: `/${packageName}/${remotePath}` });
+        this.iconPath = isDirectory ? vscode.ThemeIcon.Folder : vscode.ThemeIcon.File;
+        this.tooltip = `${remotePath}\n${new Date(entry.mtime * 1000).toLocaleString()}`;
+        if (isDirectory) {
+            this.contextValue = 'appFolder';
+        } else if (isDatabasePath(remotePath)) {
+            this.contextValue = 'appDatabase';
+        } else if (isSharedPreferencesPath(remotePath)) {
+            this.contextValue = 'appPreferences';
+        } else {
+            this.contextValue = 'appFile';
+        }
+        if (!isDirectory) {
+            this.description = formatSize(entry.size);
+            this.command = {
+                command: 'adb-pro.openAppFile',
+                title: 'Open',
+                arguments: [this]
+            };
+        }
+    }
+}
+
+/**
+ * A placeholder row that explains why a list is empty (e.g. the app is not debuggable).
+ */
+export class MessageTreeItem extends vscode.TreeItem {
+    constructor(message: string, severity?: 'warning' | 'error') {
+        super(message, vscode.TreeItemCollapsibleState.None);
+        this.tooltip = message;
+        this.contextValue = 'message';
+        if (severity) {
+            this.iconPath = new vscode.ThemeIcon(severity, new vscode.ThemeColor(severity === 'error' ? 'errorForeground' : 'editorWarning.foreground'));
+        }
+    }
+}
+
+/**
+ * Returns true for SQLite databases in an app's databases/ folder (not their -wal, -shm or -journal files).
+ */
+export function isDatabasePath(remotePath: string): boolean {
+    return /^databases\/[^/]+$/.test(remotePath) && !/-(wal|shm|journal)$/.test(remotePath);
+}
+
+/**
+ * Returns true for SharedPreferences files in an app's shared_prefs/ folder.
+ */
+export function isSharedPreferencesPath(remotePath: string): boolean {
+    return /^shared_prefs\/[^/]+\.xml$/.test(remotePath);
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
     }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
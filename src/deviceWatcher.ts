@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { AdbClient, ConnectedDevice } from './adbClient';
+import { AdbStream } from './adbProtocol';
+
+/**
+ * Keeps a persistent device tracking connection to the ADB server and emits
+ * the current device list whenever devices are attached, detached or change state.
+ * Reconnects automatically when the server restarts.
+ */
+export class DeviceWatcher implements vscode.Disposable {
+    private static readonly debounceMs = 300;
+    private static readonly minReconnectDelayMs = 1000;
+    private static readonly maxReconnectDelayMs = 15000;
+
+    private _onDidChangeDevices = new vscode.EventEmitter<ConnectedDevice[]>();
+    readonly onDidChangeDevices: vscode.Event<ConnectedDevice[]> = this._onDidChangeDevices.event;
+
+    private stream: AdbStream | undefined;
+    private debounceTimer: NodeJS.Timeout | undefined;
+    private reconnectTimer: NodeJS.Timeout | undefined;
+    private reconnectDelay = DeviceWatcher.minReconnectDelayMs;
+    private lastSnapshot: string | undefined;
+    private disposed = false;
+
+    constructor(private readonly adbClient: AdbClient) { }
+
+    /**
+     * Starts tracking. Safe to call again after the connection was lost.
+     */
+    public async start(): Promise<void> {
+        if (this.disposed || this.stream) {
+            return;
+        }
+        try {
+            const stream = await this.adbClient.trackDevices();
+            if (this.disposed) {
+                stream.close();
+                return;
+            }
+            this.stream = stream;
+            this.reconnectDelay = DeviceWatcher.minReconnectDelayMs;
+            stream.onData(() => this.scheduleUpdate());
+            stream.onClose(() => {
+                if (this.stream === stream) {
+                    this.stream = undefined;
+                    // The server went away, so whatever we showed is stale
+                    this.scheduleUpdate();
+                    this.scheduleReconnect();
+                }
+            });
+        } catch (e) {
+            this.scheduleReconnect();
+        }
+    }
+
+    /**
+     * Forces an update of the device list (e.g. after `adb connect`).
+     */
+    public refresh() {
+        this.lastSnapshot = undefined;
+        this.scheduleUpdate();
+    }
+
+    private scheduleUpdate() {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = undefined;
+            this.update();
+        }, DeviceWatcher.debounceMs);
+    }
+
+    private async update() {
+        let devices: ConnectedDevice[];
+        try {
+            devices = await this.adbClient.getConnectedDevices();
+        } catch (e) {
+            devices = [];
+        }
+        // Only notify listeners when something they can see actually changed
+        const snapshot = JSON.stringify(devices);
+        if (snapshot !== this.lastSnapshot && !this.disposed) {
+            this.lastSnapshot = snapshot;
+            this._onDidChangeDevices.fire(devices);
+        }
+    }
+
+    private scheduleReconnect() {
+        if (this.disposed || this.reconnectTimer) {
+            return;
+        }
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.start();
+        }, this.reconnectDelay);
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, DeviceWatcher.maxReconnectDelayMs);
+    }
+
+    public dispose() {
+        this.disposed = true;
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+        }
+        this.stream?.close();
+        this.stream = undefined;
+        this._onDidChangeDevices.dispose();
+    }
+}
@@ -1,9 +1,48 @@
 import * as vscode from 'vscode';
+import * as os from 'os';
 import * as path from 'path';
 import { AdbClient } from './adbClient';
+import { AdbFileSystemProvider, toDeviceUri } from './adbFileSystemProvider';
+import { ADB_TASK_TYPE, AdbTaskProvider } from './adbTaskProvider';
 import { AdbWebviewProvider } from './adbWebviewProvider';
-import { DeviceTreeItem, DeviceTreeProvider } from './deviceTreeProvider';
-import { TargetAppManager } from './appManager';
+import {
+    AppFileTreeItem,
+    CrashTreeItem,
+    DeviceTreeItem,
+    DiscoveredDeviceTreeItem,
+    DeviceTreeProvider,
+    isDatabasePath,
+    isSharedPreferencesPath,
+    PortForwardListTreeItem,
+    PortForwardTreeItem,
+    SavedIntentTreeItem
+} from './deviceTreeProvider';
+import { DatabaseInspector, DatabaseTreeItem } from './databaseInspector';
+import { DatabasePanel } from './databasePanel';
+import { KEYCODES } from './inputEvents';
+import { IntentLauncherPanel } from './intentLauncherPanel';
+import { extractActivities, normalizeComponent, StartOptions, toComponentName } from './intents';
+import { SavedIntent, SavedIntentStore } from './savedIntents';
+import { PairingPanel } from './pairingPanel';
+import { ScreenMirrorPanel } from './screenMirrorPanel';
+import { ScreenRecorder } from './screenRecorder';
+import { SharedPreferencesPanel } from './sharedPreferencesPanel';
+import { AppDiscoveryService, TargetAppManager } from './appManager';
+import { DeviceWatcher } from './deviceWatcher';
+import { InstallOptions, openInstallSource } from './apkInstall';
+import { AutoDeployer } from './autoDeploy';
+import { findBuildOutputs, runGradleTask } from './gradleBuild';
+import { assembleTask, pickOutputApk } from './gradleProject';
+import { MdnsDiscovery } from './mdnsDiscovery';
+import { PortForwardManager, PortRuleStatus } from './portForwardManager';
+import { formatPortRule, PortRule, toSocketSpec, validatePortRule } from './portForwards';
+import { formatResultDetails, runOnDevices, showDeviceResults, summarizeResults } from './multiDevice';
+import { LogcatPanel } from './logcatPanel';
+import { readLogcatFile, saveLogcatCapture, toLogcatEntries } from './logcatFile';
+import { LogcatSessionManager } from './logcatSessionManager';
+import { StackFrame, StackTraceLinkProvider, openStackFrame } from './stackTraceLinkProvider';
+import { CrashDetector, CrashReport, formatCrashReport, showCrashReport } from './crashDetector';
+import { WirelessDevice, WirelessDeviceManager } from './wirelessDevices';
 
 /**
  * Activates the extension.
@@ -22,10 +61,142 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.window.registerWebviewViewProvider(AdbWebviewProvider.viewType, adbWebviewProvider)
     );
 
+    // Crash & ANR detection for the target app
+    const crashDetector = new CrashDetector(adbClient, targetAppManager);
+    context.subscriptions.push(crashDetector);
+
     // Tree View Provider
-    const deviceTreeProvider = new DeviceTreeProvider(adbClient, targetAppManager);
+    const savedIntents = new SavedIntentStore(context);
+    context.subscriptions.push(savedIntents);
+    const mdnsDiscovery = new MdnsDiscovery(adbClient);
+    context.subscriptions.push(mdnsDiscovery);
+    const portForwards = new PortForwardManager(adbClient, context);
+    context.subscriptions.push(portForwards);
+    const deviceTreeProvider = new DeviceTreeProvider(adbClient, targetAppManager, crashDetector, savedIntents, mdnsDiscovery, portForwards);
     vscode.window.registerTreeDataProvider('adb-device-list', deviceTreeProvider);
 
+    // Device file systems as adb://<serial>/path
+    const fileSystemProvider = new AdbFileSystemProvider(adbClient);
+    context.subscriptions.push(fileSystemProvider);
+    context.subscriptions.push(vscode.workspace.registerFileSystemProvider(AdbFileSystemProvider.scheme, fileSystemProvider, { isCaseSensitive: true }));
+
+    // Screen recordings (one per device)
+    const screenRecorder = new ScreenRecorder(adbClient);
+    context.subscriptions.push(screenRecorder);
+    context.subscriptions.push(screenRecorder.onDidFinishRecording(async recording => {
+        if (recording.error) {
+            vscode.window.showErrorMessage(`Screen recording on ${recording.deviceId} failed: ${recording.error}`);
+        }
+        if (recording.files.length > 0) {
+            const action = await vscode.window.showInformationMessage(
+                `Screen recording saved to: ${recording.files.join(', ')}`,
+                'Open', 'Reveal'
+            );
+            if (action === 'Open') {
+                vscode.commands.executeCommand('vscode.open', vscode.Uri.file(recording.files[0]));
+            } else if (action === 'Reveal') {
+                vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(recording.files[0]));
+            }
+        }
+    }));
+
+    // SQLite inspector for app databases
+    const databaseInspector = new DatabaseInspector(adbClient);
+    context.subscriptions.push(databaseInspector);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider(DatabaseInspector.viewId, databaseInspector));
+    context.subscriptions.push(new vscode.Disposable(() => DatabasePanel.disposeAll()));
+    context.subscriptions.push(new vscode.Disposable(() => SharedPreferencesPanel.disposeAll()));
+    context.subscriptions.push(new vscode.Disposable(() => ScreenMirrorPanel.disposeAll()));
+    context.subscriptions.push(new vscode.Disposable(() => IntentLauncherPanel.disposeAll()));
+    context.subscriptions.push(new vscode.Disposable(() => PairingPanel.disposeAll()));
+
+    // Logcat output sessions (one per device)
+    const logcatSessions = new LogcatSessionManager(adbClient);
+    context.subscriptions.push(logcatSessions);
+
+    // Live device tracking: keep both views in sync when devices come and go
+    const deviceWatcher = new DeviceWatcher(adbClient);
+    context.subscriptions.push(deviceWatcher);
+    context.subscriptions.push(deviceWatcher.onDidChangeDevices(devices => {
+        adbWebviewProvider.updateDevices(devices);
+        deviceTreeProvider.refresh();
+        crashDetector.updateDevices(devices);
+        // adb drops forwards and reverses when a device disconnects; set the saved ones up again
+        portForwards.devicesChanged(devices).then(failures => failures.forEach((errors, deviceId) =>
+            vscode.window.showWarningMessage(`Could not set up saved port forwards on ${deviceId}: ${errors.join('; ')}`)));
+    }));
+    deviceWatcher.start();
+
+    context.subscriptions.push(crashDetector.onDidChangeCrashes(() => deviceTreeProvider.refresh()));
+    context.subscriptions.push(savedIntents.onDidChange(() => deviceTreeProvider.refresh()));
+    context.subscriptions.push(portForwards.onDidChange(() => deviceTreeProvider.refresh()));
+
+    // Wireless debugging devices advertised on the network, for the "Discovered" section
+    context.subscriptions.push(mdnsDiscovery.onDidChangeServices(() => deviceTreeProvider.refresh()));
+    const updateDiscovery = () => {
+        if (vscode.workspace.getConfiguration('adb.wireless').get<boolean>('discovery', true)) {
+            mdnsDiscovery.start();
+        } else {
+            mdnsDiscovery.stop();
+        }
+    };
+    updateDiscovery();
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('adb.wireless.discovery')) {
+            updateDiscovery();
+        }
+    }));
+    context.subscriptions.push(crashDetector.onDidDetectCrash(async report => {
+        const kind = report.type === 'anr' ? 'is not responding' : 'crashed';
+        const action = await vscode.window.showErrorMessage(
+            `${report.packageName} ${kind} on ${report.deviceId}: ${report.title}`,
+            'Show stack trace', 'Restart app', 'Copy'
+        );
+        try {
+            if (action === 'Show stack trace') {
+                await showCrashReport(report);
+            } else if (action === 'Restart app') {
+                await adbClient.killApp(report.deviceId, report.packageName);
+                await adbClient.startApp(report.deviceId, report.packageName);
+                logcatSessions.refreshPid(report.deviceId);
+                vscode.window.showInformationMessage(`Restarted ${report.packageName}`);
+            } else if (action === 'Copy') {
+                await vscode.env.clipboard.writeText(formatCrashReport(report));
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    // Show Crash
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.showCrash', async (arg?: number | CrashTreeItem) => {
+        let report: CrashReport | undefined;
+        if (arg instanceof CrashTreeItem) {
+            report = arg.crash;
+        } else if (typeof arg === 'number') {
+            report = crashDetector.getCrash(arg);
+        } else {
+            const crashes = crashDetector.getCrashes();
+            if (crashes.length === 0) {
+                vscode.window.showInformationMessage('No crashes detected in this session');
+                return;
+            }
+            const selected = await vscode.window.showQuickPick(
+                crashes.map(c => ({ label: c.title, description: `${c.packageName} · ${c.time.toLocaleTimeString()}`, report: c })),
+                { placeHolder: 'Select Crash' }
+            );
+            report = selected?.report;
+        }
+        if (report) {
+            await showCrashReport(report);
+        }
+    }));
+
+    // Clear Crashes
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.clearCrashes', () => {
+        crashDetector.clear();
+    }));
+
     // Select Target App Command
     context.subscriptions.push(vscode.commands.registerCommand('adb-pro.selectTargetApp', async () => {
         // Try to get a device ID for listing installed apps
@@ -55,8 +226,91 @@ export function activate(context: vscode.ExtensionContext) {
         }
     }));
 
-    // Disconnect
-    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.disconnect', async (arg?: string | DeviceTreeItem) => {
+    // Wireless debugging (Android 11+)
+    const wirelessDevices = new WirelessDeviceManager(adbClient, context);
+    if (vscode.workspace.getConfiguration('adb.wireless').get<boolean>('autoReconnect', true)) {
+        wirelessDevices.reconnectAll().catch(() => undefined);
+    }
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.pairDevice', async () => {
+        const method = await vscode.window.showQuickPick([
+            { label: '$(device-camera) Pair with QR Code', description: 'Scan a code from the device', qr: true },
+            { label: '$(key) Pair with Pairing Code', description: 'Enter the IP address, port and 6-digit code', qr: false }
+        ], { placeHolder: 'Developer options › Wireless debugging on the device (Android 11+)' });
+        if (!method) {
+            return;
+        }
+        if (method.qr) {
+            PairingPanel.createOrShow(wirelessDevices);
+            return;
+        }
+        const address = await vscode.window.showInputBox({
+            prompt: 'IP address and port shown under "Pair device with pairing code"',
+            placeHolder: '192.168.1.5:37123',
+            validateInput: value => /^\S+:\d+$/.test(value.trim()) ? undefined : 'Enter ip:port'
+        });
+        if (address) {
+            await pairWithCode(wirelessDevices, address.trim());
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.pairDiscoveredDevice', async (item: DiscoveredDeviceTreeItem) => {
+        await pairWithCode(wirelessDevices, item.service.address);
+        mdnsDiscovery.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.connectDiscoveredDevice', async (item: DiscoveredDeviceTreeItem) => {
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Connecting to ${item.service.address}...`
+            }, () => wirelessDevices.connect(item.service.address, item.service.name));
+            vscode.window.showInformationMessage(`Connected to ${item.service.address}`);
+            adbWebviewProvider.refresh();
+            mdnsDiscovery.refresh();
+        } catch (e: any) {
+            // Connecting only works once this computer is paired with the device
+            const action = await vscode.window.showErrorMessage(`${e.message}. Pair the device first if it was never paired with this computer.`, 'Pair…');
+            if (action) {
+                vscode.commands.executeCommand('adb-pro.pairDevice');
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.reconnectWirelessDevices', async () => {
+        if (wirelessDevices.getDevices().length === 0) {
+            vscode.window.showInformationMessage('No paired wireless devices yet. Use "ADB: Pair Device over Wi-Fi" first.');
+            return;
+        }
+        try {
+            const reconnected = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Reconnecting wireless devices...'
+            }, () => wirelessDevices.reconnectAll());
+            vscode.window.showInformationMessage(reconnected.length > 0
+                ? `Reconnected ${reconnected.join(', ')}`
+                : 'No other paired devices found. Check that wireless debugging is on and the device is on the same network.');
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.forgetWirelessDevice', async () => {
+        const devices = wirelessDevices.getDevices();
+        if (devices.length === 0) {
+            vscode.window.showInformationMessage('No paired wireless devices are remembered.');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            devices.map((device: WirelessDevice) => ({ label: device.model?.replace(/_/g, ' ') || device.address, description: device.address, device })),
+            { placeHolder: 'Stop reconnecting to this device' }
+        );
+        if (picked) {
+            await wirelessDevices.forget(picked.device);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.switchToWireless', async (arg?: string | DeviceTreeItem) => {
         let deviceId: string | undefined;
         if (arg instanceof DeviceTreeItem) {
             deviceId = arg.device.id;
@@ -68,8 +322,11 @@ export function activate(context: vscode.ExtensionContext) {
         }
         if (deviceId) {
             try {
-                const result = await adbClient.disconnectDevice(deviceId);
-                vscode.window.showInformationMessage(`Disconnect Result: ${result}`);
+                const address = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Switching ${deviceId} to Wi-Fi`
+                }, progress => wirelessDevices.switchToWireless(deviceId!, message => progress.report({ message })));
+                vscode.window.showInformationMessage(`${deviceId} is now connected over Wi-Fi as ${address}. You can unplug the USB cable.`);
                 adbWebviewProvider.refresh();
             } catch (e: any) {
                 vscode.window.showErrorMessage(e.message);
@@ -77,8 +334,7 @@ export function activate(context: vscode.ExtensionContext) {
         }
     }));
 
-    // Install APK
-    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.installApk', async (arg?: string | DeviceTreeItem) => {
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.switchToUsb', async (arg?: string | DeviceTreeItem) => {
         let deviceId: string | undefined;
         if (arg instanceof DeviceTreeItem) {
             deviceId = arg.device.id;
@@ -88,29 +344,139 @@ export function activate(context: vscode.ExtensionContext) {
         if (!deviceId) {
             deviceId = await pickDevice(adbClient);
         }
+        if (deviceId) {
+            try {
+                const usbId = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Switching ${deviceId} back to USB...`
+                }, () => wirelessDevices.switchToUsb(deviceId!));
+                vscode.window.showInformationMessage(usbId
+                    ? `${usbId} is connected over USB again.`
+                    : `Disconnected ${deviceId}. Plug in the USB cable to use the device over USB.`);
+                adbWebviewProvider.refresh();
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
 
+    // Disconnect
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.disconnect', async (arg?: string | DeviceTreeItem) => {
+        let deviceId: string | undefined;
+        if (arg instanceof DeviceTreeItem) {
+            deviceId = arg.device.id;
+        } else {
+            deviceId = arg;
+        }
+        if (!deviceId) {
+            deviceId = await pickDevice(adbClient);
+        }
         if (deviceId) {
-            const uris = await vscode.window.showOpenDialog({
-                canSelectFiles: true,
-                canSelectFolders: false,
-                canSelectMany: false,
-                filters: { 'APK Files': ['apk'] }
-            });
+            try {
+                const result = await adbClient.disconnectDevice(deviceId);
+                vscode.window.showInformationMessage(`Disconnect Result: ${result}`);
+                adbWebviewProvider.refresh();
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
 
-            if (uris && uris.length > 0) {
-                const apkPath = uris[0].fsPath;
-                vscode.window.withProgress({
+    /**
+     * Asks for install flags, preselecting the ones used last in this workspace.
+     * @returns The options, or undefined if cancelled.
+     */
+    const pickInstallOptions = async (deviceId: string): Promise<InstallOptions | undefined> => {
+        const lastOptions = context.workspaceState.get<InstallOptions>('adb-pro.installOptions') || {};
+        const optionItems: (vscode.QuickPickItem & { option: keyof InstallOptions })[] = [
+            { label: '-g', description: 'Grant all runtime permissions', option: 'grantPermissions', picked: !!lastOptions.grantPermissions },
+            { label: '-d', description: 'Allow a version downgrade', option: 'allowDowngrade', picked: !!lastOptions.allowDowngrade },
+            { label: '-t', description: 'Allow test-only packages', option: 'allowTestPackages', picked: !!lastOptions.allowTestPackages },
+            { label: '--user', description: lastOptions.user ? `Install for user ${lastOptions.user}` : 'Install for a specific user', option: 'user', picked: lastOptions.user !== undefined }
+        ];
+        const pickedOptions = await vscode.window.showQuickPick(optionItems, {
+            canPickMany: true,
+            placeHolder: 'Options for install -r'
+        });
+        if (!pickedOptions) {
+            return undefined;
+        }
+        const options: InstallOptions = {};
+        for (const item of pickedOptions) {
+            if (item.option !== 'user') {
+                options[item.option] = true;
+            }
+        }
+        if (pickedOptions.some(item => item.option === 'user')) {
+            const users = await adbClient.getUsers(deviceId).catch(() => []);
+            const user = await vscode.window.showQuickPick(
+                [
+                    { label: 'All users', id: 'all' },
+                    { label: 'Current user', id: 'current' },
+                    ...users.map(u => ({ label: `${u.id}: ${u.name}`, description: u.running ? 'running' : 'stopped', id: String(u.id) }))
+                ].map(item => ({ ...item, picked: item.id === lastOptions.user })),
+                { placeHolder: 'Install for user (--user)' }
+            );
+            if (!user) {
+                return undefined;
+            }
+            options.user = user.id;
+        }
+        await context.workspaceState.update('adb-pro.installOptions', options);
+        return options;
+    };
+
+    // Install APK
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.installApk', async (arg?: string | DeviceTreeItem | vscode.Uri) => {
+        // From the explorer: an APK, .apks/.xapk archive or folder of splits
+        let sources = arg instanceof vscode.Uri ? [arg.fsPath] : [];
+        const deviceIds = await resolveDeviceIds(adbClient, arg instanceof vscode.Uri ? undefined : arg);
+
+        if (deviceIds.length > 0) {
+            if (sources.length === 0) {
+                const uris = await vscode.window.showOpenDialog({
+                    canSelectFiles: true,
+                    canSelectFolders: false,
+                    canSelectMany: true,
+                    openLabel: 'Install',
+                    filters: { 'APK Files': ['apk', 'apks', 'xapk'] }
+                });
+                sources = (uris || []).map(uri => uri.fsPath);
+            }
+
+            if (sources.length > 0) {
+                const options = await pickInstallOptions(deviceIds[0]);
+                if (!options) {
+                    return;
+                }
+                const name = sources.length === 1 ? path.basename(sources[0]) : `${sources.length} APKs`;
+                const results = await vscode.window.withProgress({
                     location: vscode.ProgressLocation.Notification,
-                    title: `Installing APK on ${deviceId}...`,
+                    title: `Installing ${name} on ${describeDevices(deviceIds)}...`,
                     cancellable: false
                 }, async () => {
+                    // Read the selection once; each device then picks its splits from it
+                    let installSource;
                     try {
-                        const result = await adbClient.installApk(deviceId!, apkPath);
-                        vscode.window.showInformationMessage(`Install Result: ${result}`);
+                        installSource = await openInstallSource(sources);
                     } catch (e: any) {
-                        vscode.window.showErrorMessage(e.message);
+                        return deviceIds.map(deviceId => ({ deviceId, error: e.message as string }));
+                    }
+                    try {
+                        return await runOnDevices(deviceIds, async deviceId => {
+                            const installPackage = await installSource.prepare(await adbClient.getDeviceSpec(deviceId));
+                            if (installPackage.apkPaths.length === 1) {
+                                return adbClient.installApk(deviceId, installPackage.apkPaths[0], options);
+                            }
+                            const result = await adbClient.installMultiple(deviceId, installPackage.apkPaths, options);
+                            const total = installPackage.apkPaths.length + installPackage.skipped.length;
+                            return `${result} (${installPackage.apkPaths.length} of ${total} splits)`;
+                        });
+                    } finally {
+                        await installSource.dispose();
                     }
                 });
+                showDeviceResults(outputChannel, 'Install', results);
             }
         }
     }));
@@ -122,41 +488,21 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Uninstall App
     context.subscriptions.push(vscode.commands.registerCommand('adb-pro.uninstallApp', async (arg?: string | DeviceTreeItem) => {
-        let deviceId: string | undefined;
-        if (arg instanceof DeviceTreeItem) {
-            deviceId = arg.device.id;
-        } else {
-            deviceId = arg;
-        }
-        if (!deviceId) {
-            deviceId = await pickDevice(adbClient);
-        }
-        if (deviceId) {
-            const packageName = await resolvePackageName(deviceId);
+        const deviceIds = await resolveDeviceIds(adbClient, arg);
+        if (deviceIds.length > 0) {
+            const packageName = await resolvePackageName(deviceIds[0]);
             if (packageName) {
-                try {
-                    const result = await adbClient.uninstallApp(deviceId, packageName);
-                    vscode.window.showInformationMessage(`Uninstall Result: ${result}`);
-                } catch (e: any) {
-                    vscode.window.showErrorMessage(e.message);
-                }
+                const results = await runOnDevices(deviceIds, deviceId => adbClient.uninstallApp(deviceId, packageName));
+                showDeviceResults(outputChannel, 'Uninstall', results);
             }
         }
     }));
 
     // Clear App Data
     context.subscriptions.push(vscode.commands.registerCommand('adb-pro.clearAppData', async (arg?: string | DeviceTreeItem) => {
-        let deviceId: string | undefined;
-        if (arg instanceof DeviceTreeItem) {
-            deviceId = arg.device.id;
-        } else {
-            deviceId = arg;
-        }
-        if (!deviceId) {
-            deviceId = await pickDevice(adbClient);
-        }
-        if (deviceId) {
-            const packageName = await resolvePackageName(deviceId);
+        const deviceIds = await resolveDeviceIds(adbClient, arg);
+        if (deviceIds.length > 0) {
+            const packageName = await resolvePackageName(deviceIds[0]);
             if (packageName) {
                 const action = await vscode.window.showQuickPick(
                     [
@@ -167,17 +513,17 @@ export function activate(context: vscode.ExtensionContext) {
                 );
 
                 if (action) {
-                    try {
+                    const restart = action.label === '$(refresh) Clear Data & Restart';
+                    const results = await runOnDevices(deviceIds, async deviceId => {
                         const result = await adbClient.clearAppData(deviceId, packageName);
-                        vscode.window.showInformationMessage(`Clear Data Result: ${result}`);
-
-                        if (action.label === '$(refresh) Clear Data & Restart') {
+                        if (restart) {
                             await adbClient.startApp(deviceId, packageName);
-                            vscode.window.showInformationMessage(`Restarted ${packageName}`);
                         }
-                    } catch (e: any) {
-                        vscode.window.showErrorMessage(e.message);
-                    }
+                        return result;
+                    });
+                    showDeviceResults(outputChannel, 'Clear Data', results, result => restart
+                        ? `Clear Data Result: ${result}. Restarted ${packageName}`
+                        : `Clear Data Result: ${result}`);
                 }
             }
         }
@@ -185,55 +531,33 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Kill App
     context.subscriptions.push(vscode.commands.registerCommand('adb-pro.killApp', async (arg?: string | DeviceTreeItem) => {
-        let deviceId: string | undefined;
-        if (arg instanceof DeviceTreeItem) {
-            deviceId = arg.device.id;
-        } else {
-            deviceId = arg;
-        }
-        if (!deviceId) {
-            deviceId = await pickDevice(adbClient);
-        }
-        if (deviceId) {
-            const packageName = await resolvePackageName(deviceId);
+        const deviceIds = await resolveDeviceIds(adbClient, arg);
+        if (deviceIds.length > 0) {
+            const packageName = await resolvePackageName(deviceIds[0]);
             if (packageName) {
-                try {
-                    const result = await adbClient.killApp(deviceId, packageName);
-                    vscode.window.showInformationMessage(`Kill App Result: ${result}`);
-                } catch (e: any) {
-                    vscode.window.showErrorMessage(e.message);
-                }
+                const results = await runOnDevices(deviceIds, deviceId => adbClient.killApp(deviceId, packageName));
+                showDeviceResults(outputChannel, 'Kill App', results);
             }
         }
     }));
 
     // Restart App
     context.subscriptions.push(vscode.commands.registerCommand('adb-pro.restartApp', async (arg?: string | DeviceTreeItem) => {
-        let deviceId: string | undefined;
-        if (arg instanceof DeviceTreeItem) {
-            deviceId = arg.device.id;
-        } else {
-            deviceId = arg;
-        }
-        if (!deviceId) {
-            deviceId = await pickDevice(adbClient);
-        }
-        if (deviceId) {
-            const packageName = await resolvePackageName(deviceId);
+        const deviceIds = await resolveDeviceIds(adbClient, arg);
+        if (deviceIds.length > 0) {
+            const packageName = await resolvePackageName(deviceIds[0]);
             if (packageName) {
-                try {
-                    await vscode.window.withProgress({
-                        location: vscode.ProgressLocation.Notification,
-                        title: `Restarting ${packageName}...`,
-                        cancellable: false
-                    }, async () => {
-                        await adbClient.killApp(deviceId, packageName);
-                        await adbClient.startApp(deviceId, packageName);
-                    });
-                    vscode.window.showInformationMessage(`Restarted ${packageName}`);
-                } catch (e: any) {
-                    vscode.window.showErrorMessage(e.message);
-                }
+                const results = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Restarting ${packageName}...`,
+                    cancellable: false
+                }, () => runOnDevices(deviceIds, async deviceId => {
+                    await adbClient.killApp(deviceId, packageName);
+                    await adbClient.startApp(deviceId, packageName);
+                    // Re-attach a followed Logcat session to the new process right away
+                    logcatSessions.refreshPid(deviceId);
+                }));
+                showDeviceResults(outputChannel, `Restart ${packageName}`, results, () => `Restarted ${packageName}`);
             }
         }
     }));
@@ -251,24 +575,12 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Execute Shell Command
     context.subscriptions.push(vscode.commands.registerCommand('adb-pro.shell', async (arg?: string | DeviceTreeItem) => {
-        let deviceId: string | undefined;
-        if (arg instanceof DeviceTreeItem) {
-            deviceId = arg.device.id;
-        } else {
-            deviceId = arg;
-        }
-        if (!deviceId) {
-            deviceId = await pickDevice(adbClient);
-        }
-        if (deviceId) {
+        const deviceIds = await resolveDeviceIds(adbClient, arg);
+        if (deviceIds.length > 0) {
             const command = await vscode.window.showInputBox({ placeHolder: 'Enter Shell Command (e.g., ls -l /sdcard)' });
             if (command) {
-                try {
-                    const result = await adbClient.executeShellCommand(deviceId, command);
-                    vscode.window.showInformationMessage(`Shell Result: ${result}`);
-                } catch (e: any) {
-                    vscode.window.showErrorMessage(e.message);
-                }
+                const results = await runOnDevices(deviceIds, deviceId => adbClient.executeShellCommand(deviceId, command));
+                showDeviceResults(outputChannel, 'Shell', results);
             }
         }
     }));
@@ -313,16 +625,10 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Permissions
     context.subscriptions.push(vscode.commands.registerCommand('adb-pro.setAppPermission', async (arg?: string | DeviceTreeItem) => {
-        let deviceId: string | undefined;
-        if (arg instanceof DeviceTreeItem) {
-            deviceId = arg.device.id;
-        } else {
-            deviceId = arg;
-        }
-        if (!deviceId) {
-            deviceId = await pickDevice(adbClient);
-        }
-        if (deviceId) {
+        const deviceIds = await resolveDeviceIds(adbClient, arg);
+        if (deviceIds.length > 0) {
+            // Permissions are listed from the first device and changed on all of them
+            const deviceId = deviceIds[0];
             const packageName = await resolvePackageName(deviceId);
             if (packageName) {
                 try {
@@ -349,56 +655,40 @@ export function activate(context: vscode.ExtensionContext) {
                         items.push({ label: '$(close) Done', description: 'Exit permission manager' });
 
                         const selected = await vscode.window.showQuickPick(items, {
-                            placeHolder: `Manage Permissions for ${packageName}`
+                            placeHolder: `Manage Permissions for ${packageName}${deviceIds.length > 1 ? ` on ${describeDevices(deviceIds)} (states shown for ${deviceId})` : ''}`
                         });
 
                         if (!selected || selected.label === '$(close) Done') {
                             break;
                         }
 
-                        if (selected.label === '$(check-all) Grant All Permissions') {
-                            await vscode.window.withProgress({
+                        if (selected.label === '$(check-all) Grant All Permissions' || selected.label === '$(close-all) Revoke All Permissions') {
+                            const grant = selected.label === '$(check-all) Grant All Permissions';
+                            const results = await vscode.window.withProgress({
                                 location: vscode.ProgressLocation.Notification,
-                                title: `Granting all permissions for ${packageName}...`,
+                                title: `${grant ? 'Granting' : 'Revoking'} all permissions for ${packageName}...`,
                                 cancellable: false
-                            }, async (progress) => {
-                                const denied = permissions.filter(p => !p.granted);
-                                const total = denied.length;
+                            }, progress => runOnDevices(deviceIds, async id => {
+                                // Other devices may have different permissions and states
+                                const pending = (id === deviceId ? permissions : await adbClient.getAppPermissions(id, packageName))
+                                    .filter(p => p.granted !== grant);
+                                const total = pending.length;
                                 let current = 0;
-                                for (const p of denied) {
-                                    progress.report({ message: `${p.name} (${current + 1}/${total})`, increment: (1 / total) * 100 });
-                                    try {
-                                        await adbClient.setAppPermission(deviceId, packageName, p.name, true);
-                                    } catch (e) {
-                                        console.error(`Failed to grant ${p.name}`, e);
+                                for (const p of pending) {
+                                    if (deviceIds.length === 1) {
+                                        progress.report({ message: `${p.name} (${current + 1}/${total})`, increment: (1 / total) * 100 });
                                     }
-                                    current++;
-                                }
-                            });
-                            vscode.window.showInformationMessage(`Granted all permissions for ${packageName}`);
-                            continue;
-                        }
-
-                        if (selected.label === '$(close-all) Revoke All Permissions') {
-                            await vscode.window.withProgress({
-                                location: vscode.ProgressLocation.Notification,
-                                title: `Revoking all permissions for ${packageName}...`,
-                                cancellable: false
-                            }, async (progress) => {
-                                const granted = permissions.filter(p => p.granted);
-                                const total = granted.length;
-                                let current = 0;
-                                for (const p of granted) {
-                                    progress.report({ message: `${p.name} (${current + 1}/${total})`, increment: (1 / total) * 100 });
                                     try {
-                                        await adbClient.setAppPermission(deviceId, packageName, p.name, false);
+                                        await adbClient.setAppPermission(id, packageName, p.name, grant);
                                     } catch (e) {
-                                        console.error(`Failed to revoke ${p.name}`, e);
+                                        console.error(`Failed to ${grant ? 'grant' : 'revoke'} ${p.name}`, e);
                                     }
                                     current++;
                                 }
-                            });
-                            vscode.window.showInformationMessage(`Revoked all permissions for ${packageName}`);
+                                return `${total} ${grant ? 'granted' : 'revoked'}`;
+                            }));
+                            showDeviceResults(outputChannel, grant ? 'Grant All Permissions' : 'Revoke All Permissions', results,
+                                () => `${grant ? 'Granted' : 'Revoked'} all permissions for ${packageName}`);
                             continue;
                         }
 
@@ -409,8 +699,9 @@ export function activate(context: vscode.ExtensionContext) {
                         const isGranted = selected.description === 'Granted';
 
                         // Toggle
-                        const result = await adbClient.setAppPermission(deviceId, packageName, permName, !isGranted);
-                        vscode.window.showInformationMessage(`Permission ${!isGranted ? 'Granted' : 'Revoked'}: ${result}`);
+                        const results = await runOnDevices(deviceIds, id => adbClient.setAppPermission(id, packageName, permName, !isGranted));
+                        const name = `Permission ${!isGranted ? 'Granted' : 'Revoked'}`;
+                        showDeviceResults(outputChannel, name, results, result => `${name}: ${result}`);
                     }
                 } catch (e: any) {
                     vscode.window.showErrorMessage(e.message);
@@ -421,16 +712,8 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Screenshot
     context.subscriptions.push(vscode.commands.registerCommand('adb-pro.screenshot', async (arg?: string | DeviceTreeItem) => {
-        let deviceId: string | undefined;
-        if (arg instanceof DeviceTreeItem) {
-            deviceId = arg.device.id;
-        } else {
-            deviceId = arg;
-        }
-        if (!deviceId) {
-            deviceId = await pickDevice(adbClient);
-        }
-        if (deviceId) {
+        const deviceIds = await resolveDeviceIds(adbClient, arg);
+        if (deviceIds.length > 0) {
             const uris = await vscode.window.showOpenDialog({
                 canSelectFiles: false,
                 canSelectFolders: true,
@@ -441,20 +724,20 @@ export function activate(context: vscode.ExtensionContext) {
             if (uris && uris.length > 0) {
                 const folderPath = uris[0].fsPath;
                 const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-                const localPath = `${folderPath}/screenshot-${timestamp}.png`;
-
-                try {
+                const results = await runOnDevices(deviceIds, async deviceId => {
+                    // Several devices share the timestamp, so the file names also carry the device id
+                    const suffix = deviceIds.length > 1 ? `-${deviceId.replace(/[^\w.-]/g, '_')}` : '';
+                    const localPath = `${folderPath}/screenshot-${timestamp}${suffix}.png`;
                     await adbClient.takeScreenshot(deviceId, localPath);
-                    vscode.window.showInformationMessage(`Screenshot saved to: ${localPath}`);
-                } catch (e: any) {
-                    vscode.window.showErrorMessage(e.message);
-                }
+                    return localPath;
+                });
+                showDeviceResults(outputChannel, 'Screenshot', results, localPath => `Screenshot saved to: ${localPath}`);
             }
         }
     }));
 
-    // Logcat
-    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.logcat', async (arg?: string | DeviceTreeItem) => {
+    // Screen Recording
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.screenRecord', async (arg?: string | DeviceTreeItem) => {
         let deviceId: string | undefined;
         if (arg instanceof DeviceTreeItem) {
             deviceId = arg.device.id;
@@ -464,28 +747,895 @@ export function activate(context: vscode.ExtensionContext) {
         if (!deviceId) {
             deviceId = await pickDevice(adbClient);
         }
-        if (deviceId) {
+        if (!deviceId) {
+            return;
+        }
+        // Toggles, so the same button starts and stops a recording
+        if (screenRecorder.isRecording(deviceId)) {
+            await screenRecorder.stop(deviceId);
+            return;
+        }
+
+        const uris = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            openLabel: 'Save Recording Here'
+        });
+        if (uris && uris.length > 0) {
             try {
-                // Use TargetAppManager for package selection
-                let packageName = targetAppManager.getSelectedApp();
-                if (!packageName) {
-                    // If no app selected, ask user: "Select App" or "Show All"
-                    const choice = await vscode.window.showQuickPick(
-                        ['Select App to Filter', 'Show All Logs'],
-                        { placeHolder: 'Filter Logcat?' }
-                    );
-                    if (choice === 'Select App to Filter') {
-                        packageName = await targetAppManager.pickApp();
-                    }
-                } else {
-                    // Confirm or Change
-                    const selection = await vscode.window.showQuickPick(
-                        [
-                            { label: 'Yes', description: `Filter by ${packageName}` },
-                            { label: 'Change App', description: 'Filter by different app' },
-                            { label: 'Show All', description: 'No filtering' }
-                        ],
-                        { placeHolder: `Logcat: Filter by '${packageName}'?` }
+                await screenRecorder.start(deviceId, uris[0].fsPath);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.stopScreenRecord', async (arg?: string | DeviceTreeItem) => {
+        let deviceId: string | undefined;
+        if (arg instanceof DeviceTreeItem) {
+            deviceId = arg.device.id;
+        } else {
+            deviceId = arg;
+        }
+        const devices = deviceId ? [deviceId] : screenRecorder.getRecordingDevices();
+        await Promise.all(devices.map(id => screenRecorder.stop(id)));
+    }));
+
+    // Screen Mirroring
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.mirrorScreen', async (arg?: string | DeviceTreeItem) => {
+        let deviceId: string | undefined;
+        if (arg instanceof DeviceTreeItem) {
+            deviceId = arg.device.id;
+        } else {
+            deviceId = arg;
+        }
+        if (!deviceId) {
+            deviceId = await pickDevice(adbClient);
+        }
+        if (deviceId) {
+            ScreenMirrorPanel.createOrShow(adbClient, deviceId);
+        }
+    }));
+
+    // Input
+    /**
+     * Resolves the device for input commands. They can also be run from the editor context menu,
+     * which passes the document URI instead of a device.
+     */
+    const resolveInputDevice = async (arg?: unknown): Promise<string | undefined> => {
+        if (arg instanceof DeviceTreeItem) {
+            return arg.device.id;
+        }
+        return typeof arg === 'string' ? arg : pickDevice(adbClient);
+    };
+
+    /**
+     * Parses comma- or space-separated numbers, e.g. "540, 1200".
+     */
+    const parseNumbers = (value: string) => value.trim().split(/[\s,]+/).map(Number);
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.inputText', async (arg?: string | DeviceTreeItem | vscode.Uri, text?: string) => {
+        const deviceId = await resolveInputDevice(arg);
+        if (!deviceId) {
+            return;
+        }
+        const editor = vscode.window.activeTextEditor;
+        if (text === undefined && arg instanceof vscode.Uri && editor) {
+            // From the editor context menu: type the selection
+            text = editor.document.getText(editor.selection);
+        }
+        if (text === undefined) {
+            const items: (vscode.QuickPickItem & { text?: string })[] = [];
+            if (editor && !editor.selection.isEmpty) {
+                const selection = editor.document.getText(editor.selection);
+                items.push({ label: '$(selection) Editor Selection', description: selection.substring(0, 80), text: selection });
+            }
+            const clipboard = await vscode.env.clipboard.readText();
+            if (clipboard) {
+                items.push({ label: '$(clippy) Clipboard', description: clipboard.substring(0, 80), text: clipboard });
+            }
+            items.push({ label: '$(edit) Enter Text...' });
+            const picked = items.length > 1 ? await vscode.window.showQuickPick(items, { placeHolder: 'Text to type on the device' }) : items[0];
+            if (!picked) {
+                return;
+            }
+            text = picked.text ?? await vscode.window.showInputBox({ prompt: 'Text to type into the focused field' });
+        }
+        if (text) {
+            try {
+                await adbClient.typeText(deviceId, text);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.inputKeyEvent', async (arg?: string | DeviceTreeItem, key?: string | number) => {
+        const deviceId = await resolveInputDevice(arg);
+        if (!deviceId) {
+            return;
+        }
+        if (key === undefined) {
+            const picked = await vscode.window.showQuickPick(
+                Array.from(KEYCODES, ([name, code]) => ({ label: name, description: String(code) })),
+                { placeHolder: 'Search KEYCODE names', matchOnDescription: true }
+            );
+            key = picked?.label;
+        }
+        if (key !== undefined) {
+            try {
+                await adbClient.inputKeyEvent(deviceId, key);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.inputTap', async (arg?: string | DeviceTreeItem, x?: number, y?: number) => {
+        const deviceId = await resolveInputDevice(arg);
+        if (!deviceId) {
+            return;
+        }
+        if (x === undefined || y === undefined) {
+            const value = await vscode.window.showInputBox({
+                prompt: 'Tap at screen coordinates (pixels)',
+                placeHolder: 'x, y',
+                validateInput: v => /^\s*\d+[\s,]+\d+\s*$/.test(v) ? undefined : 'Enter two numbers, e.g. 540, 1200'
+            });
+            if (!value) {
+                return;
+            }
+            [x, y] = parseNumbers(value);
+        }
+        try {
+            await adbClient.inputTap(deviceId, x, y);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.inputSwipe', async (arg?: string | DeviceTreeItem, ...coordinates: number[]) => {
+        const deviceId = await resolveInputDevice(arg);
+        if (!deviceId) {
+            return;
+        }
+        if (coordinates.length < 4) {
+            const value = await vscode.window.showInputBox({
+                prompt: 'Swipe between screen coordinates (pixels), with an optional duration in milliseconds',
+                placeHolder: 'x1, y1, x2, y2[, duration]',
+                validateInput: v => /^\s*\d+([\s,]+\d+){3,4}\s*$/.test(v) ? undefined : 'Enter four or five numbers, e.g. 540, 1800, 540, 600, 300'
+            });
+            if (!value) {
+                return;
+            }
+            coordinates = parseNumbers(value);
+        }
+        const [x1, y1, x2, y2, duration = 300] = coordinates;
+        try {
+            await adbClient.inputSwipe(deviceId, x1, y1, x2, y2, duration);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.unlockScreen', async (arg?: string | DeviceTreeItem, pin?: string) => {
+        const deviceId = await resolveInputDevice(arg);
+        if (!deviceId) {
+            return;
+        }
+        if (pin === undefined) {
+            pin = await vscode.window.showInputBox({
+                prompt: 'PIN or password (leave empty if the device has none)',
+                password: true
+            });
+            if (pin === undefined) {
+                return;
+            }
+        }
+        try {
+            await adbClient.unlockScreen(deviceId, pin || undefined);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    // Intents
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.launchIntent', async (arg?: string | DeviceTreeItem) => {
+        let deviceId: string | undefined;
+        if (arg instanceof DeviceTreeItem) {
+            deviceId = arg.device.id;
+        } else {
+            deviceId = arg;
+        }
+        if (!deviceId) {
+            deviceId = await pickDevice(adbClient);
+        }
+        if (deviceId) {
+            IntentLauncherPanel.createOrShow(adbClient, savedIntents, deviceId, undefined, targetAppManager.getSelectedApp());
+        }
+    }));
+
+    /**
+     * Lists a package's activities for the activity launcher: those registered on the device,
+     * plus those declared in the workspace's manifests (activities without intent filters
+     * don't appear in dumpsys).
+     */
+    const listActivities = async (deviceId: string, packageName: string) => {
+        const items: (vscode.QuickPickItem & { component: string })[] = [];
+        const seen = new Set<string>();
+        const deviceActivities = await adbClient.getActivities(deviceId, packageName);
+        deviceActivities
+            .sort((a, b) => Number(b.launcher) - Number(a.launcher) || a.component.localeCompare(b.component))
+            .forEach(activity => {
+                seen.add(normalizeComponent(activity.component));
+                items.push({
+                    label: `${activity.launcher ? '$(rocket)' : '$(window)'} ${activity.component.split('/')[1]}`,
+                    description: activity.launcher ? 'Launcher' : 'Installed',
+                    component: activity.component
+                });
+            });
+        for (const manifest of await new AppDiscoveryService().readManifests()) {
+            for (const activity of extractActivities(manifest)) {
+                // Manifests of other apps in the workspace; without a package attribute, assume the namespace is the package
+                if (activity.packageName && activity.packageName !== packageName) {
+                    continue;
+                }
+                const component = toComponentName(activity.name, packageName)!;
+                if (seen.has(normalizeComponent(component))) {
+                    continue;
+                }
+                seen.add(normalizeComponent(component));
+                items.push({
+                    label: `$(file-code) ${component.split('/')[1]}`,
+                    description: activity.exported === false ? 'Manifest · not exported' : 'Manifest',
+                    component
+                });
+            }
+        }
+        return items;
+    };
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.launchActivity', async (arg?: string | DeviceTreeItem, component?: string) => {
+        let deviceId: string | undefined;
+        if (arg instanceof DeviceTreeItem) {
+            deviceId = arg.device.id;
+        } else {
+            deviceId = arg;
+        }
+        if (!deviceId) {
+            deviceId = await pickDevice(adbClient);
+        }
+        if (!deviceId) {
+            return;
+        }
+        try {
+            if (!component) {
+                const packageName = await resolvePackageName(deviceId);
+                if (!packageName) {
+                    return;
+                }
+                const activities = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Listing activities of ${packageName}...`
+                }, () => listActivities(deviceId!, packageName));
+                const picked = await vscode.window.showQuickPick(
+                    [...activities, { label: '$(edit) Enter Activity Name...', component: '' }],
+                    { placeHolder: `Activity of ${packageName} to start`, matchOnDescription: true }
+                );
+                if (!picked) {
+                    return;
+                }
+                component = picked.component || await vscode.window.showInputBox({
+                    prompt: 'Activity to start',
+                    value: `${packageName}/.`,
+                    valueSelection: [packageName.length + 2, packageName.length + 2],
+                    validateInput: value => /^[\w.]+\/[\w.$]+$/.test(value) ? undefined : 'Enter package/class, e.g. com.example/.SettingsActivity'
+                });
+                if (!component) {
+                    return;
+                }
+            }
+
+            const lastOptions = context.workspaceState.get<StartOptions>('adb-pro.activityLaunchOptions') || {};
+            const optionItems: (vscode.QuickPickItem & { option: 'forceStop' | 'waitForDebugger' | 'wait' })[] = [
+                { label: '-S', description: 'Force-stop the app first', option: 'forceStop', picked: !!lastOptions.forceStop },
+                { label: '-D', description: 'Wait for a debugger to attach', option: 'waitForDebugger', picked: !!lastOptions.waitForDebugger },
+                { label: '-W', description: 'Wait for the launch and report its timing', option: 'wait', picked: !!lastOptions.wait }
+            ];
+            const pickedOptions = await vscode.window.showQuickPick(optionItems, {
+                canPickMany: true,
+                placeHolder: `Options for am start -n ${component}`
+            });
+            if (!pickedOptions) {
+                return;
+            }
+            const options: StartOptions = {};
+            pickedOptions.forEach(item => options[item.option] = true);
+            await context.workspaceState.update('adb-pro.activityLaunchOptions', options);
+
+            // Only ask for a user on devices with a work profile or secondary users
+            const users = await adbClient.getUsers(deviceId);
+            if (users.length > 1) {
+                const user = await vscode.window.showQuickPick(
+                    [
+                        { label: 'Current user', id: 'current' },
+                        ...users.map(u => ({ label: `${u.id}: ${u.name}`, description: u.running ? 'running' : 'stopped', id: String(u.id) }))
+                    ],
+                    { placeHolder: 'Start as user (--user)' }
+                );
+                if (!user) {
+                    return;
+                }
+                options.user = user.id === 'current' ? undefined : user.id;
+            }
+
+            const result = await adbClient.startActivity(deviceId, component, options);
+            // -S restarts the process; re-attach a followed Logcat session
+            logcatSessions.refreshPid(deviceId);
+            if (options.waitForDebugger) {
+                vscode.window.showInformationMessage(`Started ${component}. It is waiting for a debugger to attach.`);
+            } else if (result.totalTime !== undefined) {
+                const state = result.launchState ? ` (${result.launchState.toLowerCase()} start)` : '';
+                vscode.window.showInformationMessage(`Started ${result.activity || component}${state} in ${result.totalTime} ms`);
+            } else if (result.status && result.status !== 'ok') {
+                vscode.window.showWarningMessage(`Started ${component}, but the launch reported status "${result.status}"`);
+            } else {
+                vscode.window.showInformationMessage(`Started ${component}`);
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    // Watch mode: reinstall and restart whenever a new APK is built
+    const autoDeployer = new AutoDeployer(adbClient, targetAppManager, context);
+    context.subscriptions.push(autoDeployer);
+    context.subscriptions.push(autoDeployer.onDidDeploy(async ({ results }) => {
+        results.filter(result => result.error === undefined).forEach(result => logcatSessions.refreshPid(result.deviceId));
+        formatResultDetails('Auto-Deploy', results).forEach(line => outputChannel.appendLine(line));
+        if (results.some(result => result.error !== undefined)) {
+            const action = await vscode.window.showWarningMessage(summarizeResults('Auto-Deploy', results), 'Show Details');
+            if (action) {
+                outputChannel.show(true);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.toggleAutoDeploy', async (arg?: string | DeviceTreeItem) => {
+        if (autoDeployer.isActive() && !arg) {
+            autoDeployer.stop();
+            vscode.window.showInformationMessage('Auto-deploy is off');
+            return;
+        }
+        const deviceIds = await resolveDeviceIds(adbClient, arg);
+        if (deviceIds.length > 0) {
+            autoDeployer.start(deviceIds);
+            vscode.window.showInformationMessage(`Auto-deploy is on: new APKs are installed on ${describeDevices(deviceIds)} and the app is restarted`);
+        }
+    }));
+
+    /**
+     * Resolves the device of a port forward command: a device, its "Port Forwards" item, or the user's pick.
+     */
+    const resolvePortForwardDevice = async (arg?: string | DeviceTreeItem | PortForwardListTreeItem): Promise<string | undefined> => {
+        if (arg instanceof DeviceTreeItem) {
+            return arg.device.id;
+        }
+        if (arg instanceof PortForwardListTreeItem) {
+            return arg.deviceId;
+        }
+        return arg || pickDevice(adbClient);
+    };
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.addPortForward', async (arg?: string | DeviceTreeItem | PortForwardListTreeItem) => {
+        const deviceId = await resolvePortForwardDevice(arg);
+        if (!deviceId) {
+            return;
+        }
+        const kind = (await vscode.window.showQuickPick([
+            { label: '$(arrow-left) Reverse', description: 'Device → this machine (dev servers, mock backends)', ruleKind: 'reverse' as const },
+            { label: '$(arrow-right) Forward', description: 'This machine → device (debug ports, DevTools)', ruleKind: 'forward' as const }
+        ], { placeHolder: `Add a rule on ${deviceId}` }))?.ruleKind;
+        if (!kind) {
+            return;
+        }
+        const remoteInput = await vscode.window.showInputBox({
+            prompt: kind === 'forward'
+                ? 'Device socket: a port, tcp:<port>, localabstract:<name> or jdwp:<pid>'
+                : 'Device socket: a port, tcp:<port> or localabstract:<name>',
+            placeHolder: 'tcp:8081',
+            validateInput: value => value.trim() ? undefined : 'Enter a socket'
+        });
+        if (!remoteInput) {
+            return;
+        }
+        const remote = toSocketSpec(remoteInput);
+        const localInput = await vscode.window.showInputBox({
+            prompt: 'Port on this machine',
+            value: remote.startsWith('tcp:') ? remote.substring('tcp:'.length) : undefined,
+            validateInput: value => validatePortRule({ kind, local: toSocketSpec(value), remote })
+        });
+        if (!localInput) {
+            return;
+        }
+        const rule: PortRule = { kind, local: toSocketSpec(localInput), remote };
+        // A port on this machine can only forward to one device, so only reverses apply to all of them
+        const save = await vscode.window.showQuickPick([
+            { label: 'Save for this device', description: 'Set up again whenever it reconnects', save: 'device' as const },
+            ...(kind === 'reverse' ? [{ label: 'Save for all devices', description: 'Set up on every device that comes online', save: 'all' as const }] : []),
+            { label: 'Only now', save: undefined }
+        ], { placeHolder: 'Keep this rule in the workspace?' });
+        if (!save) {
+            return;
+        }
+        try {
+            await portForwards.add(deviceId, rule, save.save);
+            vscode.window.showInformationMessage(`${rule.kind === 'forward' ? 'Forwarding' : 'Reversing'} ${formatPortRule(rule)} on ${deviceId}`);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.removePortForward', async (arg?: string | DeviceTreeItem | PortForwardTreeItem) => {
+        try {
+            let deviceId: string | undefined;
+            let status: PortRuleStatus | undefined;
+            if (arg instanceof PortForwardTreeItem) {
+                deviceId = arg.deviceId;
+                status = arg.status;
+            } else {
+                deviceId = await resolvePortForwardDevice(arg);
+                if (!deviceId) {
+                    return;
+                }
+                const statuses = await portForwards.list(deviceId);
+                if (statuses.length === 0) {
+                    vscode.window.showInformationMessage(`No forwards or reverses on ${deviceId}`);
+                    return;
+                }
+                status = (await vscode.window.showQuickPick(
+                    statuses.map(candidate => ({
+                        label: formatPortRule(candidate.rule),
+                        description: [candidate.rule.kind, candidate.active ? undefined : 'not active', candidate.saved ? 'saved' : undefined].filter(part => part).join(' · '),
+                        status: candidate
+                    })),
+                    { placeHolder: `Remove a rule from ${deviceId}` }
+                ))?.status;
+            }
+            if (deviceId && status) {
+                await portForwards.remove(deviceId, status);
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.applyPortForwards', async (arg?: string | DeviceTreeItem | PortForwardListTreeItem) => {
+        const deviceId = await resolvePortForwardDevice(arg);
+        if (!deviceId) {
+            return;
+        }
+        try {
+            const errors = await portForwards.applySaved(deviceId);
+            if (errors.length > 0) {
+                vscode.window.showErrorMessage(`Could not set up saved port forwards on ${deviceId}: ${errors.join('; ')}`);
+            } else {
+                vscode.window.showInformationMessage(`Saved port forwards are set up on ${deviceId}`);
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    // adb tasks in tasks.json, e.g. as a preLaunchTask after a Gradle build
+    context.subscriptions.push(vscode.tasks.registerTaskProvider(ADB_TASK_TYPE, new AdbTaskProvider(adbClient, targetAppManager)));
+
+    // Build, Install & Run
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.buildInstallRun', async (arg?: string | DeviceTreeItem) => {
+        try {
+            const projects = await new AppDiscoveryService().findGradleProjects();
+            const modules = projects.flatMap(project => project.modules.map(module => ({ project, module })));
+            if (modules.length === 0) {
+                vscode.window.showErrorMessage('No Android app module found in the workspace (a Gradle module applying com.android.application)');
+                return;
+            }
+
+            // Offer the last build first
+            const last = context.workspaceState.get<{ module: string; variant: string }>('adb-pro.buildVariant');
+            let target = modules[0];
+            if (modules.length > 1) {
+                const picked = await vscode.window.showQuickPick(
+                    modules
+                        .map(candidate => ({
+                            label: candidate.module.path,
+                            description: vscode.workspace.asRelativePath(candidate.module.dir),
+                            candidate
+                        }))
+                        .sort((a, b) => Number(b.candidate.module.dir === last?.module) - Number(a.candidate.module.dir === last?.module)),
+                    { placeHolder: 'Select the app module to build' }
+                );
+                if (!picked) {
+                    return;
+                }
+                target = picked.candidate;
+            }
+            const { project, module } = target;
+            const variant = (await vscode.window.showQuickPick(
+                module.variants
+                    .map(candidate => ({ label: candidate.name, description: candidate.applicationId, variant: candidate }))
+                    .sort((a, b) => Number(b.label === last?.variant) - Number(a.label === last?.variant)),
+                { placeHolder: `Build variant of ${module.path}` }
+            ))?.variant;
+            if (!variant) {
+                return;
+            }
+            await context.workspaceState.update('adb-pro.buildVariant', { module: module.dir, variant: variant.name });
+
+            // Ask for the devices before the build, so nothing interrupts between build and launch
+            const deviceIds = await resolveDeviceIds(adbClient, arg);
+            if (deviceIds.length === 0) {
+                return;
+            }
+
+            await runGradleTask(project, assembleTask(module.path, variant));
+            const outputs = await findBuildOutputs(module, variant);
+            await autoDeployer.markDeployed(outputs.apks.map(apk => apk.file));
+            const applicationId = outputs.applicationId || variant.applicationId;
+            const installOptions = context.workspaceState.get<InstallOptions>('adb-pro.installOptions') || {};
+
+            const results = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Installing ${variant.name} on ${describeDevices(deviceIds)}...`,
+                cancellable: false
+            }, () => runOnDevices(deviceIds, async deviceId => {
+                const apk = pickOutputApk(outputs.apks, (await adbClient.getDeviceSpec(deviceId)).abis);
+                if (!apk) {
+                    throw new Error(`None of the APKs of ${variant.name} supports the device's ABIs`);
+                }
+                await adbClient.installApk(deviceId, apk.file, installOptions);
+                if (!applicationId) {
+                    return `Installed ${path.basename(apk.file)}. Set applicationId in the build file to launch it.`;
+                }
+                await adbClient.startApp(deviceId, applicationId);
+                logcatSessions.refreshPid(deviceId);
+                return `Installed ${path.basename(apk.file)} and launched ${applicationId}`;
+            }));
+
+            // Logcat, crash detection and the app commands follow the app that was just launched
+            if (applicationId && results.some(result => result.error === undefined) && targetAppManager.getSelectedApp() !== applicationId) {
+                await targetAppManager.setSelectedApp(applicationId);
+            }
+            showDeviceResults(outputChannel, `Build, Install & Run ${variant.name}`, results, result => result);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    /**
+     * Resolves a saved intent from a tree item or name, or asks for one.
+     */
+    const resolveSavedIntent = async (arg?: string | SavedIntentTreeItem): Promise<SavedIntent | undefined> => {
+        if (arg instanceof SavedIntentTreeItem) {
+            return arg.saved;
+        }
+        if (arg) {
+            const saved = savedIntents.get(arg);
+            if (!saved) {
+                vscode.window.showErrorMessage(`No saved intent named "${arg}"`);
+            }
+            return saved;
+        }
+        const all = savedIntents.getAll();
+        if (all.length === 0) {
+            vscode.window.showInformationMessage('No saved intents. Save one from the intent launcher.');
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            all.map(saved => ({ label: saved.name, description: `am ${saved.intent.command}`, detail: saved.intent.data || saved.intent.action, saved })),
+            { placeHolder: 'Select a saved intent' }
+        );
+        return picked?.saved;
+    };
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.runSavedIntent', async (arg?: string | SavedIntentTreeItem, deviceId?: string) => {
+        const saved = await resolveSavedIntent(arg);
+        if (!saved) {
+            return;
+        }
+        if (!deviceId) {
+            deviceId = await pickDevice(adbClient);
+        }
+        if (deviceId) {
+            try {
+                await adbClient.sendIntent(deviceId, saved.intent);
+                vscode.window.showInformationMessage(`Sent "${saved.name}" to ${deviceId}`);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.editSavedIntent', async (arg?: string | SavedIntentTreeItem) => {
+        const saved = await resolveSavedIntent(arg);
+        if (!saved) {
+            return;
+        }
+        const deviceId = await pickDevice(adbClient);
+        if (deviceId) {
+            IntentLauncherPanel.createOrShow(adbClient, savedIntents, deviceId, saved, targetAppManager.getSelectedApp());
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.deleteSavedIntent', async (arg?: string | SavedIntentTreeItem) => {
+        const saved = await resolveSavedIntent(arg);
+        if (!saved) {
+            return;
+        }
+        const confirm = await vscode.window.showWarningMessage(`Delete the saved intent "${saved.name}"?`, { modal: true }, 'Delete');
+        if (confirm === 'Delete') {
+            await savedIntents.delete(saved.name);
+        }
+    }));
+
+    // Browse Device Files
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.browseFiles', async (arg?: string | DeviceTreeItem) => {
+        let deviceId: string | undefined;
+        if (arg instanceof DeviceTreeItem) {
+            deviceId = arg.device.id;
+        } else {
+            deviceId = arg;
+        }
+        if (!deviceId) {
+            deviceId = await pickDevice(adbClient);
+        }
+        if (deviceId) {
+            const selected = await vscode.window.showQuickPick([
+                { label: '/sdcard', description: 'Shared storage' },
+                { label: '/data/local/tmp', description: 'Temp directory writable by adb' },
+                { label: '/', description: 'Device root' },
+                { label: 'Other...', description: 'Enter a path' }
+            ], { placeHolder: 'Select Folder to Open' });
+            if (!selected) {
+                return;
+            }
+            let remotePath: string | undefined = selected.label;
+            if (selected.label === 'Other...') {
+                remotePath = await vscode.window.showInputBox({
+                    prompt: 'Enter an absolute path on the device',
+                    placeHolder: '/sdcard/Download',
+                    validateInput: value => value.startsWith('/') ? undefined : 'Path must start with /'
+                });
+            }
+            if (!remotePath) {
+                return;
+            }
+
+            const uri = toDeviceUri(deviceId, remotePath);
+            try {
+                await vscode.workspace.fs.readDirectory(uri);
+                // Adding a folder to a window without a workspace reloads it; the provider is restored via onFileSystem:adb
+                vscode.workspace.updateWorkspaceFolders(vscode.workspace.workspaceFolders?.length || 0, 0, {
+                    uri,
+                    name: `${deviceId}: ${remotePath}`
+                });
+            } catch (e: any) {
+                vscode.window.showErrorMessage(`Cannot open ${remotePath} on ${deviceId}: ${e.message}`);
+            }
+        }
+    }));
+
+    // App Files (run-as sandbox of the target app)
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.openAppFile', async (item: AppFileTreeItem) => {
+        try {
+            // Open a local copy; use "Replace" to write changes back
+            const localPath = path.join(os.tmpdir(), 'adb-pro', item.deviceId.replace(/[^\w.-]+/g, '_'), item.packageName, item.remotePath);
+            await vscode.workspace.fs.writeFile(vscode.Uri.file(localPath), await adbClient.readAppFile(item.deviceId, item.packageName, item.remotePath));
+            await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(localPath));
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.pullAppFile', async (item: AppFileTreeItem) => {
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = path.posix.basename(item.remotePath);
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+            saveLabel: 'Pull File'
+        });
+        if (uri) {
+            try {
+                await vscode.workspace.fs.writeFile(uri, await adbClient.readAppFile(item.deviceId, item.packageName, item.remotePath));
+                vscode.window.showInformationMessage(`Pulled ${item.remotePath} to: ${uri.fsPath}`);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.replaceAppFile', async (item: AppFileTreeItem) => {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: `Replace ${path.posix.basename(item.remotePath)}`
+        });
+        if (uris && uris.length > 0) {
+            try {
+                await adbClient.writeAppFile(item.deviceId, item.packageName, item.remotePath, await vscode.workspace.fs.readFile(uris[0]));
+                deviceTreeProvider.refresh();
+                vscode.window.showInformationMessage(`Replaced ${item.remotePath} on ${item.deviceId}`);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.deleteAppFile', async (item: AppFileTreeItem) => {
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete ${item.remotePath}${item.isDirectory ? ' and everything in it' : ''} from ${item.packageName}?`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm === 'Delete') {
+            try {
+                await adbClient.deleteAppFile(item.deviceId, item.packageName, item.remotePath);
+                deviceTreeProvider.refresh();
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
+
+    /**
+     * Resolves an app file from a tree item, or asks for the device, package and a file in `folder`.
+     */
+    const pickAppFile = async (arg: string | DeviceTreeItem | AppFileTreeItem | undefined, folder: string, filter: (remotePath: string) => boolean, placeHolder: string) => {
+        if (arg instanceof AppFileTreeItem) {
+            return { deviceId: arg.deviceId, packageName: arg.packageName, remotePath: arg.remotePath };
+        }
+        let deviceId = arg instanceof DeviceTreeItem ? arg.device.id : arg;
+        if (!deviceId) {
+            deviceId = await pickDevice(adbClient);
+        }
+        if (!deviceId) {
+            return undefined;
+        }
+        const packageName = targetAppManager.getSelectedApp() || await resolvePackageName(deviceId);
+        if (!packageName) {
+            return undefined;
+        }
+        const entries = await adbClient.listAppFiles(deviceId, packageName, folder);
+        const names = entries.map(e => `${folder}/${e.name}`).filter(filter);
+        if (names.length === 0) {
+            vscode.window.showInformationMessage(`${packageName} has no ${folder} files on ${deviceId}`);
+            return undefined;
+        }
+        const remotePath = await vscode.window.showQuickPick(names, { placeHolder });
+        return remotePath ? { deviceId, packageName, remotePath } : undefined;
+    };
+
+    // Database Inspector
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.inspectDatabase', async (arg?: string | DeviceTreeItem | AppFileTreeItem) => {
+        try {
+            const file = await pickAppFile(arg, 'databases', isDatabasePath, 'Select Database');
+            if (file) {
+                const database = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Pulling ${file.remotePath}...`
+                }, () => databaseInspector.open(file.deviceId, file.packageName, file.remotePath));
+                DatabasePanel.createOrShow(databaseInspector, database);
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    // Database commands take a DatabaseTreeItem from the view or a database id from the query panel
+    const resolveDatabase = (arg: number | DatabaseTreeItem) =>
+        arg instanceof DatabaseTreeItem ? arg.database : databaseInspector.getDatabase(arg);
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.queryDatabase', (arg: number | DatabaseTreeItem, sql?: string) => {
+        const database = resolveDatabase(arg);
+        if (database) {
+            DatabasePanel.createOrShow(databaseInspector, database, sql);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.pushDatabase', async (arg: number | DatabaseTreeItem) => {
+        const database = resolveDatabase(arg);
+        if (!database) {
+            return;
+        }
+        const confirm = await vscode.window.showWarningMessage(
+            `Force-stop ${database.packageName} and replace ${database.remotePath} on ${database.deviceId} with the local copy?`,
+            { modal: true },
+            'Push'
+        );
+        if (confirm === 'Push') {
+            try {
+                await databaseInspector.push(database);
+                vscode.window.showInformationMessage(`Pushed ${database.remotePath} to ${database.deviceId}`);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.reloadDatabase', async (arg: number | DatabaseTreeItem) => {
+        const database = resolveDatabase(arg);
+        if (!database) {
+            return;
+        }
+        if (database.modified) {
+            const confirm = await vscode.window.showWarningMessage(
+                `Discard local changes to ${database.remotePath}?`,
+                { modal: true },
+                'Reload'
+            );
+            if (confirm !== 'Reload') {
+                return;
+            }
+        }
+        try {
+            await databaseInspector.reload(database);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.closeDatabase', (arg: number | DatabaseTreeItem) => {
+        const database = resolveDatabase(arg);
+        if (database) {
+            databaseInspector.close(database);
+        }
+    }));
+
+    // SharedPreferences editor
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.editSharedPreferences', async (arg?: string | DeviceTreeItem | AppFileTreeItem) => {
+        try {
+            const file = await pickAppFile(arg, 'shared_prefs', isSharedPreferencesPath, 'Select Preferences File');
+            if (file) {
+                await SharedPreferencesPanel.createOrShow(adbClient, file.deviceId, file.packageName, file.remotePath);
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    // Logcat
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.logcat', async (arg?: string | DeviceTreeItem) => {
+        let deviceId: string | undefined;
+        if (arg instanceof DeviceTreeItem) {
+            deviceId = arg.device.id;
+        } else {
+            deviceId = arg;
+        }
+        if (!deviceId) {
+            deviceId = await pickDevice(adbClient);
+        }
+        if (deviceId) {
+            try {
+                // Use TargetAppManager for package selection
+                let packageName = targetAppManager.getSelectedApp();
+                if (!packageName) {
+                    // If no app selected, ask user: "Select App" or "Show All"
+                    const choice = await vscode.window.showQuickPick(
+                        ['Select App to Filter', 'Show All Logs'],
+                        { placeHolder: 'Filter Logcat?' }
+                    );
+                    if (choice === 'Select App to Filter') {
+                        packageName = await targetAppManager.pickApp();
+                    }
+                } else {
+                    // Confirm or Change
+                    const selection = await vscode.window.showQuickPick(
+                        [
+                            { label: 'Yes', description: `Filter by ${packageName}` },
+                            { label: 'Change App', description: 'Filter by different app' },
+                            { label: 'Show All', description: 'No filtering' }
+                        ],
+                        { placeHolder: `Logcat: Filter by '${packageName}'?` }
                     );
                     if (selection?.label === 'Change App') {
                         packageName = await targetAppManager.pickApp();
@@ -500,15 +1650,146 @@ export function activate(context: vscode.ExtensionContext) {
                 const levels = ['V', 'D', 'I', 'W', 'E', 'F']; // Verbose, Debug, Info, Warn, Error, Fatal
                 const level = await vscode.window.showQuickPick(levels, { placeHolder: 'Select Log Level (Optional)' });
 
-                let pid: string | undefined;
+                let follow = false;
                 if (packageName) {
-                    pid = await adbClient.getPidForPackage(deviceId, packageName);
-                    if (!pid) {
-                        vscode.window.showWarningMessage(`Could not find PID for package: ${packageName}. Showing all logs.`);
+                    const mode = await vscode.window.showQuickPick(
+                        [
+                            { label: '$(sync) Follow App', description: 'Re-attach when the app restarts' },
+                            { label: '$(debug-stackframe) Current Process Only', description: 'Stick to the PID running now' }
+                        ],
+                        { placeHolder: `Logcat: Follow ${packageName} across restarts?` }
+                    );
+                    if (!mode) {
+                        return; // Cancelled
                     }
+                    follow = mode.label === '$(sync) Follow App';
+                }
+
+                await logcatSessions.start(deviceId, { packageName, level, follow });
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
+
+    // Clickable stack traces in logcat output
+    context.subscriptions.push(vscode.languages.registerDocumentLinkProvider(StackTraceLinkProvider.selector, new StackTraceLinkProvider()));
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.openStackFrame', async (frame: StackFrame) => {
+        try {
+            await openStackFrame(frame);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(e.message);
+        }
+    }));
+
+    // Helper to pick a device with a running Logcat session
+    const pickLogcatSession = async (arg?: string | DeviceTreeItem): Promise<string | undefined> => {
+        if (arg instanceof DeviceTreeItem) {
+            return arg.device.id;
+        }
+        if (arg) {
+            return arg;
+        }
+        const active = logcatSessions.getActiveDevices();
+        if (active.length === 0) {
+            vscode.window.showInformationMessage('No Logcat session is running');
+            return undefined;
+        }
+        if (active.length === 1) {
+            return active[0];
+        }
+        return vscode.window.showQuickPick(active, { placeHolder: 'Select Logcat Session' });
+    };
+
+    // Stop Logcat
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.logcatStop', async (arg?: string | DeviceTreeItem) => {
+        const deviceId = await pickLogcatSession(arg);
+        if (deviceId && !logcatSessions.stop(deviceId)) {
+            vscode.window.showInformationMessage(`No Logcat session is running for ${deviceId}`);
+        }
+    }));
+
+    // Restart Logcat
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.logcatRestart', async (arg?: string | DeviceTreeItem) => {
+        const deviceId = await pickLogcatSession(arg);
+        if (deviceId) {
+            try {
+                if (!await logcatSessions.restart(deviceId)) {
+                    vscode.window.showInformationMessage(`No Logcat session is running for ${deviceId}`);
                 }
+            } catch (e: any) {
+                vscode.window.showErrorMessage(e.message);
+            }
+        }
+    }));
 
-                await adbClient.getLogcat(deviceId, pid, level);
+    // Logcat Viewer
+    context.subscriptions.push(new vscode.Disposable(() => LogcatPanel.disposeAll()));
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.logcatViewer', async (arg?: string | DeviceTreeItem) => {
+        let deviceId: string | undefined;
+        if (arg instanceof DeviceTreeItem) {
+            deviceId = arg.device.id;
+        } else {
+            deviceId = arg;
+        }
+        if (!deviceId) {
+            deviceId = await pickDevice(adbClient);
+        }
+        if (deviceId) {
+            LogcatPanel.createOrShow(adbClient, deviceId, targetAppManager.getSelectedApp());
+        }
+    }));
+
+    // Save Logcat to File
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.logcatSave', async (arg?: string | DeviceTreeItem) => {
+        const deviceId = arg instanceof DeviceTreeItem ? arg.device.id : arg;
+        const captures = [
+            ...logcatSessions.getCapturedDevices().map(id => ({
+                label: `Logcat: ${id}`,
+                description: 'Output channel',
+                deviceId: id,
+                save: () => {
+                    const lines = logcatSessions.getCapturedLines(id);
+                    return saveLogcatCapture(toLogcatEntries(lines), `logcat-${id}`, lines);
+                }
+            })),
+            ...LogcatPanel.getPanels().map(panel => ({
+                label: panel.title,
+                description: 'Logcat viewer',
+                deviceId: undefined,
+                save: () => panel.save()
+            }))
+        ].filter(c => !deviceId || c.deviceId === deviceId);
+
+        if (captures.length === 0) {
+            vscode.window.showInformationMessage('No Logcat output to save. Start Logcat or open the Logcat viewer first.');
+            return;
+        }
+        const selected = captures.length === 1
+            ? captures[0]
+            : await vscode.window.showQuickPick(captures, { placeHolder: 'Select Logcat to save' });
+        if (selected) {
+            try {
+                await selected.save();
+            } catch (e: any) {
+                vscode.window.showErrorMessage(`Failed to save logcat: ${e.message}`);
+            }
+        }
+    }));
+
+    // Open Logcat File
+    context.subscriptions.push(vscode.commands.registerCommand('adb-pro.logcatOpenFile', async (uri?: vscode.Uri) => {
+        if (!uri) {
+            const uris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { 'Logcat Files': ['log', 'txt', 'jsonl'], 'All Files': ['*'] },
+                openLabel: 'Open Logcat'
+            });
+            uri = uris?.[0];
+        }
+        if (uri) {
+            try {
+                LogcatPanel.openFile(uri, await readLogcatFile(uri));
             } catch (e: any) {
                 vscode.window.showErrorMessage(e.message);
             }
@@ -536,6 +1817,83 @@ async function pickDevice(client: AdbClient): Promise<string | undefined> {
     return selected;
 }
 
+/**
+ * Asks for the 6-digit code shown in the device's "Pair device with pairing code" dialog,
+ * pairs with the address and connects.
+ */
+async function pairWithCode(wirelessDevices: WirelessDeviceManager, address: string) {
+    const code = await vscode.window.showInputBox({
+        prompt: `Wi-Fi pairing code shown on the device for ${address}`,
+        placeHolder: '123456',
+        validateInput: value => /^\d{6}$/.test(value.trim()) ? undefined : 'Enter the 6-digit code'
+    });
+    if (!code) {
+        return;
+    }
+    try {
+        const host = address.replace(/:\d+$/, '');
+        const connected = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Pairing with ${address}...`
+        }, async progress => {
+            const guid = await wirelessDevices.pair(address, code.trim());
+            progress.report({ message: 'Connecting...' });
+            return { guid, address: await wirelessDevices.connectPaired(host, guid) };
+        });
+        let connectedAddress = connected.address;
+        if (!connectedAddress) {
+            // mDNS discovery is off or blocked on this network; the connect port is on the Wireless debugging screen
+            connectedAddress = await vscode.window.showInputBox({
+                prompt: `Paired. Enter the IP address and port shown under "Wireless debugging" to connect`,
+                value: `${host}:`,
+                validateInput: value => /^\S+:\d+$/.test(value.trim()) ? undefined : 'Enter ip:port'
+            });
+            if (!connectedAddress) {
+                return;
+            }
+            await wirelessDevices.connect(connectedAddress.trim(), connected.guid);
+        }
+        vscode.window.showInformationMessage(`Paired and connected to ${connectedAddress.trim()}`);
+    } catch (e: any) {
+        vscode.window.showErrorMessage(e.message);
+    }
+}
+
+/**
+ * Lets the user pick one or more online devices, or "All devices". Skips the picker when only
+ * one device is connected.
+ */
+async function pickDevices(client: AdbClient): Promise<string[]> {
+    const devices = (await client.getConnectedDevices()).filter(d => d.type === 'device');
+    if (devices.length === 0) {
+        vscode.window.showErrorMessage('No devices connected');
+        return [];
+    }
+    if (devices.length === 1) {
+        return [devices[0].id];
+    }
+    const items = [
+        { label: '$(check-all) All devices', description: `${devices.length} devices`, ids: devices.map(d => d.id) },
+        ...devices.map(d => ({ label: d.id, description: d.model?.replace(/_/g, ' '), ids: [d.id] }))
+    ];
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Select Devices', canPickMany: true });
+    return [...new Set((selected || []).flatMap(item => item.ids))];
+}
+
+/**
+ * Resolves the devices a command runs on: the device it was invoked for, or the user's pick.
+ */
+async function resolveDeviceIds(client: AdbClient, arg?: string | DeviceTreeItem): Promise<string[]> {
+    if (arg instanceof DeviceTreeItem) {
+        return [arg.device.id];
+    }
+    return arg ? [arg] : pickDevices(client);
+}
+
+function describeDevices(deviceIds: string[]): string {
+    return deviceIds.length === 1 ? deviceIds[0] : `${deviceIds.length} devices`;
+}
+
 
 
 
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GradleAppModule, GradleProject, GradleVariant, OutputApk, parseOutputMetadata } from './gradleProject';
+
+/**
+ * Task type of the Gradle builds started by "Build, Install & Run".
+ */
+export const GRADLE_TASK_TYPE = 'android-gradle';
+
+/**
+ * Runs a Gradle task with the project's wrapper as a VS Code task, so its output shows in the
+ * terminal and Kotlin/Java compiler errors show in the Problems view.
+ * @throws Error if the project has no wrapper or the build fails.
+ */
+export async function runGradleTask(project: GradleProject, gradleTask: string): Promise<void> {
+    if (!project.gradlew) {
+        throw new Error(`No Gradle wrapper (gradlew) in ${project.rootDir}`);
+    }
+    const scope = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(project.rootDir)) ?? vscode.TaskScope.Workspace;
+    const task = new vscode.Task(
+        { type: GRADLE_TASK_TYPE, task: gradleTask },
+        scope,
+        gradleTask,
+        'ADB Pro',
+        new vscode.ShellExecution(project.gradlew, [gradleTask], { cwd: project.rootDir }),
+        ['$adb-pro-kotlin-error', '$adb-pro-kotlin-warning', '$adb-pro-javac']
+    );
+    task.group = vscode.TaskGroup.Build;
+    task.presentationOptions = { reveal: vscode.TaskRevealKind.Always, clear: true };
+
+    const exitCode = await new Promise<number | undefined>((resolve, reject) => {
+        // A quick failure can end the task before executeTask() resolves, so ends are recorded until
+        // the execution is known. A task that ends without a process (gradlew could not be started,
+        // the run was cancelled or terminated early) has no exit code.
+        const processExitCodes = new Map<vscode.TaskExecution, number | undefined>();
+        const endedExecutions = new Set<vscode.TaskExecution>();
+        let execution: vscode.TaskExecution | undefined;
+        const check = () => {
+            if (execution && (processExitCodes.has(execution) || endedExecutions.has(execution))) {
+                listeners.forEach(listener => listener.dispose());
+                resolve(processExitCodes.get(execution));
+            }
+        };
+        const listeners = [
+            vscode.tasks.onDidEndTaskProcess(e => {
+                processExitCodes.set(e.execution, e.exitCode);
+                check();
+            }),
+            vscode.tasks.onDidEndTask(e => {
+                endedExecutions.add(e.execution);
+                check();
+            })
+        ];
+        vscode.tasks.executeTask(task).then(result => {
+            execution = result;
+            check();
+        }, e => {
+            listeners.forEach(listener => listener.dispose());
+            reject(e);
+        });
+    });
+    if (exitCode !== 0) {
+        throw new Error(`${gradleTask} failed${exitCode === undefined ? '' : ` with exit code ${exitCode}`}. See the terminal and the Problems view.`);
+    }
+}
+
+/**
+ * Finds the APKs a variant was built into.
+ * @throws Error if the variant has no APK (e.g. it was not built).
+ */
+export async function findBuildOutputs(module: GradleAppModule, variant: GradleVariant): Promise<BuildOutputs> {
+    return findOutputApks(path.join(module.dir, ...variant.outputDir.split('/')));
+}
+
+/**
+ * The APKs in an output directory such as build/outputs/apk/free/debug.
+ */
+export interface BuildOutputs {
+    /**
+     * Set if output-metadata.json records it.
+     */
+    applicationId?: string;
+    /**
+     * Absolute paths.
+     */
+    apks: OutputApk[];
+}
+
+/**
+ * Lists the APKs in an output directory from AGP's output-metadata.json or, for older plugins,
+ * takes the newest APK in it.
+ * @throws Error if the directory has no APK.
+ */
+export async function findOutputApks(outputDir: string): Promise<BuildOutputs> {
+    try {
+        const metadata = parseOutputMetadata(await fs.promises.readFile(path.join(outputDir, 'output-metadata.json'), 'utf-8'));
+        if (metadata.apks.length > 0) {
+            return {
+                applicationId: metadata.applicationId,
+                apks: metadata.apks.map(apk => ({ ...apk, file: path.join(outputDir, apk.file) }))
+            };
+        }
+    } catch (e) {
+        // No metadata before AGP 4.1
+    }
+    let newest: { file: string; mtime: number } | undefined;
+    try {
+        for (const name of await fs.promises.readdir(outputDir)) {
+            if (name.endsWith('.apk')) {
+                const file = path.join(outputDir, name);
+                const mtime = (await fs.promises.stat(file)).mtimeMs;
+                if (!newest || mtime > newest.mtime) {
+                    newest = { file, mtime };
+                }
+            }
+        }
+    } catch (e) {
+        // Handled below
+    }
+    if (!newest) {
+        throw new Error(`No APK found in ${outputDir}`);
+    }
+    return { apks: [{ file: newest.file }] };
+}
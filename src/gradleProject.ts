@@ -0,0 +1,264 @@
+/**
+ * Reads Android app modules and their build variants from Gradle build files (Groovy or
+ * Kotlin DSL) without running Gradle. It understands the common declarations: applied plugins,
+ * applicationId and suffixes, build types, product flavors and flavor dimensions.
+ */
+
+/**
+ * A Gradle build in the workspace (a folder with settings.gradle or settings.gradle.kts).
+ */
+export interface GradleProject {
+    rootDir: string;
+    /**
+     * Path of the Gradle wrapper script, if the build has one.
+     */
+    gradlew?: string;
+    modules: GradleAppModule[];
+}
+
+/**
+ * An app module (one that applies com.android.application) of a Gradle build.
+ */
+export interface GradleAppModule {
+    /**
+     * Gradle path, e.g. :app.
+     */
+    path: string;
+    /**
+     * Directory of the module.
+     */
+    dir: string;
+    variants: GradleVariant[];
+}
+
+/**
+ * A build variant: one product flavor per dimension plus a build type.
+ */
+export interface GradleVariant {
+    /**
+     * e.g. freeDebug, or debug without flavors.
+     */
+    name: string;
+    buildType: string;
+    flavors: string[];
+    /**
+     * The application id the variant is built with, if it is declared in the build file.
+     */
+    applicationId?: string;
+    /**
+     * Directory under the module that AGP writes the APKs to, e.g. build/outputs/apk/free/debug.
+     */
+    outputDir: string;
+}
+
+interface ProductFlavor {
+    name: string;
+    dimension?: string;
+    applicationId?: string;
+    applicationIdSuffix?: string;
+}
+
+/**
+ * What the build file of an app module declares.
+ */
+export interface AndroidAppConfig {
+    applicationId?: string;
+    applicationIdSuffix?: string;
+    buildTypes: { name: string; applicationIdSuffix?: string }[];
+    flavorDimensions: string[];
+    productFlavors: ProductFlavor[];
+}
+
+/**
+ * Removes comments, keeping string literals (which may contain // as in URLs).
+ */
+function stripComments(content: string): string {
+    return content.replace(/("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, literal) => literal ?? '');
+}
+
+/**
+ * Returns the body of the first `name { ... }` block, or undefined.
+ */
+function findBlock(content: string, name: string): string | undefined {
+    const start = new RegExp(`\\b${name}\\s*\\{`).exec(content);
+    if (!start) {
+        return undefined;
+    }
+    const open = start.index + start[0].length - 1;
+    const close = matchBrace(content, open);
+    return content.substring(open + 1, close);
+}
+
+function matchBrace(content: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < content.length; i++) {
+        if (content[i] === '{') {
+            depth++;
+        } else if (content[i] === '}' && --depth === 0) {
+            return i;
+        }
+    }
+    return content.length;
+}
+
+/**
+ * Lists the top-level blocks in a container such as buildTypes: `release {`, `create("staging") {`,
+ * `getByName("debug") {` and the like.
+ */
+function childBlocks(content: string): { name: string; body: string }[] {
+    const blocks: { name: string; body: string }[] = [];
+    const header = /(?:^|[\n;}])\s*(?:(?:create|getByName|register|maybeCreate|named)\s*\(\s*["']([\w-]+)["']\s*\)|["']?([\w-]+)["']?)\s*\{/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(content)) !== null) {
+        const open = match.index + match[0].length - 1;
+        const close = matchBrace(content, open);
+        blocks.push({ name: match[1] || match[2], body: content.substring(open + 1, close) });
+        // Skip nested blocks
+        header.lastIndex = close;
+    }
+    return blocks;
+}
+
+/**
+ * Reads a string property in any of `name "x"`, `name = "x"` and `name("x")`.
+ */
+function readString(content: string, name: string): string | undefined {
+    return new RegExp(`\\b${name}\\s*(?:=\\s*|\\(\\s*|\\s+)["']([^"']*)["']`).exec(content)?.[1];
+}
+
+/**
+ * Returns true if the build file applies the Android application plugin.
+ */
+export function isAndroidAppBuildFile(content: string): boolean {
+    const code = stripComments(content);
+    return /["']com\.android\.application["']/.test(code) || /\bplugins\.android\.application\b/.test(code);
+}
+
+/**
+ * Parses the android { } configuration of an app module's build file.
+ */
+export function parseAndroidAppConfig(content: string): AndroidAppConfig {
+    const code = stripComments(content);
+    const android = findBlock(code, 'android') ?? '';
+    const defaultConfig = findBlock(android, 'defaultConfig') ?? '';
+
+    const buildTypes = [{ name: 'debug' }, { name: 'release' }] as AndroidAppConfig['buildTypes'];
+    for (const block of childBlocks(findBlock(android, 'buildTypes') ?? '')) {
+        const suffix = readString(block.body, 'applicationIdSuffix');
+        const existing = buildTypes.find(buildType => buildType.name === block.name);
+        if (existing) {
+            existing.applicationIdSuffix = suffix;
+        } else {
+            buildTypes.push({ name: block.name, applicationIdSuffix: suffix });
+        }
+    }
+
+    // flavorDimensions "tier", "env" / flavorDimensions += listOf("tier", "env") / flavorDimensions.addAll(...)
+    const dimensionsLine = /\bflavorDimensions\b([^\n]*)/.exec(android)?.[1] ?? '';
+    const flavorDimensions = Array.from(dimensionsLine.matchAll(/["']([\w-]+)["']/g), match => match[1]);
+
+    const productFlavors = childBlocks(findBlock(android, 'productFlavors') ?? '').map(block => ({
+        name: block.name,
+        dimension: readString(block.body, 'dimension'),
+        applicationId: readString(block.body, 'applicationId'),
+        applicationIdSuffix: readString(block.body, 'applicationIdSuffix')
+    }));
+
+    return {
+        applicationId: readString(defaultConfig, 'applicationId'),
+        applicationIdSuffix: readString(defaultConfig, 'applicationIdSuffix'),
+        buildTypes,
+        flavorDimensions,
+        productFlavors
+    };
+}
+
+function capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.substring(1);
+}
+
+/**
+ * Lists the build variants of an app module, in the order Android Studio shows them.
+ */
+export function listVariants(config: AndroidAppConfig): GradleVariant[] {
+    // One list of flavors per dimension; flavors without a dimension belong to the only one
+    const dimensions = config.flavorDimensions.length > 0 ? config.flavorDimensions : [undefined];
+    const groups = dimensions
+        .map(dimension => config.productFlavors.filter(flavor => flavor.dimension === dimension || (!flavor.dimension && dimensions.length === 1)))
+        .filter(group => group.length > 0);
+    let combinations: ProductFlavor[][] = [[]];
+    for (const group of groups) {
+        combinations = combinations.flatMap(combination => group.map(flavor => [...combination, flavor]));
+    }
+
+    const variants: GradleVariant[] = [];
+    for (const flavors of combinations) {
+        const flavorName = flavors.map((flavor, index) => index === 0 ? flavor.name : capitalize(flavor.name)).join('');
+        for (const buildType of config.buildTypes) {
+            // The first dimension has the highest priority
+            const baseId = flavors.find(flavor => flavor.applicationId)?.applicationId ?? config.applicationId;
+            const suffixes = [config.applicationIdSuffix, ...flavors.map(flavor => flavor.applicationIdSuffix), buildType.applicationIdSuffix]
+                .filter(suffix => suffix)
+                .map(suffix => suffix!.startsWith('.') ? suffix : `.${suffix}`);
+            variants.push({
+                name: flavorName ? `${flavorName}${capitalize(buildType.name)}` : buildType.name,
+                buildType: buildType.name,
+                flavors: flavors.map(flavor => flavor.name),
+                applicationId: baseId ? baseId + suffixes.join('') : undefined,
+                outputDir: ['build/outputs/apk', flavorName, buildType.name].filter(part => part).join('/')
+            });
+        }
+    }
+    return variants;
+}
+
+/**
+ * Returns the Gradle task that builds the APK of a variant, e.g. :app:assembleFreeDebug.
+ */
+export function assembleTask(modulePath: string, variant: GradleVariant): string {
+    return `${modulePath === ':' ? '' : modulePath}:assemble${capitalize(variant.name)}`;
+}
+
+/**
+ * Reads the module paths from settings.gradle(.kts): `include ':app', ':lib'` or `include(":app")`.
+ */
+export function parseIncludedModules(settings: string): string[] {
+    const modules: string[] = [];
+    for (const include of stripComments(settings).matchAll(/\binclude\b\s*\(?([^\n)]*)/g)) {
+        for (const match of include[1].matchAll(/["']([:\w.-]+)["']/g)) {
+            modules.push(match[1].startsWith(':') ? match[1] : `:${match[1]}`);
+        }
+    }
+    return modules;
+}
+
+/**
+ * An APK listed in output-metadata.json.
+ */
+export interface OutputApk {
+    file: string;
+    /**
+     * Set for ABI splits; undefined for universal APKs.
+     */
+    abi?: string;
+}
+
+/**
+ * Parses the output-metadata.json AGP writes next to the APKs.
+ */
+export function parseOutputMetadata(json: string): { applicationId?: string; variantName?: string; apks: OutputApk[] } {
+    const metadata = JSON.parse(json);
+    const apks = (metadata.elements || []).map((element: any) => ({
+        file: element.outputFile,
+        abi: (element.filters || []).find((filter: any) => filter.filterType === 'ABI')?.value
+    })).filter((apk: OutputApk) => apk.file);
+    return { applicationId: metadata.applicationId, variantName: metadata.variantName, apks };
+}
+
+/**
+ * Picks the APK for a device from a variant's outputs: a universal APK, or the ABI split the
+ * device prefers.
+ */
+export function pickOutputApk(apks: OutputApk[], abis: string[]): OutputApk | undefined {
+    return apks.find(apk => !apk.abi) ?? abis.map(abi => apks.find(apk => apk.abi === abi)).find(apk => apk);
+}
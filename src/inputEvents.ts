@@ -0,0 +1,128 @@
+/**
+ * Helpers for `input` on the device: Android key codes and splitting text into
+ * what `input text` can type.
+ */
+
+/**
+ * Android key codes by name (android.view.KeyEvent), for `input keyevent`.
+ */
+export const KEYCODES = new Map<string, number>([
+    ['KEYCODE_SOFT_LEFT', 1],
+    ['KEYCODE_SOFT_RIGHT', 2],
+    ['KEYCODE_HOME', 3],
+    ['KEYCODE_BACK', 4],
+    ['KEYCODE_CALL', 5],
+    ['KEYCODE_ENDCALL', 6],
+    ...range('KEYCODE_', '0123456789'.split(''), 7),
+    ['KEYCODE_STAR', 17],
+    ['KEYCODE_POUND', 18],
+    ['KEYCODE_DPAD_UP', 19],
+    ['KEYCODE_DPAD_DOWN', 20],
+    ['KEYCODE_DPAD_LEFT', 21],
+    ['KEYCODE_DPAD_RIGHT', 22],
+    ['KEYCODE_DPAD_CENTER', 23],
+    ['KEYCODE_VOLUME_UP', 24],
+    ['KEYCODE_VOLUME_DOWN', 25],
+    ['KEYCODE_POWER', 26],
+    ['KEYCODE_CAMERA', 27],
+    ['KEYCODE_CLEAR', 28],
+    ...range('KEYCODE_', 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split(''), 29),
+    ['KEYCODE_COMMA', 55],
+    ['KEYCODE_PERIOD', 56],
+    ['KEYCODE_ALT_LEFT', 57],
+    ['KEYCODE_ALT_RIGHT', 58],
+    ['KEYCODE_SHIFT_LEFT', 59],
+    ['KEYCODE_SHIFT_RIGHT', 60],
+    ['KEYCODE_TAB', 61],
+    ['KEYCODE_SPACE', 62],
+    ['KEYCODE_EXPLORER', 64],
+    ['KEYCODE_ENVELOPE', 65],
+    ['KEYCODE_ENTER', 66],
+    ['KEYCODE_DEL', 67],
+    ['KEYCODE_GRAVE', 68],
+    ['KEYCODE_MINUS', 69],
+    ['KEYCODE_EQUALS', 70],
+    ['KEYCODE_LEFT_BRACKET', 71],
+    ['KEYCODE_RIGHT_BRACKET', 72],
+    ['KEYCODE_BACKSLASH', 73],
+    ['KEYCODE_SEMICOLON', 74],
+    ['KEYCODE_APOSTROPHE', 75],
+    ['KEYCODE_SLASH', 76],
+    ['KEYCODE_AT', 77],
+    ['KEYCODE_HEADSETHOOK', 79],
+    ['KEYCODE_FOCUS', 80],
+    ['KEYCODE_PLUS', 81],
+    ['KEYCODE_MENU', 82],
+    ['KEYCODE_NOTIFICATION', 83],
+    ['KEYCODE_SEARCH', 84],
+    ['KEYCODE_MEDIA_PLAY_PAUSE', 85],
+    ['KEYCODE_MEDIA_STOP', 86],
+    ['KEYCODE_MEDIA_NEXT', 87],
+    ['KEYCODE_MEDIA_PREVIOUS', 88],
+    ['KEYCODE_MEDIA_REWIND', 89],
+    ['KEYCODE_MEDIA_FAST_FORWARD', 90],
+    ['KEYCODE_MUTE', 91],
+    ['KEYCODE_PAGE_UP', 92],
+    ['KEYCODE_PAGE_DOWN', 93],
+    ['KEYCODE_ESCAPE', 111],
+    ['KEYCODE_FORWARD_DEL', 112],
+    ['KEYCODE_CTRL_LEFT', 113],
+    ['KEYCODE_CTRL_RIGHT', 114],
+    ['KEYCODE_CAPS_LOCK', 115],
+    ['KEYCODE_SYSRQ', 120],
+    ['KEYCODE_MOVE_HOME', 122],
+    ['KEYCODE_MOVE_END', 123],
+    ['KEYCODE_INSERT', 124],
+    ['KEYCODE_MEDIA_PLAY', 126],
+    ['KEYCODE_MEDIA_PAUSE', 127],
+    ...range('KEYCODE_F', ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'], 131),
+    ['KEYCODE_VOLUME_MUTE', 164],
+    ['KEYCODE_SETTINGS', 176],
+    ['KEYCODE_APP_SWITCH', 187],
+    ['KEYCODE_CONTACTS', 207],
+    ['KEYCODE_CALENDAR', 208],
+    ['KEYCODE_MUSIC', 209],
+    ['KEYCODE_CALCULATOR', 210],
+    ['KEYCODE_ASSIST', 219],
+    ['KEYCODE_BRIGHTNESS_DOWN', 220],
+    ['KEYCODE_BRIGHTNESS_UP', 221],
+    ['KEYCODE_SLEEP', 223],
+    ['KEYCODE_WAKEUP', 224],
+    ['KEYCODE_VOICE_ASSIST', 231],
+    ['KEYCODE_SOFT_SLEEP', 276],
+    ['KEYCODE_CUT', 277],
+    ['KEYCODE_COPY', 278],
+    ['KEYCODE_PASTE', 279],
+    ['KEYCODE_ALL_APPS', 284]
+]);
+
+function range(prefix: string, names: string[], first: number): [string, number][] {
+    return names.map((name, i) => [prefix + name, first + i]);
+}
+
+/**
+ * A step of typing text: a run of characters for `input text`, or a key press.
+ */
+export type InputStep = { text: string } | { keyCode: number };
+
+/**
+ * Splits text into `input text` runs, with line breaks and tabs sent as ENTER and TAB key presses.
+ * @throws Error if the text contains characters `input text` cannot type (non-ASCII or control characters).
+ */
+export function toInputSteps(text: string): InputStep[] {
+    const unsupported = Array.from(new Set(Array.from(text.replace(/[\x20-\x7e\r\n\t]/g, ''))));
+    if (unsupported.length > 0) {
+        throw new Error(`input text can only type ASCII characters. Unsupported: ${unsupported.map(c => JSON.stringify(c)).join(', ')}`);
+    }
+    const steps: InputStep[] = [];
+    text.replace(/\r/g, '').split(/(\n|\t)/).forEach(part => {
+        if (part === '\t') {
+            steps.push({ keyCode: KEYCODES.get('KEYCODE_TAB')! });
+        } else if (part === '\n') {
+            steps.push({ keyCode: KEYCODES.get('KEYCODE_ENTER')! });
+        } else if (part) {
+            steps.push({ text: part });
+        }
+    });
+    return steps;
+}
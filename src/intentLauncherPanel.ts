@@ -0,0 +1,588 @@
+import * as vscode from 'vscode';
+import { AdbClient } from './adbClient';
+import { AppDiscoveryService } from './appManager';
+import { buildAmCommand, extractDeepLinks, INTENT_FLAGS, intentCommands, intentExtraOptions, IntentSpec, toComponentName, validateIntent } from './intents';
+import { SavedIntent, SavedIntentStore } from './savedIntents';
+
+const COMMON_ACTIONS = [
+    'android.intent.action.VIEW',
+    'android.intent.action.MAIN',
+    'android.intent.action.SEND',
+    'android.intent.action.SENDTO',
+    'android.intent.action.EDIT',
+    'android.intent.action.DIAL',
+    'android.intent.action.WEB_SEARCH',
+    'android.intent.action.BOOT_COMPLETED',
+    'android.intent.action.LOCALE_CHANGED',
+    'android.intent.action.TIMEZONE_CHANGED',
+    'android.settings.SETTINGS',
+    'android.settings.APPLICATION_DETAILS_SETTINGS'
+];
+
+const COMMON_CATEGORIES = [
+    'android.intent.category.DEFAULT',
+    'android.intent.category.BROWSABLE',
+    'android.intent.category.LAUNCHER',
+    'android.intent.category.HOME'
+];
+
+/**
+ * Webview panel that composes an intent, shows the `am` command line it becomes and sends it
+ * to a device. Intents can be saved by name to the workspace. One panel is kept per device.
+ */
+export class IntentLauncherPanel {
+    public static readonly viewType = 'adbIntentLauncher';
+    private static panels = new Map<string, IntentLauncherPanel>();
+
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private name: string | undefined;
+    private intent: IntentSpec;
+
+    /**
+     * Shows the composer for a device.
+     * @param saved A saved intent to load into the composer.
+     * @param packageName Package that deep links without a known component are sent to (usually the target app).
+     */
+    public static createOrShow(
+        adbClient: AdbClient,
+        savedIntents: SavedIntentStore,
+        deviceId: string,
+        saved?: SavedIntent,
+        packageName?: string
+    ) {
+        const existing = IntentLauncherPanel.panels.get(deviceId);
+        if (existing) {
+            existing._panel.reveal();
+            if (saved) {
+                existing.load(saved);
+            }
+            return;
+        }
+        const panel = vscode.window.createWebviewPanel(
+            IntentLauncherPanel.viewType,
+            `Intent: ${deviceId}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        IntentLauncherPanel.panels.set(deviceId, new IntentLauncherPanel(panel, adbClient, savedIntents, deviceId, saved, packageName));
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly adbClient: AdbClient,
+        private readonly savedIntents: SavedIntentStore,
+        private readonly deviceId: string,
+        saved: SavedIntent | undefined,
+        private readonly packageName: string | undefined
+    ) {
+        this._panel = panel;
+        this.name = saved?.name;
+        this.intent = saved?.intent || { command: 'start', action: 'android.intent.action.VIEW' };
+        this._panel.webview.html = this._getHtmlForWebview();
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(async data => {
+            switch (data.type) {
+                case 'ready':
+                    this.postIntent();
+                    this.postDeepLinks();
+                    break;
+                case 'change':
+                    this.intent = data.intent;
+                    this.postPreview();
+                    break;
+                case 'run':
+                    this.intent = data.intent;
+                    await this.run();
+                    break;
+                case 'save':
+                    this.intent = data.intent;
+                    await this.save();
+                    break;
+            }
+        }, null, this._disposables);
+    }
+
+    private load(saved: SavedIntent) {
+        this.name = saved.name;
+        this.intent = saved.intent;
+        this.postIntent();
+    }
+
+    private postIntent() {
+        this._panel.webview.postMessage({ type: 'load', intent: this.intent, name: this.name });
+        this.postPreview();
+    }
+
+    private postPreview() {
+        const errors = validateIntent(this.intent);
+        this._panel.webview.postMessage({
+            type: 'preview',
+            command: errors.length === 0 ? `adb -s ${this.deviceId} shell ${buildAmCommand(this.intent)}` : '',
+            errors
+        });
+    }
+
+    /**
+     * Sends the deep links declared in the workspace's manifests to the webview as suggestions.
+     */
+    private async postDeepLinks() {
+        const manifests = await new AppDiscoveryService().readManifests();
+        const links = manifests.flatMap(manifest => extractDeepLinks(manifest));
+        this._panel.webview.postMessage({
+            type: 'deepLinks',
+            links: links.map(link => ({ ...link, component: toComponentName(link.activity, link.packageName) })),
+            packageName: this.packageName
+        });
+    }
+
+    private async run() {
+        try {
+            const output = await this.adbClient.sendIntent(this.deviceId, this.intent);
+            this._panel.webview.postMessage({ type: 'result', output });
+        } catch (e: any) {
+            this._panel.webview.postMessage({ type: 'error', message: e.message });
+        }
+    }
+
+    private async save() {
+        const errors = validateIntent(this.intent);
+        if (errors.length > 0) {
+            this._panel.webview.postMessage({ type: 'error', message: errors.join('\n') });
+            return;
+        }
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name for the saved intent',
+            value: this.name,
+            validateInput: value => value.trim() ? undefined : 'Name is required'
+        });
+        if (!name) {
+            return;
+        }
+        if (name.trim() !== this.name && this.savedIntents.get(name.trim())) {
+            const overwrite = await vscode.window.showWarningMessage(`Replace the saved intent "${name.trim()}"?`, { modal: true }, 'Replace');
+            if (overwrite !== 'Replace') {
+                return;
+            }
+        }
+        this.name = name.trim();
+        await this.savedIntents.save(this.name, this.intent);
+        this._panel.webview.postMessage({ type: 'saved', name: this.name });
+    }
+
+    public dispose() {
+        IntentLauncherPanel.panels.delete(this.deviceId);
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    /**
+     * Disposes all open intent composers (used on deactivation).
+     */
+    public static disposeAll() {
+        IntentLauncherPanel.panels.forEach(panel => panel.dispose());
+    }
+
+    /**
+     * Generates the HTML content for the intent composer.
+     * @returns The complete HTML string.
+     */
+    private _getHtmlForWebview() {
+        const commandOptions = intentCommands.map(command => `<option value="${command}">am ${command}</option>`).join('');
+        const extraTypeOptions = Array.from(intentExtraOptions.entries())
+            .map(([type, option]) => `<option value="${type}">${type} (${option})</option>`).join('');
+        const flagCheckboxes = Array.from(INTENT_FLAGS.keys())
+            .map(flag => `<label><input type="checkbox" data-flag="${flag}"> ${flag}</label>`).join('');
+        const actionOptions = COMMON_ACTIONS.map(action => `<option value="${action}">`).join('');
+        const categoryOptions = COMMON_CATEGORIES.map(category => `<option value="${category}">`).join('');
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Intent Launcher</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    padding: 8px;
+                    max-width: 900px;
+                }
+
+                .toolbar {
+                    display: flex;
+                    gap: 6px;
+                    align-items: center;
+                    margin: 8px 0;
+                }
+
+                button {
+                    border: 1px solid var(--vscode-widget-border, transparent);
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    height: 24px;
+                    padding: 2px 10px;
+                    cursor: pointer;
+                    border-radius: 4px;
+                    font-family: var(--vscode-font-family);
+                }
+
+                button:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+
+                button.primary {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                }
+
+                button.primary:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+
+                button.icon {
+                    background: transparent;
+                    border: none;
+                    padding: 2px 6px;
+                }
+
+                .form {
+                    display: grid;
+                    grid-template-columns: 110px 1fr;
+                    gap: 6px 8px;
+                    align-items: center;
+                }
+
+                .form > label {
+                    font-size: 12px;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                input, select {
+                    width: 100%;
+                    box-sizing: border-box;
+                    background: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, transparent);
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                    padding: 3px 5px;
+                    outline: none;
+                }
+
+                input[type="checkbox"] {
+                    width: auto;
+                }
+
+                input:focus, select:focus {
+                    border-color: var(--vscode-focusBorder);
+                }
+
+                details {
+                    margin-top: 10px;
+                }
+
+                summary {
+                    cursor: pointer;
+                    font-size: 12px;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                .flags {
+                    display: grid;
+                    grid-template-columns: repeat(auto-fill, minmax(320px, 1fr));
+                    gap: 2px 8px;
+                    padding: 6px 0;
+                    font-size: 12px;
+                }
+
+                .flags label {
+                    display: flex;
+                    align-items: center;
+                    gap: 4px;
+                }
+
+                h3 {
+                    font-size: 12px;
+                    font-weight: normal;
+                    color: var(--vscode-descriptionForeground);
+                    margin: 12px 0 4px;
+                }
+
+                table {
+                    width: 100%;
+                    border-collapse: collapse;
+                }
+
+                td {
+                    padding: 3px 4px 3px 0;
+                }
+
+                td.type { width: 170px; }
+                td.actions { width: 30px; }
+
+                .preview {
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                    background: var(--vscode-textCodeBlock-background);
+                    padding: 6px 8px;
+                    white-space: pre-wrap;
+                    word-break: break-all;
+                    margin-top: 12px;
+                }
+
+                .error {
+                    color: var(--vscode-errorForeground);
+                    white-space: pre-wrap;
+                }
+
+                .status {
+                    margin-left: auto;
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                pre.output {
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                    white-space: pre-wrap;
+                    margin: 0;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="form">
+                <label for="deepLink">Deep link</label>
+                <select id="deepLink"><option value="">No deep links found in the workspace manifests</option></select>
+                <label for="command">Command</label>
+                <select id="command">${commandOptions}</select>
+                <label for="action">Action</label>
+                <input id="action" list="actions" placeholder="-a">
+                <label for="data">Data URI</label>
+                <input id="data" list="dataUris" placeholder="-d, e.g. myapp://open/item/42">
+                <label for="mimeType">MIME type</label>
+                <input id="mimeType" placeholder="-t">
+                <label for="categories">Categories</label>
+                <input id="categories" list="categoryList" placeholder="-c, comma-separated">
+                <label for="component">Component</label>
+                <input id="component" placeholder="-n, e.g. com.example/.MainActivity">
+                <label for="packageName">Package</label>
+                <input id="packageName" placeholder="-p">
+            </div>
+            <datalist id="actions">${actionOptions}</datalist>
+            <datalist id="categoryList">${categoryOptions}</datalist>
+            <datalist id="dataUris"></datalist>
+
+            <details id="flagsSection">
+                <summary>Flags <span id="flagCount"></span></summary>
+                <div class="flags" id="flags">${flagCheckboxes}</div>
+            </details>
+
+            <h3>Extras</h3>
+            <table><tbody id="extras"></tbody></table>
+            <div class="toolbar">
+                <button id="addExtraBtn">Add Extra</button>
+            </div>
+
+            <div class="preview" id="preview"></div>
+            <div class="toolbar">
+                <button id="runBtn" class="primary">Send</button>
+                <button id="saveBtn" title="Save this intent to the workspace so it can be sent from the Devices view">Save…</button>
+                <span class="status" id="status"></span>
+            </div>
+            <div class="error" id="error"></div>
+            <pre class="output" id="output"></pre>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const fields = ['command', 'action', 'data', 'mimeType', 'categories', 'component', 'packageName'];
+                const extrasEl = document.getElementById('extras');
+                const errorEl = document.getElementById('error');
+                const outputEl = document.getElementById('output');
+                const statusEl = document.getElementById('status');
+                const deepLinkEl = document.getElementById('deepLink');
+                let extras = [];
+                let deepLinks = [];
+                let fallbackPackage = '';
+
+                function escapeHtml(text) {
+                    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+                }
+
+                function currentIntent() {
+                    const value = id => document.getElementById(id).value.trim();
+                    const intent = { command: value('command') };
+                    ['action', 'data', 'mimeType', 'component', 'packageName'].forEach(id => {
+                        if (value(id)) {
+                            intent[id] = value(id);
+                        }
+                    });
+                    const categories = value('categories').split(',').map(c => c.trim()).filter(c => c);
+                    if (categories.length) {
+                        intent.categories = categories;
+                    }
+                    const flags = Array.from(document.querySelectorAll('[data-flag]')).filter(el => el.checked).map(el => el.dataset.flag);
+                    if (flags.length) {
+                        intent.flags = flags;
+                    }
+                    if (extras.length) {
+                        intent.extras = extras.map(extra => ({ ...extra }));
+                    }
+                    return intent;
+                }
+
+                function showIntent(intent) {
+                    fields.forEach(id => {
+                        const value = intent[id];
+                        document.getElementById(id).value = Array.isArray(value) ? value.join(', ') : (value || '');
+                    });
+                    document.getElementById('command').value = intent.command || 'start';
+                    document.querySelectorAll('[data-flag]').forEach(el => el.checked = (intent.flags || []).includes(el.dataset.flag));
+                    extras = (intent.extras || []).map(extra => ({ ...extra }));
+                    renderExtras();
+                    updateFlagCount();
+                }
+
+                function renderExtras() {
+                    extrasEl.innerHTML = extras.map((extra, index) => '<tr>'
+                        + '<td><input data-index="' + index + '" data-field="key" placeholder="Key" value="' + escapeHtml(extra.key) + '"></td>'
+                        + '<td class="type"><select data-index="' + index + '" data-field="type">${extraTypeOptions}</select></td>'
+                        + '<td><input data-index="' + index + '" data-field="value" value="' + escapeHtml(extra.value) + '"'
+                        + (extra.type === 'null' ? ' disabled' : '')
+                        + ' placeholder="' + (extra.type.endsWith('Array') ? 'Comma-separated values' : 'Value') + '"></td>'
+                        + '<td class="actions"><button class="icon" data-delete="' + index + '" title="Remove">✕</button></td>'
+                        + '</tr>').join('');
+                    extrasEl.querySelectorAll('select[data-field="type"]').forEach(select => {
+                        select.value = extras[Number(select.dataset.index)].type;
+                    });
+                }
+
+                function updateFlagCount() {
+                    const count = document.querySelectorAll('[data-flag]:checked').length;
+                    document.getElementById('flagCount').textContent = count ? '(' + count + ')' : '';
+                }
+
+                function changed() {
+                    updateFlagCount();
+                    vscode.postMessage({ type: 'change', intent: currentIntent() });
+                }
+
+                document.querySelector('.form').addEventListener('input', event => {
+                    if (event.target !== deepLinkEl) {
+                        changed();
+                    }
+                });
+                document.getElementById('flags').addEventListener('change', changed);
+
+                extrasEl.addEventListener('input', event => {
+                    const target = event.target;
+                    const extra = extras[Number(target.dataset.index)];
+                    if (!extra) {
+                        return;
+                    }
+                    extra[target.dataset.field] = target.value;
+                    if (target.dataset.field === 'type') {
+                        if (extra.type === 'boolean' && extra.value !== 'false') {
+                            extra.value = 'true';
+                        }
+                        renderExtras();
+                    }
+                    changed();
+                });
+
+                extrasEl.addEventListener('click', event => {
+                    const index = event.target.dataset.delete;
+                    if (index !== undefined) {
+                        extras.splice(Number(index), 1);
+                        renderExtras();
+                        changed();
+                    }
+                });
+
+                document.getElementById('addExtraBtn').addEventListener('click', () => {
+                    extras.push({ key: '', type: 'string', value: '' });
+                    renderExtras();
+                    const inputs = extrasEl.querySelectorAll('input[data-field="key"]');
+                    inputs[inputs.length - 1].focus();
+                    changed();
+                });
+
+                deepLinkEl.addEventListener('change', () => {
+                    const link = deepLinks[Number(deepLinkEl.value)];
+                    if (!link) {
+                        return;
+                    }
+                    // Send it like a browser would when the link is tapped
+                    showIntent({
+                        ...currentIntent(),
+                        command: 'start',
+                        action: 'android.intent.action.VIEW',
+                        data: link.uri,
+                        categories: ['android.intent.category.BROWSABLE'],
+                        component: link.component,
+                        packageName: link.component ? undefined : fallbackPackage
+                    });
+                    changed();
+                });
+
+                document.getElementById('runBtn').addEventListener('click', () => {
+                    errorEl.textContent = '';
+                    outputEl.textContent = '';
+                    statusEl.textContent = 'Sending…';
+                    vscode.postMessage({ type: 'run', intent: currentIntent() });
+                });
+
+                document.getElementById('saveBtn').addEventListener('click', () => {
+                    errorEl.textContent = '';
+                    vscode.postMessage({ type: 'save', intent: currentIntent() });
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.type) {
+                        case 'load':
+                            showIntent(message.intent);
+                            statusEl.textContent = message.name ? 'Saved as "' + message.name + '"' : '';
+                            break;
+                        case 'deepLinks':
+                            deepLinks = message.links;
+                            fallbackPackage = message.packageName || '';
+                            if (deepLinks.length) {
+                                deepLinkEl.innerHTML = '<option value="">Choose a deep link from the workspace manifests…</option>'
+                                    + deepLinks.map((link, index) => '<option value="' + index + '">' + escapeHtml(link.uri)
+                                        + ' → ' + escapeHtml(link.activity) + (link.autoVerify ? ' (App Link)' : '') + '</option>').join('');
+                            }
+                            document.getElementById('dataUris').innerHTML = deepLinks
+                                .map(link => '<option value="' + escapeHtml(link.uri) + '">').join('');
+                            break;
+                        case 'preview':
+                            document.getElementById('preview').textContent = message.command || message.errors.join('\\n');
+                            document.getElementById('preview').classList.toggle('error', !message.command);
+                            break;
+                        case 'result':
+                            statusEl.textContent = 'Sent';
+                            outputEl.textContent = message.output;
+                            break;
+                        case 'saved':
+                            statusEl.textContent = 'Saved as "' + message.name + '"';
+                            break;
+                        case 'error':
+                            statusEl.textContent = '';
+                            errorEl.textContent = message.message;
+                            break;
+                    }
+                });
+
+                vscode.postMessage({ type: 'ready' });
+            </script>
+        </body>
+        </html>`;
+    }
+}
@@ -0,0 +1,449 @@
+import { shellQuote } from './adbClient';
+import { JavaNumberType, validateNumber } from './javaNumbers';
+
+/**
+ * Composing `am start` / `am broadcast` / `am startservice` command lines, and finding the
+ * activities and deep links an app declares, on the device and in its AndroidManifest.xml.
+ */
+
+export type IntentCommand = 'start' | 'broadcast' | 'startservice';
+
+export const intentCommands: IntentCommand[] = ['start', 'broadcast', 'startservice'];
+
+export type IntentExtraType = 'string' | 'int' | 'long' | 'float' | 'boolean' | 'uri' | 'component' | 'null'
+    | 'stringArray' | 'intArray' | 'longArray' | 'floatArray';
+
+/**
+ * The `am` option for each extra type.
+ */
+export const intentExtraOptions = new Map<IntentExtraType, string>([
+    ['string', '--es'],
+    ['int', '--ei'],
+    ['long', '--el'],
+    ['float', '--ef'],
+    ['boolean', '--ez'],
+    ['uri', '--eu'],
+    ['component', '--ecn'],
+    ['null', '--esn'],
+    ['stringArray', '--esa'],
+    ['intArray', '--eia'],
+    ['longArray', '--ela'],
+    ['floatArray', '--efa']
+]);
+
+/**
+ * Intent flags by name (android.content.Intent), combined into `-f`.
+ */
+export const INTENT_FLAGS = new Map<string, number>([
+    ['FLAG_GRANT_READ_URI_PERMISSION', 0x00000001],
+    ['FLAG_GRANT_WRITE_URI_PERMISSION', 0x00000002],
+    ['FLAG_DEBUG_LOG_RESOLUTION', 0x00000008],
+    ['FLAG_INCLUDE_STOPPED_PACKAGES', 0x00000020],
+    ['FLAG_ACTIVITY_CLEAR_TASK', 0x00008000],
+    ['FLAG_ACTIVITY_NO_ANIMATION', 0x00010000],
+    ['FLAG_ACTIVITY_REORDER_TO_FRONT', 0x00020000],
+    ['FLAG_ACTIVITY_NEW_DOCUMENT', 0x00080000],
+    ['FLAG_ACTIVITY_EXCLUDE_FROM_RECENTS', 0x00800000],
+    ['FLAG_ACTIVITY_CLEAR_TOP', 0x04000000],
+    ['FLAG_ACTIVITY_MULTIPLE_TASK', 0x08000000],
+    ['FLAG_ACTIVITY_NEW_TASK', 0x10000000],
+    ['FLAG_RECEIVER_FOREGROUND', 0x10000000],
+    ['FLAG_ACTIVITY_SINGLE_TOP', 0x20000000],
+    ['FLAG_ACTIVITY_NO_HISTORY', 0x40000000]
+]);
+
+export interface IntentExtra {
+    key: string;
+    type: IntentExtraType;
+    /**
+     * The value as typed; arrays are comma-separated. Ignored for null extras.
+     */
+    value: string;
+}
+
+export interface IntentSpec {
+    command: IntentCommand;
+    action?: string;
+    data?: string;
+    mimeType?: string;
+    categories?: string[];
+    /**
+     * package/class, e.g. com.example/.MainActivity.
+     */
+    component?: string;
+    packageName?: string;
+    /**
+     * Names from INTENT_FLAGS.
+     */
+    flags?: string[];
+    extras?: IntentExtra[];
+}
+
+/**
+ * `am start` options that apply to the launch rather than the intent.
+ */
+export interface StartOptions {
+    /**
+     * -S: force-stop the app before starting the activity.
+     */
+    forceStop?: boolean;
+    /**
+     * -D: start the process suspended until a debugger attaches.
+     */
+    waitForDebugger?: boolean;
+    /**
+     * -W: wait for the launch to complete and report its timing.
+     */
+    wait?: boolean;
+    /**
+     * --user: user ID, or "current".
+     */
+    user?: string;
+}
+
+/**
+ * Checks that `am` will accept an extra.
+ * @returns An error message, or undefined if the extra is valid.
+ */
+export function validateIntentExtra(extra: IntentExtra): string | undefined {
+    const { type, value } = extra;
+    if (!extra.key) {
+        return 'Key is required';
+    }
+    if (!intentExtraOptions.has(type)) {
+        return `Unknown extra type ${type}`;
+    }
+    switch (type) {
+        case 'int':
+        case 'long':
+        case 'float':
+            return validateNumber(value, type) ? undefined : `${value} is not a valid ${type}`;
+        case 'intArray':
+        case 'longArray':
+        case 'floatArray': {
+            const elementType = type.replace('Array', '') as JavaNumberType;
+            const invalid = value.split(',').find(element => !validateNumber(element.trim(), elementType));
+            return invalid === undefined ? undefined : `${invalid.trim() || '(empty)'} is not a valid ${elementType}`;
+        }
+        case 'boolean':
+            return value === 'true' || value === 'false' ? undefined : 'Boolean must be true or false';
+        case 'component':
+            return /^[\w.]+\/[\w.$]+$/.test(value) ? undefined : 'Component must be package/class';
+    }
+    return undefined;
+}
+
+/**
+ * Checks an intent before it is sent.
+ * @returns Error messages; empty if the intent is valid.
+ */
+export function validateIntent(intent: IntentSpec): string[] {
+    const errors: string[] = [];
+    if (!intentCommands.includes(intent.command)) {
+        errors.push(`Unknown command ${intent.command}`);
+    }
+    if (!intent.action && !intent.data && !intent.component && !intent.packageName) {
+        errors.push('Set at least an action, a data URI, a component or a package');
+    }
+    if (intent.component && !/^[\w.]+\/[\w.$]+$/.test(intent.component)) {
+        errors.push('Component must be package/class');
+    }
+    (intent.flags || []).filter(flag => !INTENT_FLAGS.has(flag)).forEach(flag => errors.push(`Unknown flag ${flag}`));
+    (intent.extras || []).forEach(extra => {
+        const error = validateIntentExtra(extra);
+        if (error) {
+            errors.push(`${extra.key || '(unnamed extra)'}: ${error}`);
+        }
+    });
+    return errors;
+}
+
+/**
+ * Builds the `am` command line for an intent, quoted for the device shell.
+ * @param options Launch options. -S, -D and -W only apply to `am start`.
+ * @throws Error if the intent or the user is invalid.
+ */
+export function buildAmCommand(intent: IntentSpec, options: StartOptions = {}): string {
+    const errors = validateIntent(intent);
+    if (options.user && !/^(\d+|current)$/.test(options.user)) {
+        errors.push(`Invalid user ${options.user}`);
+    }
+    if (errors.length > 0) {
+        throw new Error(errors.join('\n'));
+    }
+    const args = ['am', intent.command];
+    if (intent.command === 'start') {
+        if (options.forceStop) {
+            args.push('-S');
+        }
+        if (options.waitForDebugger) {
+            args.push('-D');
+        } else if (options.wait) {
+            // With -D, the launch only completes once a debugger attaches, so -W could block indefinitely
+            args.push('-W');
+        }
+    }
+    if (options.user) {
+        args.push('--user', options.user);
+    }
+    if (intent.action) {
+        args.push('-a', shellQuote(intent.action));
+    }
+    if (intent.data) {
+        args.push('-d', shellQuote(intent.data));
+    }
+    if (intent.mimeType) {
+        args.push('-t', shellQuote(intent.mimeType));
+    }
+    (intent.categories || []).filter(category => category).forEach(category => args.push('-c', shellQuote(category)));
+    if (intent.component) {
+        args.push('-n', shellQuote(intent.component));
+    }
+    if (intent.packageName) {
+        args.push('-p', shellQuote(intent.packageName));
+    }
+    const flags = (intent.flags || []).reduce((sum, flag) => sum | INTENT_FLAGS.get(flag)!, 0);
+    if (flags !== 0) {
+        args.push('-f', `0x${(flags >>> 0).toString(16).padStart(8, '0')}`);
+    }
+    for (const extra of intent.extras || []) {
+        args.push(intentExtraOptions.get(extra.type)!, shellQuote(extra.key));
+        if (extra.type === 'null') {
+            continue;
+        }
+        // am doesn't trim array elements before parsing numbers
+        const value = extra.type.endsWith('Array') && extra.type !== 'stringArray'
+            ? extra.value.split(',').map(element => element.trim()).join(',')
+            : extra.value;
+        args.push(shellQuote(value));
+    }
+    return args.join(' ');
+}
+
+/**
+ * What `am start -W` reports about a launch.
+ */
+export interface ActivityLaunchResult {
+    /**
+     * ok, timeout, ...
+     */
+    status?: string;
+    /**
+     * COLD, WARM, HOT or UNKNOWN (Android 10 and later).
+     */
+    launchState?: string;
+    /**
+     * The activity that ended up on top, which can differ from the one started.
+     */
+    activity?: string;
+    /**
+     * Milliseconds until the activity drew its first frame.
+     */
+    totalTime?: number;
+    waitTime?: number;
+}
+
+/**
+ * Parses the `Key: value` lines `am start -W` prints after the launch completes.
+ */
+export function parseStartResult(output: string): ActivityLaunchResult {
+    const values = new Map<string, string>();
+    output.split('\n').forEach(line => {
+        const match = /^(\w+): (.+)$/.exec(line.trim());
+        if (match) {
+            values.set(match[1], match[2].trim());
+        }
+    });
+    const time = (key: string) => values.has(key) ? parseInt(values.get(key)!, 10) : undefined;
+    return {
+        status: values.get('Status'),
+        launchState: values.get('LaunchState'),
+        activity: values.get('Activity'),
+        totalTime: time('TotalTime'),
+        waitTime: time('WaitTime')
+    };
+}
+
+/**
+ * An activity the package manager has registered for a package.
+ */
+export interface DeviceActivity {
+    /**
+     * package/class as printed by dumpsys, e.g. com.example/.MainActivity.
+     */
+    component: string;
+    /**
+     * Whether a filter puts it in the launcher (MAIN/LAUNCHER).
+     */
+    launcher: boolean;
+}
+
+/**
+ * Lists the activities in the "Activity Resolver Table" of `dumpsys package <package>`.
+ * Only activities with at least one intent filter appear there.
+ */
+export function parseActivityResolverTable(output: string, packageName: string): DeviceActivity[] {
+    const activities = new Map<string, DeviceActivity>();
+    const prefix = `${packageName}/`;
+    let inTable = false;
+    let current: DeviceActivity | undefined;
+    for (const line of output.split('\n')) {
+        if (/^\S/.test(line)) {
+            // Top-level headings: "Activity Resolver Table:", "Receiver Resolver Table:", "Packages:", ...
+            inTable = line.startsWith('Activity Resolver Table:');
+            current = undefined;
+            continue;
+        }
+        if (!inTable) {
+            continue;
+        }
+        const trimmed = line.trim();
+        const match = /^[0-9a-f]+ (\S+)( filter [0-9a-f]+)?$/.exec(trimmed);
+        if (match) {
+            current = undefined;
+            if (match[1].startsWith(prefix)) {
+                current = activities.get(match[1]) || { component: match[1], launcher: false };
+                activities.set(match[1], current);
+            }
+        } else if (current && trimmed === 'Category: "android.intent.category.LAUNCHER"') {
+            current.launcher = true;
+        }
+    }
+    return Array.from(activities.values());
+}
+
+/**
+ * An `<activity>` or `<activity-alias>` declared in a manifest.
+ */
+export interface ManifestActivity {
+    /**
+     * The name as written in the manifest, e.g. .MainActivity.
+     */
+    name: string;
+    /**
+     * The manifest's package attribute, if it has one.
+     */
+    packageName?: string;
+    /**
+     * The android:exported attribute; undefined if the manifest doesn't set it.
+     */
+    exported?: boolean;
+}
+
+/**
+ * Lists the activities declared in an AndroidManifest.xml.
+ */
+export function extractActivities(manifestXml: string): ManifestActivity[] {
+    const xml = manifestXml.replace(/<!--[\s\S]*?-->/g, '');
+    const packageName = parseAttributes(/<manifest\b[^>]*>/.exec(xml)?.[0] || '').get('package');
+    const activities: ManifestActivity[] = [];
+    const regex = /<(?:activity|activity-alias)\b([^>]*)>/g;
+    let match;
+    while ((match = regex.exec(xml)) !== null) {
+        const attributes = parseAttributes(match[1]);
+        const name = attributes.get('android:name');
+        if (name) {
+            const exported = attributes.get('android:exported');
+            activities.push({ name, packageName, exported: exported === undefined ? undefined : exported === 'true' });
+        }
+    }
+    return activities;
+}
+
+/**
+ * Expands a component's short class name (package/.Class) so that components can be compared.
+ */
+export function normalizeComponent(component: string): string {
+    const [packageName, className] = component.split('/');
+    return className?.startsWith('.') ? `${packageName}/${packageName}${className}` : component;
+}
+
+/**
+ * A deep link an activity accepts, from a VIEW `<intent-filter>` with `<data>` elements.
+ */
+export interface DeepLink {
+    /**
+     * Example URI; path patterns are left as written.
+     */
+    uri: string;
+    /**
+     * The activity (or activity-alias) name as written in the manifest, e.g. .MainActivity.
+     */
+    activity: string;
+    /**
+     * The manifest's package attribute, if it has one.
+     */
+    packageName?: string;
+    /**
+     * Whether the filter has android:autoVerify (an Android App Link).
+     */
+    autoVerify: boolean;
+}
+
+function parseAttributes(tag: string): Map<string, string> {
+    const attributes = new Map<string, string>();
+    const regex = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match;
+    while ((match = regex.exec(tag)) !== null) {
+        attributes.set(match[1], (match[2] ?? match[3]).replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&apos;/g, '\''));
+    }
+    return attributes;
+}
+
+/**
+ * Extracts the deep links declared in an AndroidManifest.xml.
+ * Every combination of scheme, host and path in a filter becomes one link, as Android matches them.
+ */
+export function extractDeepLinks(manifestXml: string): DeepLink[] {
+    const xml = manifestXml.replace(/<!--[\s\S]*?-->/g, '');
+    const packageName = parseAttributes(/<manifest\b[^>]*>/.exec(xml)?.[0] || '').get('package');
+    const links: DeepLink[] = [];
+    const seen = new Set<string>();
+    const activityRegex = /<(activity|activity-alias)\b([^>]*?)(\/>|>([\s\S]*?)<\/\1\s*>)/g;
+    let activityMatch;
+    while ((activityMatch = activityRegex.exec(xml)) !== null) {
+        const activity = parseAttributes(activityMatch[2]).get('android:name');
+        if (!activity || !activityMatch[4]) {
+            continue;
+        }
+        const filterRegex = /<intent-filter\b([^>]*)>([\s\S]*?)<\/intent-filter\s*>/g;
+        let filterMatch;
+        while ((filterMatch = filterRegex.exec(activityMatch[4])) !== null) {
+            const body = filterMatch[2];
+            const elements = (tag: string) => (body.match(new RegExp(`<${tag}\\b[^>]*>`, 'g')) || []).map(parseAttributes);
+            if (!elements('action').some(action => action.get('android:name') === 'android.intent.action.VIEW')) {
+                continue;
+            }
+            // <data> attributes apply to the whole filter, not just the element they're written on
+            const data = elements('data');
+            const values = (name: string) => data.map(attributes => attributes.get(name)).filter((value): value is string => !!value);
+            const hosts = data
+                .filter(attributes => attributes.get('android:host'))
+                .map(attributes => attributes.get('android:host')! + (attributes.get('android:port') ? `:${attributes.get('android:port')}` : ''));
+            const paths = [...values('android:path'), ...values('android:pathPrefix'), ...values('android:pathPattern'), ...values('android:pathAdvancedPattern')];
+            const autoVerify = parseAttributes(filterMatch[1]).get('android:autoVerify') === 'true';
+            for (const scheme of values('android:scheme')) {
+                for (const host of hosts.length > 0 ? hosts : [undefined]) {
+                    for (const linkPath of host && paths.length > 0 ? paths : ['']) {
+                        const uri = host ? `${scheme}://${host}${linkPath}` : `${scheme}:`;
+                        if (!seen.has(`${activity} ${uri}`)) {
+                            seen.add(`${activity} ${uri}`);
+                            links.push({ uri, activity, packageName, autoVerify });
+                        }
+                    }
+                }
+            }
+        }
+    }
+    return links;
+}
+
+/**
+ * Returns package/class for an activity named in a manifest, or undefined if the package is unknown.
+ */
+export function toComponentName(activity: string, packageName?: string): string | undefined {
+    if (!packageName) {
+        return undefined;
+    }
+    return `${packageName}/${activity.includes('.') ? activity : `.${activity}`}`;
+}
@@ -0,0 +1,21 @@
+/**
+ * Checking number strings the way the Android framework parses them: `am` extras and
+ * SharedPreferences values both go through Integer.parseInt, Long.parseLong and Float.parseFloat.
+ */
+
+export type JavaNumberType = 'int' | 'long' | 'float';
+
+const INT_RANGE = [-(2n ** 31n), 2n ** 31n - 1n];
+const LONG_RANGE = [-(2n ** 63n), 2n ** 63n - 1n];
+
+/**
+ * Returns true if the value parses as the given type and fits its range.
+ * Like Float.parseFloat(), floats may be NaN or Infinity and end in f or d.
+ */
+export function validateNumber(value: string, type: JavaNumberType): boolean {
+    if (type === 'float') {
+        return /^[-+]?((\d+\.?\d*|\.\d+)([eE][-+]?\d+)?[fFdD]?|NaN|Infinity)$/.test(value);
+    }
+    const range = type === 'int' ? INT_RANGE : LONG_RANGE;
+    return /^-?\d+$/.test(value) && BigInt(value) >= range[0] && BigInt(value) <= range[1];
+}
@@ -0,0 +1,56 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LogcatEntry, formatLogcatEntry, parseLogcatText } from './logcatParser';
+
+/**
+ * Asks for a destination and saves a logcat capture as text or JSON lines
+ * (chosen by the file extension).
+ * @param entries The parsed entries of the capture.
+ * @param defaultName File name suggested in the save dialog (without extension).
+ * @param rawLines The original text lines, written as-is when saving as text.
+ */
+export async function saveLogcatCapture(entries: LogcatEntry[], defaultName: string, rawLines?: string[]): Promise<void> {
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `${defaultName.replace(/[^\w.-]+/g, '_')}.log`;
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+        filters: {
+            'Logcat Text': ['log', 'txt'],
+            'JSON Lines': ['jsonl']
+        },
+        saveLabel: 'Save Logcat'
+    });
+    if (!uri) {
+        return;
+    }
+
+    let content: string;
+    if (path.extname(uri.fsPath).toLowerCase() === '.jsonl') {
+        content = entries.map(entry => JSON.stringify(entry)).join('\n');
+    } else {
+        content = (rawLines || entries.map(formatLogcatEntry)).join('\n');
+    }
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content + '\n', 'utf-8'));
+    vscode.window.showInformationMessage(`Logcat saved to: ${uri.fsPath}`);
+}
+
+/**
+ * Converts raw logcat lines (`threadtime`, `time` or `brief` text, or JSON lines) to entries,
+ * dropping lines that are not log entries.
+ */
+export function toLogcatEntries(lines: string[]): LogcatEntry[] {
+    return parseLogcatText(lines.join('\n'));
+}
+
+/**
+ * Reads and parses a logcat capture file (`time`, `threadtime` or `brief` text, or JSON lines).
+ * @throws Error if the file contains no recognizable log lines.
+ */
+export async function readLogcatFile(uri: vscode.Uri): Promise<LogcatEntry[]> {
+    const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+    const entries = parseLogcatText(content);
+    if (entries.length === 0) {
+        throw new Error(`No logcat lines found in ${path.basename(uri.fsPath)}. Supported formats: threadtime, time, brief and JSON lines.`);
+    }
+    return entries;
+}
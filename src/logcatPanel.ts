@@ -0,0 +1,683 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { AdbClient } from './adbClient';
+import { AdbStream } from './adbProtocol';
+import { saveLogcatCapture } from './logcatFile';
+import { LineSplitter, LogcatEntry, findPidsForPackage, parseLogcatLine } from './logcatParser';
+
+/**
+ * The device a live panel streams from.
+ */
+interface LiveSource {
+    adbClient: AdbClient;
+    deviceId: string;
+}
+
+/**
+ * Webview panel that streams logcat from a device, parses each line
+ * and lets the user filter the entries live.
+ * One panel is kept per device, plus one per opened log file.
+ */
+export class LogcatPanel {
+    public static readonly viewType = 'adbLogcat';
+    private static readonly flushIntervalMs = 100;
+    private static readonly pidRefreshIntervalMs = 3000;
+    private static readonly maxEntries = 20000;
+    private static readonly fileChunkSize = 5000;
+    private static panels = new Map<string, LogcatPanel>();
+
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    /**
+     * Entries shown in the panel, kept on this side for saving.
+     */
+    private entries: LogcatEntry[] = [];
+    private stream: AdbStream | undefined;
+    private buffer: string | undefined;
+    private packageName: string | undefined;
+    /**
+     * Every PID the package filter's app has run under, so lines of a process that crashed or
+     * was killed stay visible.
+     */
+    private packagePids = new Set<number>();
+    private pending: LogcatEntry[] = [];
+    private flushTimer: NodeJS.Timeout | undefined;
+    private pidTimer: NodeJS.Timeout | undefined;
+    private disposed = false;
+    /**
+     * Incremented by every start(), so an older start that is still connecting can tell it was replaced.
+     */
+    private generation = 0;
+
+    /**
+     * Shows the logcat viewer for a device, creating it if needed.
+     * @param adbClient The AdbClient instance.
+     * @param deviceId The ID of the target device.
+     * @param packageName Optional package to filter by initially.
+     */
+    public static createOrShow(adbClient: AdbClient, deviceId: string, packageName?: string): LogcatPanel {
+        const existing = LogcatPanel.panels.get(deviceId);
+        if (existing) {
+            existing._panel.reveal();
+            if (packageName) {
+                existing.setPackage(packageName);
+            }
+            return existing;
+        }
+
+        const title = `Logcat: ${deviceId}`;
+        const logcatPanel = new LogcatPanel(LogcatPanel.createWebviewPanel(title), deviceId, title, { adbClient, deviceId }, packageName);
+        LogcatPanel.panels.set(deviceId, logcatPanel);
+        return logcatPanel;
+    }
+
+    /**
+     * Shows a saved logcat capture in the viewer, with the same filters as live logs.
+     * Re-opening a file replaces its panel so changes on disk are picked up.
+     * @param uri The file the entries were read from.
+     * @param entries The parsed entries of the file.
+     */
+    public static openFile(uri: vscode.Uri, entries: LogcatEntry[]): LogcatPanel {
+        const key = uri.toString();
+        LogcatPanel.panels.get(key)?.dispose();
+
+        const title = `Logcat: ${path.basename(uri.fsPath)}`;
+        const logcatPanel = new LogcatPanel(LogcatPanel.createWebviewPanel(title), key, title, undefined, undefined);
+        logcatPanel.entries = entries;
+        LogcatPanel.panels.set(key, logcatPanel);
+        return logcatPanel;
+    }
+
+    /**
+     * Returns all open viewer panels (live and file).
+     */
+    public static getPanels(): LogcatPanel[] {
+        return Array.from(LogcatPanel.panels.values());
+    }
+
+    private static createWebviewPanel(title: string): vscode.WebviewPanel {
+        return vscode.window.createWebviewPanel(
+            LogcatPanel.viewType,
+            title,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly key: string,
+        public readonly title: string,
+        private readonly live: LiveSource | undefined,
+        packageName: string | undefined
+    ) {
+        this._panel = panel;
+        this.packageName = packageName;
+        this._panel.webview.html = this._getHtmlForWebview();
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(async data => {
+            switch (data.type) {
+                case 'ready':
+                    this._panel.webview.postMessage({ type: 'init', packageName: this.packageName, buffer: this.buffer || '', offline: !this.live });
+                    if (this.live) {
+                        await this.start();
+                    } else {
+                        this.showFileEntries();
+                    }
+                    break;
+                case 'save':
+                    await this.save();
+                    break;
+                case 'setBuffer':
+                    this.buffer = data.buffer || undefined;
+                    await this.start();
+                    break;
+                case 'setPackage':
+                    this.setPackage(data.packageName || undefined);
+                    break;
+                case 'openFrame':
+                    vscode.commands.executeCommand('adb-pro.openStackFrame', data.frame);
+                    break;
+                case 'clear':
+                    if (!this.live) {
+                        break;
+                    }
+                    try {
+                        await this.live.adbClient.clearLogcat(this.live.deviceId, this.buffer);
+                        this.entries = [];
+                        this._panel.webview.postMessage({ type: 'clear' });
+                    } catch (e: any) {
+                        vscode.window.showErrorMessage(e.message);
+                    }
+                    break;
+            }
+        }, null, this._disposables);
+    }
+
+    /**
+     * (Re)starts the logcat stream with the current buffer selection.
+     */
+    private async start() {
+        if (!this.live) {
+            return;
+        }
+        this.stop();
+        const generation = ++this.generation;
+        this.entries = [];
+        this._panel.webview.postMessage({ type: 'clear' });
+        try {
+            const stream = await this.live.adbClient.openLogcat(this.live.deviceId, this.buffer ? [this.buffer] : []);
+            if (this.disposed || generation !== this.generation) {
+                // Disposed or restarted while we were connecting
+                stream.close();
+                return;
+            }
+            this.stream = stream;
+            const splitter = new LineSplitter();
+            // Chunks can end in the middle of a multi-byte character
+            const decoder = new StringDecoder('utf8');
+            stream.onData(chunk => this.addLines(splitter.push(decoder.write(chunk))));
+            stream.onClose(() => {
+                if (this.stream === stream) {
+                    this.addLines(splitter.push(decoder.end()));
+                    this.addLines(splitter.flush());
+                    this.stream = undefined;
+                    this._panel.webview.postMessage({ type: 'status', text: 'Logcat stream closed' });
+                }
+            });
+            this._panel.webview.postMessage({ type: 'status', text: `Streaming ${this.buffer || 'default'} buffer` });
+        } catch (e: any) {
+            if (this.disposed || generation !== this.generation) {
+                return;
+            }
+            this._panel.webview.postMessage({ type: 'status', text: e.message });
+        }
+        this.refreshPids();
+    }
+
+    private stop() {
+        const stream = this.stream;
+        this.stream = undefined;
+        stream?.close();
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+        this.pending = [];
+    }
+
+    private addLines(lines: string[]) {
+        for (const line of lines) {
+            const entry = parseLogcatLine(line);
+            if (entry) {
+                this.pending.push(entry);
+            }
+        }
+        // Batch entries so a busy log doesn't flood the webview with messages
+        if (this.pending.length > 0 && !this.flushTimer) {
+            this.flushTimer = setTimeout(() => {
+                this.flushTimer = undefined;
+                const entries = this.pending;
+                this.pending = [];
+                this.entries.push(...entries);
+                if (this.entries.length > LogcatPanel.maxEntries) {
+                    this.entries.splice(0, this.entries.length - LogcatPanel.maxEntries);
+                }
+                this._panel.webview.postMessage({ type: 'entries', entries });
+            }, LogcatPanel.flushIntervalMs);
+        }
+    }
+
+    /**
+     * Sends the entries of an opened file to the Webview in chunks, so large captures
+     * don't block it with a single huge message.
+     */
+    private showFileEntries() {
+        this._panel.webview.postMessage({ type: 'clear' });
+        for (let i = 0; i < this.entries.length; i += LogcatPanel.fileChunkSize) {
+            this._panel.webview.postMessage({ type: 'entries', entries: this.entries.slice(i, i + LogcatPanel.fileChunkSize) });
+        }
+        this._panel.webview.postMessage({ type: 'status', text: `${this.entries.length} lines loaded` });
+        this.refreshPids();
+    }
+
+    /**
+     * Saves the entries shown in the panel to a file.
+     */
+    public async save() {
+        try {
+            await saveLogcatCapture(this.entries, this.title.replace(/^Logcat: /, 'logcat-').replace(/\.(log|txt|jsonl)$/i, ''));
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Failed to save logcat: ${e.message}`);
+        }
+    }
+
+    private setPackage(packageName: string | undefined) {
+        this.packageName = packageName;
+        this.packagePids.clear();
+        this._panel.webview.postMessage({ type: 'package', packageName });
+        this.refreshPids();
+    }
+
+    /**
+     * Resolves the PIDs of the package filter and keeps adding new ones while the filter is set,
+     * so the filter keeps working when the app restarts.
+     */
+    private async refreshPids() {
+        if (this.pidTimer) {
+            clearTimeout(this.pidTimer);
+            this.pidTimer = undefined;
+        }
+        const packageName = this.packageName;
+        if (!packageName) {
+            this._panel.webview.postMessage({ type: 'pids', pids: undefined });
+            return;
+        }
+        if (!this.live) {
+            // No device to ask: derive the PIDs from process start and crash messages in the file
+            this._panel.webview.postMessage({ type: 'pids', pids: findPidsForPackage(this.entries, packageName) });
+            return;
+        }
+        const pids = await this.live.adbClient.getPidsForPackage(this.live.deviceId, packageName);
+        if (packageName !== this.packageName || this.disposed) {
+            return;
+        }
+        pids.forEach(pid => this.packagePids.add(pid));
+        this._panel.webview.postMessage({ type: 'pids', pids: Array.from(this.packagePids) });
+        this.pidTimer = setTimeout(() => this.refreshPids(), LogcatPanel.pidRefreshIntervalMs);
+    }
+
+    public dispose() {
+        this.disposed = true;
+        if (LogcatPanel.panels.get(this.key) === this) {
+            LogcatPanel.panels.delete(this.key);
+        }
+        this.stop();
+        if (this.pidTimer) {
+            clearTimeout(this.pidTimer);
+        }
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    /**
+     * Disposes all open logcat panels (used on deactivation).
+     */
+    public static disposeAll() {
+        LogcatPanel.panels.forEach(panel => panel.dispose());
+    }
+
+    /**
+     * Generates the HTML content for the logcat viewer.
+     * Filtering happens in the Webview so it can change without restarting the stream.
+     * @returns The complete HTML string.
+     */
+    private _getHtmlForWebview() {
+        // Only the panel's own script runs; log lines come from apps on the device
+        const nonce = crypto.randomBytes(16).toString('base64');
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${this._panel.webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Logcat</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    padding: 0;
+                    margin: 0;
+                    display: flex;
+                    flex-direction: column;
+                    height: 100vh;
+                }
+
+                .toolbar {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 6px;
+                    align-items: center;
+                    padding: 6px 8px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+
+                input[type="text"], select {
+                    background: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, transparent);
+                    padding: 2px 6px;
+                    height: 24px;
+                    box-sizing: border-box;
+                    outline: none;
+                    border-radius: 2px;
+                }
+
+                input[type="text"]:focus, select:focus {
+                    border-color: var(--vscode-focusBorder);
+                }
+
+                input.invalid {
+                    border-color: var(--vscode-inputValidation-errorBorder);
+                }
+
+                button {
+                    border: 1px solid var(--vscode-widget-border, transparent);
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    height: 24px;
+                    padding: 2px 10px;
+                    cursor: pointer;
+                    border-radius: 4px;
+                    font-family: var(--vscode-font-family);
+                }
+
+                button:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+
+                label {
+                    font-size: 12px;
+                    display: inline-flex;
+                    align-items: center;
+                    gap: 4px;
+                }
+
+                .status {
+                    margin-left: auto;
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                #log {
+                    flex: 1;
+                    overflow-y: auto;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                }
+
+                .row {
+                    display: grid;
+                    grid-template-columns: 150px 60px 60px 20px 160px 1fr;
+                    gap: 6px;
+                    padding: 0 8px;
+                    white-space: pre-wrap;
+                    word-break: break-all;
+                }
+
+                .row:hover {
+                    background: var(--vscode-list-hoverBackground);
+                }
+
+                .tag {
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                }
+
+                #log a {
+                    color: var(--vscode-textLink-foreground);
+                }
+
+                .level-V { color: var(--vscode-descriptionForeground); }
+                .level-D { color: var(--vscode-charts-blue); }
+                .level-I { color: var(--vscode-charts-green); }
+                .level-W { color: var(--vscode-editorWarning-foreground); }
+                .level-E { color: var(--vscode-errorForeground); }
+                .level-F { color: var(--vscode-errorForeground); font-weight: bold; }
+            </style>
+        </head>
+        <body>
+            <div class="toolbar">
+                <select id="buffer" title="Log buffer">
+                    <option value="">Default buffers</option>
+                    <option value="main">main</option>
+                    <option value="system">system</option>
+                    <option value="crash">crash</option>
+                    <option value="events">events</option>
+                </select>
+                <select id="level" title="Minimum level">
+                    <option value="V">Verbose</option>
+                    <option value="D">Debug</option>
+                    <option value="I">Info</option>
+                    <option value="W">Warn</option>
+                    <option value="E">Error</option>
+                    <option value="F">Fatal</option>
+                </select>
+                <input type="text" id="package" placeholder="Package" title="Only show logs from this package's processes">
+                <input type="text" id="tag" placeholder="Tag" title="Comma-separated tags">
+                <input type="text" id="text" placeholder="Search message" style="flex: 1; min-width: 120px;">
+                <label><input type="checkbox" id="regex"> Regex</label>
+                <button id="pauseBtn">Pause</button>
+                <button id="clearBtn" title="Clear device log buffer (logcat -c)">Clear</button>
+                <button id="saveBtn" title="Save the captured lines to a file">Save</button>
+                <span class="status" id="status"></span>
+            </div>
+            <div id="log"></div>
+
+            <script nonce="${nonce}">
+                const vscode = acquireVsCodeApi();
+                const MAX_ENTRIES = 20000;
+                const LEVELS = ['V', 'D', 'I', 'W', 'E', 'F'];
+                const logEl = document.getElementById('log');
+                const statusEl = document.getElementById('status');
+                const textInput = document.getElementById('text');
+                const regexInput = document.getElementById('regex');
+                const tagInput = document.getElementById('tag');
+                const levelInput = document.getElementById('level');
+                const packageInput = document.getElementById('package');
+                const bufferInput = document.getElementById('buffer');
+                const pauseBtn = document.getElementById('pauseBtn');
+
+                let entries = [];
+                let paused = false;
+                let pendingWhilePaused = [];
+                let pids; // undefined = no package filter
+                let statusText = '';
+                let filter = buildFilter();
+
+                function escapeHtml(text) {
+                    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+                        .replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+                }
+
+                function buildFilter() {
+                    const minLevel = LEVELS.indexOf(levelInput.value);
+                    const tags = tagInput.value.split(',').map(t => t.trim()).filter(t => t.length > 0);
+                    let textMatcher = () => true;
+                    textInput.classList.remove('invalid');
+                    if (textInput.value) {
+                        if (regexInput.checked) {
+                            try {
+                                const re = new RegExp(textInput.value, 'i');
+                                textMatcher = e => re.test(e.message) || re.test(e.tag);
+                            } catch (err) {
+                                textInput.classList.add('invalid');
+                            }
+                        } else {
+                            const needle = textInput.value.toLowerCase();
+                            textMatcher = e => e.message.toLowerCase().includes(needle) || e.tag.toLowerCase().includes(needle);
+                        }
+                    }
+                    return e => LEVELS.indexOf(e.level) >= minLevel
+                        && (tags.length === 0 || tags.includes(e.tag))
+                        && (!pids || pids.includes(e.pid))
+                        && textMatcher(e);
+                }
+
+                function renderRow(e) {
+                    const row = document.createElement('div');
+                    row.className = 'row level-' + e.level;
+                    row.innerHTML = '<span>' + escapeHtml(e.timestamp) + '</span>'
+                        + '<span>' + e.pid + '</span>'
+                        + '<span>' + (e.tid !== undefined ? e.tid : '') + '</span>'
+                        + '<span>' + e.level + '</span>'
+                        + '<span class="tag" title="' + escapeHtml(e.tag) + '">' + escapeHtml(e.tag) + '</span>'
+                        + '<span>' + renderMessage(e.message) + '</span>';
+                    return row;
+                }
+
+                // Same pattern as StackTraceLinkProvider: "at com.example.Foo.bar(Foo.kt:42)"
+                const FRAME_REGEX = /\\bat\\s+([\\w$.]+)\\.([\\w$<>-]+)\\(([\\w$-]+\\.(?:java|kt|kts)):(\\d+)\\)/g;
+
+                function renderMessage(message) {
+                    let html = '';
+                    let last = 0;
+                    let match;
+                    FRAME_REGEX.lastIndex = 0;
+                    while ((match = FRAME_REGEX.exec(message)) !== null) {
+                        const location = match[3] + ':' + match[4];
+                        const start = match.index + match[0].length - location.length - 1;
+                        const frame = { className: match[1], methodName: match[2], fileName: match[3], line: parseInt(match[4], 10) };
+                        html += escapeHtml(message.substring(last, start))
+                            + '<a href="#" data-frame="' + escapeHtml(JSON.stringify(frame)).replace(/"/g, '&quot;') + '">' + escapeHtml(location) + '</a>';
+                        last = start + location.length;
+                    }
+                    return html + escapeHtml(message.substring(last));
+                }
+
+                function isScrolledToBottom() {
+                    return logEl.scrollHeight - logEl.scrollTop - logEl.clientHeight < 20;
+                }
+
+                function appendRows(newEntries) {
+                    const stick = isScrolledToBottom();
+                    const fragment = document.createDocumentFragment();
+                    newEntries.filter(filter).forEach(e => fragment.appendChild(renderRow(e)));
+                    logEl.appendChild(fragment);
+                    while (logEl.childElementCount > MAX_ENTRIES) {
+                        logEl.removeChild(logEl.firstChild);
+                    }
+                    if (stick) {
+                        logEl.scrollTop = logEl.scrollHeight;
+                    }
+                    updateStatus();
+                }
+
+                function rerender() {
+                    filter = buildFilter();
+                    logEl.innerHTML = '';
+                    appendRows(entries);
+                    logEl.scrollTop = logEl.scrollHeight;
+                }
+
+                function updateStatus() {
+                    const shown = logEl.childElementCount;
+                    let text = shown + ' / ' + entries.length + ' lines';
+                    if (pids && pids.length === 0) {
+                        text += ' · ' + packageInput.value + ' is not running';
+                    }
+                    if (paused) {
+                        text += ' · paused (' + pendingWhilePaused.length + ' new)';
+                    }
+                    statusEl.textContent = statusText ? text + ' · ' + statusText : text;
+                }
+
+                function addEntries(newEntries) {
+                    entries.push(...newEntries);
+                    if (entries.length > MAX_ENTRIES) {
+                        entries = entries.slice(entries.length - MAX_ENTRIES);
+                    }
+                    appendRows(newEntries);
+                }
+
+                logEl.addEventListener('click', event => {
+                    const frame = event.target.dataset && event.target.dataset.frame;
+                    if (frame) {
+                        event.preventDefault();
+                        vscode.postMessage({ type: 'openFrame', frame: JSON.parse(frame) });
+                    }
+                });
+
+                [textInput, tagInput].forEach(input => input.addEventListener('input', rerender));
+                [regexInput, levelInput].forEach(input => input.addEventListener('change', rerender));
+
+                packageInput.addEventListener('change', () => {
+                    vscode.postMessage({ type: 'setPackage', packageName: packageInput.value.trim() });
+                });
+
+                bufferInput.addEventListener('change', () => {
+                    vscode.postMessage({ type: 'setBuffer', buffer: bufferInput.value });
+                });
+
+                pauseBtn.addEventListener('click', () => {
+                    paused = !paused;
+                    pauseBtn.textContent = paused ? 'Resume' : 'Pause';
+                    if (!paused) {
+                        const queued = pendingWhilePaused;
+                        pendingWhilePaused = [];
+                        addEntries(queued);
+                    }
+                    updateStatus();
+                });
+
+                document.getElementById('clearBtn').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'clear' });
+                });
+
+                document.getElementById('saveBtn').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'save' });
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.type) {
+                        case 'init':
+                            packageInput.value = message.packageName || '';
+                            bufferInput.value = message.buffer;
+                            if (message.offline) {
+                                // A log file: there is no device buffer to switch, pause or clear
+                                [bufferInput, pauseBtn, document.getElementById('clearBtn')].forEach(el => el.style.display = 'none');
+                                packageInput.title = "Only show logs from this package's processes (found from process start and crash messages)";
+                            }
+                            break;
+                        case 'entries':
+                            if (paused) {
+                                pendingWhilePaused.push(...message.entries);
+                                // Only the newest MAX_ENTRIES would be kept when resuming anyway
+                                if (pendingWhilePaused.length > MAX_ENTRIES) {
+                                    pendingWhilePaused = pendingWhilePaused.slice(pendingWhilePaused.length - MAX_ENTRIES);
+                                }
+                                updateStatus();
+                            } else {
+                                addEntries(message.entries);
+                            }
+                            break;
+                        case 'clear':
+                            entries = [];
+                            pendingWhilePaused = [];
+                            rerender();
+                            break;
+                        case 'package':
+                            packageInput.value = message.packageName || '';
+                            break;
+                        case 'pids': {
+                            const changed = JSON.stringify(pids) !== JSON.stringify(message.pids);
+                            pids = message.pids;
+                            if (changed) {
+                                rerender();
+                            }
+                            break;
+                        }
+                        case 'status':
+                            statusText = message.text;
+                            updateStatus();
+                            break;
+                    }
+                });
+
+                vscode.postMessage({ type: 'ready' });
+            </script>
+        </body>
+        </html>`;
+    }
+}
@@ -0,0 +1,161 @@
+/**
+ * Log priority levels in ascending order of severity.
+ */
+export const LOG_LEVELS = ['V', 'D', 'I', 'W', 'E', 'F'];
+
+/**
+ * A single parsed logcat line.
+ */
+export interface LogcatEntry {
+    timestamp: string; // empty for the brief format
+    pid: number;
+    tid?: number; // only present in the threadtime format
+    level: string; // 'V' | 'D' | 'I' | 'W' | 'E' | 'F'
+    tag: string;
+    message: string;
+}
+
+const TIMESTAMP = '((?:\\d{4}-)?\\d{2}-\\d{2}\\s+\\d{2}:\\d{2}:\\d{2}\\.\\d+)';
+
+// 10-27 12:34:56.789  1234  5678 I ActivityManager: Start proc ...
+const THREADTIME_REGEX = new RegExp(`^${TIMESTAMP}\\s+(\\d+)\\s+(\\d+)\\s+([VDIWEFA])\\s+(.*?)\\s*: ?(.*)$`);
+// 10-27 12:34:56.789 I/ActivityManager( 1234): Start proc ...
+const TIME_REGEX = new RegExp(`^${TIMESTAMP}\\s+([VDIWEFA])\\/(.*?)\\(\\s*(\\d+)\\): ?(.*)$`);
+// I/ActivityManager( 1234): Start proc ...
+const BRIEF_REGEX = /^([VDIWEFA])\/(.*?)\(\s*(\d+)\): ?(.*)$/;
+
+// 'A' (assert) is printed for wtf() logs; treat it as fatal
+function normalizeLevel(level: string): string {
+    return level === 'A' ? 'F' : level;
+}
+
+/**
+ * Parses one line of logcat output in `threadtime`, `time` or `brief` format.
+ * @param line The raw line without trailing newline.
+ * @returns The parsed entry, or undefined for lines that are not log entries (e.g. "--------- beginning of main").
+ */
+export function parseLogcatLine(line: string): LogcatEntry | undefined {
+    let match = THREADTIME_REGEX.exec(line);
+    if (match) {
+        return {
+            timestamp: match[1],
+            pid: parseInt(match[2], 10),
+            tid: parseInt(match[3], 10),
+            level: normalizeLevel(match[4]),
+            tag: match[5],
+            message: match[6]
+        };
+    }
+    match = TIME_REGEX.exec(line);
+    if (match) {
+        return {
+            timestamp: match[1],
+            pid: parseInt(match[4], 10),
+            level: normalizeLevel(match[2]),
+            tag: match[3].trim(),
+            message: match[5]
+        };
+    }
+    match = BRIEF_REGEX.exec(line);
+    if (match) {
+        return {
+            timestamp: '',
+            pid: parseInt(match[3], 10),
+            level: normalizeLevel(match[1]),
+            tag: match[2].trim(),
+            message: match[4]
+        };
+    }
+    return undefined;
+}
+
+/**
+ * Formats an entry the way `logcat -v threadtime` prints it (or `brief` when there is no timestamp).
+ */
+export function formatLogcatEntry(entry: LogcatEntry): string {
+    if (!entry.timestamp) {
+        return `${entry.level}/${entry.tag}(${entry.pid.toString().padStart(5)}): ${entry.message}`;
+    }
+    const tid = entry.tid !== undefined ? entry.tid : entry.pid;
+    return `${entry.timestamp} ${entry.pid.toString().padStart(5)} ${tid.toString().padStart(5)} ${entry.level} ${entry.tag}: ${entry.message}`;
+}
+
+/**
+ * Parses a saved logcat capture: plain text in any supported format, or JSON lines as written by "Save Logcat".
+ * Lines that are not log entries are skipped.
+ */
+export function parseLogcatText(text: string): LogcatEntry[] {
+    const entries: LogcatEntry[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        if (line.startsWith('{')) {
+            try {
+                const entry = JSON.parse(line);
+                if (typeof entry.tag === 'string' && typeof entry.message === 'string' && typeof entry.pid === 'number') {
+                    entries.push(entry);
+                    continue;
+                }
+            } catch (e) {
+                // Not JSON after all; fall through to the text formats
+            }
+        }
+        const entry = parseLogcatLine(line);
+        if (entry) {
+            entries.push(entry);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Finds the PIDs a package ran under by looking at process start and crash messages.
+ * Used to filter offline captures by package, where `pidof` is not available.
+ */
+export function findPidsForPackage(entries: LogcatEntry[], packageName: string): number[] {
+    const pids = new Set<number>();
+    const add = (pid: string, processName: string) => {
+        // Secondary processes are named "package:process"
+        if (processName.split(':')[0] === packageName) {
+            pids.add(parseInt(pid, 10));
+        }
+    };
+    for (const entry of entries) {
+        // ActivityManager: Start proc 4321:com.example.app/u0a123 for activity ...
+        let match = /Start proc (\d+):([^/\s]+)/.exec(entry.message);
+        if (match) {
+            add(match[1], match[2]);
+            continue;
+        }
+        // AndroidRuntime: Process: com.example.app, PID: 4321
+        match = /Process: ([^,\s]+), PID: (\d+)/.exec(entry.message);
+        if (match) {
+            add(match[2], match[1]);
+        }
+    }
+    return Array.from(pids);
+}
+
+/**
+ * Reassembles complete lines from arbitrarily split stream chunks.
+ */
+export class LineSplitter {
+    private pending = '';
+
+    /**
+     * Adds a chunk and returns the lines it completed.
+     */
+    push(chunk: string): string[] {
+        const text = this.pending + chunk;
+        const lines = text.split(/\r?\n/);
+        this.pending = lines.pop() || '';
+        return lines;
+    }
+
+    /**
+     * Returns whatever is left once the stream has ended.
+     */
+    flush(): string[] {
+        const rest = this.pending;
+        this.pending = '';
+        return rest ? [rest] : [];
+    }
+}
@@ -0,0 +1,235 @@
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { AdbClient } from './adbClient';
+import { AdbStream } from './adbProtocol';
+import { LineSplitter } from './logcatParser';
+
+/**
+ * Options for a Logcat output session.
+ */
+export interface LogcatSessionOptions {
+    packageName?: string;
+    level?: string;
+    /**
+     * Re-resolve the PID of `packageName` whenever the app process dies and restarts.
+     */
+    follow: boolean;
+}
+
+interface LogcatSession {
+    options: LogcatSessionOptions;
+    stream?: AdbStream;
+    pid?: string;
+    pollTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Tracks one Logcat output session per device, each writing to its own output channel.
+ * Sessions can be stopped and restarted, and are closed when the extension deactivates.
+ */
+export class LogcatSessionManager implements vscode.Disposable {
+    private static readonly pidPollIntervalMs = 2000;
+    private static readonly maxCapturedLines = 50000;
+    private sessions = new Map<string, LogcatSession>();
+    private channels = new Map<string, vscode.OutputChannel>();
+    /**
+     * Lines received by the last session of each device, kept after it stops so they can be saved.
+     */
+    private captures = new Map<string, string[]>();
+
+    constructor(private readonly adbClient: AdbClient) { }
+
+    /**
+     * Returns the IDs of devices with an active Logcat session.
+     */
+    public getActiveDevices(): string[] {
+        return Array.from(this.sessions.keys());
+    }
+
+    /**
+     * Returns the IDs of devices whose last session captured any lines.
+     */
+    public getCapturedDevices(): string[] {
+        return Array.from(this.captures.keys()).filter(id => this.captures.get(id)!.length > 0);
+    }
+
+    /**
+     * Returns the lines captured by the current or last session of the device.
+     */
+    public getCapturedLines(deviceId: string): string[] {
+        return this.captures.get(deviceId) || [];
+    }
+
+    /**
+     * Starts a Logcat session for the device, replacing any existing one.
+     * @param deviceId The ID of the target device.
+     * @param options Package/level filters and whether to follow app restarts.
+     */
+    public async start(deviceId: string, options: LogcatSessionOptions): Promise<void> {
+        this.stop(deviceId);
+
+        const channel = this.getChannel(deviceId);
+        channel.clear();
+        channel.show(true);
+        channel.appendLine(`Starting Logcat for device ${deviceId}...`);
+        this.captures.set(deviceId, []);
+
+        const session: LogcatSession = { options };
+        this.sessions.set(deviceId, session);
+
+        if (options.packageName) {
+            session.pid = await this.adbClient.getPidForPackage(deviceId, options.packageName);
+            if (!session.pid && !options.follow) {
+                vscode.window.showWarningMessage(`Could not find PID for package: ${options.packageName}. Showing all logs.`);
+            }
+        }
+
+        if (options.follow && options.packageName) {
+            if (!session.pid) {
+                channel.appendLine(`--- Waiting for ${options.packageName} to start ---`);
+            } else {
+                await this.openStream(deviceId, session);
+            }
+            this.schedulePoll(deviceId, session);
+        } else {
+            await this.openStream(deviceId, session);
+        }
+    }
+
+    /**
+     * Stops the Logcat session for the device.
+     * @returns true if a session was running.
+     */
+    public stop(deviceId: string): boolean {
+        const session = this.sessions.get(deviceId);
+        if (!session) {
+            return false;
+        }
+        this.sessions.delete(deviceId);
+        this.closeSession(session);
+        this.channels.get(deviceId)?.appendLine('--- Logcat stopped ---');
+        return true;
+    }
+
+    /**
+     * Restarts the Logcat session for the device with the same options.
+     * @returns false if there was no session to restart.
+     */
+    public async restart(deviceId: string): Promise<boolean> {
+        const session = this.sessions.get(deviceId);
+        if (!session) {
+            return false;
+        }
+        await this.start(deviceId, session.options);
+        return true;
+    }
+
+    /**
+     * Re-resolves the followed app's PID right away, e.g. after `adb-pro.restartApp`,
+     * instead of waiting for the next poll.
+     */
+    public async refreshPid(deviceId: string): Promise<void> {
+        const session = this.sessions.get(deviceId);
+        if (session?.options.follow && session.options.packageName) {
+            await this.checkPid(deviceId, session);
+        }
+    }
+
+    private getChannel(deviceId: string): vscode.OutputChannel {
+        let channel = this.channels.get(deviceId);
+        if (!channel) {
+            channel = vscode.window.createOutputChannel(`Logcat: ${deviceId}`, 'adb-logcat');
+            this.channels.set(deviceId, channel);
+        }
+        return channel;
+    }
+
+    private async openStream(deviceId: string, session: LogcatSession) {
+        session.stream?.close();
+        session.stream = undefined;
+        const channel = this.getChannel(deviceId);
+        try {
+            const stream = await this.adbClient.getLogcat(deviceId, session.pid, session.options.level);
+            if (this.sessions.get(deviceId) !== session) {
+                // Stopped or replaced while we were connecting
+                stream.close();
+                return;
+            }
+            session.stream = stream;
+            const splitter = new LineSplitter();
+            const captured = this.captures.get(deviceId) || [];
+            // Chunks can end in the middle of a multi-byte character
+            const decoder = new StringDecoder('utf8');
+            stream.onData(data => {
+                const text = decoder.write(data);
+                channel.append(text);
+                this.capture(captured, splitter.push(text));
+            });
+            stream.onClose(() => {
+                const rest = decoder.end();
+                this.capture(captured, [...splitter.push(rest), ...splitter.flush()]);
+                if (session.stream === stream) {
+                    channel.append(rest);
+                    session.stream = undefined;
+                    channel.appendLine('Logcat stream closed');
+                }
+            });
+        } catch (e: any) {
+            channel.appendLine(`Failed to start Logcat: ${e.message}`);
+        }
+    }
+
+    private capture(captured: string[], lines: string[]) {
+        captured.push(...lines);
+        if (captured.length > LogcatSessionManager.maxCapturedLines) {
+            captured.splice(0, captured.length - LogcatSessionManager.maxCapturedLines);
+        }
+    }
+
+    private schedulePoll(deviceId: string, session: LogcatSession) {
+        session.pollTimer = setTimeout(async () => {
+            if (this.sessions.get(deviceId) !== session) {
+                return;
+            }
+            await this.checkPid(deviceId, session);
+            if (this.sessions.get(deviceId) === session) {
+                this.schedulePoll(deviceId, session);
+            }
+        }, LogcatSessionManager.pidPollIntervalMs);
+    }
+
+    private async checkPid(deviceId: string, session: LogcatSession) {
+        const packageName = session.options.packageName!;
+        const pid = await this.adbClient.getPidForPackage(deviceId, packageName);
+        if (pid === session.pid || this.sessions.get(deviceId) !== session) {
+            return;
+        }
+        const channel = this.getChannel(deviceId);
+        session.pid = pid;
+        if (pid) {
+            channel.appendLine(`--- ${packageName} started (PID ${pid}) ---`);
+            await this.openStream(deviceId, session);
+        } else {
+            session.stream?.close();
+            session.stream = undefined;
+            channel.appendLine(`--- ${packageName} died, waiting for it to start ---`);
+        }
+    }
+
+    private closeSession(session: LogcatSession) {
+        if (session.pollTimer) {
+            clearTimeout(session.pollTimer);
+        }
+        const stream = session.stream;
+        session.stream = undefined;
+        stream?.close();
+    }
+
+    public dispose() {
+        this.sessions.forEach(session => this.closeSession(session));
+        this.sessions.clear();
+        this.channels.forEach(channel => channel.dispose());
+        this.channels.clear();
+        this.captures.clear();
+    }
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { AdbClient } from './adbClient';
+import { MdnsService } from './wirelessPairing';
+
+/**
+ * Polls the ADB server's mDNS discovery and emits the services whenever devices with wireless
+ * debugging turned on appear on or leave the network. The server only answers mDNS queries,
+ * it does not push them, so there is nothing to subscribe to.
+ * Polls never start the server, so it stays stopped after `adb kill-server`.
+ */
+export class MdnsDiscovery implements vscode.Disposable {
+    private static readonly pollIntervalMs = 5000;
+
+    private _onDidChangeServices = new vscode.EventEmitter<MdnsService[]>();
+    readonly onDidChangeServices: vscode.Event<MdnsService[]> = this._onDidChangeServices.event;
+
+    private services: MdnsService[] = [];
+    private timer: NodeJS.Timeout | undefined;
+    private lastSnapshot = '[]';
+    private disposed = false;
+
+    constructor(private readonly adbClient: AdbClient) { }
+
+    /**
+     * The services found by the last poll.
+     */
+    public getServices(): MdnsService[] {
+        return this.services;
+    }
+
+    public start() {
+        if (this.disposed || this.timer) {
+            return;
+        }
+        this.update();
+        this.timer = setInterval(() => this.update(), MdnsDiscovery.pollIntervalMs);
+    }
+
+    public stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        this.setServices([]);
+    }
+
+    /**
+     * Polls now instead of waiting for the next interval (e.g. after connecting).
+     */
+    public refresh() {
+        this.update();
+    }
+
+    private async update() {
+        let services: MdnsService[];
+        try {
+            services = await this.adbClient.getMdnsServices(false);
+        } catch (e) {
+            // No server, or one built without mDNS support
+            services = [];
+        }
+        if (this.timer) {
+            this.setServices(services);
+        }
+    }
+
+    private setServices(services: MdnsService[]) {
+        const sorted = [...services].sort((a, b) => a.name.localeCompare(b.name) || a.type.localeCompare(b.type));
+        const snapshot = JSON.stringify(sorted);
+        if (snapshot !== this.lastSnapshot && !this.disposed) {
+            this.lastSnapshot = snapshot;
+            this.services = sorted;
+            this._onDidChangeServices.fire(sorted);
+        }
+    }
+
+    public dispose() {
+        this.disposed = true;
+        this.stop();
+        this._onDidChangeServices.dispose();
+    }
+}
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+
+/**
+ * The outcome of an action on one device: its value, or the error message if it failed.
+ */
+export interface DeviceResult<T> {
+    deviceId: string;
+    value?: T;
+    error?: string;
+}
+
+/**
+ * Runs an action on all devices in parallel. A failure on one device does not stop the others.
+ * @returns One result per device, in the order of `deviceIds`.
+ */
+export async function runOnDevices<T>(deviceIds: string[], action: (deviceId: string) => Promise<T>): Promise<DeviceResult<T>[]> {
+    return Promise.all(deviceIds.map(async deviceId => {
+        try {
+            return { deviceId, value: await action(deviceId) };
+        } catch (e: any) {
+            return { deviceId, error: e?.message ?? String(e) };
+        }
+    }));
+}
+
+/**
+ * Summarizes results in one line, e.g. "Install: failed on 1 of 3 devices (emulator-5554)".
+ */
+export function summarizeResults(name: string, results: DeviceResult<unknown>[]): string {
+    const failed = results.filter(result => result.error !== undefined);
+    if (failed.length === 0) {
+        return `${name}: done on ${results.length === 1 ? '1 device' : `all ${results.length} devices`}`;
+    }
+    return `${name}: failed on ${failed.length} of ${results.length} device${results.length === 1 ? '' : 's'} (${failed.map(result => result.deviceId).join(', ')})`;
+}
+
+/**
+ * Formats one line per device for the output channel.
+ */
+export function formatResultDetails<T>(name: string, results: DeviceResult<T>[]): string[] {
+    return [
+        summarizeResults(name, results),
+        ...results.map(result => result.error !== undefined
+            ? `  ✗ ${result.deviceId}: ${result.error}`
+            : `  ✓ ${result.deviceId}: ${result.value === undefined ? 'OK' : String(result.value).trim().replace(/\n/g, '\n      ')}`)
+    ];
+}
+
+/**
+ * Reports the results of an action. A single device gets the usual "<name> Result: ..." message
+ * (or `describe`'s message); several devices get one summary, with each device's result in
+ * the output channel.
+ */
+export async function showDeviceResults<T>(
+    outputChannel: vscode.OutputChannel,
+    name: string,
+    results: DeviceResult<T>[],
+    describe: (value: T) => string = value => `${name} Result: ${value}`
+): Promise<void> {
+    if (results.length === 1) {
+        const [result] = results;
+        if (result.error !== undefined) {
+            vscode.window.showErrorMessage(result.error);
+        } else {
+            vscode.window.showInformationMessage(describe(result.value as T));
+        }
+        return;
+    }
+    formatResultDetails(name, results).forEach(line => outputChannel.appendLine(line));
+    const summary = summarizeResults(name, results);
+    const failed = results.some(result => result.error !== undefined);
+    const action = failed
+        ? await vscode.window.showWarningMessage(summary, 'Show Details')
+        : await vscode.window.showInformationMessage(summary, 'Show Details');
+    if (action) {
+        outputChannel.show(true);
+    }
+}
@@ -0,0 +1,230 @@
+import * as QRCode from 'qrcode';
+import * as vscode from 'vscode';
+import { WirelessDeviceManager } from './wirelessDevices';
+import { createPairingCredentials, createPairingQrText } from './wirelessPairing';
+
+/**
+ * Webview panel that shows a QR code for "Pair device with QR code" (Android 11+ wireless
+ * debugging). It waits for the device to scan it, then pairs and connects. Only one panel
+ * is open at a time, since a new code replaces the previous one.
+ */
+export class PairingPanel {
+    public static readonly viewType = 'adbPairing';
+    private static panels = new Map<string, PairingPanel>();
+    private static readonly key = 'qr';
+
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private session: vscode.CancellationTokenSource | undefined;
+
+    public static createOrShow(manager: WirelessDeviceManager) {
+        const existing = PairingPanel.panels.get(PairingPanel.key);
+        if (existing) {
+            existing._panel.reveal();
+            return;
+        }
+        const panel = vscode.window.createWebviewPanel(
+            PairingPanel.viewType,
+            'Pair Device with QR Code',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        PairingPanel.panels.set(PairingPanel.key, new PairingPanel(panel, manager));
+    }
+
+    private constructor(panel: vscode.WebviewPanel, private readonly manager: WirelessDeviceManager) {
+        this._panel = panel;
+        this._panel.webview.html = this._getHtmlForWebview();
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(async data => {
+            switch (data.type) {
+                case 'ready':
+                case 'restart':
+                    await this.start();
+                    break;
+            }
+        }, null, this._disposables);
+    }
+
+    /**
+     * Shows a new QR code and waits for a device to scan it.
+     */
+    private async start() {
+        this.session?.cancel();
+        const session = new vscode.CancellationTokenSource();
+        this.session = session;
+        const credentials = createPairingCredentials();
+        const svg = await QRCode.toString(createPairingQrText(credentials), { type: 'svg', margin: 2, errorCorrectionLevel: 'M' });
+        this._panel.webview.postMessage({ type: 'code', svg, name: credentials.name });
+        try {
+            const address = await this.manager.pairWithQrCode(
+                credentials,
+                session.token,
+                message => this._panel.webview.postMessage({ type: 'status', message })
+            );
+            this._panel.webview.postMessage({ type: 'connected', address });
+            vscode.window.showInformationMessage(`Paired and connected to ${address}`);
+        } catch (e: any) {
+            if (!session.token.isCancellationRequested) {
+                this._panel.webview.postMessage({ type: 'error', message: e.message });
+            }
+        } finally {
+            session.dispose();
+        }
+    }
+
+    public dispose() {
+        PairingPanel.panels.delete(PairingPanel.key);
+        this.session?.cancel();
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    /**
+     * Disposes the pairing panel (used on deactivation).
+     */
+    public static disposeAll() {
+        PairingPanel.panels.forEach(panel => panel.dispose());
+    }
+
+    /**
+     * Generates the HTML content for the pairing panel.
+     * @returns The complete HTML string.
+     */
+    private _getHtmlForWebview() {
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Pair Device</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    padding: 16px;
+                    display: flex;
+                    flex-direction: column;
+                    align-items: center;
+                    text-align: center;
+                }
+
+                ol {
+                    text-align: left;
+                    max-width: 420px;
+                    line-height: 1.6;
+                }
+
+                .code {
+                    /* Scanners need dark modules on a light background, whatever the theme */
+                    background: #ffffff;
+                    width: 240px;
+                    height: 240px;
+                    margin: 12px 0;
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                }
+
+                .code svg {
+                    width: 100%;
+                    height: 100%;
+                }
+
+                .code.expired {
+                    opacity: 0.2;
+                }
+
+                .status {
+                    min-height: 20px;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                .status.error {
+                    color: var(--vscode-errorForeground);
+                }
+
+                .status.connected {
+                    color: var(--vscode-testing-iconPassed, var(--vscode-foreground));
+                }
+
+                button {
+                    margin-top: 10px;
+                    border: 1px solid var(--vscode-widget-border, transparent);
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    height: 26px;
+                    padding: 2px 12px;
+                    cursor: pointer;
+                    border-radius: 4px;
+                    font-family: var(--vscode-font-family);
+                }
+
+                button:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+            </style>
+        </head>
+        <body>
+            <ol>
+                <li>Connect the device to the same Wi-Fi network as this computer.</li>
+                <li>On the device, open <b>Developer options › Wireless debugging</b> and turn it on.</li>
+                <li>Tap <b>Pair device with QR code</b> and scan this code.</li>
+            </ol>
+            <div class="code" id="code"></div>
+            <div class="status" id="status">Generating code…</div>
+            <button id="restartBtn" style="display: none;">Generate New Code</button>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const codeEl = document.getElementById('code');
+                const statusEl = document.getElementById('status');
+                const restartBtn = document.getElementById('restartBtn');
+
+                function setStatus(text, kind) {
+                    statusEl.textContent = text;
+                    statusEl.className = 'status' + (kind ? ' ' + kind : '');
+                }
+
+                restartBtn.addEventListener('click', () => {
+                    restartBtn.style.display = 'none';
+                    setStatus('Generating code…');
+                    vscode.postMessage({ type: 'restart' });
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.type) {
+                        case 'code':
+                            codeEl.innerHTML = message.svg;
+                            codeEl.classList.remove('expired');
+                            setStatus('Waiting for the device to scan the code…');
+                            break;
+                        case 'status':
+                            setStatus(message.message);
+                            break;
+                        case 'connected':
+                            codeEl.classList.add('expired');
+                            setStatus('Connected to ' + message.address + '. You can close this tab.', 'connected');
+                            break;
+                        case 'error':
+                            codeEl.classList.add('expired');
+                            setStatus(message.message, 'error');
+                            restartBtn.style.display = 'inline-block';
+                            break;
+                    }
+                });
+
+                vscode.postMessage({ type: 'ready' });
+            </script>
+        </body>
+        </html>`;
+    }
+}
@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { AdbClient, ConnectedDevice } from './adbClient';
+import { isSameRule, PortRule, SavedPortRule } from './portForwards';
+
+/**
+ * A rule of a device as shown in the sidebar.
+ */
+export interface PortRuleStatus {
+    rule: PortRule;
+    /**
+     * Set up on the device right now.
+     */
+    active: boolean;
+    /**
+     * The saved rule it comes from, if any.
+     */
+    saved?: SavedPortRule;
+}
+
+/**
+ * Keeps the port forwards and reverses the workspace wants, and sets them up again whenever a
+ * device comes online: adb drops them when the device disconnects or the server restarts.
+ */
+export class PortForwardManager implements vscode.Disposable {
+    private static readonly storageKey = 'adb-pro.portForwards';
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private onlineDevices = new Set<string>();
+
+    constructor(
+        private readonly adbClient: AdbClient,
+        private readonly context: vscode.ExtensionContext
+    ) { }
+
+    /**
+     * The saved rules, or those that apply to one device.
+     */
+    public getSaved(deviceId?: string): SavedPortRule[] {
+        const saved = this.context.workspaceState.get<SavedPortRule[]>(PortForwardManager.storageKey) || [];
+        return deviceId ? saved.filter(rule => !rule.device || rule.device === deviceId) : saved;
+    }
+
+    /**
+     * Lists a device's active rules together with the saved ones that are not set up.
+     */
+    public async list(deviceId: string): Promise<PortRuleStatus[]> {
+        const [forwards, reverses] = await Promise.all([this.adbClient.listForwards(deviceId), this.adbClient.listReverses(deviceId)]);
+        const saved = this.getSaved(deviceId);
+        const statuses: PortRuleStatus[] = [...forwards, ...reverses].map(rule => ({
+            rule,
+            active: true,
+            saved: saved.find(other => isSameRule(other, rule) && other.local === rule.local && other.remote === rule.remote)
+        }));
+        for (const rule of saved) {
+            if (!statuses.some(status => status.saved === rule)) {
+                statuses.push({ rule, active: false, saved: rule });
+            }
+        }
+        return statuses;
+    }
+
+    /**
+     * Sets up a rule on a device.
+     * @param save Also save it for this device ('device') or every device ('all'). Only reverse
+     * rules can be saved for every device: a port on this machine forwards to one device at a time.
+     * @throws Error if a forward rule is to be saved for every device.
+     */
+    public async add(deviceId: string, rule: PortRule, save?: 'device' | 'all'): Promise<void> {
+        if (rule.kind === 'forward' && save === 'all') {
+            throw new Error(`${rule.local} on this machine can only forward to one device. Save the rule for ${deviceId} instead`);
+        }
+        await this.apply(deviceId, rule);
+        if (save) {
+            const saved = this.getSaved().filter(other => !(isSameRule(other, rule) && (!other.device || other.device === deviceId || save === 'all')));
+            saved.push({ kind: rule.kind, local: rule.local, remote: rule.remote, device: save === 'device' ? deviceId : undefined });
+            await this.update(saved);
+        } else {
+            this._onDidChange.fire();
+        }
+    }
+
+    /**
+     * Removes a rule from a device and forgets it if it was saved. A rule saved for every device is
+     * forgotten for all of them, but only removed from this one.
+     */
+    public async remove(deviceId: string, status: PortRuleStatus): Promise<void> {
+        if (status.active) {
+            if (status.rule.kind === 'forward') {
+                await this.adbClient.removeForward(deviceId, status.rule.local);
+            } else {
+                await this.adbClient.removeReverse(deviceId, status.rule.remote);
+            }
+        }
+        if (status.saved) {
+            const saved = status.saved;
+            await this.update(this.getSaved().filter(rule =>
+                !(rule.kind === saved.kind && rule.local === saved.local && rule.remote === saved.remote && rule.device === saved.device)));
+        } else {
+            this._onDidChange.fire();
+        }
+    }
+
+    /**
+     * Sets up the saved rules of a device that are not active.
+     * @returns An error message per rule that failed.
+     */
+    public async applySaved(deviceId: string): Promise<string[]> {
+        const statuses = await this.list(deviceId);
+        const errors: string[] = [];
+        for (const status of statuses.filter(status => !status.active)) {
+            try {
+                await this.apply(deviceId, status.rule);
+            } catch (e: any) {
+                errors.push(`${status.rule.kind} ${status.rule.local} ${status.rule.remote}: ${e.message}`);
+            }
+        }
+        if (statuses.some(status => !status.active)) {
+            this._onDidChange.fire();
+        }
+        return errors;
+    }
+
+    /**
+     * Applies the saved rules to devices that just came online (connected, reconnected, or
+     * authorized). Called with every device list from the device watcher.
+     * @returns The errors per device, for devices where a rule failed.
+     */
+    public async devicesChanged(devices: ConnectedDevice[]): Promise<Map<string, string[]>> {
+        const online = new Set(devices.filter(device => device.type === 'device').map(device => device.id));
+        const added = Array.from(online).filter(deviceId => !this.onlineDevices.has(deviceId));
+        this.onlineDevices = online;
+
+        const failures = new Map<string, string[]>();
+        for (const deviceId of added) {
+            if (this.getSaved(deviceId).length === 0) {
+                continue;
+            }
+            try {
+                const errors = await this.applySaved(deviceId);
+                if (errors.length > 0) {
+                    failures.set(deviceId, errors);
+                }
+            } catch (e: any) {
+                failures.set(deviceId, [e.message]);
+            }
+        }
+        return failures;
+    }
+
+    private async apply(deviceId: string, rule: PortRule) {
+        if (rule.kind === 'forward') {
+            await this.adbClient.forward(deviceId, rule.local, rule.remote);
+        } else {
+            await this.adbClient.reverse(deviceId, rule.remote, rule.local);
+        }
+    }
+
+    private async update(saved: SavedPortRule[]) {
+        await this.context.workspaceState.update(PortForwardManager.storageKey, saved);
+        this._onDidChange.fire();
+    }
+
+    public dispose() {
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,108 @@
+/**
+ * Port forwarding rules: `adb forward` makes a device socket reachable from this machine,
+ * `adb reverse` makes a socket on this machine reachable from the device.
+ */
+
+/**
+ * A forward or reverse rule. `local` is always the socket on this machine and `remote` the one
+ * on the device, as in `adb forward <local> <remote>` and `adb reverse <remote> <local>`.
+ */
+export interface PortRule {
+    kind: 'forward' | 'reverse';
+    local: string;
+    remote: string;
+}
+
+/**
+ * A rule saved with the workspace and applied whenever the device (or any device) comes online.
+ */
+export interface SavedPortRule extends PortRule {
+    /**
+     * Serial of the device; undefined for rules applied to every device.
+     */
+    device?: string;
+}
+
+/**
+ * Parses `adb forward --list` (or the host:list-forward reply): one `serial local remote` line
+ * per rule, for all devices.
+ */
+export function parseForwardList(output: string, deviceId: string): PortRule[] {
+    const rules: PortRule[] = [];
+    for (const line of output.split('\n')) {
+        const [serial, local, remote] = line.trim().split(/\s+/);
+        if (serial === deviceId && local && remote) {
+            rules.push({ kind: 'forward', local, remote });
+        }
+    }
+    return rules;
+}
+
+/**
+ * Parses `adb reverse --list` (or the reverse:list-forward reply): one line per rule with the
+ * connection name, the device socket and the socket on this machine.
+ */
+export function parseReverseList(output: string): PortRule[] {
+    const rules: PortRule[] = [];
+    for (const line of output.split('\n')) {
+        const parts = line.trim().split(/\s+/);
+        if (parts.length >= 3) {
+            rules.push({ kind: 'reverse', remote: parts[parts.length - 2], local: parts[parts.length - 1] });
+        }
+    }
+    return rules;
+}
+
+/**
+ * Returns true if two rules occupy the same socket: adb keys forwards by the local socket and
+ * reverses by the device socket, so adding one replaces the other.
+ */
+export function isSameRule(a: PortRule, b: PortRule): boolean {
+    return a.kind === b.kind && (a.kind === 'forward' ? a.local === b.local : a.remote === b.remote);
+}
+
+/**
+ * Turns user input into a socket spec: a bare port number becomes tcp:<port>.
+ */
+export function toSocketSpec(value: string): string {
+    const trimmed = value.trim();
+    return /^\d+$/.test(trimmed) ? `tcp:${trimmed}` : trimmed;
+}
+
+function checkTcp(spec: string): string | undefined {
+    const port = Number(spec.substring('tcp:'.length));
+    return Number.isInteger(port) && port >= 1 && port <= 65535 ? undefined : `Invalid port in ${spec} (1-65535)`;
+}
+
+/**
+ * Returns what is wrong with a rule, or undefined if it is valid. This machine's side is a
+ * tcp: port. The device side is tcp:<port>, localabstract:<name> or, for forwards, jdwp:<pid>.
+ */
+export function validatePortRule(rule: PortRule): string | undefined {
+    if (!/^tcp:/.test(rule.local)) {
+        return `The socket on this machine must be tcp:<port>, not ${rule.local}`;
+    }
+    const localError = checkTcp(rule.local);
+    if (localError) {
+        return localError;
+    }
+    if (/^tcp:/.test(rule.remote)) {
+        return checkTcp(rule.remote);
+    }
+    if (/^localabstract:[^\s;'"]+$/.test(rule.remote)) {
+        return undefined;
+    }
+    if (rule.kind === 'forward' && /^jdwp:\d+$/.test(rule.remote)) {
+        return undefined;
+    }
+    const allowed = rule.kind === 'forward' ? 'tcp:<port>, localabstract:<name> or jdwp:<pid>' : 'tcp:<port> or localabstract:<name>';
+    return `The device socket must be ${allowed}, not ${rule.remote}`;
+}
+
+/**
+ * Describes a rule in the direction connections go, e.g. "tcp:8081 → tcp:8081" for a reverse
+ * rule read as device → this machine.
+ */
+export function formatPortRule(rule: PortRule): string {
+    return rule.kind === 'forward' ? `${rule.local} → ${rule.remote}` : `${rule.remote} → ${rule.local}`;
+}
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { IntentSpec } from './intents';
+
+export interface SavedIntent {
+    name: string;
+    intent: IntentSpec;
+}
+
+/**
+ * Named intents saved with the workspace, so they can be sent again from the tree view.
+ */
+export class SavedIntentStore {
+    private static readonly storageKey = 'adb-pro.savedIntents';
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    constructor(private readonly context: vscode.ExtensionContext) { }
+
+    public getAll(): SavedIntent[] {
+        return this.context.workspaceState.get<SavedIntent[]>(SavedIntentStore.storageKey) || [];
+    }
+
+    public get(name: string): SavedIntent | undefined {
+        return this.getAll().find(saved => saved.name === name);
+    }
+
+    /**
+     * Saves an intent, replacing any saved intent with the same name.
+     */
+    public async save(name: string, intent: IntentSpec): Promise<void> {
+        const saved = this.getAll().filter(other => other.name !== name);
+        saved.push({ name, intent });
+        saved.sort((a, b) => a.name.localeCompare(b.name));
+        await this.update(saved);
+    }
+
+    public async delete(name: string): Promise<void> {
+        await this.update(this.getAll().filter(saved => saved.name !== name));
+    }
+
+    private async update(saved: SavedIntent[]) {
+        await this.context.workspaceState.update(SavedIntentStore.storageKey, saved);
+        this._onDidChange.fire();
+    }
+
+    public dispose() {
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,419 @@
+import * as vscode from 'vscode';
+import { AdbClient } from './adbClient';
+import { KEYCODES } from './inputEvents';
+
+/**
+ * Key codes for the panel's buttons and special keys.
+ */
+const PANEL_KEYS: { [name: string]: string } = {
+    home: 'KEYCODE_HOME',
+    back: 'KEYCODE_BACK',
+    dpadUp: 'KEYCODE_DPAD_UP',
+    dpadDown: 'KEYCODE_DPAD_DOWN',
+    dpadLeft: 'KEYCODE_DPAD_LEFT',
+    dpadRight: 'KEYCODE_DPAD_RIGHT',
+    volumeUp: 'KEYCODE_VOLUME_UP',
+    volumeDown: 'KEYCODE_VOLUME_DOWN',
+    power: 'KEYCODE_POWER',
+    tab: 'KEYCODE_TAB',
+    enter: 'KEYCODE_ENTER',
+    del: 'KEYCODE_DEL',
+    forwardDel: 'KEYCODE_FORWARD_DEL',
+    moveHome: 'KEYCODE_MOVE_HOME',
+    moveEnd: 'KEYCODE_MOVE_END',
+    appSwitch: 'KEYCODE_APP_SWITCH'
+};
+
+/**
+ * Webview panel that mirrors a device screen by repeatedly capturing screenshots,
+ * and forwards clicks, drags, typing and hardware buttons with `input`.
+ * One panel is kept per device. Capturing pauses while the panel is hidden.
+ */
+export class ScreenMirrorPanel {
+    public static readonly viewType = 'adbScreenMirror';
+    private static readonly frameIntervalMs = 200;
+    private static readonly retryDelayMs = 2000;
+    private static panels = new Map<string, ScreenMirrorPanel>();
+
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private disposed = false;
+    private paused = false;
+    private capturing = false;
+    private wake: (() => void) | undefined;
+    /**
+     * Input commands run one at a time, in the order they were sent.
+     */
+    private inputQueue: Promise<void> = Promise.resolve();
+
+    public static createOrShow(adbClient: AdbClient, deviceId: string) {
+        const existing = ScreenMirrorPanel.panels.get(deviceId);
+        if (existing) {
+            existing._panel.reveal();
+            return;
+        }
+        const panel = vscode.window.createWebviewPanel(
+            ScreenMirrorPanel.viewType,
+            `Screen: ${deviceId}`,
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        ScreenMirrorPanel.panels.set(deviceId, new ScreenMirrorPanel(panel, adbClient, deviceId));
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly adbClient: AdbClient,
+        private readonly deviceId: string
+    ) {
+        this._panel = panel;
+        this._panel.webview.html = this._getHtmlForWebview();
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+        this._panel.onDidChangeViewState(() => this.wakeUp(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(data => {
+            switch (data.type) {
+                case 'ready':
+                    if (!this.capturing) {
+                        this.capturing = true;
+                        this.captureLoop();
+                    }
+                    break;
+                case 'pause':
+                    this.paused = data.paused;
+                    this.wakeUp();
+                    break;
+                case 'tap':
+                    this.queueInput(() => this.adbClient.inputTap(this.deviceId, data.x, data.y));
+                    break;
+                case 'swipe':
+                    this.queueInput(() => this.adbClient.inputSwipe(this.deviceId, data.x1, data.y1, data.x2, data.y2, data.duration));
+                    break;
+                case 'text':
+                    this.queueInput(() => this.adbClient.inputText(this.deviceId, data.text));
+                    break;
+                case 'key':
+                    if (data.key in PANEL_KEYS) {
+                        this.queueInput(() => this.adbClient.inputKeyEvent(this.deviceId, KEYCODES.get(PANEL_KEYS[data.key])!, data.longPress));
+                    }
+                    break;
+            }
+        }, null, this._disposables);
+    }
+
+    private queueInput(command: () => Promise<void>) {
+        this.inputQueue = this.inputQueue
+            .then(command)
+            .then(() => this.wakeUp())
+            .catch(e => {
+                this._panel.webview.postMessage({ type: 'error', message: e.message });
+            });
+    }
+
+    /**
+     * Captures and shows frames until the panel is closed. Each capture starts after
+     * the previous frame was sent, so slow devices don't build up a backlog.
+     */
+    private async captureLoop() {
+        while (!this.disposed) {
+            if (!this._panel.visible || this.paused) {
+                await this.sleep(ScreenMirrorPanel.retryDelayMs);
+                continue;
+            }
+            const started = Date.now();
+            try {
+                const png = await this.adbClient.captureScreen(this.deviceId);
+                if (png.subarray(1, 4).toString('ascii') !== 'PNG') {
+                    throw new Error(png.subarray(0, 200).toString('utf-8').trim() || 'screencap returned no image');
+                }
+                this._panel.webview.postMessage({
+                    type: 'frame',
+                    data: png.toString('base64'),
+                    captureMs: Date.now() - started
+                });
+                await this.sleep(Math.max(0, ScreenMirrorPanel.frameIntervalMs - (Date.now() - started)));
+            } catch (e: any) {
+                this._panel.webview.postMessage({ type: 'error', message: e.message });
+                await this.sleep(ScreenMirrorPanel.retryDelayMs);
+            }
+        }
+    }
+
+    /**
+     * Waits for `ms`, or less if wakeUp() is called (after input or when the panel becomes visible).
+     */
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => this.wakeUp(), ms);
+            this.wake = () => {
+                clearTimeout(timer);
+                this.wake = undefined;
+                resolve();
+            };
+        });
+    }
+
+    private wakeUp() {
+        this.wake?.();
+    }
+
+    public dispose() {
+        this.disposed = true;
+        this.wakeUp();
+        ScreenMirrorPanel.panels.delete(this.deviceId);
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    /**
+     * Disposes all mirroring panels (used on deactivation).
+     */
+    public static disposeAll() {
+        ScreenMirrorPanel.panels.forEach(panel => panel.dispose());
+    }
+
+    /**
+     * Generates the HTML content for the mirroring panel.
+     * @returns The complete HTML string.
+     */
+    private _getHtmlForWebview() {
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Screen</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    padding: 0;
+                    margin: 0;
+                    display: flex;
+                    flex-direction: column;
+                    height: 100vh;
+                    overflow: hidden;
+                }
+
+                .toolbar {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 4px;
+                    align-items: center;
+                    padding: 6px 8px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+
+                button {
+                    border: 1px solid var(--vscode-widget-border, transparent);
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    height: 24px;
+                    padding: 2px 8px;
+                    cursor: pointer;
+                    border-radius: 4px;
+                    font-family: var(--vscode-font-family);
+                }
+
+                button:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+
+                .separator {
+                    width: 1px;
+                    height: 18px;
+                    background: var(--vscode-panel-border);
+                    margin: 0 4px;
+                }
+
+                .status {
+                    margin-left: auto;
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                .status.error {
+                    color: var(--vscode-errorForeground);
+                }
+
+                #screen {
+                    flex: 1;
+                    min-height: 0;
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    padding: 8px;
+                    outline: none;
+                }
+
+                #screen:focus img {
+                    box-shadow: 0 0 0 1px var(--vscode-focusBorder);
+                }
+
+                img {
+                    max-width: 100%;
+                    max-height: 100%;
+                    object-fit: contain;
+                    cursor: pointer;
+                    user-select: none;
+                    -webkit-user-drag: none;
+                }
+
+                .hint {
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                    text-align: center;
+                    padding: 0 8px 6px;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="toolbar">
+                <button data-key="back" title="Back">◀ Back</button>
+                <button data-key="home" title="Home">● Home</button>
+                <button data-key="appSwitch" title="Recent apps">■ Recents</button>
+                <span class="separator"></span>
+                <button data-key="power" title="Power (hold Shift for a long press)">Power</button>
+                <button data-key="volumeDown" title="Volume down">Vol −</button>
+                <button data-key="volumeUp" title="Volume up">Vol +</button>
+                <span class="separator"></span>
+                <button id="pauseBtn" title="Stop capturing frames">Pause</button>
+                <span class="status" id="status">Connecting…</span>
+            </div>
+            <div id="screen" tabindex="0"><img id="frame" alt=""></div>
+            <div class="hint">Click to tap, drag to swipe, hold to long-press. Click the screen, then type to send text and keys.</div>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const screenEl = document.getElementById('screen');
+                const frameEl = document.getElementById('frame');
+                const statusEl = document.getElementById('status');
+                const pauseBtn = document.getElementById('pauseBtn');
+                const TAP_SLOP = 0.02;
+                const LONG_PRESS_MS = 500;
+                const SPECIAL_KEYS = {
+                    Enter: 'enter', Backspace: 'del', Delete: 'forwardDel', Tab: 'tab', Escape: 'back',
+                    ArrowUp: 'dpadUp', ArrowDown: 'dpadDown', ArrowLeft: 'dpadLeft', ArrowRight: 'dpadRight',
+                    Home: 'moveHome', End: 'moveEnd'
+                };
+                let paused = false;
+                let pointerStart;
+                let lastFrameTime = 0;
+                let pendingText = '';
+                let textTimer;
+
+                function setStatus(text, isError) {
+                    statusEl.textContent = text;
+                    statusEl.classList.toggle('error', !!isError);
+                }
+
+                /**
+                 * Maps a mouse position to device screen pixels. Frames are captured at the
+                 * display resolution in the current rotation, which is what input expects.
+                 */
+                function toDevice(event) {
+                    const rect = frameEl.getBoundingClientRect();
+                    const x = Math.min(Math.max(event.clientX - rect.left, 0), rect.width);
+                    const y = Math.min(Math.max(event.clientY - rect.top, 0), rect.height);
+                    return { x: x * frameEl.naturalWidth / rect.width, y: y * frameEl.naturalHeight / rect.height };
+                }
+
+                function flushText() {
+                    clearTimeout(textTimer);
+                    if (pendingText) {
+                        vscode.postMessage({ type: 'text', text: pendingText });
+                        pendingText = '';
+                    }
+                }
+
+                function sendKey(key, longPress) {
+                    flushText();
+                    vscode.postMessage({ type: 'key', key, longPress: !!longPress });
+                }
+
+                frameEl.addEventListener('mousedown', event => {
+                    if (event.button !== 0 || !frameEl.naturalWidth) {
+                        return;
+                    }
+                    event.preventDefault();
+                    screenEl.focus();
+                    pointerStart = { ...toDevice(event), time: Date.now() };
+                });
+
+                window.addEventListener('mouseup', event => {
+                    if (!pointerStart) {
+                        return;
+                    }
+                    const end = toDevice(event);
+                    const duration = Date.now() - pointerStart.time;
+                    const slop = TAP_SLOP * frameEl.naturalWidth;
+                    const moved = Math.abs(end.x - pointerStart.x) > slop || Math.abs(end.y - pointerStart.y) > slop;
+                    flushText();
+                    if (!moved && duration < LONG_PRESS_MS) {
+                        vscode.postMessage({ type: 'tap', x: pointerStart.x, y: pointerStart.y });
+                    } else if (!moved) {
+                        vscode.postMessage({ type: 'swipe', x1: pointerStart.x, y1: pointerStart.y, x2: pointerStart.x, y2: pointerStart.y, duration });
+                    } else {
+                        vscode.postMessage({ type: 'swipe', x1: pointerStart.x, y1: pointerStart.y, x2: end.x, y2: end.y, duration: Math.max(100, duration) });
+                    }
+                    pointerStart = undefined;
+                });
+
+                screenEl.addEventListener('keydown', event => {
+                    if (event.ctrlKey || event.metaKey || event.altKey) {
+                        return;
+                    }
+                    if (SPECIAL_KEYS[event.key]) {
+                        event.preventDefault();
+                        sendKey(SPECIAL_KEYS[event.key]);
+                    } else if (event.key.length === 1) {
+                        event.preventDefault();
+                        // Batch typing: every input command takes a few hundred milliseconds on the device
+                        pendingText += event.key;
+                        clearTimeout(textTimer);
+                        textTimer = setTimeout(flushText, 300);
+                    }
+                });
+
+                document.querySelectorAll('button[data-key]').forEach(button => {
+                    button.addEventListener('click', event => sendKey(button.dataset.key, event.shiftKey));
+                });
+
+                pauseBtn.addEventListener('click', () => {
+                    paused = !paused;
+                    pauseBtn.textContent = paused ? 'Resume' : 'Pause';
+                    setStatus(paused ? 'Paused' : 'Resuming…');
+                    vscode.postMessage({ type: 'pause', paused });
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.type) {
+                        case 'frame': {
+                            frameEl.src = 'data:image/png;base64,' + message.data;
+                            const now = Date.now();
+                            if (!paused) {
+                                const fps = lastFrameTime ? (1000 / (now - lastFrameTime)).toFixed(1) : '–';
+                                setStatus(fps + ' fps · capture ' + message.captureMs + ' ms');
+                            }
+                            lastFrameTime = now;
+                            break;
+                        }
+                        case 'error':
+                            setStatus(message.message, true);
+                            break;
+                    }
+                });
+
+                vscode.postMessage({ type: 'ready' });
+            </script>
+        </body>
+        </html>`;
+    }
+}
@@ -0,0 +1,230 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AdbClient, ScreenRecordOptions } from './adbClient';
+import { AdbStream } from './adbProtocol';
+
+/**
+ * A finished screen recording.
+ */
+export interface ScreenRecording {
+    deviceId: string;
+    /**
+     * Local MP4 files, one per segment.
+     */
+    files: string[];
+    /**
+     * Why the recording ended early or could not be saved.
+     */
+    error?: string;
+}
+
+interface RecordingSession {
+    deviceId: string;
+    folder: string;
+    baseName: string;
+    options: ScreenRecordOptions;
+    /**
+     * Total length in seconds, or 0 to record until stopped.
+     */
+    timeLimit: number;
+    startTime: number;
+    segments: string[];
+    stream?: AdbStream;
+    output: string;
+    stopping: boolean;
+    finished: Promise<void>;
+    resolveFinished: () => void;
+}
+
+/**
+ * screenrecord stops by itself after 3 minutes.
+ */
+const MAX_SEGMENT_SECONDS = 180;
+
+/**
+ * Records device screens with `screenrecord`. Recordings longer than screenrecord's
+ * 3-minute limit are chained into segments. When a recording ends, the MP4 files are
+ * pulled to the chosen folder and removed from the device.
+ */
+export class ScreenRecorder implements vscode.Disposable {
+    private static readonly stopTimeoutMs = 10000;
+
+    private sessions = new Map<string, RecordingSession>();
+    private statusBarItem: vscode.StatusBarItem;
+
+    private _onDidFinishRecording = new vscode.EventEmitter<ScreenRecording>();
+    readonly onDidFinishRecording: vscode.Event<ScreenRecording> = this._onDidFinishRecording.event;
+
+    constructor(private readonly adbClient: AdbClient) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.statusBarItem.command = 'adb-pro.stopScreenRecord';
+    }
+
+    public isRecording(deviceId: string): boolean {
+        return this.sessions.has(deviceId);
+    }
+
+    public getRecordingDevices(): string[] {
+        return Array.from(this.sessions.keys());
+    }
+
+    /**
+     * Starts recording a device's screen with the `adb.screenRecord.*` settings.
+     * @param folder Local folder the MP4 files are saved to when the recording ends.
+     */
+    public async start(deviceId: string, folder: string): Promise<void> {
+        if (this.sessions.has(deviceId)) {
+            throw new Error(`${deviceId} is already being recorded`);
+        }
+        const config = vscode.workspace.getConfiguration('adb.screenRecord');
+        const bitRate = config.get<number>('bitRate', 0);
+        let resolveFinished: () => void = () => undefined;
+        const session: RecordingSession = {
+            deviceId,
+            folder,
+            baseName: `screenrecord-${new Date().toISOString().replace(/[:.]/g, '-')}`,
+            options: { bitRate: bitRate > 0 ? Math.round(bitRate * 1000000) : undefined, size: config.get<string>('size') || undefined },
+            timeLimit: Math.max(0, config.get<number>('timeLimit', 0)),
+            startTime: Date.now(),
+            segments: [],
+            output: '',
+            stopping: false,
+            finished: new Promise<void>(resolve => resolveFinished = resolve),
+            resolveFinished: () => resolveFinished()
+        };
+        this.sessions.set(deviceId, session);
+        this.updateStatusBar();
+        try {
+            await this.startSegment(session);
+        } catch (e) {
+            this.sessions.delete(deviceId);
+            this.updateStatusBar();
+            throw e;
+        }
+    }
+
+    /**
+     * Stops a recording and waits until its files are pulled.
+     */
+    public async stop(deviceId: string): Promise<void> {
+        const session = this.sessions.get(deviceId);
+        if (!session || session.stopping) {
+            return session?.finished;
+        }
+        session.stopping = true;
+        this.updateStatusBar();
+        const current = session.segments[session.segments.length - 1];
+        try {
+            await this.adbClient.stopScreenRecord(deviceId, current);
+        } catch {
+            // The stream is closed below if screenrecord doesn't exit
+        }
+        const timer = setTimeout(() => session.stream?.close(), ScreenRecorder.stopTimeoutMs);
+        await session.finished;
+        clearTimeout(timer);
+    }
+
+    private async startSegment(session: RecordingSession) {
+        const remotePath = `/sdcard/adb-pro-${session.baseName}-${session.segments.length + 1}.mp4`;
+        const elapsed = (Date.now() - session.startTime) / 1000;
+        const timeLimit = session.timeLimit > 0
+            ? Math.min(MAX_SEGMENT_SECONDS, Math.ceil(session.timeLimit - elapsed))
+            : MAX_SEGMENT_SECONDS;
+        session.segments.push(remotePath);
+        session.output = '';
+        const stream = await this.adbClient.startScreenRecord(session.deviceId, remotePath, { ...session.options, timeLimit });
+        session.stream = stream;
+        stream.onData(chunk => session.output += chunk.toString('utf-8'));
+        stream.onClose(() => this.segmentEnded(session));
+    }
+
+    private async segmentEnded(session: RecordingSession) {
+        if (this.sessions.get(session.deviceId) !== session) {
+            // Disposed
+            return;
+        }
+        session.stream = undefined;
+        const error = /ERROR|not found|Unable|inaccessible/i.test(session.output) ? session.output.trim() : undefined;
+        const remaining = session.timeLimit > 0 ? session.timeLimit - (Date.now() - session.startTime) / 1000 : Infinity;
+        if (!session.stopping && !error && remaining >= 1) {
+            try {
+                await this.startSegment(session);
+                return;
+            } catch (e: any) {
+                await this.finish(session, e.message);
+                return;
+            }
+        }
+        await this.finish(session, error);
+    }
+
+    /**
+     * Pulls the recorded segments to the local folder and deletes them from the device.
+     */
+    private async finish(session: RecordingSession, error?: string) {
+        this.sessions.delete(session.deviceId);
+        this.updateStatusBar();
+        const files: string[] = [];
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Saving screen recording of ${session.deviceId}...`
+            }, async () => {
+                for (const remotePath of session.segments) {
+                    const stat = await this.adbClient.statFile(session.deviceId, remotePath);
+                    if (stat.mode === 0 || stat.size === 0) {
+                        continue;
+                    }
+                    const suffix = session.segments.length > 1 ? `-${files.length + 1}` : '';
+                    const localPath = path.join(session.folder, `${session.baseName}${suffix}.mp4`);
+                    await this.adbClient.pullFile(session.deviceId, remotePath, localPath);
+                    files.push(localPath);
+                }
+            });
+        } catch (e: any) {
+            error = error || e.message;
+        } finally {
+            await this.cleanup(session);
+        }
+        this._onDidFinishRecording.fire({ deviceId: session.deviceId, files, error });
+        session.resolveFinished();
+    }
+
+    private async cleanup(session: RecordingSession) {
+        for (const remotePath of session.segments) {
+            try {
+                await this.adbClient.deleteFile(session.deviceId, remotePath, false);
+            } catch {
+                // Already gone or the device disconnected
+            }
+        }
+    }
+
+    private updateStatusBar() {
+        const devices = this.getRecordingDevices();
+        vscode.commands.executeCommand('setContext', 'adb-pro.isScreenRecording', devices.length > 0);
+        if (devices.length === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+        const stopping = devices.every(deviceId => this.sessions.get(deviceId)!.stopping);
+        this.statusBarItem.text = stopping
+            ? '$(loading~spin) Stopping recording…'
+            : `$(record) Recording${devices.length > 1 ? ` ${devices.length} devices` : ''}… (stop)`;
+        this.statusBarItem.tooltip = `Screen recording on ${devices.join(', ')}. Click to stop and save.`;
+        this.statusBarItem.show();
+    }
+
+    public dispose() {
+        // Nothing can be pulled once the extension is deactivating; just end screenrecord
+        this.sessions.forEach(session => {
+            session.stopping = true;
+            const current = session.segments[session.segments.length - 1];
+            this.adbClient.stopScreenRecord(session.deviceId, current).catch(() => undefined);
+            session.stream?.close();
+        });
+        this.sessions.clear();
+        this.statusBarItem.dispose();
+        this._onDidFinishRecording.dispose();
+    }
+}
@@ -0,0 +1,269 @@
+import { validateNumber } from './javaNumbers';
+
+/**
+ * Reading and writing the XML files Android's SharedPreferences keeps in `shared_prefs/`.
+ * The format is a flat `<map>` of typed elements, written by the framework's XmlUtils:
+ *
+ *     <map>
+ *         <string name="token">abc</string>
+ *         <boolean name="onboarded" value="true" />
+ *         <set name="tags"><string>a</string></set>
+ *     </map>
+ */
+
+export type SharedPreferenceType = 'string' | 'int' | 'long' | 'float' | 'boolean' | 'set';
+
+export const sharedPreferenceTypes: SharedPreferenceType[] = ['string', 'int', 'long', 'float', 'boolean', 'set'];
+
+export interface SharedPreference {
+    name: string;
+    type: SharedPreferenceType;
+    /**
+     * The value as written in the XML file, or the members of a string set.
+     */
+    value: string | string[];
+}
+
+/**
+ * Thrown when a preferences file is not well-formed or uses elements SharedPreferences doesn't write.
+ */
+export class SharedPreferencesParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SharedPreferencesParseError';
+    }
+}
+
+interface XmlElement {
+    tag: string;
+    attributes: Map<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+const ENTITIES: { [name: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (match, entity: string) => {
+        if (entity.startsWith('#x')) {
+            return String.fromCodePoint(parseInt(entity.substring(2), 16));
+        }
+        if (entity.startsWith('#')) {
+            return String.fromCodePoint(parseInt(entity.substring(1), 10));
+        }
+        if (!(entity in ENTITIES)) {
+            throw new SharedPreferencesParseError(`Unknown entity ${match}`);
+        }
+        return ENTITIES[entity];
+    });
+}
+
+function escapeXml(text: string, attribute: boolean): string {
+    const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+/**
+ * Parses the subset of XML used by preference files: elements, attributes, text,
+ * comments and the XML declaration. Throws on anything malformed.
+ */
+function parseXml(xml: string): XmlElement {
+    let pos = 0;
+    const fail = (message: string): never => {
+        const line = xml.substring(0, pos).split('\n').length;
+        throw new SharedPreferencesParseError(`${message} (line ${line})`);
+    };
+    const skipMisc = () => {
+        for (;;) {
+            const rest = xml.substring(pos);
+            const whitespace = /^\s+/.exec(rest);
+            if (whitespace) {
+                pos += whitespace[0].length;
+            } else if (rest.startsWith('<?') || rest.startsWith('<!--')) {
+                const end = xml.indexOf(rest.startsWith('<?') ? '?>' : '-->', pos);
+                if (end < 0) {
+                    fail('Unterminated declaration or comment');
+                }
+                pos = end + (rest.startsWith('<?') ? 2 : 3);
+            } else {
+                return;
+            }
+        }
+    };
+    const parseElement = (): XmlElement => {
+        const open = /^<([A-Za-z_][\w.-]*)/.exec(xml.substring(pos));
+        if (!open) {
+            return fail('Expected an element');
+        }
+        pos += open[0].length;
+        const element: XmlElement = { tag: open[1], attributes: new Map(), children: [], text: '' };
+        for (;;) {
+            const rest = xml.substring(pos);
+            const attribute = /^\s+([A-Za-z_][\w.:-]*)\s*=\s*("([^"<]*)"|'([^'<]*)')/.exec(rest);
+            if (attribute) {
+                element.attributes.set(attribute[1], decodeEntities(attribute[3] ?? attribute[4]));
+                pos += attribute[0].length;
+                continue;
+            }
+            const end = /^\s*(\/?)>/.exec(rest);
+            if (!end) {
+                return fail(`Malformed start tag <${element.tag}>`);
+            }
+            pos += end[0].length;
+            if (end[1]) {
+                return element;
+            }
+            break;
+        }
+        for (;;) {
+            const textEnd = xml.indexOf('<', pos);
+            if (textEnd < 0) {
+                return fail(`Missing </${element.tag}>`);
+            }
+            element.text += decodeEntities(xml.substring(pos, textEnd));
+            pos = textEnd;
+            if (xml.startsWith('<!--', pos)) {
+                skipMisc();
+            } else if (xml.startsWith('</', pos)) {
+                const close = /^<\/([\w.-]+)\s*>/.exec(xml.substring(pos));
+                if (!close || close[1] !== element.tag) {
+                    return fail(`Expected </${element.tag}>`);
+                }
+                pos += close[0].length;
+                return element;
+            } else {
+                element.children.push(parseElement());
+            }
+        }
+    };
+
+    skipMisc();
+    const root = parseElement();
+    skipMisc();
+    if (pos < xml.length) {
+        fail('Unexpected content after the root element');
+    }
+    return root;
+}
+
+/**
+ * Parses a SharedPreferences XML file.
+ * @throws SharedPreferencesParseError if the file is not a valid preferences file.
+ */
+export function parseSharedPreferences(xml: string): SharedPreference[] {
+    const root = parseXml(xml);
+    if (root.tag !== 'map') {
+        throw new SharedPreferencesParseError(`Expected <map> but found <${root.tag}>`);
+    }
+    return root.children.map((child): SharedPreference => {
+        const name = child.attributes.get('name');
+        if (name === undefined) {
+            throw new SharedPreferencesParseError(`<${child.tag}> has no name`);
+        }
+        switch (child.tag) {
+            case 'string':
+                return { name, type: 'string', value: child.text };
+            case 'set':
+                return {
+                    name,
+                    type: 'set',
+                    value: child.children.map(member => {
+                        if (member.tag !== 'string') {
+                            throw new SharedPreferencesParseError(`Set "${name}" contains <${member.tag}>`);
+                        }
+                        return member.text;
+                    })
+                };
+            case 'int':
+            case 'long':
+            case 'float':
+            case 'boolean': {
+                const value = child.attributes.get('value');
+                if (value === undefined) {
+                    throw new SharedPreferencesParseError(`<${child.tag} name="${name}"> has no value`);
+                }
+                return { name, type: child.tag as SharedPreferenceType, value };
+            }
+            default:
+                throw new SharedPreferencesParseError(`Unsupported preference type <${child.tag}>`);
+        }
+    });
+}
+
+/**
+ * Checks that a preference value can be read back by SharedPreferences.
+ * @returns An error message, or undefined if the value is valid.
+ */
+export function validateSharedPreference(preference: SharedPreference): string | undefined {
+    const { type, value } = preference;
+    if (!preference.name) {
+        return 'Name is required';
+    }
+    if (type === 'set' || type === 'string') {
+        return Array.isArray(value) === (type === 'set') ? undefined : `Invalid ${type} value`;
+    }
+    if (typeof value !== 'string') {
+        return `Invalid ${type} value`;
+    }
+    switch (type) {
+        case 'int':
+        case 'long':
+        case 'float':
+            return validateNumber(value, type) ? undefined : `${value} is not a valid ${type}`;
+        case 'boolean':
+            return value === 'true' || value === 'false' ? undefined : 'Boolean must be true or false';
+    }
+}
+
+/**
+ * Validates every preference and reports names that are used more than once.
+ * @returns One error message (or undefined) per preference.
+ */
+export function validateSharedPreferences(preferences: SharedPreference[]): (string | undefined)[] {
+    const names = new Set<string>();
+    return preferences.map(preference => {
+        const error = validateSharedPreference(preference);
+        if (!error && names.has(preference.name)) {
+            return `Duplicate name "${preference.name}"`;
+        }
+        names.add(preference.name);
+        return error;
+    });
+}
+
+/**
+ * Writes preferences in the format of Android's XmlUtils.
+ * @throws SharedPreferencesParseError if a preference is invalid or a name is used twice.
+ */
+export function serializeSharedPreferences(preferences: SharedPreference[]): string {
+    const errors = validateSharedPreferences(preferences);
+    const index = errors.findIndex(error => error);
+    if (index >= 0) {
+        throw new SharedPreferencesParseError(`${preferences[index].name || '(unnamed)'}: ${errors[index]}`);
+    }
+
+    const lines = ["<?xml version='1.0' encoding='utf-8' standalone='yes' ?>"];
+    if (preferences.length === 0) {
+        lines.push('<map />');
+        return lines.join('\n') + '\n';
+    }
+    lines.push('<map>');
+    for (const { name, type, value } of preferences) {
+        const nameAttribute = `name="${escapeXml(name, true)}"`;
+        if (Array.isArray(value)) {
+            if (value.length === 0) {
+                lines.push(`    <set ${nameAttribute} />`);
+            } else {
+                lines.push(`    <set ${nameAttribute}>`);
+                value.forEach(member => lines.push(`        <string>${escapeXml(member, false)}</string>`));
+                lines.push('    </set>');
+            }
+        } else if (type === 'string') {
+            lines.push(`    <string ${nameAttribute}>${escapeXml(value, false)}</string>`);
+        } else {
+            lines.push(`    <${type} ${nameAttribute} value="${escapeXml(value, true)}" />`);
+        }
+    }
+    lines.push('</map>');
+    return lines.join('\n') + '\n';
+}
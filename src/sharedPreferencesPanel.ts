@@ -0,0 +1,443 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AdbClient } from './adbClient';
+import {
+    parseSharedPreferences,
+    serializeSharedPreferences,
+    SharedPreference,
+    sharedPreferenceTypes,
+    validateSharedPreferences
+} from './sharedPreferences';
+
+/**
+ * Webview panel that edits a `shared_prefs/*.xml` file of a debuggable app as typed rows.
+ * Saving force-stops the app first, so it doesn't overwrite the file with its in-memory copy.
+ * One panel is kept per device, package and file.
+ */
+export class SharedPreferencesPanel {
+    public static readonly viewType = 'adbSharedPreferences';
+    private static panels = new Map<string, SharedPreferencesPanel>();
+
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+
+    /**
+     * Reads and parses a preferences file, then shows it in an editor panel.
+     * @param remotePath Path relative to the app's data directory (e.g. shared_prefs/settings.xml).
+     * @throws Error if the file cannot be read or is not a valid preferences file.
+     */
+    public static async createOrShow(adbClient: AdbClient, deviceId: string, packageName: string, remotePath: string): Promise<void> {
+        const key = `${deviceId}/${packageName}/${remotePath}`;
+        const existing = SharedPreferencesPanel.panels.get(key);
+        if (existing) {
+            existing._panel.reveal();
+            return;
+        }
+        const preferences = parseSharedPreferences((await adbClient.readAppFile(deviceId, packageName, remotePath)).toString('utf-8'));
+        const panel = vscode.window.createWebviewPanel(
+            SharedPreferencesPanel.viewType,
+            `${path.posix.basename(remotePath)} (${deviceId})`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        SharedPreferencesPanel.panels.set(key, new SharedPreferencesPanel(panel, key, adbClient, deviceId, packageName, remotePath, preferences));
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly key: string,
+        private readonly adbClient: AdbClient,
+        private readonly deviceId: string,
+        private readonly packageName: string,
+        private readonly remotePath: string,
+        private preferences: SharedPreference[]
+    ) {
+        this._panel = panel;
+        this._panel.webview.html = this._getHtmlForWebview();
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(async data => {
+            switch (data.type) {
+                case 'ready':
+                    this.postPreferences();
+                    break;
+                case 'save':
+                    await this.save(data.preferences, data.relaunch);
+                    break;
+                case 'reload':
+                    await this.reload();
+                    break;
+            }
+        }, null, this._disposables);
+    }
+
+    private postPreferences() {
+        this._panel.webview.postMessage({
+            type: 'load',
+            preferences: this.preferences,
+            packageName: this.packageName,
+            remotePath: this.remotePath
+        });
+    }
+
+    private async reload() {
+        try {
+            const data = await this.adbClient.readAppFile(this.deviceId, this.packageName, this.remotePath);
+            this.preferences = parseSharedPreferences(data.toString('utf-8'));
+            this.postPreferences();
+        } catch (e: any) {
+            this._panel.webview.postMessage({ type: 'error', message: e.message });
+        }
+    }
+
+    /**
+     * Validates the edited rows and writes them back to the device.
+     * @param relaunch Whether to start the app again once the file is written.
+     */
+    private async save(preferences: SharedPreference[], relaunch: boolean) {
+        const errors = validateSharedPreferences(preferences);
+        if (errors.some(error => error)) {
+            this._panel.webview.postMessage({ type: 'invalid', errors });
+            return;
+        }
+        try {
+            const xml = serializeSharedPreferences(preferences);
+            // Make sure the app will be able to read what we write
+            parseSharedPreferences(xml);
+
+            await this.adbClient.killApp(this.deviceId, this.packageName);
+            // SharedPreferences restores a leftover backup over the file when it loads
+            await this.adbClient.deleteAppFile(this.deviceId, this.packageName, `${this.remotePath}.bak`);
+            await this.adbClient.writeAppFile(this.deviceId, this.packageName, this.remotePath, Buffer.from(xml, 'utf-8'));
+            this.preferences = preferences;
+            if (relaunch) {
+                await this.adbClient.startApp(this.deviceId, this.packageName);
+            }
+            this._panel.webview.postMessage({ type: 'saved' });
+            vscode.window.showInformationMessage(`Saved ${this.remotePath}${relaunch ? ` and relaunched ${this.packageName}` : ''}`);
+        } catch (e: any) {
+            this._panel.webview.postMessage({ type: 'error', message: e.message });
+            vscode.window.showErrorMessage(e.message);
+        }
+    }
+
+    public dispose() {
+        SharedPreferencesPanel.panels.delete(this.key);
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+
+    /**
+     * Disposes all open preference editors (used on deactivation).
+     */
+    public static disposeAll() {
+        SharedPreferencesPanel.panels.forEach(panel => panel.dispose());
+    }
+
+    /**
+     * Generates the HTML content for the preferences editor.
+     * @returns The complete HTML string.
+     */
+    private _getHtmlForWebview() {
+        const typeOptions = sharedPreferenceTypes.map(type => `<option value="${type}">${type}</option>`).join('');
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Shared Preferences</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    padding: 8px;
+                }
+
+                .toolbar {
+                    display: flex;
+                    gap: 6px;
+                    align-items: center;
+                    margin-bottom: 8px;
+                }
+
+                button {
+                    border: 1px solid var(--vscode-widget-border, transparent);
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    height: 24px;
+                    padding: 2px 10px;
+                    cursor: pointer;
+                    border-radius: 4px;
+                    font-family: var(--vscode-font-family);
+                }
+
+                button:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground);
+                }
+
+                button.primary {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                }
+
+                button.primary:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+
+                button.icon {
+                    background: transparent;
+                    border: none;
+                    padding: 2px 6px;
+                }
+
+                label {
+                    display: flex;
+                    align-items: center;
+                    gap: 4px;
+                    font-size: 12px;
+                }
+
+                .status {
+                    margin-left: auto;
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                .modified {
+                    color: var(--vscode-editorWarning-foreground);
+                }
+
+                .error {
+                    color: var(--vscode-errorForeground);
+                    white-space: pre-wrap;
+                    margin-bottom: 8px;
+                }
+
+                table {
+                    width: 100%;
+                    border-collapse: collapse;
+                }
+
+                th {
+                    text-align: left;
+                    font-weight: normal;
+                    color: var(--vscode-descriptionForeground);
+                    padding: 4px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+
+                td {
+                    padding: 3px 4px;
+                    vertical-align: top;
+                }
+
+                td.name { width: 30%; }
+                td.type { width: 90px; }
+                td.actions { width: 30px; }
+
+                input, select, textarea {
+                    width: 100%;
+                    box-sizing: border-box;
+                    background: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, transparent);
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                    padding: 3px 5px;
+                    outline: none;
+                }
+
+                input[type="checkbox"] {
+                    width: auto;
+                }
+
+                input:focus, select:focus, textarea:focus {
+                    border-color: var(--vscode-focusBorder);
+                }
+
+                textarea {
+                    resize: vertical;
+                    min-height: 48px;
+                }
+
+                tr.invalid input, tr.invalid textarea, tr.invalid select {
+                    border-color: var(--vscode-inputValidation-errorBorder);
+                }
+
+                .rowError {
+                    font-size: 11px;
+                    color: var(--vscode-errorForeground);
+                }
+
+                .empty {
+                    color: var(--vscode-descriptionForeground);
+                    padding: 8px 4px;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="toolbar">
+                <button id="addBtn">Add</button>
+                <button id="saveBtn" class="primary" title="Force-stop the app and write the file to the device">Save to Device</button>
+                <button id="reloadBtn" title="Read the file from the device again, discarding changes">Reload</button>
+                <label><input type="checkbox" id="relaunch"> Relaunch app after saving</label>
+                <span class="status" id="status"></span>
+            </div>
+            <div class="error" id="error"></div>
+            <table>
+                <thead><tr><th>Name</th><th>Type</th><th>Value</th><th></th></tr></thead>
+                <tbody id="rows"></tbody>
+            </table>
+            <div class="empty" id="empty">No preferences. Click Add to create one.</div>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const rowsEl = document.getElementById('rows');
+                const errorEl = document.getElementById('error');
+                const statusEl = document.getElementById('status');
+                const relaunchEl = document.getElementById('relaunch');
+                let rows = [];
+                let errors = [];
+                let title = '';
+                let modified = false;
+
+                relaunchEl.checked = !!(vscode.getState() || {}).relaunch;
+                relaunchEl.addEventListener('change', () => vscode.setState({ relaunch: relaunchEl.checked }));
+
+                function escapeHtml(text) {
+                    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+                }
+
+                function setModified(value) {
+                    modified = value;
+                    statusEl.textContent = title + (modified ? ' · modified, not saved' : '');
+                    statusEl.classList.toggle('modified', modified);
+                }
+
+                function valueEditor(row, index) {
+                    if (row.type === 'set') {
+                        return '<textarea data-index="' + index + '" data-field="value" placeholder="One value per line">'
+                            + escapeHtml(row.value.join('\\n')) + '</textarea>';
+                    }
+                    if (row.type === 'boolean') {
+                        return '<select data-index="' + index + '" data-field="value">'
+                            + ['true', 'false'].map(v => '<option' + (row.value === v ? ' selected' : '') + '>' + v + '</option>').join('')
+                            + '</select>';
+                    }
+                    return '<input data-index="' + index + '" data-field="value" value="' + escapeHtml(row.value) + '">';
+                }
+
+                function render() {
+                    rowsEl.innerHTML = rows.map((row, index) => {
+                        const error = errors[index];
+                        return '<tr class="' + (error ? 'invalid' : '') + '">'
+                            + '<td class="name"><input data-index="' + index + '" data-field="name" value="' + escapeHtml(row.name) + '">'
+                            + (error ? '<div class="rowError">' + escapeHtml(error) + '</div>' : '') + '</td>'
+                            + '<td class="type"><select data-index="' + index + '" data-field="type">${typeOptions}</select></td>'
+                            + '<td>' + valueEditor(row, index) + '</td>'
+                            + '<td class="actions"><button class="icon" data-delete="' + index + '" title="Delete">✕</button></td>'
+                            + '</tr>';
+                    }).join('');
+                    rowsEl.querySelectorAll('select[data-field="type"]').forEach(select => {
+                        select.value = rows[Number(select.dataset.index)].type;
+                    });
+                    document.getElementById('empty').style.display = rows.length ? 'none' : 'block';
+                }
+
+                function convertValue(value, fromType, toType) {
+                    if (toType === 'set') {
+                        return fromType === 'set' ? value : (value ? [value] : []);
+                    }
+                    if (fromType === 'set') {
+                        value = value.join(',');
+                    }
+                    if (toType === 'boolean') {
+                        return value === 'true' ? 'true' : 'false';
+                    }
+                    return value;
+                }
+
+                rowsEl.addEventListener('input', event => {
+                    const target = event.target;
+                    const row = rows[Number(target.dataset.index)];
+                    if (!row) {
+                        return;
+                    }
+                    if (target.dataset.field === 'type') {
+                        row.value = convertValue(row.value, row.type, target.value);
+                        row.type = target.value;
+                        render();
+                    } else if (target.dataset.field === 'value' && row.type === 'set') {
+                        row.value = target.value ? target.value.split('\\n') : [];
+                    } else {
+                        row[target.dataset.field] = target.value;
+                    }
+                    setModified(true);
+                });
+
+                rowsEl.addEventListener('click', event => {
+                    const index = event.target.dataset.delete;
+                    if (index !== undefined) {
+                        rows.splice(Number(index), 1);
+                        errors.splice(Number(index), 1);
+                        render();
+                        setModified(true);
+                    }
+                });
+
+                document.getElementById('addBtn').addEventListener('click', () => {
+                    rows.push({ name: '', type: 'string', value: '' });
+                    render();
+                    setModified(true);
+                    const inputs = rowsEl.querySelectorAll('input[data-field="name"]');
+                    inputs[inputs.length - 1].focus();
+                });
+
+                document.getElementById('saveBtn').addEventListener('click', () => {
+                    errorEl.textContent = '';
+                    vscode.postMessage({ type: 'save', preferences: rows, relaunch: relaunchEl.checked });
+                });
+
+                document.getElementById('reloadBtn').addEventListener('click', () => {
+                    errorEl.textContent = '';
+                    vscode.postMessage({ type: 'reload' });
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.type) {
+                        case 'load':
+                            rows = message.preferences;
+                            errors = [];
+                            title = message.packageName + ' · ' + message.remotePath;
+                            render();
+                            setModified(false);
+                            break;
+                        case 'invalid':
+                            errors = message.errors;
+                            errorEl.textContent = 'Fix the highlighted preferences before saving.';
+                            render();
+                            break;
+                        case 'saved':
+                            errors = [];
+                            render();
+                            setModified(false);
+                            break;
+                        case 'error':
+                            errorEl.textContent = message.message;
+                            break;
+                    }
+                });
+
+                vscode.postMessage({ type: 'ready' });
+            </script>
+        </body>
+        </html>`;
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * Helpers for SQLite databases copied off a device while the app may have them open.
+ * Apps using WAL mode keep recent commits in `<db>-wal`; sql.js works on a single
+ * in-memory file, so committed WAL frames are folded into the main file before opening it.
+ * See https://www.sqlite.org/fileformat2.html#walformat
+ */
+
+const WAL_HEADER_SIZE = 32;
+const WAL_FRAME_HEADER_SIZE = 24;
+const WAL_MAGIC_LE = 0x377f0682;
+const WAL_MAGIC_BE = 0x377f0683;
+
+/**
+ * Offsets of the "file format write/read version" bytes in the database header: 1 = rollback journal, 2 = WAL.
+ */
+const HEADER_WRITE_VERSION = 18;
+const HEADER_READ_VERSION = 19;
+
+/**
+ * Computes the WAL checksum of `data`, continuing from a previous checksum.
+ * @param bigEndian Whether words are read big-endian (determined by the WAL magic number).
+ */
+export function walChecksum(data: Uint8Array, bigEndian: boolean, initial: [number, number] = [0, 0]): [number, number] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let [s0, s1] = initial;
+    for (let i = 0; i + 8 <= data.length; i += 8) {
+        s0 = (s0 + view.getUint32(i, !bigEndian) + s1) >>> 0;
+        s1 = (s1 + view.getUint32(i + 4, !bigEndian) + s0) >>> 0;
+    }
+    return [s0, s1];
+}
+
+/**
+ * Applies the committed frames of a WAL file to a copy of the database file.
+ * Frames after the last valid commit (or from an older WAL generation) are ignored, like SQLite does on recovery.
+ * @returns The database contents including the WAL's committed transactions, or the original
+ * contents if the WAL is empty or invalid.
+ */
+export function applyWal(database: Uint8Array, wal: Uint8Array): Uint8Array {
+    if (wal.length < WAL_HEADER_SIZE) {
+        return database;
+    }
+    const header = new DataView(wal.buffer, wal.byteOffset, WAL_HEADER_SIZE);
+    const magic = header.getUint32(0);
+    if (magic !== WAL_MAGIC_LE && magic !== WAL_MAGIC_BE) {
+        return database;
+    }
+    const bigEndian = magic === WAL_MAGIC_BE;
+    const pageSize = header.getUint32(8);
+    const salt1 = header.getUint32(16);
+    const salt2 = header.getUint32(20);
+    let checksum = walChecksum(wal.subarray(0, 24), bigEndian);
+    if (checksum[0] !== header.getUint32(24) || checksum[1] !== header.getUint32(28)) {
+        return database;
+    }
+
+    // Collect pages per transaction and only keep them once the commit frame is seen
+    const committed = new Map<number, Uint8Array>();
+    let pending = new Map<number, Uint8Array>();
+    let pageCount: number | undefined;
+    const frameSize = WAL_FRAME_HEADER_SIZE + pageSize;
+    for (let offset = WAL_HEADER_SIZE; offset + frameSize <= wal.length; offset += frameSize) {
+        const frame = new DataView(wal.buffer, wal.byteOffset + offset, WAL_FRAME_HEADER_SIZE);
+        if (frame.getUint32(8) !== salt1 || frame.getUint32(12) !== salt2) {
+            break;
+        }
+        const page = wal.subarray(offset + WAL_FRAME_HEADER_SIZE, offset + frameSize);
+        checksum = walChecksum(wal.subarray(offset, offset + 8), bigEndian, checksum);
+        checksum = walChecksum(page, bigEndian, checksum);
+        if (checksum[0] !== frame.getUint32(16) || checksum[1] !== frame.getUint32(20)) {
+            break;
+        }
+        pending.set(frame.getUint32(0), page);
+        const commitSize = frame.getUint32(4);
+        if (commitSize > 0) {
+            pending.forEach((data, pageNumber) => committed.set(pageNumber, data));
+            pending = new Map();
+            pageCount = commitSize;
+        }
+    }
+    if (pageCount === undefined) {
+        return database;
+    }
+
+    const result = new Uint8Array(pageCount * pageSize);
+    result.set(database.subarray(0, Math.min(database.length, result.length)));
+    committed.forEach((data, pageNumber) => {
+        if (pageNumber <= pageCount!) {
+            result.set(data, (pageNumber - 1) * pageSize);
+        }
+    });
+    return result;
+}
+
+/**
+ * Returns true if the database header marks the file as being in WAL mode.
+ */
+export function isWalMode(database: Uint8Array): boolean {
+    return database.length > HEADER_READ_VERSION && database[HEADER_WRITE_VERSION] === 2;
+}
+
+/**
+ * Sets the journal mode recorded in the database header.
+ * sql.js cannot open WAL-mode files (it has no shared memory), so files are switched to
+ * rollback mode for inspection and back to WAL before they are pushed to the device.
+ */
+export function setWalMode(database: Uint8Array, wal: boolean): Uint8Array {
+    if (database.length > HEADER_READ_VERSION) {
+        database[HEADER_WRITE_VERSION] = wal ? 2 : 1;
+        database[HEADER_READ_VERSION] = wal ? 2 : 1;
+    }
+    return database;
+}
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+
+/**
+ * A Java/Kotlin stack frame such as `at com.example.Foo.bar(Foo.kt:42)`.
+ */
+export interface StackFrame {
+    className: string;
+    methodName: string;
+    fileName: string;
+    line: number;
+}
+
+/**
+ * A stack frame found in a piece of text, with the offset of its `File.kt:42` part.
+ */
+export interface StackFrameMatch {
+    frame: StackFrame;
+    index: number;
+    length: number;
+}
+
+const FRAME_REGEX = /\bat\s+([\w$.]+)\.([\w$<>-]+)\(([\w$-]+\.(?:java|kt|kts)):(\d+)\)/g;
+
+/**
+ * Finds all Java/Kotlin stack frames in a piece of text.
+ * @param text The text to scan (usually a single line).
+ */
+export function parseStackFrames(text: string): StackFrameMatch[] {
+    const matches: StackFrameMatch[] = [];
+    FRAME_REGEX.lastIndex = 0;
+    let match;
+    while ((match = FRAME_REGEX.exec(text)) !== null) {
+        const location = `${match[3]}:${match[4]}`;
+        matches.push({
+            frame: {
+                className: match[1],
+                methodName: match[2],
+                fileName: match[3],
+                line: parseInt(match[4], 10)
+            },
+            // Link only the "File.kt:42" part, like the IDE does
+            index: match.index + match[0].length - location.length - 1,
+            length: location.length
+        });
+    }
+    return matches;
+}
+
+/**
+ * Makes stack frames in logcat output and saved captures clickable.
+ * Links point at the `adb-pro.openStackFrame` command, which resolves the frame lazily on click
+ * so large logs don't trigger a workspace search per line.
+ */
+export class StackTraceLinkProvider implements vscode.DocumentLinkProvider {
+    // Logcat channels have their own language, so other extensions' log output is left alone
+    public static readonly selector: vscode.DocumentSelector = [
+        { language: 'adb-logcat' },
+        { scheme: 'file', language: 'log' },
+        { scheme: 'untitled', language: 'log' }
+    ];
+
+    provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+        const links: vscode.DocumentLink[] = [];
+        for (let i = 0; i < document.lineCount; i++) {
+            const text = document.lineAt(i).text;
+            if (!text.includes('at ')) {
+                continue;
+            }
+            for (const match of parseStackFrames(text)) {
+                const args = encodeURIComponent(JSON.stringify([match.frame]));
+                const link = new vscode.DocumentLink(
+                    new vscode.Range(i, match.index, i, match.index + match.length),
+                    vscode.Uri.parse(`command:adb-pro.openStackFrame?${args}`)
+                );
+                link.tooltip = `Open ${match.frame.className}.${match.frame.methodName}`;
+                links.push(link);
+            }
+        }
+        return links;
+    }
+}
+
+/**
+ * Opens the workspace source file for a stack frame at the exact line.
+ * The package of the class is used to pick the right file when several share a name.
+ * @param frame The stack frame to open.
+ */
+export async function openStackFrame(frame: StackFrame): Promise<void> {
+    const exclude = '**/{build,node_modules,.gradle,.git}/**';
+    // com.example.Foo$Inner -> com/example
+    const packagePath = frame.className.split('.').slice(0, -1).join('/');
+
+    let uris: vscode.Uri[] = [];
+    if (packagePath) {
+        uris = await vscode.workspace.findFiles(`**/${packagePath}/${frame.fileName}`, exclude);
+    }
+    if (uris.length === 0) {
+        // Kotlin doesn't require directories to match the package
+        uris = await vscode.workspace.findFiles(`**/${frame.fileName}`, exclude);
+    }
+
+    if (uris.length === 0) {
+        vscode.window.showWarningMessage(`Could not find ${frame.fileName} in the workspace`);
+        return;
+    }
+
+    let uri: vscode.Uri | undefined = uris[0];
+    if (uris.length > 1) {
+        const selected = await vscode.window.showQuickPick(
+            uris.map(u => ({ label: vscode.workspace.asRelativePath(u), uri: u })),
+            { placeHolder: `Multiple files named ${frame.fileName}` }
+        );
+        uri = selected?.uri;
+    }
+
+    if (uri) {
+        const position = new vscode.Position(Math.max(frame.line - 1, 0), 0);
+        await vscode.window.showTextDocument(uri, {
+            selection: new vscode.Range(position, position)
+        });
+    }
+}
@@ -1,7 +1,10 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as sinon from 'sinon';
 import * as vscode from 'vscode';
-import { AdbClient } from '../../adbClient';
+import { AdbClient, shellQuote } from '../../adbClient';
 
 suite('AdbClient Test Suite', () => {
     let adbClient: AdbClient;
@@ -23,6 +26,8 @@ suite('AdbClient Test Suite', () => {
         adbClient = new AdbClient(outputChannelStub);
         // Stub the private 'execute' method
         executeStub = sinon.stub(adbClient as any, 'execute');
+        // Force the CLI fallback path so tests don't depend on a running ADB server
+        sinon.stub(adbClient as any, 'withServer').callsFake((_operation: any, fallback: any) => fallback());
     });
 
     teardown(() => {
@@ -59,6 +64,36 @@ emulator-5554 device product:sdk_gphone64_arm64 model:sdk_gphone64_arm64 device:
         assert.strictEqual(devices[0].connectionType, 'wireless');
     });
 
+    test('getConnectedDevices ignores daemon startup notices', async () => {
+        const output = `* daemon not running; starting now at tcp:5037
+* daemon started successfully
+List of devices attached
+emulator-5554 device product:sdk_gphone64_arm64 model:sdk_gphone64_arm64 device:emulator64_arm64 transport_id:1`;
+        executeStub.resolves(output);
+
+        const devices = await adbClient.getConnectedDevices();
+        assert.strictEqual(devices.length, 1);
+        assert.strictEqual(devices[0].id, 'emulator-5554');
+    });
+
+    test('server port comes from the settings, then ANDROID_ADB_SERVER_PORT', () => {
+        const previous = process.env.ANDROID_ADB_SERVER_PORT;
+        process.env.ANDROID_ADB_SERVER_PORT = '5038';
+        const inspect = sinon.stub().returns({ key: 'adb.serverPort', defaultValue: 5037 });
+        sinon.stub(vscode.workspace, 'getConfiguration').returns({ get: () => undefined, inspect } as any);
+        try {
+            assert.strictEqual((new AdbClient(outputChannelStub) as any).server.port, 5038);
+            inspect.returns({ key: 'adb.serverPort', defaultValue: 5037, globalValue: 5039 });
+            assert.strictEqual((new AdbClient(outputChannelStub) as any).server.port, 5039);
+        } finally {
+            if (previous === undefined) {
+                delete process.env.ANDROID_ADB_SERVER_PORT;
+            } else {
+                process.env.ANDROID_ADB_SERVER_PORT = previous;
+            }
+        }
+    });
+
     test('connectToDevice calls correct command', async () => {
         executeStub.resolves('connected to 192.168.1.5:5555');
         await adbClient.connectToDevice('192.168.1.5:5555');
@@ -71,9 +106,188 @@ emulator-5554 device product:sdk_gphone64_arm64 model:sdk_gphone64_arm64 device:
         assert.ok(executeStub.calledWith('-s device1 install -r "/path/to/app.apk"'));
     });
 
+    test('installApk passes install options', async () => {
+        executeStub.resolves('Success');
+        await adbClient.installApk('device1', '/path/to/app.apk', { grantPermissions: true, allowDowngrade: true, user: 'all' });
+        assert.ok(executeStub.calledWith('-s device1 install -r -g -d --user all "/path/to/app.apk"'));
+    });
+
+    test('installMultiple installs splits together', async () => {
+        executeStub.resolves('Success');
+        await adbClient.installMultiple('device1', ['/tmp/base-master.apk', '/tmp/base-arm64_v8a.apk'], { allowTestPackages: true });
+        assert.ok(executeStub.calledWith('-s device1 install-multiple -r -t "/tmp/base-master.apk" "/tmp/base-arm64_v8a.apk"'));
+    });
+
+    suite('installMultiple through the server', () => {
+        let directory: string;
+        let apkPaths: string[];
+        let server: { push: sinon.SinonStub; shell: sinon.SinonStub };
+
+        setup(async () => {
+            directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'adb-pro-test-'));
+            apkPaths = [path.join(directory, 'base-master.apk'), path.join(directory, 'base-arm64_v8a.apk')];
+            await fs.promises.writeFile(apkPaths[0], 'base');
+            await fs.promises.writeFile(apkPaths[1], 'abi');
+            server = { push: sinon.stub().resolves(), shell: sinon.stub().resolves('Success') };
+            server.shell.withArgs('device1', sinon.match(/^pm install-create /)).resolves('Success: created install session [1234]\n');
+            (adbClient as any).withServer.callsFake((operation: any) => operation(server));
+        });
+
+        teardown(async () => {
+            await fs.promises.rm(directory, { recursive: true, force: true });
+        });
+
+        const commands = () => server.shell.getCalls().map(call => call.args[1] as string);
+        const remotePaths = ['/data/local/tmp/adb-pro-split-0-base-master.apk', '/data/local/tmp/adb-pro-split-1-base-arm64_v8a.apk'];
+
+        test('writes each split into the created session and commits it', async () => {
+            await adbClient.installMultiple('device1', apkPaths, { allowTestPackages: true });
+            assert.deepStrictEqual(server.push.getCalls().map(call => call.args), [
+                ['device1', apkPaths[0], remotePaths[0]],
+                ['device1', apkPaths[1], remotePaths[1]]
+            ]);
+            assert.deepStrictEqual(commands(), [
+                'pm install-create -r -t -S 7',
+                `pm install-write -S 4 1234 0_base-master '${remotePaths[0]}'`,
+                `pm install-write -S 3 1234 1_base-arm64_v8a '${remotePaths[1]}'`,
+                'pm install-commit 1234',
+                `rm -f '${remotePaths[0]}' '${remotePaths[1]}'`
+            ]);
+        });
+
+        test('abandons the session and removes the staged splits when a write fails', async () => {
+            server.shell.withArgs('device1', sinon.match(/^pm install-write .* 0_base-master /)).resolves('Failure [INSTALL_FAILED_INVALID_APK]');
+            await assert.rejects(adbClient.installMultiple('device1', apkPaths), /INSTALL_FAILED_INVALID_APK/);
+            assert.deepStrictEqual(commands(), [
+                'pm install-create -r -S 7',
+                `pm install-write -S 4 1234 0_base-master '${remotePaths[0]}'`,
+                'pm install-abandon 1234',
+                `rm -f '${remotePaths[0]}' '${remotePaths[1]}'`
+            ]);
+        });
+
+        test('fails without a session id and still removes the staged splits', async () => {
+            server.shell.withArgs('device1', sinon.match(/^pm install-create /)).resolves('Success: created install session');
+            await assert.rejects(adbClient.installMultiple('device1', apkPaths), /Could not create an install session/);
+            assert.deepStrictEqual(commands(), [
+                'pm install-create -r -S 7',
+                `rm -f '${remotePaths[0]}' '${remotePaths[1]}'`
+            ]);
+        });
+    });
+
     test('uninstallApp calls correct command', async () => {
         executeStub.resolves('Success');
         await adbClient.uninstallApp('device1', 'com.example.app');
         assert.ok(executeStub.calledWith('-s device1 uninstall com.example.app'));
     });
+
+    test('listDirectory parses stat output in the CLI fallback', async () => {
+        executeStub.resolves('41f9 4096 1700000000 .\n41f9 4096 1700000000 Download\n81b0 12 1700000001 my notes.txt\n');
+        const entries = await adbClient.listDirectory('device1', '/sdcard');
+        assert.deepStrictEqual(entries, [
+            { name: 'Download', mode: 0o40771, size: 4096, mtime: 1700000000 },
+            { name: 'my notes.txt', mode: 0o100660, size: 12, mtime: 1700000001 }
+        ]);
+    });
+
+    test('deleteFile throws the rm error message', async () => {
+        executeStub.resolves("rm: /system/app: Read-only file system");
+        await assert.rejects(adbClient.deleteFile('device1', '/system/app', true), /Read-only file system/);
+    });
+
+    test('shellQuote escapes single quotes', () => {
+        assert.strictEqual(shellQuote("/sdcard/it's here"), "'/sdcard/it'\\''s here'");
+    });
+
+    test('listAppFiles reports apps that are not debuggable', async () => {
+        executeStub.resolves('run-as: package not debuggable: com.example.app');
+        await assert.rejects(adbClient.listAppFiles('device1', 'com.example.app', ''), /com\.example\.app is not debuggable/);
+    });
+
+    test('listAppFiles lists the app data directory through run-as', async () => {
+        executeStub.resolves('41f9 3452 1700000000 databases\n81b0 120 1700000001 shared_prefs.xml\n');
+        const entries = await adbClient.listAppFiles('device1', 'com.example.app', '');
+        assert.deepStrictEqual(entries.map(e => e.name), ['databases', 'shared_prefs.xml']);
+        const args: string[] = executeStub.firstCall.args[0];
+        assert.deepStrictEqual(args.slice(0, 3), ['-s', 'device1', 'shell']);
+        assert.ok(args[3].startsWith('run-as com.example.app sh -c '));
+    });
+
+    test('streams report a missing adb and close', async () => {
+        (adbClient as any).adbPath = '/nonexistent/adb';
+        const stream: { onData(l: (chunk: Buffer) => void): void; onClose(l: () => void): void } =
+            await (adbClient as any).shellStream('emulator-5554', 'logcat');
+        let output = '';
+        stream.onData(chunk => output += chunk.toString());
+        await new Promise<void>(resolve => stream.onClose(resolve));
+        assert.match(output, /ENOENT/);
+    });
+
+    test('pid lookups share the pidof output', async () => {
+        executeStub.resolves('4321 4350');
+        assert.deepStrictEqual(await adbClient.getPidsForPackage('device1', 'com.example.app'), [4321, 4350]);
+        assert.strictEqual(await adbClient.getPidForPackage('device1', 'com.example.app'), '4321');
+        executeStub.rejects(new Error('ADB Error: Command failed'));
+        assert.deepStrictEqual(await adbClient.getPidsForPackage('device1', 'com.example.app'), []);
+        assert.strictEqual(await adbClient.getPidForPackage('device1', 'com.example.app'), undefined);
+    });
+
+    test('inputText quotes the text and encodes spaces', async () => {
+        executeStub.resolves('');
+        await adbClient.inputText('device1', "it's a test");
+        assert.deepStrictEqual(executeStub.firstCall.args[0], ['-s', 'device1', 'shell', "input text 'it'\\''s%sa%stest' 2>&1"]);
+    });
+
+    test('typeText types each line and presses ENTER between them', async () => {
+        executeStub.resolves('');
+        await adbClient.typeText('device1', 'a b\nc');
+        assert.deepStrictEqual(executeStub.getCalls().map(call => call.args[0]), [
+            ['-s', 'device1', 'shell', "input text 'a%sb' 2>&1"],
+            ['-s', 'device1', 'shell', 'input keyevent 66 2>&1'],
+            ['-s', 'device1', 'shell', "input text 'c' 2>&1"]
+        ]);
+    });
+
+    test('input commands throw the input tool error', async () => {
+        executeStub.resolves('Error: Unknown command: tapp\nUsage: input [<source>] <command> [<arg>...]');
+        await assert.rejects(adbClient.inputTap('device1', 10, 20), /Unknown command: tapp$/);
+    });
+
+    test('sendIntent throws when am cannot resolve the intent', async () => {
+        executeStub.resolves('Starting: Intent { act=android.intent.action.VIEW dat=myapp://x }\n'
+            + 'Error: Activity not started, unable to resolve Intent { act=android.intent.action.VIEW dat=myapp://x flg=0x10000000 }\n');
+        await assert.rejects(
+            adbClient.sendIntent('device1', { command: 'start', action: 'android.intent.action.VIEW', data: 'myapp://x' }),
+            /unable to resolve Intent/
+        );
+        assert.deepStrictEqual(executeStub.firstCall.args[0], ['-s', 'device1', 'shell', "am start -a 'android.intent.action.VIEW' -d 'myapp://x' 2>&1"]);
+    });
+
+    test('executeShellCommandWithStatus returns the output and exit status', async () => {
+        executeStub.resolves('ls: /nope: No such file or directory\n__adb_pro_exit=1');
+        const result = await adbClient.executeShellCommandWithStatus('emulator-5554', 'ls /nope');
+        assert.deepStrictEqual(result, { output: 'ls: /nope: No such file or directory', exitCode: 1 });
+        assert.deepStrictEqual(executeStub.firstCall.args[0], ['-s', 'emulator-5554', 'shell', '(\nls /nope\n); echo "__adb_pro_exit=$?"']);
+    });
+
+    test('reverse validates the sockets', async () => {
+        executeStub.resolves('');
+        await adbClient.reverse('emulator-5554', 'tcp:8081', 'tcp:8081');
+        assert.strictEqual(executeStub.firstCall.args[0], '-s emulator-5554 reverse tcp:8081 tcp:8081');
+        await assert.rejects(adbClient.reverse('emulator-5554', 'tcp:8081; reboot', 'tcp:8081'), /Invalid socket/);
+    });
+
+    test('forward commands use the CLI syntax', async () => {
+        executeStub.resolves('emulator-5554 tcp:8700 jdwp:1234\nR58M123 tcp:9222 tcp:9222');
+        await adbClient.forward('emulator-5554', 'tcp:8700', 'jdwp:1234');
+        await adbClient.removeForward('emulator-5554', 'tcp:8700');
+        const forwards = await adbClient.listForwards('R58M123');
+        assert.deepStrictEqual(executeStub.args.map(args => args[0]), [
+            '-s emulator-5554 forward tcp:8700 jdwp:1234',
+            '-s emulator-5554 forward --remove tcp:8700',
+            'forward --list'
+        ]);
+        assert.deepStrictEqual(forwards, [{ kind: 'forward', local: 'tcp:9222', remote: 'tcp:9222' }]);
+    });
 });
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { AdbClient } from '../../adbClient';
+import { AdbFileSystemProvider, toDeviceUri, toFileType } from '../../adbFileSystemProvider';
+
+suite('ADB File System Provider Test Suite', () => {
+    const missing = { mode: 0, size: 0, mtime: 0 };
+    let adbClient: {
+        statFile: sinon.SinonStub;
+        listDirectory: sinon.SinonStub;
+        writeFile: sinon.SinonStub;
+        renameFile: sinon.SinonStub;
+    };
+    let provider: AdbFileSystemProvider;
+
+    setup(() => {
+        adbClient = {
+            statFile: sinon.stub().resolves(missing),
+            listDirectory: sinon.stub().resolves([]),
+            writeFile: sinon.stub().resolves(),
+            renameFile: sinon.stub().resolves()
+        };
+        provider = new AdbFileSystemProvider(adbClient as unknown as AdbClient);
+    });
+
+    teardown(() => {
+        provider.dispose();
+        sinon.restore();
+    });
+
+    test('toFileType maps the file type bits', () => {
+        assert.strictEqual(toFileType(0o040755), vscode.FileType.Directory);
+        assert.strictEqual(toFileType(0o100644), vscode.FileType.File);
+        assert.strictEqual(toFileType(0o120777), vscode.FileType.SymbolicLink);
+        assert.strictEqual(toFileType(0o140777), vscode.FileType.Unknown);
+    });
+
+    test('toDeviceUri puts the serial in the authority', () => {
+        const uri = toDeviceUri('192.168.1.20:5555', '/sdcard/Download');
+        assert.strictEqual(uri.scheme, 'adb');
+        assert.strictEqual(uri.authority, '192.168.1.20:5555');
+        assert.strictEqual(uri.path, '/sdcard/Download');
+    });
+
+    test('stat follows symbolic links to directories', async () => {
+        adbClient.statFile.withArgs('emulator-5554', '/sdcard').resolves({ mode: 0o120777, size: 21, mtime: 1700000000 });
+        adbClient.statFile.withArgs('emulator-5554', '/sdcard/').resolves({ mode: 0o040771, size: 4096, mtime: 1700000000 });
+        const stat = await provider.stat(toDeviceUri('emulator-5554', '/sdcard'));
+        assert.strictEqual(stat.type, vscode.FileType.SymbolicLink | vscode.FileType.Directory);
+        assert.strictEqual(stat.mtime, 1700000000000);
+    });
+
+    test('stat and readDirectory report missing paths', async () => {
+        const uri = toDeviceUri('emulator-5554', '/data/missing');
+        await assert.rejects(provider.stat(uri), { code: 'FileNotFound' });
+        await assert.rejects(provider.readDirectory(uri), { code: 'FileNotFound' });
+    });
+
+    test('writeFile keeps the permissions of the file it replaces', async () => {
+        const uri = toDeviceUri('emulator-5554', '/data/local/tmp/run.sh');
+        adbClient.statFile.resolves({ mode: 0o100755, size: 10, mtime: 1700000000 });
+        await assert.rejects(provider.writeFile(uri, Buffer.from('x'), { create: true, overwrite: false }), { code: 'FileExists' });
+
+        await provider.writeFile(uri, Buffer.from('x'), { create: true, overwrite: true });
+        assert.strictEqual(adbClient.writeFile.firstCall.args[3], 0o755);
+    });
+
+    test('converts device errors to file system errors', async () => {
+        adbClient.statFile.rejects(new Error('remote stat failed: Permission denied'));
+        await assert.rejects(provider.stat(toDeviceUri('emulator-5554', '/data/data')), { code: 'NoPermissions' });
+        adbClient.statFile.rejects(new Error("device 'R58M123' not found"));
+        await assert.rejects(provider.stat(toDeviceUri('R58M123', '/sdcard')), { code: 'Unavailable' });
+    });
+
+    test('rename refuses to move files between devices', async () => {
+        await assert.rejects(provider.rename(
+            toDeviceUri('emulator-5554', '/sdcard/a.txt'),
+            toDeviceUri('R58M123', '/sdcard/a.txt'),
+            { overwrite: false }
+        ), { code: 'NoPermissions' });
+        assert.ok(adbClient.renameFile.notCalled);
+    });
+});
@@ -0,0 +1,194 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { AdbProtocolError, AdbServerClient, AdbServerUnavailableError, encodeRequest } from '../../adbProtocol';
+
+/**
+ * Minimal fake ADB server. Each connection reads smart-socket requests and
+ * lets the handler write responses until it closes the socket.
+ */
+function startFakeServer(handler: (request: string, socket: net.Socket) => void): Promise<net.Server> {
+    const server = net.createServer(socket => {
+        let buffer = Buffer.alloc(0);
+        socket.on('data', chunk => {
+            buffer = Buffer.concat([buffer, chunk]);
+            while (buffer.length >= 4) {
+                const length = parseInt(buffer.toString('ascii', 0, 4), 16);
+                if (isNaN(length) || buffer.length < 4 + length) {
+                    return;
+                }
+                const request = buffer.toString('utf-8', 4, 4 + length);
+                buffer = buffer.subarray(4 + length);
+                handler(request, socket);
+            }
+        });
+        socket.on('error', () => { /* client closed */ });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function okayWithPayload(payload: string): Buffer {
+    return Buffer.concat([Buffer.from('OKAY'), encodeRequest(payload)]);
+}
+
+suite('AdbProtocol Test Suite', () => {
+    let server: net.Server | undefined;
+
+    teardown(() => {
+        server?.close();
+        server = undefined;
+    });
+
+    const clientFor = (s: net.Server) => new AdbServerClient('127.0.0.1', (s.address() as net.AddressInfo).port);
+
+    test('encodeRequest prefixes the payload with its hex length', () => {
+        assert.strictEqual(encodeRequest('host:version').toString(), '000chost:version');
+    });
+
+    test('hostQuery returns the length-prefixed payload', async () => {
+        server = await startFakeServer((request, socket) => {
+            assert.strictEqual(request, 'host:devices-l');
+            socket.end(okayWithPayload('emulator-5554 device transport_id:1\n'));
+        });
+        const output = await clientFor(server).hostQuery('host:devices-l');
+        assert.strictEqual(output, 'emulator-5554 device transport_id:1\n');
+    });
+
+    test('FAIL responses raise AdbProtocolError with the server message', async () => {
+        server = await startFakeServer((_request, socket) => {
+            socket.end(Buffer.concat([Buffer.from('FAIL'), encodeRequest("device 'abc' not found")]));
+        });
+        await assert.rejects(
+            clientFor(server).shell('abc', 'ls'),
+            (e: Error) => e instanceof AdbProtocolError && e.message === "device 'abc' not found"
+        );
+    });
+
+    test('shell switches transport and returns the command output', async () => {
+        const requests: string[] = [];
+        server = await startFakeServer((request, socket) => {
+            requests.push(request);
+            if (request.startsWith('host:transport:')) {
+                socket.write('OKAY');
+            } else {
+                socket.write('OKAY');
+                socket.end('hello\n');
+            }
+        });
+        const output = await clientFor(server).shell('emulator-5554', 'echo hello');
+        assert.deepStrictEqual(requests, ['host:transport:emulator-5554', 'shell:echo hello']);
+        assert.strictEqual(output, 'hello\n');
+    });
+
+    test('pull writes sync DATA packets to the local file', async () => {
+        server = await startFakeServer((request, socket) => {
+            socket.write('OKAY');
+            if (request === 'sync:') {
+                const data = Buffer.from('file contents');
+                const header = Buffer.alloc(8);
+                header.write('DATA', 0, 'ascii');
+                header.writeUInt32LE(data.length, 4);
+                const done = Buffer.alloc(8);
+                done.write('DONE', 0, 'ascii');
+                socket.end(Buffer.concat([header, data, done]));
+            }
+        });
+        const localPath = path.join(os.tmpdir(), `adb-pro-pull-${Date.now()}.txt`);
+        try {
+            await clientFor(server).pull('emulator-5554', '/sdcard/file.txt', localPath);
+            assert.strictEqual(fs.readFileSync(localPath, 'utf-8'), 'file contents');
+        } finally {
+            fs.rmSync(localPath, { force: true });
+        }
+    });
+
+    test('pull rejects when the local file cannot be written', async () => {
+        server = await startFakeServer((request, socket) => {
+            socket.write('OKAY');
+            if (request === 'sync:') {
+                const data = Buffer.alloc(256 * 1024);
+                const header = Buffer.alloc(8);
+                header.write('DATA', 0, 'ascii');
+                header.writeUInt32LE(data.length, 4);
+                const done = Buffer.alloc(8);
+                done.write('DONE', 0, 'ascii');
+                socket.end(Buffer.concat([header, data, done]));
+            }
+        });
+        const localPath = path.join(os.tmpdir(), `adb-pro-missing-${Date.now()}`, 'file.txt');
+        await assert.rejects(clientFor(server).pull('emulator-5554', '/sdcard/file.txt', localPath), /ENOENT/);
+    });
+
+    test('failed pull leaves an existing local file untouched', async () => {
+        server = await startFakeServer((request, socket) => {
+            socket.write('OKAY');
+            if (request === 'sync:') {
+                const message = Buffer.from('No such file or directory');
+                const header = Buffer.alloc(8);
+                header.write('FAIL', 0, 'ascii');
+                header.writeUInt32LE(message.length, 4);
+                socket.end(Buffer.concat([header, message]));
+            }
+        });
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'adb-pro-pull-'));
+        const localPath = path.join(directory, 'file.txt');
+        fs.writeFileSync(localPath, 'keep me');
+        try {
+            await assert.rejects(clientFor(server).pull('emulator-5554', '/sdcard/missing.txt', localPath), AdbProtocolError);
+            assert.strictEqual(fs.readFileSync(localPath, 'utf-8'), 'keep me');
+            assert.deepStrictEqual(fs.readdirSync(directory), ['file.txt']);
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    test('stat reads mode, size and mtime from the sync STAT response', async () => {
+        server = await startFakeServer((request, socket) => {
+            socket.write('OKAY');
+            if (request === 'sync:') {
+                const response = Buffer.alloc(16);
+                response.write('STAT', 0, 'ascii');
+                response.writeUInt32LE(0o100644, 4);
+                response.writeUInt32LE(42, 8);
+                response.writeUInt32LE(1700000000, 12);
+                socket.end(response);
+            }
+        });
+        const stat = await clientFor(server).stat('emulator-5554', '/sdcard/file.txt');
+        assert.deepStrictEqual(stat, { mode: 0o100644, size: 42, mtime: 1700000000 });
+    });
+
+    test('list collects DENT entries until DONE and skips . and ..', async () => {
+        const dent = (name: string, mode: number) => {
+            const header = Buffer.alloc(20);
+            header.write('DENT', 0, 'ascii');
+            header.writeUInt32LE(mode, 4);
+            header.writeUInt32LE(7, 8);
+            header.writeUInt32LE(1700000000, 12);
+            header.writeUInt32LE(Buffer.byteLength(name), 16);
+            return Buffer.concat([header, Buffer.from(name)]);
+        };
+        server = await startFakeServer((request, socket) => {
+            socket.write('OKAY');
+            if (request === 'sync:') {
+                const done = Buffer.alloc(20);
+                done.write('DONE', 0, 'ascii');
+                socket.end(Buffer.concat([dent('.', 0o40755), dent('..', 0o40755), dent('Download', 0o40771), dent('notes.txt', 0o100660), done]));
+            }
+        });
+        const entries = await clientFor(server).list('emulator-5554', '/sdcard');
+        assert.deepStrictEqual(entries.map(e => [e.name, e.mode]), [['Download', 0o40771], ['notes.txt', 0o100660]]);
+    });
+
+    test('unreachable server raises AdbServerUnavailableError', async () => {
+        const probe = await startFakeServer(() => undefined);
+        const port = (probe.address() as net.AddressInfo).port;
+        await new Promise(resolve => probe.close(resolve));
+        await assert.rejects(
+            new AdbServerClient('127.0.0.1', port).hostQuery('host:version'),
+            (e: Error) => e instanceof AdbServerUnavailableError
+        );
+    });
+});
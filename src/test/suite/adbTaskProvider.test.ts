@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { AdbClient } from '../../adbClient';
+import { AdbTaskDefinition, AdbTaskProvider, validateAdbTask } from '../../adbTaskProvider';
+import { TargetAppManager } from '../../appManager';
+
+suite('ADB Task Provider Test Suite', () => {
+    const task = (definition: Partial<AdbTaskDefinition>) => ({ type: 'adb', ...definition }) as AdbTaskDefinition;
+
+    test('accepts complete definitions', () => {
+        assert.strictEqual(validateAdbTask(task({ action: 'install', apk: 'app/build/outputs/apk/debug/app-debug.apk' })), undefined);
+        assert.strictEqual(validateAdbTask(task({ action: 'shell', command: 'getprop ro.build.version.sdk' })), undefined);
+        assert.strictEqual(validateAdbTask(task({ action: 'reverse', remote: 'tcp:8081' })), undefined);
+    });
+
+    test('uses the target app when the package is left out', () => {
+        assert.strictEqual(validateAdbTask(task({ action: 'start' }), 'com.example.app'), undefined);
+        assert.strictEqual(validateAdbTask(task({ action: 'start' })), 'The start action needs "package" or a target app');
+        assert.strictEqual(validateAdbTask(task({ action: 'grant' })), 'The grant action needs "package" and "permission" or a target app');
+        assert.strictEqual(validateAdbTask(task({ action: 'grant' }), 'com.example.app'), 'The grant action needs "permission"');
+    });
+
+    test('rejects unknown actions', () => {
+        assert.match(validateAdbTask(task({ action: 'reboot' as any }))!, /^Unknown action "reboot". Use one of: install, uninstall/);
+    });
+
+    test('exits with 1 when ADB fails', async () => {
+        const adbClient = { getConnectedDevices: sinon.stub().rejects(new Error('adb server is not running')) };
+        const targetAppManager = { getSelectedApp: () => 'com.example.app' };
+        const provider = new AdbTaskProvider(adbClient as unknown as AdbClient, targetAppManager as unknown as TargetAppManager);
+        const definition = task({ action: 'start' });
+        const resolved = provider.resolveTask(new vscode.Task(definition, vscode.TaskScope.Workspace, 'start', 'adb'))!;
+
+        // CustomExecution keeps the callback VS Code calls when the task starts
+        const execution = resolved.execution as unknown as { callback: (resolved: vscode.TaskDefinition) => Promise<vscode.Pseudoterminal> };
+        const terminal = await execution.callback(definition);
+        const output: string[] = [];
+        terminal.onDidWrite(text => output.push(text));
+        const exitCode = await new Promise<number | void>(resolve => {
+            terminal.onDidClose!(resolve);
+            terminal.open(undefined);
+        });
+
+        assert.strictEqual(exitCode, 1);
+        assert.deepStrictEqual(output, ['Error: adb server is not running\r\n']);
+    });
+});
@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip = require('jszip');
+import { DeviceSpec, installFlags, listArchiveApks, openInstallSource, parseDeviceSpec, selectSplits } from '../../apkInstall';
+
+suite('APK Install Test Suite', () => {
+    const pixel: DeviceSpec = { abis: ['arm64-v8a', 'armeabi-v7a', 'armeabi'], density: 420, locales: ['fr-FR'] };
+
+    test('builds install flags', () => {
+        assert.deepStrictEqual(installFlags(), ['-r']);
+        assert.deepStrictEqual(
+            installFlags({ grantPermissions: true, allowDowngrade: true, allowTestPackages: true, user: '10' }),
+            ['-r', '-g', '-d', '-t', '--user', '10']
+        );
+        assert.throws(() => installFlags({ user: '0; reboot' }), /Invalid user/);
+    });
+
+    test('parses the device spec from getprop', () => {
+        assert.deepStrictEqual(parseDeviceSpec('arm64-v8a,armeabi-v7a,armeabi\narm64-v8a\n420\nfr-FR\nen-US\n'), {
+            abis: ['arm64-v8a', 'armeabi-v7a', 'armeabi'], density: 420, locales: ['fr-FR', 'en-US']
+        });
+        // Android 4.x has no ABI list and may not set the locale
+        assert.deepStrictEqual(parseDeviceSpec('\nx86\n240\n\n\n'), { abis: ['x86'], density: 240, locales: [] });
+    });
+
+    test('selects the bundletool splits a device needs', () => {
+        const { selected, skipped } = selectSplits([
+            'splits/base-master.apk',
+            'splits/base-arm64_v8a.apk',
+            'splits/base-armeabi_v7a.apk',
+            'splits/base-x86_64.apk',
+            'splits/base-hdpi.apk',
+            'splits/base-xxhdpi.apk',
+            'splits/base-xxxhdpi.apk',
+            'splits/base-en.apk',
+            'splits/base-fr.apk',
+            'splits/camera-master.apk',
+            'splits/camera-arm64_v8a.apk',
+            'splits/camera-x86.apk'
+        ], pixel);
+        assert.deepStrictEqual(selected, [
+            'splits/base-master.apk',
+            'splits/base-arm64_v8a.apk',
+            'splits/base-xxhdpi.apk',
+            'splits/base-fr.apk',
+            'splits/camera-master.apk',
+            'splits/camera-arm64_v8a.apk'
+        ]);
+        assert.strictEqual(skipped.length, 6);
+    });
+
+    test('selects config splits pulled from a device or packed in an .xapk', () => {
+        assert.deepStrictEqual(selectSplits([
+            'base.apk',
+            'split_config.armeabi_v7a.apk',
+            'split_config.x86.apk',
+            'split_config.mdpi.apk',
+            'split_config.xhdpi.apk'
+        ], { abis: ['x86_64', 'x86'], density: 800, locales: [] }).selected, [
+            'base.apk',
+            'split_config.x86.apk',
+            'split_config.xhdpi.apk'
+        ]);
+        assert.deepStrictEqual(selectSplits(
+            ['com.example.app.apk', 'config.arm64_v8a.apk', 'config.en.apk', 'config.de.apk'],
+            { abis: ['arm64-v8a'], locales: [] }
+        ).selected, ['com.example.app.apk', 'config.arm64_v8a.apk', 'config.en.apk', 'config.de.apk']);
+    });
+
+    test('keeps hyphenated APK names that are not bundletool splits', () => {
+        assert.deepStrictEqual(selectSplits(
+            ['my-app.apk', 'demo-dev.apk', 'split_config.de.apk'],
+            { abis: ['arm64-v8a'], locales: ['en-US'] }
+        ), { selected: ['my-app.apk', 'demo-dev.apk'], skipped: ['split_config.de.apk'] });
+    });
+
+    test('lists the APKs to choose from in an archive', () => {
+        assert.deepStrictEqual(
+            listArchiveApks(['toc.pb', 'splits/', 'splits/base-master.apk', 'standalones/standalone-x86.apk', 'universal.apk']),
+            ['splits/base-master.apk']
+        );
+        assert.deepStrictEqual(listArchiveApks(['toc.pb', 'universal.apk']), ['universal.apk']);
+        assert.deepStrictEqual(
+            listArchiveApks(['manifest.json', 'icon.png', 'com.example.app.apk', 'config.en.apk', 'Android/obb/com.example.app/main.1.com.example.app.obb']),
+            ['com.example.app.apk', 'config.en.apk']
+        );
+    });
+
+    test('extracts the splits each device needs from an .apks archive once and cleans them up', async () => {
+        const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'adb-pro-test-'));
+        try {
+            const zip = new JSZip();
+            zip.file('toc.pb', '');
+            zip.file('splits/base-master.apk', 'master');
+            zip.file('splits/base-arm64_v8a.apk', 'arm64');
+            zip.file('splits/base-x86.apk', 'x86');
+            const archive = path.join(dir, 'app.apks');
+            await fs.promises.writeFile(archive, await zip.generateAsync({ type: 'nodebuffer' }));
+
+            const installSource = await openInstallSource([archive]);
+            const [phone, emulator] = await Promise.all([
+                installSource.prepare(pixel),
+                installSource.prepare({ abis: ['x86'], locales: [] })
+            ]);
+            assert.deepStrictEqual(phone.apkPaths.map(apkPath => path.basename(apkPath)), ['base-master.apk', 'base-arm64_v8a.apk']);
+            assert.deepStrictEqual(phone.skipped, ['splits/base-x86.apk']);
+            assert.strictEqual(await fs.promises.readFile(phone.apkPaths[1], 'utf-8'), 'arm64');
+            assert.deepStrictEqual(emulator.skipped, ['splits/base-arm64_v8a.apk']);
+            assert.strictEqual(emulator.apkPaths[0], phone.apkPaths[0]);
+
+            await installSource.dispose();
+            assert.ok(!fs.existsSync(phone.apkPaths[0]));
+            assert.ok(!fs.existsSync(emulator.apkPaths[1]));
+        } finally {
+            await fs.promises.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
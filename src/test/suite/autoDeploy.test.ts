@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { AdbClient } from '../../adbClient';
+import { TargetAppManager } from '../../appManager';
+import { AutoDeployer } from '../../autoDeploy';
+
+suite('AutoDeployer Test Suite', () => {
+    let outputDir: string;
+    let adbClient: {
+        getDeviceSpec: sinon.SinonStub;
+        installApk: sinon.SinonStub;
+        killApp: sinon.SinonStub;
+        startApp: sinon.SinonStub;
+    };
+    let deployer: AutoDeployer;
+
+    setup(async () => {
+        outputDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'adb-pro-test-'));
+        await fs.promises.writeFile(path.join(outputDir, 'app-debug.apk'), 'apk');
+        adbClient = {
+            getDeviceSpec: sinon.stub().resolves({ abis: ['arm64-v8a'], locales: [] }),
+            installApk: sinon.stub().resolves('Success'),
+            killApp: sinon.stub().resolves(''),
+            startApp: sinon.stub().resolves('')
+        };
+        const targetAppManager = { getSelectedApp: () => 'com.example.target' };
+        const context = { workspaceState: { get: () => ({ grantPermissions: true }) } };
+        deployer = new AutoDeployer(
+            adbClient as unknown as AdbClient,
+            targetAppManager as unknown as TargetAppManager,
+            context as unknown as vscode.ExtensionContext
+        );
+        deployer.start(['emulator-5554', 'R58M123']);
+    });
+
+    teardown(async () => {
+        deployer.dispose();
+        await fs.promises.rm(outputDir, { recursive: true, force: true });
+    });
+
+    test('installs the APK on every device and restarts the app', async () => {
+        await fs.promises.writeFile(path.join(outputDir, 'output-metadata.json'), JSON.stringify({
+            applicationId: 'com.example.app.debug',
+            elements: [{ type: 'SINGLE', filters: [], outputFile: 'app-debug.apk' }]
+        }));
+        const result = await deployer.deploy(outputDir);
+        assert.strictEqual(result?.packageName, 'com.example.app.debug');
+        assert.deepStrictEqual(result?.results.map(r => r.deviceId), ['emulator-5554', 'R58M123']);
+        assert.ok(result?.results.every(r => r.value === 'Installed app-debug.apk and restarted com.example.app.debug'));
+        assert.deepStrictEqual(adbClient.installApk.firstCall.args, ['emulator-5554', path.join(outputDir, 'app-debug.apk'), { grantPermissions: true }]);
+        assert.ok(adbClient.killApp.calledWith('R58M123', 'com.example.app.debug'));
+        assert.ok(adbClient.startApp.calledAfter(adbClient.killApp));
+    });
+
+    test('falls back to the target app and skips APKs it deployed before', async () => {
+        const result = await deployer.deploy(outputDir);
+        assert.strictEqual(result?.packageName, 'com.example.target');
+        assert.strictEqual(await deployer.deploy(outputDir), undefined);
+        assert.strictEqual(adbClient.installApk.callCount, 2);
+    });
+
+    test('does not deploy APKs marked as deployed', async () => {
+        await deployer.markDeployed([path.join(outputDir, 'app-debug.apk')]);
+        assert.strictEqual(await deployer.deploy(outputDir), undefined);
+        assert.ok(adbClient.installApk.notCalled);
+    });
+
+    test('reports devices that none of the APKs supports', async () => {
+        await fs.promises.writeFile(path.join(outputDir, 'output-metadata.json'), JSON.stringify({
+            elements: [{ type: 'ONE_OF_MANY', filters: [{ filterType: 'ABI', value: 'x86_64' }], outputFile: 'app-debug.apk' }]
+        }));
+        const result = await deployer.deploy(outputDir);
+        assert.ok(result?.results.every(r => r.error?.includes('ABIs')));
+        assert.ok(adbClient.installApk.notCalled);
+    });
+});
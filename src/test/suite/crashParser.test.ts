@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { CrashLogParser, ParsedCrash, traceMatchesProcess } from '../../crashParser';
+import { parseLogcatLine } from '../../logcatParser';
+
+function parseAll(lines: string[]): ParsedCrash[] {
+    const crashes: ParsedCrash[] = [];
+    const parser = new CrashLogParser(crash => crashes.push(crash));
+    lines.forEach(line => parser.push(parseLogcatLine(line)!));
+    parser.flush();
+    return crashes;
+}
+
+suite('CrashParser Test Suite', () => {
+    test('detects a Java crash with package, title and stack', () => {
+        const crashes = parseAll([
+            '10-27 12:00:00.100  4321  4321 E AndroidRuntime: FATAL EXCEPTION: main',
+            '10-27 12:00:00.100  4321  4321 E AndroidRuntime: Process: com.example.app, PID: 4321',
+            '10-27 12:00:00.101  1000  1000 I SomethingElse: unrelated',
+            '10-27 12:00:00.101  4321  4321 E AndroidRuntime: java.lang.IllegalStateException: boom',
+            '10-27 12:00:00.101  4321  4321 E AndroidRuntime: \tat com.example.app.MainActivity.onCreate(MainActivity.kt:42)'
+        ]);
+        assert.strictEqual(crashes.length, 1);
+        assert.strictEqual(crashes[0].type, 'crash');
+        assert.strictEqual(crashes[0].packageName, 'com.example.app');
+        assert.strictEqual(crashes[0].pid, 4321);
+        assert.strictEqual(crashes[0].title, 'java.lang.IllegalStateException: boom');
+        assert.strictEqual(crashes[0].lines.length, 4);
+    });
+
+    test('detects a native crash from a debuggerd dump', () => {
+        const crashes = parseAll([
+            '10-27 12:00:00.100  5000  5000 F DEBUG   : *** *** *** *** *** *** *** *** *** *** *** *** *** *** *** ***',
+            '10-27 12:00:00.100  5000  5000 F DEBUG   : pid: 4321, tid: 4321, name: example.app  >>> com.example.app <<<',
+            '10-27 12:00:00.100  5000  5000 F DEBUG   : signal 11 (SIGSEGV), code 1 (SEGV_MAPERR), fault addr 0x0'
+        ]);
+        assert.strictEqual(crashes.length, 1);
+        assert.strictEqual(crashes[0].type, 'native');
+        assert.strictEqual(crashes[0].packageName, 'com.example.app');
+        assert.strictEqual(crashes[0].pid, 4321);
+        assert.strictEqual(crashes[0].title, 'signal 11 (SIGSEGV), code 1 (SEGV_MAPERR), fault addr 0x0');
+    });
+
+    test('detects an ANR and stops collecting after the report window', () => {
+        const crashes = parseAll([
+            '10-27 12:00:00.100  1500  1600 E ActivityManager: ANR in com.example.app:remote (com.example.app/.MainActivity)',
+            '10-27 12:00:00.100  1500  1600 E ActivityManager: PID: 4321',
+            '10-27 12:00:00.100  1500  1600 E ActivityManager: Reason: Input dispatching timed out',
+            '10-27 12:00:09.000  1500  1600 E ActivityManager: later, unrelated message'
+        ]);
+        assert.strictEqual(crashes.length, 1);
+        assert.strictEqual(crashes[0].type, 'anr');
+        assert.strictEqual(crashes[0].packageName, 'com.example.app');
+        assert.strictEqual(crashes[0].pid, 4321);
+        assert.strictEqual(crashes[0].title, 'Reason: Input dispatching timed out');
+        assert.strictEqual(crashes[0].lines.length, 3);
+    });
+
+    test('traceMatchesProcess checks the PID or process of tombstones and ANR traces', () => {
+        const tombstone = 'Build fingerprint: x\nABI: arm64\npid: 4321, tid: 4321, name: main  >>> com.example.app <<<\nsignal 11 (SIGSEGV)';
+        assert.ok(traceMatchesProcess(tombstone, 'com.example.app', 4321));
+        assert.ok(!traceMatchesProcess(tombstone, 'com.example.app', 9999));
+        assert.ok(traceMatchesProcess(tombstone, 'com.example.app'));
+        assert.ok(!traceMatchesProcess(tombstone, 'com.other.app'));
+
+        const anr = '\n----- pid 4321 at 2024-10-27 12:00:00 -----\nCmd line: com.example.app:remote\n';
+        assert.ok(traceMatchesProcess(anr, 'com.example.app', 4321));
+        assert.ok(traceMatchesProcess(anr, 'com.example.app'));
+        assert.ok(!traceMatchesProcess('unrelated', 'com.example.app', 4321));
+    });
+});
@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import { AdbClient, ConnectedDevice } from '../../adbClient';
+import { DeviceWatcher } from '../../deviceWatcher';
+
+/**
+ * A track-devices stream the test feeds by hand.
+ */
+class FakeStream {
+    private dataListener: ((chunk: Buffer) => void) | undefined;
+    private closeListener: (() => void) | undefined;
+    closed = false;
+
+    onData(listener: (chunk: Buffer) => void) {
+        this.dataListener = listener;
+    }
+
+    onClose(listener: () => void) {
+        this.closeListener = listener;
+    }
+
+    close() {
+        this.closed = true;
+    }
+
+    emit(text: string) {
+        this.dataListener?.(Buffer.from(text));
+    }
+
+    end() {
+        this.closeListener?.();
+    }
+}
+
+suite('DeviceWatcher Test Suite', () => {
+    const emulator: ConnectedDevice = { id: 'emulator-5554', type: 'device', connectionType: 'wired' };
+    let clock: sinon.SinonFakeTimers;
+    let adbClient: { trackDevices: sinon.SinonStub; getConnectedDevices: sinon.SinonStub };
+    let watcher: DeviceWatcher;
+    let updates: ConnectedDevice[][];
+
+    setup(() => {
+        clock = sinon.useFakeTimers();
+        adbClient = {
+            trackDevices: sinon.stub(),
+            getConnectedDevices: sinon.stub().resolves([emulator])
+        };
+        watcher = new DeviceWatcher(adbClient as unknown as AdbClient);
+        updates = [];
+        watcher.onDidChangeDevices(devices => updates.push(devices));
+    });
+
+    teardown(() => {
+        watcher.dispose();
+        clock.restore();
+        sinon.restore();
+    });
+
+    test('debounces bursts of device changes into one update', async () => {
+        const stream = new FakeStream();
+        adbClient.trackDevices.resolves(stream);
+        await watcher.start();
+
+        stream.emit('0019\temulator-5554\toffline\n');
+        await clock.tickAsync(200);
+        stream.emit('0018\temulator-5554\tdevice\n');
+        await clock.tickAsync(200);
+        assert.strictEqual(adbClient.getConnectedDevices.callCount, 0);
+
+        await clock.tickAsync(100);
+        assert.strictEqual(adbClient.getConnectedDevices.callCount, 1);
+        assert.deepStrictEqual(updates, [[emulator]]);
+    });
+
+    test('only notifies when the device list changed', async () => {
+        const stream = new FakeStream();
+        adbClient.trackDevices.resolves(stream);
+        await watcher.start();
+
+        stream.emit('x');
+        await clock.tickAsync(300);
+        stream.emit('x');
+        await clock.tickAsync(300);
+        assert.strictEqual(adbClient.getConnectedDevices.callCount, 2);
+        assert.strictEqual(updates.length, 1);
+
+        watcher.refresh();
+        await clock.tickAsync(300);
+        assert.strictEqual(updates.length, 2);
+    });
+
+    test('reconnects with a growing delay while the server is down', async () => {
+        adbClient.trackDevices.rejects(new Error('Connection refused'));
+        await watcher.start();
+        assert.strictEqual(adbClient.trackDevices.callCount, 1);
+
+        await clock.tickAsync(1000);
+        assert.strictEqual(adbClient.trackDevices.callCount, 2);
+        await clock.tickAsync(1999);
+        assert.strictEqual(adbClient.trackDevices.callCount, 2);
+        await clock.tickAsync(1);
+        assert.strictEqual(adbClient.trackDevices.callCount, 3);
+        await clock.tickAsync(4000 + 8000 + 15000);
+        assert.strictEqual(adbClient.trackDevices.callCount, 6);
+        await clock.tickAsync(15000);
+        assert.strictEqual(adbClient.trackDevices.callCount, 7);
+    });
+
+    test('reconnects after the server closes the stream and resets the delay', async () => {
+        const first = new FakeStream();
+        const second = new FakeStream();
+        adbClient.trackDevices.onFirstCall().rejects(new Error('Connection refused'));
+        adbClient.trackDevices.onSecondCall().resolves(first);
+        adbClient.trackDevices.onThirdCall().resolves(second);
+        await watcher.start();
+        await clock.tickAsync(1000);
+        assert.strictEqual(adbClient.trackDevices.callCount, 2);
+
+        // Back to the shortest delay after a successful connection
+        adbClient.getConnectedDevices.resolves([]);
+        first.end();
+        await clock.tickAsync(1000);
+        assert.strictEqual(adbClient.trackDevices.callCount, 3);
+        assert.deepStrictEqual(updates, [[]]);
+    });
+
+    test('stops reconnecting and closes the stream when disposed', async () => {
+        const stream = new FakeStream();
+        adbClient.trackDevices.resolves(stream);
+        await watcher.start();
+        watcher.dispose();
+        assert.ok(stream.closed);
+
+        stream.end();
+        await clock.tickAsync(60000);
+        assert.strictEqual(adbClient.trackDevices.callCount, 1);
+        assert.strictEqual(updates.length, 0);
+    });
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import {
+    assembleTask,
+    isAndroidAppBuildFile,
+    listVariants,
+    parseAndroidAppConfig,
+    parseIncludedModules,
+    parseOutputMetadata,
+    pickOutputApk
+} from '../../gradleProject';
+
+suite('Gradle Project Test Suite', () => {
+    const groovy = `
+        plugins {
+            id 'com.android.application'
+        }
+
+        android {
+            namespace 'com.example.app'
+            defaultConfig {
+                applicationId "com.example.app"
+                minSdk 24
+            }
+            buildTypes {
+                debug {
+                    applicationIdSuffix ".debug"
+                }
+                release {
+                    minifyEnabled true
+                    proguardFiles getDefaultProguardFile('proguard-android-optimize.txt')
+                }
+                // staging { applicationIdSuffix ".old" }
+                staging {
+                    initWith debug
+                    applicationIdSuffix '.staging'
+                }
+            }
+            flavorDimensions "tier", "env"
+            productFlavors {
+                free {
+                    dimension "tier"
+                    applicationIdSuffix ".free"
+                }
+                paid {
+                    dimension "tier"
+                }
+                prod {
+                    dimension "env"
+                }
+            }
+        }
+
+        dependencies {
+            implementation 'androidx.core:core-ktx:1.12.0'
+        }
+    `;
+
+    const kotlin = `
+        plugins {
+            alias(libs.plugins.android.application)
+            alias(libs.plugins.kotlin.android)
+        }
+
+        android {
+            namespace = "com.example.kts"
+            defaultConfig {
+                applicationId = "com.example.kts"
+            }
+            buildTypes {
+                getByName("release") {
+                    isMinifyEnabled = true
+                }
+                create("benchmark") {
+                    initWith(getByName("release"))
+                    applicationIdSuffix = ".benchmark"
+                }
+            }
+        }
+    `;
+
+    test('recognizes app modules', () => {
+        assert.ok(isAndroidAppBuildFile(groovy));
+        assert.ok(isAndroidAppBuildFile(kotlin));
+        assert.ok(!isAndroidAppBuildFile(`plugins {\n    id("com.android.library")\n}\n// id("com.android.application")`));
+    });
+
+    test('lists variants of flavors across dimensions', () => {
+        const variants = listVariants(parseAndroidAppConfig(groovy));
+        assert.deepStrictEqual(variants.map(variant => `${variant.name} ${variant.applicationId} ${variant.outputDir}`), [
+            'freeProdDebug com.example.app.free.debug build/outputs/apk/freeProd/debug',
+            'freeProdRelease com.example.app.free build/outputs/apk/freeProd/release',
+            'freeProdStaging com.example.app.free.staging build/outputs/apk/freeProd/staging',
+            'paidProdDebug com.example.app.debug build/outputs/apk/paidProd/debug',
+            'paidProdRelease com.example.app build/outputs/apk/paidProd/release',
+            'paidProdStaging com.example.app.staging build/outputs/apk/paidProd/staging'
+        ]);
+        assert.strictEqual(assembleTask(':app', variants[0]), ':app:assembleFreeProdDebug');
+    });
+
+    test('reads build types declared with the Kotlin DSL', () => {
+        const variants = listVariants(parseAndroidAppConfig(kotlin));
+        assert.deepStrictEqual(variants.map(variant => `${variant.name} ${variant.applicationId}`), [
+            'debug com.example.kts',
+            'release com.example.kts',
+            'benchmark com.example.kts.benchmark'
+        ]);
+        assert.strictEqual(assembleTask(':', variants[0]), ':assembleDebug');
+    });
+
+    test('reads included modules from settings files', () => {
+        assert.deepStrictEqual(parseIncludedModules(`rootProject.name = "Example"\ninclude ':app', ':core:data'\n// include ':old'`), [':app', ':core:data']);
+        assert.deepStrictEqual(parseIncludedModules(`include(":app")\ninclude(":feature:home", ":wear")`), [':app', ':feature:home', ':wear']);
+    });
+
+    test('reads APKs from output metadata and picks one for the device', () => {
+        const metadata = parseOutputMetadata(JSON.stringify({
+            version: 3,
+            artifactType: { type: 'APK', kind: 'Directory' },
+            applicationId: 'com.example.app.debug',
+            variantName: 'debug',
+            elements: [
+                { type: 'ONE_OF_MANY', filters: [{ filterType: 'ABI', value: 'x86_64' }], outputFile: 'app-x86_64-debug.apk' },
+                { type: 'ONE_OF_MANY', filters: [{ filterType: 'ABI', value: 'arm64-v8a' }], outputFile: 'app-arm64-v8a-debug.apk' }
+            ]
+        }));
+        assert.strictEqual(metadata.applicationId, 'com.example.app.debug');
+        assert.strictEqual(pickOutputApk(metadata.apks, ['arm64-v8a', 'armeabi-v7a'])?.file, 'app-arm64-v8a-debug.apk');
+        assert.strictEqual(pickOutputApk(metadata.apks, ['armeabi-v7a']), undefined);
+        assert.deepStrictEqual(pickOutputApk([{ file: 'app-debug.apk' }], ['x86']), { file: 'app-debug.apk' });
+    });
+});
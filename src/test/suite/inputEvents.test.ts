@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { KEYCODES, toInputSteps } from '../../inputEvents';
+
+suite('InputEvents Test Suite', () => {
+    test('KEYCODES includes generated letters, digits and function keys', () => {
+        assert.strictEqual(KEYCODES.get('KEYCODE_0'), 7);
+        assert.strictEqual(KEYCODES.get('KEYCODE_A'), 29);
+        assert.strictEqual(KEYCODES.get('KEYCODE_Z'), 54);
+        assert.strictEqual(KEYCODES.get('KEYCODE_F12'), 142);
+    });
+
+    test('toInputSteps sends line breaks and tabs as key presses', () => {
+        assert.deepStrictEqual(toInputSteps('user@example.com\tsecret\r\n'), [
+            { text: 'user@example.com' },
+            { keyCode: 61 },
+            { text: 'secret' },
+            { keyCode: 66 }
+        ]);
+    });
+
+    test('toInputSteps rejects characters input text cannot type', () => {
+        assert.throws(() => toInputSteps('café ☕'), /Unsupported: "é", "☕"/);
+    });
+});
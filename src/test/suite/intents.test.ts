@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+import {
+    buildAmCommand,
+    extractActivities,
+    extractDeepLinks,
+    normalizeComponent,
+    parseActivityResolverTable,
+    parseStartResult,
+    toComponentName,
+    validateIntent,
+    validateIntentExtra
+} from '../../intents';
+
+suite('Intents Test Suite', () => {
+    test('builds an am start command with quoted arguments', () => {
+        const command = buildAmCommand({
+            command: 'start',
+            action: 'android.intent.action.VIEW',
+            data: 'myapp://item/42?ref=a&b=it\'s',
+            categories: ['android.intent.category.BROWSABLE'],
+            component: 'com.example/.MainActivity'
+        });
+        assert.strictEqual(command, 'am start -a \'android.intent.action.VIEW\' -d \'myapp://item/42?ref=a&b=it\'\\\'\'s\''
+            + ' -c \'android.intent.category.BROWSABLE\' -n \'com.example/.MainActivity\'');
+    });
+
+    test('combines flags and writes typed extras', () => {
+        const command = buildAmCommand({
+            command: 'broadcast',
+            action: 'com.example.REFRESH',
+            packageName: 'com.example',
+            flags: ['FLAG_INCLUDE_STOPPED_PACKAGES', 'FLAG_RECEIVER_FOREGROUND'],
+            extras: [
+                { key: 'id', type: 'int', value: '7' },
+                { key: 'force', type: 'boolean', value: 'true' },
+                { key: 'ids', type: 'intArray', value: '1, 2, 3' },
+                { key: 'note', type: 'null', value: 'ignored' }
+            ]
+        });
+        assert.strictEqual(command, 'am broadcast -a \'com.example.REFRESH\' -p \'com.example\' -f 0x10000020'
+            + ' --ei \'id\' \'7\' --ez \'force\' \'true\' --eia \'ids\' \'1,2,3\' --esn \'note\'');
+    });
+
+    test('validates extras by type', () => {
+        assert.strictEqual(validateIntentExtra({ key: 'n', type: 'int', value: '2147483647' }), undefined);
+        assert.ok(validateIntentExtra({ key: 'n', type: 'int', value: '2147483648' }));
+        assert.strictEqual(validateIntentExtra({ key: 'n', type: 'long', value: '2147483648' }), undefined);
+        assert.ok(validateIntentExtra({ key: 'n', type: 'floatArray', value: '1.5,x' }));
+        assert.ok(validateIntentExtra({ key: 'b', type: 'boolean', value: 'yes' }));
+        assert.ok(validateIntentExtra({ key: '', type: 'string', value: 'a' }));
+    });
+
+    test('rejects intents without a target', () => {
+        assert.deepStrictEqual(validateIntent({ command: 'start' }), ['Set at least an action, a data URI, a component or a package']);
+        assert.throws(() => buildAmCommand({ command: 'start', component: 'MainActivity' }), /package\/class/);
+    });
+
+    test('extracts deep links from VIEW intent filters', () => {
+        const links = extractDeepLinks(`<?xml version="1.0" encoding="utf-8"?>
+            <manifest xmlns:android="http://schemas.android.com/apk/res/android" package="com.example">
+                <application>
+                    <activity android:name=".MainActivity" android:exported="true">
+                        <intent-filter>
+                            <action android:name="android.intent.action.MAIN" />
+                            <category android:name="android.intent.category.LAUNCHER" />
+                        </intent-filter>
+                        <intent-filter android:autoVerify="true">
+                            <action android:name="android.intent.action.VIEW" />
+                            <category android:name="android.intent.category.BROWSABLE" />
+                            <data android:scheme="https" />
+                            <data android:host="example.com" />
+                            <data android:pathPrefix="/items" />
+                        </intent-filter>
+                    </activity>
+                    <!-- <activity android:name=".Disabled"><intent-filter><action android:name="android.intent.action.VIEW" /><data android:scheme="old" /></intent-filter></activity> -->
+                    <activity android:name="com.example.share.OpenActivity">
+                        <intent-filter>
+                            <action android:name="android.intent.action.VIEW" />
+                            <data android:scheme="myapp" android:host="open" />
+                            <data android:scheme="myapp-dev" />
+                        </intent-filter>
+                    </activity>
+                </application>
+            </manifest>`);
+        assert.deepStrictEqual(links.map(link => `${link.activity} ${link.uri}${link.autoVerify ? ' verified' : ''}`), [
+            '.MainActivity https://example.com/items verified',
+            'com.example.share.OpenActivity myapp://open',
+            'com.example.share.OpenActivity myapp-dev://open'
+        ]);
+        assert.strictEqual(links[0].packageName, 'com.example');
+    });
+
+    test('resolves relative activity names against the package', () => {
+        assert.strictEqual(toComponentName('.MainActivity', 'com.example'), 'com.example/.MainActivity');
+        assert.strictEqual(toComponentName('MainActivity', 'com.example'), 'com.example/.MainActivity');
+        assert.strictEqual(toComponentName('com.example.ui.Main', 'com.example'), 'com.example/com.example.ui.Main');
+        assert.strictEqual(toComponentName('.MainActivity'), undefined);
+    });
+
+    test('adds am start options before the intent', () => {
+        assert.strictEqual(
+            buildAmCommand({ command: 'start', component: 'com.example/.SettingsActivity' }, { forceStop: true, wait: true, user: '10' }),
+            'am start -S -W --user 10 -n \'com.example/.SettingsActivity\''
+        );
+        // -W would block until a debugger attaches
+        assert.strictEqual(
+            buildAmCommand({ command: 'start', component: 'com.example/.SettingsActivity' }, { waitForDebugger: true, wait: true }),
+            'am start -D -n \'com.example/.SettingsActivity\''
+        );
+        assert.throws(() => buildAmCommand({ command: 'start', component: 'com.example/.A' }, { user: '0; reboot' }), /Invalid user/);
+    });
+
+    test('parses the timing reported by am start -W', () => {
+        const result = parseStartResult([
+            'Starting: Intent { cmp=com.example/.SettingsActivity }',
+            'Status: ok',
+            'LaunchState: COLD',
+            'Activity: com.example/.SettingsActivity',
+            'TotalTime: 523',
+            'WaitTime: 530',
+            'Complete'
+        ].join('\n'));
+        assert.deepStrictEqual(result, {
+            status: 'ok',
+            launchState: 'COLD',
+            activity: 'com.example/.SettingsActivity',
+            totalTime: 523,
+            waitTime: 530
+        });
+    });
+
+    test('lists activities from the activity resolver table', () => {
+        const activities = parseActivityResolverTable([
+            'Activity Resolver Table:',
+            '  Non-Data Actions:',
+            '      android.intent.action.MAIN:',
+            '        8a3c2e1 com.example/.MainActivity filter 5b1f8a4',
+            '          Action: "android.intent.action.MAIN"',
+            '          Category: "android.intent.category.LAUNCHER"',
+            '  Schemes:',
+            '      myapp:',
+            '        1f2e3d4 com.example/.DetailActivity filter 9a8b7c6',
+            '          Action: "android.intent.action.VIEW"',
+            '        77aa88b com.example/.MainActivity filter 0c1d2e3',
+            '',
+            'Receiver Resolver Table:',
+            '  Non-Data Actions:',
+            '      com.example.REFRESH:',
+            '        2b3c4d5 com.example/.RefreshReceiver filter 6e7f8a9',
+            '          Category: "android.intent.category.LAUNCHER"'
+        ].join('\n'), 'com.example');
+        assert.deepStrictEqual(activities, [
+            { component: 'com.example/.MainActivity', launcher: true },
+            { component: 'com.example/.DetailActivity', launcher: false }
+        ]);
+    });
+
+    test('lists manifest activities with their exported attribute', () => {
+        const activities = extractActivities(`<manifest xmlns:android="http://schemas.android.com/apk/res/android">
+            <application>
+                <activity android:name=".MainActivity" android:exported="true" />
+                <activity android:name=".SettingsActivity" android:exported="false"></activity>
+                <activity-alias android:name=".Alias" android:targetActivity=".MainActivity" />
+            </application>
+        </manifest>`);
+        assert.deepStrictEqual(activities, [
+            { name: '.MainActivity', packageName: undefined, exported: true },
+            { name: '.SettingsActivity', packageName: undefined, exported: false },
+            { name: '.Alias', packageName: undefined, exported: undefined }
+        ]);
+        assert.strictEqual(normalizeComponent('com.example/.MainActivity'), 'com.example/com.example.MainActivity');
+    });
+});
@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+import { validateNumber } from '../../javaNumbers';
+
+suite('Java Numbers Test Suite', () => {
+    test('checks the int and long ranges', () => {
+        assert.ok(validateNumber('2147483647', 'int'));
+        assert.ok(!validateNumber('2147483648', 'int'));
+        assert.ok(validateNumber('2147483648', 'long'));
+        assert.ok(validateNumber('-9223372036854775808', 'long'));
+        assert.ok(!validateNumber('9223372036854775808', 'long'));
+        assert.ok(!validateNumber('1.5', 'int'));
+    });
+
+    test('accepts what Float.parseFloat accepts', () => {
+        for (const value of ['1.5', '-.5', '1e3', '2f', 'NaN', '-Infinity']) {
+            assert.ok(validateNumber(value, 'float'), value);
+        }
+        assert.ok(!validateNumber('abc', 'float'));
+        assert.ok(!validateNumber('1,5', 'float'));
+    });
+});
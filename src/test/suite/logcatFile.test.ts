@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { toLogcatEntries } from '../../logcatFile';
+
+suite('Logcat File Test Suite', () => {
+    test('toLogcatEntries parses threadtime, time and brief lines', () => {
+        const entries = toLogcatEntries([
+            '10-27 12:34:56.789  1234  5678 I ActivityManager: Start proc',
+            '10-27 12:34:57.000 W/PackageManager( 1234): Not granting permission',
+            'D/OkHttp  (  987): --> GET https://example.com'
+        ]);
+        assert.deepStrictEqual(entries, [
+            { timestamp: '10-27 12:34:56.789', pid: 1234, tid: 5678, level: 'I', tag: 'ActivityManager', message: 'Start proc' },
+            { timestamp: '10-27 12:34:57.000', pid: 1234, level: 'W', tag: 'PackageManager', message: 'Not granting permission' },
+            { timestamp: '', pid: 987, level: 'D', tag: 'OkHttp', message: '--> GET https://example.com' }
+        ]);
+    });
+
+    test('toLogcatEntries reads JSON lines as written by Save Logcat', () => {
+        const entry = { timestamp: '10-27 12:34:57.000', pid: 1, tid: 2, level: 'E', tag: 'Bar', message: 'json line' };
+        assert.deepStrictEqual(toLogcatEntries([JSON.stringify(entry)]), [entry]);
+    });
+
+    test('toLogcatEntries drops lines that are not log entries', () => {
+        const entries = toLogcatEntries([
+            '--------- beginning of main',
+            '10-27 12:34:56.789  1234  5678 E Foo: kept',
+            '{"not": "an entry"}',
+            'garbage',
+            ''
+        ]);
+        assert.deepStrictEqual(entries.map(entry => entry.message), ['kept']);
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { LineSplitter, findPidsForPackage, formatLogcatEntry, parseLogcatLine, parseLogcatText } from '../../logcatParser';
+
+suite('LogcatParser Test Suite', () => {
+    test('parseLogcatLine parses threadtime format', () => {
+        const entry = parseLogcatLine('10-27 12:34:56.789  1234  5678 I ActivityManager: Start proc 4321:com.example.app/u0a123');
+        assert.ok(entry);
+        assert.strictEqual(entry!.timestamp, '10-27 12:34:56.789');
+        assert.strictEqual(entry!.pid, 1234);
+        assert.strictEqual(entry!.tid, 5678);
+        assert.strictEqual(entry!.level, 'I');
+        assert.strictEqual(entry!.tag, 'ActivityManager');
+        assert.strictEqual(entry!.message, 'Start proc 4321:com.example.app/u0a123');
+    });
+
+    test('parseLogcatLine trims tag padding and keeps colons in the message', () => {
+        const entry = parseLogcatLine('10-27 12:34:56.789   100   100 E Foo     : key: value');
+        assert.strictEqual(entry!.tag, 'Foo');
+        assert.strictEqual(entry!.message, 'key: value');
+    });
+
+    test('parseLogcatLine maps assert level to fatal', () => {
+        const entry = parseLogcatLine('10-27 12:34:56.789   100   100 A libc    : Fatal signal 11');
+        assert.strictEqual(entry!.level, 'F');
+    });
+
+    test('parseLogcatLine ignores buffer separators', () => {
+        assert.strictEqual(parseLogcatLine('--------- beginning of main'), undefined);
+    });
+
+    test('parseLogcatLine parses time format', () => {
+        const entry = parseLogcatLine('10-27 12:34:56.789 W/PackageManager( 1234): Not granting permission');
+        assert.strictEqual(entry!.timestamp, '10-27 12:34:56.789');
+        assert.strictEqual(entry!.pid, 1234);
+        assert.strictEqual(entry!.tid, undefined);
+        assert.strictEqual(entry!.level, 'W');
+        assert.strictEqual(entry!.tag, 'PackageManager');
+        assert.strictEqual(entry!.message, 'Not granting permission');
+    });
+
+    test('parseLogcatLine parses brief format', () => {
+        const entry = parseLogcatLine('D/OkHttp  (  987): --> GET https://example.com');
+        assert.strictEqual(entry!.timestamp, '');
+        assert.strictEqual(entry!.pid, 987);
+        assert.strictEqual(entry!.tag, 'OkHttp');
+        assert.strictEqual(entry!.message, '--> GET https://example.com');
+    });
+
+    test('formatLogcatEntry round-trips through parseLogcatLine', () => {
+        const line = '10-27 12:34:56.789  1234  5678 I ActivityManager: Start proc';
+        assert.deepStrictEqual(parseLogcatLine(formatLogcatEntry(parseLogcatLine(line)!)), parseLogcatLine(line));
+        const brief = 'D/OkHttp(  987): --> GET';
+        assert.deepStrictEqual(parseLogcatLine(formatLogcatEntry(parseLogcatLine(brief)!)), parseLogcatLine(brief));
+    });
+
+    test('parseLogcatText reads text and JSON lines, skipping other lines', () => {
+        const text = [
+            '--------- beginning of main',
+            '10-27 12:34:56.789  1234  5678 I Foo: text line',
+            '{"timestamp":"10-27 12:34:57.000","pid":1,"tid":2,"level":"E","tag":"Bar","message":"json line"}',
+            'garbage',
+            ''
+        ].join('\r\n');
+        const entries = parseLogcatText(text);
+        assert.strictEqual(entries.length, 2);
+        assert.strictEqual(entries[0].message, 'text line');
+        assert.strictEqual(entries[1].tag, 'Bar');
+    });
+
+    test('findPidsForPackage finds process starts and crashes, including secondary processes', () => {
+        const entries = parseLogcatText([
+            '10-27 12:00:00.000   500   520 I ActivityManager: Start proc 4321:com.example.app/u0a123 for activity',
+            '10-27 12:00:01.000   500   520 I ActivityManager: Start proc 4400:com.example.app:sync/u0a123 for service',
+            '10-27 12:00:02.000   500   520 I ActivityManager: Start proc 4500:com.example.app.other/u0a124 for activity',
+            '10-27 12:00:03.000  4600  4600 E AndroidRuntime: Process: com.example.app, PID: 4600'
+        ].join('\n'));
+        assert.deepStrictEqual(findPidsForPackage(entries, 'com.example.app').sort(), [4321, 4400, 4600]);
+    });
+
+    test('LineSplitter reassembles lines across chunks', () => {
+        const splitter = new LineSplitter();
+        assert.deepStrictEqual(splitter.push('first\r\nsec'), ['first']);
+        assert.deepStrictEqual(splitter.push('ond\nthi'), ['second']);
+        assert.deepStrictEqual(splitter.flush(), ['thi']);
+    });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { formatResultDetails, runOnDevices, summarizeResults } from '../../multiDevice';
+
+suite('Multi-Device Test Suite', () => {
+    test('runs on all devices in parallel and keeps going after a failure', async () => {
+        const started: string[] = [];
+        const results = await runOnDevices(['R58M123ABC', 'emulator-5554', '192.168.1.5:5555'], async deviceId => {
+            started.push(deviceId);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            if (deviceId === 'emulator-5554') {
+                throw new Error('ADB Error: Failure [INSTALL_FAILED_VERSION_DOWNGRADE]');
+            }
+            return 'Success';
+        });
+
+        // All actions started before the first one finished
+        assert.strictEqual(started.length, 3);
+        assert.deepStrictEqual(results, [
+            { deviceId: 'R58M123ABC', value: 'Success' },
+            { deviceId: 'emulator-5554', error: 'ADB Error: Failure [INSTALL_FAILED_VERSION_DOWNGRADE]' },
+            { deviceId: '192.168.1.5:5555', value: 'Success' }
+        ]);
+    });
+
+    test('summarizes results in one line', () => {
+        assert.strictEqual(
+            summarizeResults('Install', [{ deviceId: 'a', value: 'Success' }, { deviceId: 'b', value: 'Success' }]),
+            'Install: done on all 2 devices'
+        );
+        assert.strictEqual(
+            summarizeResults('Install', [{ deviceId: 'a', value: 'Success' }, { deviceId: 'b', error: 'offline' }, { deviceId: 'c', error: 'offline' }]),
+            'Install: failed on 2 of 3 devices (b, c)'
+        );
+    });
+
+    test('lists the result of each device', () => {
+        assert.deepStrictEqual(formatResultDetails('Shell', [
+            { deviceId: 'a', value: 'line 1\nline 2\n' },
+            { deviceId: 'b', value: undefined },
+            { deviceId: 'c', error: 'device offline' }
+        ]), [
+            'Shell: failed on 1 of 3 devices (c)',
+            '  ✓ a: line 1\n      line 2',
+            '  ✓ b: OK',
+            '  ✗ c: device offline'
+        ]);
+    });
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { AdbClient, ConnectedDevice } from '../../adbClient';
+import { PortForwardManager } from '../../portForwardManager';
+import { formatPortRule, parseForwardList, parseReverseList, toSocketSpec, validatePortRule } from '../../portForwards';
+
+suite('Port Forwards Test Suite', () => {
+    test('parses forward and reverse lists', () => {
+        const forwards = 'emulator-5554 tcp:8700 jdwp:1234\nR58M123 tcp:9222 localabstract:chrome_devtools_remote\n';
+        assert.deepStrictEqual(parseForwardList(forwards, 'R58M123'), [
+            { kind: 'forward', local: 'tcp:9222', remote: 'localabstract:chrome_devtools_remote' }
+        ]);
+        assert.deepStrictEqual(parseReverseList('UsbFfs tcp:8081 tcp:8081\n(reverse) tcp:3000 tcp:4000\n'), [
+            { kind: 'reverse', remote: 'tcp:8081', local: 'tcp:8081' },
+            { kind: 'reverse', remote: 'tcp:3000', local: 'tcp:4000' }
+        ]);
+        assert.strictEqual(formatPortRule({ kind: 'reverse', remote: 'tcp:3000', local: 'tcp:4000' }), 'tcp:3000 → tcp:4000');
+    });
+
+    test('validates rules', () => {
+        assert.strictEqual(toSocketSpec(' 8081 '), 'tcp:8081');
+        assert.strictEqual(validatePortRule({ kind: 'reverse', remote: 'tcp:8081', local: 'tcp:8081' }), undefined);
+        assert.strictEqual(validatePortRule({ kind: 'forward', local: 'tcp:8700', remote: 'jdwp:1234' }), undefined);
+        assert.strictEqual(validatePortRule({ kind: 'forward', local: 'tcp:9222', remote: 'localabstract:chrome_devtools_remote' }), undefined);
+        assert.strictEqual(validatePortRule({ kind: 'reverse', remote: 'jdwp:1234', local: 'tcp:8700' }),
+            'The device socket must be tcp:<port> or localabstract:<name>, not jdwp:1234');
+        assert.strictEqual(validatePortRule({ kind: 'forward', local: 'tcp:70000', remote: 'tcp:80' }), 'Invalid port in tcp:70000 (1-65535)');
+        assert.match(validatePortRule({ kind: 'forward', local: 'localabstract:x', remote: 'tcp:80' })!, /must be tcp:<port>/);
+    });
+
+    suite('PortForwardManager', () => {
+        let state: Map<string, unknown>;
+        let adbClient: {
+            listForwards: sinon.SinonStub;
+            listReverses: sinon.SinonStub;
+            forward: sinon.SinonStub;
+            reverse: sinon.SinonStub;
+            removeReverse: sinon.SinonStub;
+        };
+        let manager: PortForwardManager;
+        const device = (id: string, type = 'device') => ({ id, type, connectionType: 'wired' }) as ConnectedDevice;
+
+        setup(() => {
+            state = new Map();
+            const context = {
+                workspaceState: {
+                    get: (key: string) => state.get(key),
+                    update: async (key: string, value: unknown) => void state.set(key, value)
+                }
+            };
+            adbClient = {
+                listForwards: sinon.stub().resolves([]),
+                listReverses: sinon.stub().resolves([]),
+                forward: sinon.stub().resolves(),
+                reverse: sinon.stub().resolves(),
+                removeReverse: sinon.stub().resolves()
+            };
+            manager = new PortForwardManager(adbClient as unknown as AdbClient, context as unknown as vscode.ExtensionContext);
+        });
+
+        test('saves rules for one device or all devices', async () => {
+            await manager.add('emulator-5554', { kind: 'reverse', remote: 'tcp:8081', local: 'tcp:8081' }, 'all');
+            await manager.add('emulator-5554', { kind: 'forward', local: 'tcp:8700', remote: 'jdwp:1234' }, 'device');
+            await manager.add('emulator-5554', { kind: 'reverse', remote: 'tcp:3000', local: 'tcp:3000' });
+            assert.ok(adbClient.reverse.calledWith('emulator-5554', 'tcp:8081', 'tcp:8081'));
+            assert.ok(adbClient.forward.calledWith('emulator-5554', 'tcp:8700', 'jdwp:1234'));
+            assert.deepStrictEqual(manager.getSaved('R58M123').map(formatPortRule), ['tcp:8081 → tcp:8081']);
+            assert.strictEqual(manager.getSaved('emulator-5554').length, 2);
+        });
+
+        test('saves forwards only for one device', async () => {
+            await assert.rejects(
+                manager.add('emulator-5554', { kind: 'forward', local: 'tcp:9222', remote: 'localabstract:chrome_devtools_remote' }, 'all'),
+                /can only forward to one device/
+            );
+            assert.ok(adbClient.forward.notCalled);
+            assert.deepStrictEqual(manager.getSaved(), []);
+        });
+
+        test('sets up saved rules when a device comes online', async () => {
+            await manager.add('emulator-5554', { kind: 'reverse', remote: 'tcp:8081', local: 'tcp:8081' }, 'all');
+            adbClient.reverse.resetHistory();
+            await manager.devicesChanged([device('emulator-5554'), device('R58M123', 'unauthorized')]);
+            assert.deepStrictEqual(adbClient.reverse.args.map(args => args[0]), ['emulator-5554']);
+
+            // Still online: nothing to do; authorized: set up
+            adbClient.listReverses.withArgs('emulator-5554').resolves([{ kind: 'reverse', remote: 'tcp:8081', local: 'tcp:8081' }]);
+            await manager.devicesChanged([device('emulator-5554'), device('R58M123')]);
+            assert.deepStrictEqual(adbClient.reverse.args.map(args => args[0]), ['emulator-5554', 'R58M123']);
+
+            // Reconnected after dropping off
+            await manager.devicesChanged([device('R58M123')]);
+            adbClient.listReverses.withArgs('emulator-5554').resolves([]);
+            await manager.devicesChanged([device('emulator-5554'), device('R58M123')]);
+            assert.deepStrictEqual(adbClient.reverse.args.map(args => args[0]), ['emulator-5554', 'R58M123', 'emulator-5554']);
+        });
+
+        test('lists active and saved rules, and forgets removed ones', async () => {
+            await manager.add('emulator-5554', { kind: 'reverse', remote: 'tcp:8081', local: 'tcp:8081' }, 'device');
+            adbClient.listReverses.resolves([{ kind: 'reverse', remote: 'tcp:5000', local: 'tcp:5000' }]);
+            const statuses = await manager.list('emulator-5554');
+            assert.deepStrictEqual(statuses.map(status => [formatPortRule(status.rule), status.active, !!status.saved]), [
+                ['tcp:5000 → tcp:5000', true, false],
+                ['tcp:8081 → tcp:8081', false, true]
+            ]);
+            await manager.remove('emulator-5554', statuses[1]);
+            assert.ok(adbClient.removeReverse.notCalled);
+            assert.deepStrictEqual(manager.getSaved(), []);
+            await manager.remove('emulator-5554', statuses[0]);
+            assert.ok(adbClient.removeReverse.calledWith('emulator-5554', 'tcp:5000'));
+        });
+    });
+});
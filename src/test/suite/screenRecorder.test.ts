@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import { AdbClient } from '../../adbClient';
+import { AdbStream } from '../../adbProtocol';
+import { ScreenRecorder, ScreenRecording } from '../../screenRecorder';
+
+/**
+ * A screenrecord stream that ends when the test calls end().
+ */
+class FakeStream implements AdbStream {
+    private closeListeners: (() => void)[] = [];
+    onData(): void { /* screenrecord prints nothing without --verbose */ }
+    onClose(listener: () => void): void {
+        this.closeListeners.push(listener);
+    }
+    close(): void {
+        this.end();
+    }
+    end() {
+        this.closeListeners.forEach(listener => listener());
+    }
+}
+
+suite('ScreenRecorder Test Suite', () => {
+    let streams: FakeStream[];
+    let adbClient: {
+        startScreenRecord: sinon.SinonStub;
+        stopScreenRecord: sinon.SinonStub;
+        statFile: sinon.SinonStub;
+        pullFile: sinon.SinonStub;
+        deleteFile: sinon.SinonStub;
+    };
+    let recorder: ScreenRecorder;
+
+    setup(() => {
+        streams = [];
+        adbClient = {
+            startScreenRecord: sinon.stub().callsFake(async () => {
+                const stream = new FakeStream();
+                streams.push(stream);
+                return stream;
+            }),
+            // screenrecord exits on SIGINT, which closes the current stream
+            stopScreenRecord: sinon.stub().callsFake(async () => setImmediate(() => streams[streams.length - 1].end())),
+            statFile: sinon.stub().resolves({ mode: 0o100660, size: 1024, mtime: 0 }),
+            pullFile: sinon.stub().resolves(),
+            deleteFile: sinon.stub().resolves()
+        };
+        recorder = new ScreenRecorder(adbClient as unknown as AdbClient);
+    });
+
+    teardown(() => {
+        recorder.dispose();
+        sinon.restore();
+    });
+
+    test('chains a new segment when screenrecord hits its time limit', async () => {
+        await recorder.start('emulator-5554', '/tmp/recordings');
+        assert.strictEqual(adbClient.startScreenRecord.firstCall.args[2].timeLimit, 180);
+
+        streams[0].end();
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(adbClient.startScreenRecord.callCount, 2);
+        assert.ok(recorder.isRecording('emulator-5554'));
+    });
+
+    test('stop pulls every segment and removes them from the device', async () => {
+        const finished = new Promise<ScreenRecording>(resolve => recorder.onDidFinishRecording(resolve));
+        await recorder.start('emulator-5554', '/tmp/recordings');
+        streams[0].end();
+        await new Promise(resolve => setImmediate(resolve));
+
+        await recorder.stop('emulator-5554');
+        const recording = await finished;
+
+        const segments = adbClient.startScreenRecord.getCalls().map(call => call.args[1]);
+        assert.strictEqual(adbClient.stopScreenRecord.firstCall.args[1], segments[1]);
+        assert.deepStrictEqual(adbClient.pullFile.getCalls().map(call => call.args[1]), segments);
+        assert.deepStrictEqual(adbClient.deleteFile.getCalls().map(call => call.args[1]), segments);
+        assert.strictEqual(recording.files.length, 2);
+        assert.ok(recording.files[0].endsWith('-1.mp4') && recording.files[1].endsWith('-2.mp4'));
+        assert.strictEqual(recorder.isRecording('emulator-5554'), false);
+    });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import {
+    parseSharedPreferences,
+    serializeSharedPreferences,
+    SharedPreferencesParseError,
+    validateSharedPreferences
+} from '../../sharedPreferences';
+
+const SAMPLE = `<?xml version='1.0' encoding='utf-8' standalone='yes' ?>
+<map>
+    <string name="token">a &amp; b &lt;c&gt;</string>
+    <int name="launches" value="3" />
+    <long name="installed" value="1700000000000" />
+    <float name="scale" value="1.5" />
+    <boolean name="onboarded" value="true" />
+    <set name="tags">
+        <string>beta</string>
+        <string>qa</string>
+    </set>
+    <set name="empty" />
+</map>
+`;
+
+suite('SharedPreferences Test Suite', () => {
+    test('parseSharedPreferences reads every type', () => {
+        assert.deepStrictEqual(parseSharedPreferences(SAMPLE), [
+            { name: 'token', type: 'string', value: 'a & b <c>' },
+            { name: 'launches', type: 'int', value: '3' },
+            { name: 'installed', type: 'long', value: '1700000000000' },
+            { name: 'scale', type: 'float', value: '1.5' },
+            { name: 'onboarded', type: 'boolean', value: 'true' },
+            { name: 'tags', type: 'set', value: ['beta', 'qa'] },
+            { name: 'empty', type: 'set', value: [] }
+        ]);
+    });
+
+    test('serializeSharedPreferences writes the XmlUtils format', () => {
+        assert.strictEqual(serializeSharedPreferences(parseSharedPreferences(SAMPLE)), SAMPLE);
+        assert.strictEqual(serializeSharedPreferences([]), "<?xml version='1.0' encoding='utf-8' standalone='yes' ?>\n<map />\n");
+    });
+
+    test('parseSharedPreferences rejects malformed files', () => {
+        assert.throws(() => parseSharedPreferences('<map><string name="a">x</map>'), SharedPreferencesParseError);
+        assert.throws(() => parseSharedPreferences('<map><int name="a" /></map>'), /has no value/);
+        assert.throws(() => parseSharedPreferences('<map><double name="a" value="1" /></map>'), /Unsupported preference type/);
+        assert.throws(() => parseSharedPreferences('<resources />'), /Expected <map>/);
+    });
+
+    test('validateSharedPreferences checks ranges, booleans and duplicate names', () => {
+        const errors = validateSharedPreferences([
+            { name: 'a', type: 'int', value: '2147483648' },
+            { name: 'b', type: 'long', value: '-9223372036854775808' },
+            { name: 'c', type: 'float', value: 'abc' },
+            { name: 'd', type: 'boolean', value: 'yes' },
+            { name: 'b', type: 'string', value: '' },
+            { name: '', type: 'string', value: 'x' }
+        ]);
+        assert.deepStrictEqual(errors.map(error => !!error), [true, false, true, true, true, true]);
+        assert.throws(() => serializeSharedPreferences([{ name: 'a', type: 'int', value: '1.5' }]), /not a valid int/);
+    });
+});
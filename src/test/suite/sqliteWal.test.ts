@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { applyWal, isWalMode, setWalMode, walChecksum } from '../../sqliteWal';
+
+const PAGE_SIZE = 512;
+
+function page(fill: number): Uint8Array {
+    return new Uint8Array(PAGE_SIZE).fill(fill);
+}
+
+/**
+ * Builds a little-endian WAL file with the given frames, chaining checksums like SQLite does.
+ */
+function buildWal(frames: { pageNumber: number; commitSize: number; data: Uint8Array; salt?: number }[]): Uint8Array {
+    const wal = new Uint8Array(32 + frames.length * (24 + PAGE_SIZE));
+    const view = new DataView(wal.buffer);
+    view.setUint32(0, 0x377f0682);
+    view.setUint32(4, 3007000);
+    view.setUint32(8, PAGE_SIZE);
+    view.setUint32(16, 0x1234);
+    view.setUint32(20, 0x5678);
+    let checksum = walChecksum(wal.subarray(0, 24), false);
+    view.setUint32(24, checksum[0]);
+    view.setUint32(28, checksum[1]);
+
+    frames.forEach((frame, i) => {
+        const offset = 32 + i * (24 + PAGE_SIZE);
+        view.setUint32(offset, frame.pageNumber);
+        view.setUint32(offset + 4, frame.commitSize);
+        view.setUint32(offset + 8, frame.salt ?? 0x1234);
+        view.setUint32(offset + 12, 0x5678);
+        wal.set(frame.data, offset + 24);
+        checksum = walChecksum(wal.subarray(offset, offset + 8), false, checksum);
+        checksum = walChecksum(frame.data, false, checksum);
+        view.setUint32(offset + 16, checksum[0]);
+        view.setUint32(offset + 20, checksum[1]);
+    });
+    return wal;
+}
+
+suite('SqliteWal Test Suite', () => {
+    const database = new Uint8Array([...page(1), ...page(2)]);
+
+    test('applyWal applies committed frames and grows the database', () => {
+        const wal = buildWal([
+            { pageNumber: 2, commitSize: 0, data: page(7) },
+            { pageNumber: 3, commitSize: 3, data: page(8) }
+        ]);
+        const result = applyWal(database, wal);
+        assert.strictEqual(result.length, 3 * PAGE_SIZE);
+        assert.deepStrictEqual([result[0], result[PAGE_SIZE], result[2 * PAGE_SIZE]], [1, 7, 8]);
+    });
+
+    test('applyWal ignores frames after the last commit', () => {
+        const wal = buildWal([
+            { pageNumber: 1, commitSize: 2, data: page(5) },
+            { pageNumber: 2, commitSize: 0, data: page(9) }
+        ]);
+        const result = applyWal(database, wal);
+        assert.deepStrictEqual([result[0], result[PAGE_SIZE]], [5, 2]);
+    });
+
+    test('applyWal stops at frames from an older WAL generation', () => {
+        const wal = buildWal([
+            { pageNumber: 1, commitSize: 2, data: page(5) },
+            { pageNumber: 2, commitSize: 2, data: page(9), salt: 0x9999 }
+        ]);
+        const result = applyWal(database, wal);
+        assert.deepStrictEqual([result[0], result[PAGE_SIZE]], [5, 2]);
+    });
+
+    test('applyWal returns the database unchanged for an empty or corrupt WAL', () => {
+        assert.strictEqual(applyWal(database, new Uint8Array(0)), database);
+        const wal = buildWal([{ pageNumber: 1, commitSize: 2, data: page(5) }]);
+        wal[24] ^= 0xff;
+        assert.strictEqual(applyWal(database, wal), database);
+    });
+
+    test('setWalMode switches the header journal mode', () => {
+        const header = new Uint8Array(100);
+        assert.strictEqual(isWalMode(setWalMode(header, true)), true);
+        assert.deepStrictEqual([header[18], header[19]], [2, 2]);
+        assert.strictEqual(isWalMode(setWalMode(header, false)), false);
+        assert.deepStrictEqual([header[18], header[19]], [1, 1]);
+    });
+});
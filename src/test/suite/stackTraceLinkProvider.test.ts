@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { parseStackFrames, StackTraceLinkProvider } from '../../stackTraceLinkProvider';
+
+suite('StackTraceLinkProvider Test Suite', () => {
+    test('parseStackFrames finds a Kotlin frame in a logcat line', () => {
+        const line = 'E/AndroidRuntime( 4321): \tat com.example.app.MainActivity.onCreate(MainActivity.kt:42)';
+        const matches = parseStackFrames(line);
+        assert.strictEqual(matches.length, 1);
+        assert.deepStrictEqual(matches[0].frame, {
+            className: 'com.example.app.MainActivity',
+            methodName: 'onCreate',
+            fileName: 'MainActivity.kt',
+            line: 42
+        });
+        assert.strictEqual(line.substr(matches[0].index, matches[0].length), 'MainActivity.kt:42');
+    });
+
+    test('parseStackFrames handles inner classes and lambdas', () => {
+        const matches = parseStackFrames('at com.example.Foo$bar$1.invoke(Foo.java:7)');
+        assert.strictEqual(matches[0].frame.className, 'com.example.Foo$bar$1');
+        assert.strictEqual(matches[0].frame.methodName, 'invoke');
+    });
+
+    test('parseStackFrames ignores frames without source information', () => {
+        assert.strictEqual(parseStackFrames('at android.os.Looper.loop(Native Method)').length, 0);
+        assert.strictEqual(parseStackFrames('at com.example.Foo.bar(Unknown Source:2)').length, 0);
+    });
+
+    test('selector matches logcat channels and log files only', async () => {
+        const open = (language: string) => vscode.workspace.openTextDocument({ language, content: '' });
+        assert.ok(vscode.languages.match(StackTraceLinkProvider.selector, await open('adb-logcat')) > 0);
+        assert.ok(vscode.languages.match(StackTraceLinkProvider.selector, await open('log')) > 0);
+        assert.strictEqual(vscode.languages.match(StackTraceLinkProvider.selector, await open('plaintext')), 0);
+    });
+});
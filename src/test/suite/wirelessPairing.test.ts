@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { AdbClient } from '../../adbClient';
+import { WirelessDevice, WirelessDeviceManager } from '../../wirelessDevices';
+import {
+    createPairingCredentials,
+    createPairingQrText,
+    hostOf,
+    parseMdnsServices,
+    parsePairResult,
+    parseWifiAddress,
+    selectDiscoveredServices
+} from '../../wirelessPairing';
+
+suite('Wireless Pairing Test Suite', () => {
+    test('parses mdns services', () => {
+        const services = parseMdnsServices([
+            'List of discovered mdns services',
+            'adb-pro-k3x9qa\t_adb-tls-pairing._tcp.\t192.168.1.5:37123',
+            'adb-R58M123ABC-Xyz12a\t_adb-tls-connect._tcp\t192.168.1.5:41235',
+            ''
+        ].join('\n'));
+        assert.deepStrictEqual(services, [
+            { name: 'adb-pro-k3x9qa', type: '_adb-tls-pairing._tcp', address: '192.168.1.5:37123' },
+            { name: 'adb-R58M123ABC-Xyz12a', type: '_adb-tls-connect._tcp', address: '192.168.1.5:41235' }
+        ]);
+    });
+
+    test('takes the host out of an address', () => {
+        assert.strictEqual(hostOf('192.168.1.5:41235'), '192.168.1.5');
+        assert.strictEqual(hostOf('[fe80::1]:41235'), 'fe80::1');
+        assert.strictEqual(hostOf('192.168.1.5'), '192.168.1.5');
+    });
+
+    test('reads the GUID from a successful pairing and throws on failure', () => {
+        assert.deepStrictEqual(
+            parsePairResult('Successfully paired to 192.168.1.5:37123 [guid=adb-R58M123ABC-Xyz12a]\n'),
+            { guid: 'adb-R58M123ABC-Xyz12a' }
+        );
+        assert.throws(() => parsePairResult('Failed: Wrong password or connection was dropped.'), /Wrong password/);
+    });
+
+    test('creates QR codes in the Wi-Fi format the scanner reads', () => {
+        const credentials = createPairingCredentials();
+        assert.match(credentials.name, /^adb-pro-[a-z2-9]{6}$/);
+        assert.match(credentials.password, /^[a-z2-9]{10}$/);
+        assert.strictEqual(createPairingQrText({ name: 'adb-pro-abc', password: 'secret' }), 'WIFI:T:ADB;S:adb-pro-abc;P:secret;;');
+    });
+
+    test('reads the Wi-Fi address from ip route or ip addr', () => {
+        assert.strictEqual(parseWifiAddress([
+            '10.0.0.0/8 dev rmnet_data1 proto kernel scope link src 10.42.7.1',
+            '192.168.1.0/24 dev wlan0 proto kernel scope link src 192.168.1.42'
+        ].join('\n')), '192.168.1.42');
+        assert.strictEqual(parseWifiAddress([
+            '30: wlan0: <BROADCAST,MULTICAST,UP,LOWER_UP> mtu 1500 qdisc mq state UP group default qlen 3000',
+            '    link/ether 02:00:00:00:00:00 brd ff:ff:ff:ff:ff:ff',
+            '    inet 192.168.1.42/24 brd 192.168.1.255 scope global wlan0'
+        ].join('\n')), '192.168.1.42');
+        assert.strictEqual(parseWifiAddress('Device "wlan0" does not exist.'), undefined);
+    });
+
+    test('offers discovered devices that are not connected yet', () => {
+        const services = [
+            { name: 'adb-R58M123ABC-Xyz12a', type: '_adb-tls-connect._tcp', address: '192.168.1.5:41235' },
+            { name: 'adb-9B071FFAZ-Qw3rty', type: '_adb-tls-connect._tcp', address: '192.168.1.6:40111' },
+            { name: 'adb-2A1C0DEF-Pp9s8d', type: '_adb-tls-connect._tcp', address: '192.168.1.7:38000' },
+            { name: 'adb-2A1C0DEF-Pp9s8d', type: '_adb-tls-pairing._tcp', address: '192.168.1.7:37001' },
+            { name: 'adb-pro-k3x9qa', type: '_adb-tls-pairing._tcp', address: '192.168.1.8:37123' },
+            { name: 'Living Room TV', type: '_googlecast._tcp', address: '192.168.1.9:8009' }
+        ];
+        const offered = selectDiscoveredServices(services, ['192.168.1.5:41235', 'adb-9B071FFAZ-Qw3rty._adb-tls-connect._tcp', 'emulator-5554']);
+        assert.deepStrictEqual(offered.map(service => `${service.type} ${service.address}`), [
+            '_adb-tls-connect._tcp 192.168.1.7:38000',
+            '_adb-tls-pairing._tcp 192.168.1.7:37001'
+        ]);
+    });
+});
+
+suite('WirelessDeviceManager Test Suite', () => {
+    let adbClient: {
+        pairDevice: sinon.SinonStub;
+        getMdnsServices: sinon.SinonStub;
+        connectToDevice: sinon.SinonStub;
+        getConnectedDevices: sinon.SinonStub;
+        getWifiAddress: sinon.SinonStub;
+        restartInTcpMode: sinon.SinonStub;
+        restartInUsbMode: sinon.SinonStub;
+        getSerialNumber: sinon.SinonStub;
+        disconnectDevice: sinon.SinonStub;
+    };
+    let stored: WirelessDevice[] | undefined;
+    let manager: WirelessDeviceManager;
+    const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+    setup(() => {
+        stored = undefined;
+        adbClient = {
+            pairDevice: sinon.stub().resolves('Successfully paired to 192.168.1.5:37123 [guid=adb-R58M123ABC-Xyz12a]'),
+            getMdnsServices: sinon.stub().resolves([
+                { name: 'adb-pro-k3x9qa', type: '_adb-tls-pairing._tcp', address: '192.168.1.5:37123' },
+                { name: 'adb-R58M123ABC-Xyz12a', type: '_adb-tls-connect._tcp', address: '192.168.1.5:41235' }
+            ]),
+            connectToDevice: sinon.stub().callsFake(async (address: string) => `connected to ${address}`),
+            getConnectedDevices: sinon.stub().resolves([]),
+            getWifiAddress: sinon.stub().resolves('192.168.1.42'),
+            restartInTcpMode: sinon.stub().resolves('restarting in TCP mode port: 5555'),
+            restartInUsbMode: sinon.stub().resolves('restarting in USB mode'),
+            getSerialNumber: sinon.stub().resolves('R58M123ABC'),
+            disconnectDevice: sinon.stub().resolves('disconnected 192.168.1.42:5555')
+        };
+        const context = {
+            globalState: {
+                get: () => stored,
+                update: async (_key: string, value: WirelessDevice[]) => {
+                    stored = value;
+                }
+            }
+        } as unknown as vscode.ExtensionContext;
+        manager = new WirelessDeviceManager(adbClient as unknown as AdbClient, context);
+    });
+
+    teardown(() => {
+        sinon.restore();
+    });
+
+    test('pairs with the scanned QR code and connects to the advertised port', async () => {
+        const address = await manager.pairWithQrCode({ name: 'adb-pro-k3x9qa', password: 'secret' }, token);
+
+        assert.deepStrictEqual(adbClient.pairDevice.firstCall.args, ['192.168.1.5:37123', 'secret']);
+        assert.strictEqual(address, '192.168.1.5:41235');
+        assert.deepStrictEqual(manager.getDevices(), [{ guid: 'adb-R58M123ABC-Xyz12a', address: '192.168.1.5:41235', model: undefined }]);
+    });
+
+    test('reconnects remembered devices at the port they advertise now', async () => {
+        stored = [{ guid: 'adb-R58M123ABC-Xyz12a', address: '192.168.1.5:39999', model: 'Pixel_7' }];
+
+        const reconnected = await manager.reconnectAll();
+
+        assert.deepStrictEqual(reconnected, ['192.168.1.5:41235']);
+        assert.deepStrictEqual(manager.getDevices(), [{ guid: 'adb-R58M123ABC-Xyz12a', address: '192.168.1.5:41235', model: 'Pixel_7' }]);
+    });
+
+    test('does not remember devices that failed to connect', async () => {
+        adbClient.connectToDevice.resolves('failed to connect to 192.168.1.5:41235');
+        await assert.rejects(manager.connect('192.168.1.5:41235'), /failed to connect/);
+        assert.deepStrictEqual(manager.getDevices(), []);
+    });
+
+    test('switches a USB device to Wi-Fi and waits for it to come online', async () => {
+        adbClient.getConnectedDevices.resolves([
+            { id: 'R58M123ABC', type: 'device', connectionType: 'wired' },
+            { id: '192.168.1.42:5555', type: 'device', connectionType: 'wireless' }
+        ]);
+
+        const address = await manager.switchToWireless('R58M123ABC');
+
+        assert.strictEqual(address, '192.168.1.42:5555');
+        assert.deepStrictEqual(adbClient.restartInTcpMode.firstCall.args, ['R58M123ABC', 5555]);
+        assert.ok(adbClient.restartInTcpMode.calledBefore(adbClient.connectToDevice));
+        assert.deepStrictEqual(adbClient.connectToDevice.firstCall.args, ['192.168.1.42:5555']);
+        // tcpip connections are not paired, so there is nothing to reconnect to later
+        assert.deepStrictEqual(manager.getDevices(), []);
+    });
+
+    test('does not restart adbd when the device is not on Wi-Fi', async () => {
+        adbClient.getWifiAddress.resolves(undefined);
+        await assert.rejects(manager.switchToWireless('R58M123ABC'), /not connected to a Wi-Fi network/);
+        assert.ok(adbClient.restartInTcpMode.notCalled);
+    });
+
+    test('switches back to USB and finds the device by its serial number', async () => {
+        adbClient.getConnectedDevices.resolves([{ id: 'R58M123ABC', type: 'device', connectionType: 'wired' }]);
+
+        const usbId = await manager.switchToUsb('192.168.1.42:5555');
+
+        assert.strictEqual(usbId, 'R58M123ABC');
+        assert.ok(adbClient.restartInUsbMode.calledWith('192.168.1.42:5555'));
+        assert.ok(adbClient.disconnectDevice.calledWith('192.168.1.42:5555'));
+    });
+});
@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import { AdbClient } from './adbClient';
+import {
+    CONNECT_SERVICE_TYPE,
+    hostOf,
+    MdnsService,
+    PAIRING_SERVICE_TYPE,
+    PairingCredentials,
+    parsePairResult
+} from './wirelessPairing';
+
+/**
+ * A device paired for wireless debugging, remembered across sessions.
+ */
+export interface WirelessDevice {
+    /**
+     * The adb-<serial>-<id> name the device advertises for connecting. It stays the same when the port changes.
+     */
+    guid?: string;
+    /**
+     * ip:port of the last successful connection.
+     */
+    address: string;
+    model?: string;
+}
+
+/**
+ * Pairs devices for Android 11+ wireless debugging, connects to them and reconnects to them
+ * in later sessions. The connect port changes whenever wireless debugging is restarted, so it
+ * is looked up through the ADB server's mDNS discovery. Also hands USB devices over to Wi-Fi
+ * with `adb tcpip` (any Android version) and back.
+ */
+export class WirelessDeviceManager {
+    private static readonly storageKey = 'adb-pro.wirelessDevices';
+    private static readonly pollIntervalMs = 1000;
+    /**
+     * How long the QR code stays valid: the device's scanner has to find it in this time.
+     */
+    public static readonly qrTimeoutMs = 120000;
+    /**
+     * How long to wait for a freshly paired device to advertise its connect port.
+     */
+    private static readonly connectTimeoutMs = 15000;
+    /**
+     * Port adbd listens on after "Switch to Wireless".
+     */
+    public static readonly tcpipPort = 5555;
+    /**
+     * How long adbd may take to restart when switching between USB and Wi-Fi.
+     */
+    private static readonly handoverTimeoutMs = 15000;
+
+    constructor(private readonly adbClient: AdbClient, private readonly context: vscode.ExtensionContext) { }
+
+    public getDevices(): WirelessDevice[] {
+        return this.context.globalState.get<WirelessDevice[]>(WirelessDeviceManager.storageKey) || [];
+    }
+
+    public async forget(device: WirelessDevice): Promise<void> {
+        await this.context.globalState.update(
+            WirelessDeviceManager.storageKey,
+            this.getDevices().filter(other => !isSameDevice(other, device))
+        );
+    }
+
+    /**
+     * Pairs with the address and code shown in the device's "Pair device with pairing code" dialog.
+     * @returns The device's GUID, if adb reported it.
+     * @throws Error if pairing failed (e.g. a wrong code).
+     */
+    public async pair(address: string, code: string): Promise<string | undefined> {
+        return parsePairResult(await this.adbClient.pairDevice(address, code)).guid;
+    }
+
+    /**
+     * Waits until a device scans the QR code for these credentials, pairs with it and connects.
+     * @param onProgress Receives status messages for the UI.
+     * @returns The address connected to.
+     * @throws Error if nothing scanned the code in time, pairing failed or the device could not be connected.
+     */
+    public async pairWithQrCode(
+        credentials: PairingCredentials,
+        token: vscode.CancellationToken,
+        onProgress: (message: string) => void = () => undefined
+    ): Promise<string> {
+        const service = await this.waitForService(
+            candidate => candidate.type === PAIRING_SERVICE_TYPE && candidate.name === credentials.name,
+            WirelessDeviceManager.qrTimeoutMs,
+            token
+        );
+        if (!service) {
+            throw new Error(token.isCancellationRequested ? 'Pairing cancelled' : 'No device scanned the QR code in time');
+        }
+        onProgress(`Pairing with ${service.address}…`);
+        const guid = await this.pair(service.address, credentials.password);
+        onProgress('Connecting…');
+        const address = await this.connectPaired(hostOf(service.address), guid, token);
+        if (!address) {
+            throw new Error(`Paired with ${hostOf(service.address)}, but it did not advertise a port to connect to. `
+                + 'Connect with the IP address and port shown under Wireless debugging.');
+        }
+        return address;
+    }
+
+    /**
+     * Connects to a device right after pairing, once it advertises its connect port.
+     * @param host The device's IP address.
+     * @param guid The GUID adb reported when pairing, which identifies the connect service.
+     * @returns The address connected to, or undefined if the device was not found over mDNS.
+     */
+    public async connectPaired(host: string, guid?: string, token?: vscode.CancellationToken): Promise<string | undefined> {
+        const service = await this.waitForService(
+            candidate => candidate.type === CONNECT_SERVICE_TYPE && (guid ? candidate.name === guid : hostOf(candidate.address) === host),
+            WirelessDeviceManager.connectTimeoutMs,
+            token
+        );
+        if (!service) {
+            return undefined;
+        }
+        await this.connect(service.address, guid);
+        return service.address;
+    }
+
+    /**
+     * Connects to a paired device and remembers it.
+     * @throws Error with adb's reply if the connection failed.
+     */
+    public async connect(address: string, guid?: string): Promise<void> {
+        const result = await this.adbClient.connectToDevice(address);
+        if (!/^(already )?connected to/m.test(result.trim())) {
+            throw new Error(result.trim() || `Failed to connect to ${address}`);
+        }
+        let model: string | undefined;
+        try {
+            model = (await this.adbClient.getConnectedDevices()).find(device => device.id === address)?.model;
+        } catch {
+            // The model is only used as a label
+        }
+        await this.remember({ guid, address, model });
+    }
+
+    /**
+     * Reconnects to remembered devices that are not connected, at the port they currently advertise
+     * (or the last known one when mDNS discovery is unavailable).
+     * @returns The addresses that were connected.
+     */
+    public async reconnectAll(): Promise<string[]> {
+        const devices = this.getDevices();
+        if (devices.length === 0) {
+            return [];
+        }
+        const services = await this.adbClient.getMdnsServices().catch(() => [] as MdnsService[]);
+        const connected = new Set((await this.adbClient.getConnectedDevices()).map(device => device.id));
+        const reconnected: string[] = [];
+        for (const device of devices) {
+            const service = services.find(candidate => candidate.type === CONNECT_SERVICE_TYPE
+                && (device.guid ? candidate.name === device.guid : hostOf(candidate.address) === hostOf(device.address)));
+            const address = service?.address || device.address;
+            if (connected.has(address) || connected.has(device.address)) {
+                continue;
+            }
+            try {
+                await this.connect(address, device.guid);
+                reconnected.push(address);
+            } catch {
+                // Off, out of range or wireless debugging turned off
+            }
+        }
+        return reconnected;
+    }
+
+    /**
+     * Switches a USB-connected device to Wi-Fi: restarts adbd in TCP mode on port 5555 and connects
+     * to the device's Wi-Fi address. The device must be on the same network as this computer.
+     * @param onProgress Receives status messages for the UI.
+     * @returns The wireless device id (ip:5555), once it is online.
+     * @throws Error if the device is not on Wi-Fi or could not be reached over it.
+     */
+    public async switchToWireless(deviceId: string, onProgress: (message: string) => void = () => undefined): Promise<string> {
+        onProgress('Reading the Wi-Fi address…');
+        const ip = await this.adbClient.getWifiAddress(deviceId);
+        if (!ip) {
+            throw new Error(`${deviceId} is not connected to a Wi-Fi network`);
+        }
+        const address = `${ip}:${WirelessDeviceManager.tcpipPort}`;
+
+        onProgress(`Restarting adbd on port ${WirelessDeviceManager.tcpipPort}…`);
+        await this.adbClient.restartInTcpMode(deviceId, WirelessDeviceManager.tcpipPort);
+
+        // adbd takes a moment to listen again, so early attempts are refused
+        onProgress(`Connecting to ${address}…`);
+        let lastReply = '';
+        const connected = await this.poll(async () => {
+            try {
+                lastReply = (await this.adbClient.connectToDevice(address)).trim();
+            } catch (e: any) {
+                lastReply = e.message;
+            }
+            return /^(already )?connected to/m.test(lastReply) || undefined;
+        }, WirelessDeviceManager.handoverTimeoutMs);
+        if (!connected) {
+            throw new Error(`Could not connect to ${address} (${lastReply || 'no reply'}). `
+                + 'Check that the device and this computer are on the same network.');
+        }
+
+        onProgress('Waiting for the device to come online…');
+        const device = await this.poll(
+            async () => (await this.adbClient.getConnectedDevices()).find(candidate => candidate.id === address && candidate.type === 'device'),
+            WirelessDeviceManager.handoverTimeoutMs
+        );
+        if (!device) {
+            throw new Error(`Connected to ${address}, but the device did not come online. Check for an authorization prompt on the device.`);
+        }
+        return address;
+    }
+
+    /**
+     * Switches a device connected over Wi-Fi back to USB: restarts adbd in USB mode and drops the
+     * wireless connection. The device must be plugged in to come back.
+     * @returns The USB device id once it is online, or undefined if it did not reappear (e.g. unplugged).
+     */
+    public async switchToUsb(deviceId: string): Promise<string | undefined> {
+        const serial = await this.adbClient.getSerialNumber(deviceId).catch(() => undefined);
+        await this.adbClient.restartInUsbMode(deviceId);
+        await this.adbClient.disconnectDevice(deviceId).catch(() => undefined);
+        if (!serial) {
+            return undefined;
+        }
+        const device = await this.poll(
+            async () => (await this.adbClient.getConnectedDevices()).find(candidate => candidate.id === serial && candidate.type === 'device'),
+            WirelessDeviceManager.handoverTimeoutMs
+        );
+        return device?.id;
+    }
+
+    private async remember(device: WirelessDevice) {
+        const previous = this.getDevices().find(other => isSameDevice(other, device));
+        const devices = this.getDevices().filter(other => !isSameDevice(other, device));
+        devices.unshift({ ...previous, ...device, guid: device.guid || previous?.guid, model: device.model || previous?.model });
+        await this.context.globalState.update(WirelessDeviceManager.storageKey, devices);
+    }
+
+    /**
+     * Polls the ADB server's mDNS services until one matches.
+     * @returns The service, or undefined on timeout or cancellation.
+     */
+    private async waitForService(
+        predicate: (service: MdnsService) => boolean,
+        timeoutMs: number,
+        token?: vscode.CancellationToken
+    ): Promise<MdnsService | undefined> {
+        return this.poll(async () => (await this.adbClient.getMdnsServices()).find(predicate), timeoutMs, token);
+    }
+
+    /**
+     * Calls `check` every second until it returns a value.
+     * @returns The value, or undefined on timeout or cancellation.
+     */
+    private async poll<T>(check: () => Promise<T | undefined>, timeoutMs: number, token?: vscode.CancellationToken): Promise<T | undefined> {
+        const deadline = Date.now() + timeoutMs;
+        while (!token?.isCancellationRequested) {
+            const value = await check();
+            if (value !== undefined) {
+                return value;
+            }
+            if (Date.now() + WirelessDeviceManager.pollIntervalMs > deadline) {
+                return undefined;
+            }
+            await new Promise(resolve => setTimeout(resolve, WirelessDeviceManager.pollIntervalMs));
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Devices are the same if they have the same GUID, or (without one) the same address.
+ */
+function isSameDevice(a: WirelessDevice, b: WirelessDevice): boolean {
+    return a.guid && b.guid ? a.guid === b.guid : a.address === b.address;
+}
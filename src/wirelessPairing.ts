@@ -0,0 +1,140 @@
+import * as crypto from 'crypto';
+
+/**
+ * Helpers for wireless debugging: mDNS service lists, `adb pair` results, the QR code contents
+ * the "Pair device with QR code" scanner expects (Android 11+), and the device's Wi-Fi address
+ * for `adb tcpip`.
+ */
+
+/**
+ * mDNS service type a device advertises while its pairing dialog is open.
+ */
+export const PAIRING_SERVICE_TYPE = '_adb-tls-pairing._tcp';
+
+/**
+ * mDNS service type a paired device advertises for `adb connect`.
+ */
+export const CONNECT_SERVICE_TYPE = '_adb-tls-connect._tcp';
+
+/**
+ * Service names of the QR codes this extension shows start with this.
+ */
+const qrServicePrefix = 'adb-pro-';
+
+/**
+ * A service found by the ADB server's mDNS discovery.
+ */
+export interface MdnsService {
+    /**
+     * Instance name: the QR code's service name while pairing, or adb-<serial>-<id> for connect services.
+     */
+    name: string;
+    /**
+     * Service type without the trailing dot, e.g. _adb-tls-connect._tcp.
+     */
+    type: string;
+    /**
+     * ip:port
+     */
+    address: string;
+}
+
+/**
+ * Parses `adb mdns services` (or the host:mdns:services reply): one tab-separated
+ * `name type address` line per service.
+ */
+export function parseMdnsServices(output: string): MdnsService[] {
+    const services: MdnsService[] = [];
+    for (const line of output.split('\n')) {
+        const parts = line.trim().split(/\t+|\s{2,}/);
+        if (parts.length < 3 || !/^_[\w-]+\._(tcp|udp)\.?$/.test(parts[1])) {
+            // "List of discovered mdns services" and blank lines
+            continue;
+        }
+        services.push({ name: parts[0], type: parts[1].replace(/\.$/, ''), address: parts[2] });
+    }
+    return services;
+}
+
+/**
+ * Returns the host part of ip:port (IPv6 addresses may be written as [addr]:port).
+ */
+export function hostOf(address: string): string {
+    const bracketed = /^\[(.+)\]:\d+$/.exec(address);
+    if (bracketed) {
+        return bracketed[1];
+    }
+    const index = address.lastIndexOf(':');
+    return index > 0 && /^\d+$/.test(address.substring(index + 1)) ? address.substring(0, index) : address;
+}
+
+/**
+ * Checks the reply of `adb pair`.
+ * @returns The device's GUID (the adb-<serial>-<id> name it advertises for connecting), if reported.
+ * @throws Error with adb's message if pairing failed.
+ */
+export function parsePairResult(output: string): { guid?: string } {
+    const text = output.trim();
+    if (!/^Successfully paired/m.test(text)) {
+        throw new Error(text || 'Pairing failed');
+    }
+    return { guid: /\[guid=([^\]]+)\]/.exec(text)?.[1] };
+}
+
+/**
+ * Credentials for pairing with a QR code. The device scans them and then advertises a pairing
+ * service named after `name`, which the host pairs with using `password`.
+ */
+export interface PairingCredentials {
+    name: string;
+    password: string;
+}
+
+/**
+ * Creates random credentials for a QR pairing session.
+ */
+export function createPairingCredentials(): PairingCredentials {
+    const random = (length: number) => Array.from(crypto.randomBytes(length), byte => 'abcdefghijkmnpqrstuvwxyz23456789'[byte % 32]).join('');
+    return { name: `${qrServicePrefix}${random(6)}`, password: random(10) };
+}
+
+/**
+ * Returns the text to encode in the QR code, in the Wi-Fi network format that Android's scanner reads.
+ */
+export function createPairingQrText(credentials: PairingCredentials): string {
+    // Special characters would need escaping; the generated credentials never contain them
+    return `WIFI:T:ADB;S:${credentials.name};P:${credentials.password};;`;
+}
+
+/**
+ * Finds the device's Wi-Fi IPv4 address in the output of `ip route` and/or `ip addr show wlan0`.
+ */
+export function parseWifiAddress(output: string): string | undefined {
+    // ip route: "192.168.1.0/24 dev wlan0 proto kernel scope link src 192.168.1.42"
+    const route = /\bdev wlan\d+\b.*\bsrc (\d{1,3}(?:\.\d{1,3}){3})/.exec(output);
+    if (route) {
+        return route[1];
+    }
+    // ip addr: "    inet 192.168.1.42/24 brd 192.168.1.255 scope global wlan0"
+    const inet = /^\s*inet (\d{1,3}(?:\.\d{1,3}){3})\/\d+/m.exec(output);
+    return inet && !inet[1].startsWith('127.') ? inet[1] : undefined;
+}
+
+/**
+ * Picks the services worth offering in the "Discovered" list: devices that can be connected to
+ * but are not connected yet, and pairing dialogs open on a device. Pairing services of this
+ * extension's own QR codes are left out, since the QR panel pairs with them.
+ * @param connectedIds Ids of the devices the server is connected to.
+ */
+export function selectDiscoveredServices(services: MdnsService[], connectedIds: string[]): MdnsService[] {
+    const connected = new Set(connectedIds);
+    return services.filter(service => {
+        if (service.type === PAIRING_SERVICE_TYPE) {
+            return !service.name.startsWith(qrServicePrefix);
+        }
+        // The server names devices it connected to through mDNS after the service
+        return service.type === CONNECT_SERVICE_TYPE
+            && !connected.has(service.address)
+            && !connected.has(`${service.name}.${service.type}`);
+    });
+}